@@ -0,0 +1,68 @@
+// 生成大规模机房布局，用于验证实例化渲染、细节层级和拾取的性能
+//
+//   node scripts/generate-layout.mjs [--racks 2000] [--servers 5] [--per-row 40] [--out layout-large.json]
+//
+// 机柜按排沿 z 轴排列，排间距 3 个单位；生成的文件可通过 ?layout=<url> 加载。
+import { writeFileSync } from 'node:fs';
+
+const args = process.argv.slice(2);
+const option = (name, fallback) => {
+  const index = args.indexOf(`--${name}`);
+  return index >= 0 ? args[index + 1] : fallback;
+};
+
+const rackCount = Number(option('racks', 2000));
+const serversPerRack = Number(option('servers', 5));
+const perRow = Number(option('per-row', 40));
+const out = option('out', 'layout-large.json');
+
+const brands = [
+  { brand: 'DELL', model: 'PowerEdge R740' },
+  { brand: 'HP', model: 'ProLiant DL380 Gen10' },
+  { brand: '曙光', model: 'I620-G30' },
+  { brand: '浪潮', model: 'NF5280M6' },
+  { brand: '华为', model: 'FusionServer 2288H V5' },
+];
+
+const ROW_SPACING = 3;
+const RACK_SPACING = 1;
+const SERVER_U = 2;
+
+const rowCount = Math.ceil(rackCount / perRow);
+const rows = [];
+for (let r = 0; r < rowCount; r++) {
+  const x = (r - (rowCount - 1) / 2) * ROW_SPACING;
+  const racks = [];
+  for (let i = 0; i < perRow && r * perRow + i < rackCount; i++) {
+    const index = r * perRow + i;
+    const rackId = `rack${index}`;
+    racks.push({
+      id: rackId,
+      name: `R${r + 1}-${String(i + 1).padStart(2, '0')}`,
+      position: { x, z: (i - (perRow - 1) / 2) * RACK_SPACING },
+      rotation: 0,
+      heightU: serversPerRack * SERVER_U,
+      devices: Array.from({ length: serversPerRack }, (_, s) => ({
+        id: `${rackId}-server${s}`,
+        slot: s * SERVER_U + 1,
+        sizeU: SERVER_U,
+        ...brands[(index + s) % brands.length],
+      })),
+    });
+  }
+  rows.push({ id: `row-${r + 1}`, name: `第${r + 1}排`, racks });
+}
+
+const layout = {
+  version: 1,
+  rooms: [{
+    id: 'room-large',
+    name: `大规模机房（${rackCount}个机柜）`,
+    width: rowCount * ROW_SPACING + 6,
+    depth: perRow * RACK_SPACING + 10,
+    rows,
+  }],
+};
+
+writeFileSync(out, JSON.stringify(layout));
+console.log(`已生成 ${out}: ${rackCount} 个机柜，${rackCount * serversPerRack} 台服务器`);
@@ -0,0 +1,136 @@
+// 本地遥测模拟服务，用于联调 REST 与 WebSocket 数据源
+//
+//   node scripts/mock-telemetry-server.mjs [--port 8081] [--layout src/layouts/default.json] [--drop 0.2]
+//
+// GET /telemetry 返回全部服务器的最新数据，ws://localhost:8081/stream 每秒推送一次。
+// --drop 指定每轮随机丢弃的服务器比例，用于验证“数据过期”提示。
+import { createServer } from 'node:http';
+import { createHash } from 'node:crypto';
+import { readFileSync } from 'node:fs';
+
+const args = process.argv.slice(2);
+const option = (name, fallback) => {
+  const index = args.indexOf(`--${name}`);
+  return index >= 0 ? args[index + 1] : fallback;
+};
+
+const port = Number(option('port', 8081));
+const dropRate = Number(option('drop', 0));
+const layout = JSON.parse(readFileSync(option('layout', 'src/layouts/default.json'), 'utf8'));
+const serverIds = layout.rooms.flatMap(room =>
+  room.rows.flatMap(row => row.racks.flatMap(rack => rack.devices.map(device => device.id)))
+);
+
+// 故意使用与 ServerData 不同的字段名，以验证字段映射
+const servers = new Map(serverIds.map(id => [id, {
+  host: id,
+  temp_c: 25 + Math.random() * 20,
+  cpu: { pct: 20 + Math.random() * 60 },
+  mem: { pct: 30 + Math.random() * 50 },
+  power: { watts: 0 },
+  fan: { rpm: 0 },
+  airflow: { inlet_c: 19 + Math.random() * 6, outlet_c: 0 },
+}]));
+
+const clamp = (value, min, max) => Math.max(min, Math.min(max, value));
+
+function step() {
+  servers.forEach(server => {
+    server.temp_c = clamp(server.temp_c + (Math.random() - 0.5) * 2, 25, 45);
+    server.cpu.pct = clamp(server.cpu.pct + (Math.random() - 0.5) * 10, 20, 95);
+    server.mem.pct = clamp(server.mem.pct + (Math.random() - 0.5) * 5, 30, 95);
+    server.airflow.inlet_c = clamp(server.airflow.inlet_c + (Math.random() - 0.5) * 0.4, 17, 30);
+    // 功耗、风扇转速和出风温度随负载与温度变化
+    server.power.watts = Math.round(150 + server.cpu.pct * 3.5);
+    server.fan.rpm = Math.round(3000 + Math.max(0, server.temp_c - 25) * 400);
+    server.airflow.outlet_c = server.airflow.inlet_c + 5 + server.cpu.pct * 0.12;
+  });
+}
+step();
+
+function snapshot() {
+  const ts = new Date().toISOString();
+  return {
+    data: {
+      servers: [...servers.values()]
+        .filter(() => Math.random() >= dropRate)
+        .map(server => ({ ...server, ts })),
+    },
+  };
+}
+
+const http = createServer((request, response) => {
+  response.setHeader('Access-Control-Allow-Origin', '*');
+  response.setHeader('Access-Control-Allow-Headers', 'Authorization, Accept');
+  if (request.method === 'OPTIONS') {
+    response.writeHead(204).end();
+    return;
+  }
+  if (request.url?.startsWith('/telemetry')) {
+    console.log(`GET /telemetry authorization=${request.headers.authorization ?? '-'}`);
+    response.writeHead(200, { 'Content-Type': 'application/json' });
+    response.end(JSON.stringify(snapshot()));
+    return;
+  }
+  response.writeHead(404).end();
+});
+
+// 最小化的 WebSocket 实现：仅完成握手并发送文本帧
+const clients = new Set();
+
+function encodeFrame(text) {
+  const payload = Buffer.from(text);
+  let header;
+  if (payload.length < 126) {
+    header = Buffer.from([0x81, payload.length]);
+  } else if (payload.length < 65536) {
+    header = Buffer.alloc(4);
+    header[0] = 0x81;
+    header[1] = 126;
+    header.writeUInt16BE(payload.length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x81;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(payload.length), 2);
+  }
+  return Buffer.concat([header, payload]);
+}
+
+http.on('upgrade', (request, socket) => {
+  if (!request.url?.startsWith('/stream')) {
+    socket.destroy();
+    return;
+  }
+  const accept = createHash('sha1')
+    .update(request.headers['sec-websocket-key'] + '258EAFA5-E914-47DA-95CA-C5AB0DC85B11')
+    .digest('base64');
+  socket.write([
+    'HTTP/1.1 101 Switching Protocols',
+    'Upgrade: websocket',
+    'Connection: Upgrade',
+    `Sec-WebSocket-Accept: ${accept}`,
+    '',
+    '',
+  ].join('\r\n'));
+  console.log(`WebSocket 已连接 ${request.url}`);
+  clients.add(socket);
+  socket.write(encodeFrame(JSON.stringify(snapshot())));
+
+  socket.on('data', data => {
+    // 收到关闭帧时结束连接
+    if ((data[0] & 0x0f) === 0x8) socket.end();
+  });
+  socket.on('close', () => clients.delete(socket));
+  socket.on('error', () => clients.delete(socket));
+});
+
+setInterval(() => {
+  step();
+  const frame = encodeFrame(JSON.stringify(snapshot()));
+  clients.forEach(socket => socket.write(frame));
+}, 1000);
+
+http.listen(port, () => {
+  console.log(`遥测模拟服务已启动: http://localhost:${port}/telemetry, ws://localhost:${port}/stream`);
+});
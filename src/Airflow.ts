@@ -0,0 +1,317 @@
+import { AlertEngine } from './AlertEngine';
+import { DEFAULT_RACK_COOLING_KW, computeRackCapacity } from './Capacity';
+import { RACK_FOOTPRINT, RackLayout, RoomLayout, TopologyLinkLayout, getRoomRacks } from './Layout';
+import { ServerData, ServerStatus, StatusLevel } from './ServerStatus';
+import { TopologyModel } from './Topology';
+
+// 精密空调送风温度（°C）
+export const SUPPLY_TEMPERATURE = 18;
+
+// 空调额定制冷量为其所供机柜制冷需求之和的倍数（预留余量）
+const CRAC_CAPACITY_MARGIN = 1.25;
+
+// 空调超载时送风温度的升高：每超出额定制冷量 100% 升高的温度
+const OVERLOAD_RISE = 20;
+
+// 指定空调全部失效、由其他空调跨区送风时，每米距离造成的冷风损失与混合温升
+const FALLBACK_RISE_PER_M = 0.5;
+
+// 机房内没有可用空调时进风温度的升高
+const NO_COOLING_RISE = 20;
+
+// 没有实测进/出风温度时按热负荷估算排风温升（°C/kW）
+const EXHAUST_RISE_PER_KW = 3;
+
+// 机柜进风口距其他机柜排风口在该距离内且迎着排风时，部分热风回流到进风侧
+const RECIRCULATION_RANGE = 2.5;
+const RECIRCULATION_SHARE = 0.3;
+const MAX_RECIRCULATION = 0.5;
+
+// 回流与排风温度相互依赖，迭代求解的次数
+const RECIRCULATION_ITERATIONS = 3;
+
+export interface AirflowPoint {
+  x: number;
+  z: number;
+}
+
+export interface CracAirflow {
+  id: string;
+  name: string;
+  position: AirflowPoint;
+  failed: boolean;
+  capacityKw: number;
+  loadKw: number;
+  utilization: number; // 负载 / 额定制冷量，超过 1 为超载
+  supplyTemperature: number;
+}
+
+export interface RackAirflow {
+  rackId: string;
+  name: string;
+  position: AirflowPoint;
+  front: AirflowPoint; // 正面（进风侧）朝向，背面为排风侧
+  cracIds: string[]; // 当前为机柜送风的空调
+  fallback: boolean; // 指定的空调全部失效，由其他空调跨区送风
+  heatLoadKw: number;
+  recirculation: number; // 进风中回流热风的比例（0-1）
+  inletTemperature: number; // 有实测值时为实测进风温度加上故障场景带来的温升
+  inletDelta: number; // 相对于全部空调正常运行时的进风温升
+  exhaustTemperature: number;
+}
+
+export interface ServerAirflowRisk {
+  serverId: string;
+  rackId: string;
+  inletTemperature: number;
+  level: Exclude<StatusLevel, 'normal'>;
+  newlyCrossed: boolean; // 全部空调正常时未达到该等级
+}
+
+export interface AirflowEstimate {
+  cracs: CracAirflow[];
+  racks: RackAirflow[];
+  risks: ServerAirflowRisk[]; // 按严重程度和进风温度从高到低排列
+  scenario: boolean; // 是否有空调或冷却管路处于故障状态
+}
+
+interface RackInput {
+  layout: RackLayout;
+  position: AirflowPoint;
+  front: AirflowPoint;
+  supplies: { link: TopologyLinkLayout; cracIds: string[] }[]; // 冷却连接及其上游的空调
+  designated: string[]; // 拓扑中指定为该机柜送风的空调
+  heatLoadKw: number;
+  coolingKw: number;
+  servers: ServerData[]; // 已上报数据且未过期的服务器
+  exhaustRise: number;
+}
+
+interface AirflowSolution {
+  cracs: Map<string, CracAirflow>;
+  cracIds: Map<string, string[]>;
+  fallback: Set<string>;
+  inlet: Map<string, number>;
+  recirculation: Map<string, number>;
+}
+
+const RISK_ORDER: Record<StatusLevel, number> = { normal: 0, warning: 1, error: 2 };
+
+// 机柜正面朝向，与场景中机柜的旋转一致（0 度时朝向 +z）
+export function getRackFront(rack: RackLayout): AirflowPoint {
+  const rotation = ((rack.rotation ?? 0) * Math.PI) / 180;
+  return { x: Math.sin(rotation), z: Math.cos(rotation) };
+}
+
+function distance(a: AirflowPoint, b: AirflowPoint): number {
+  return Math.hypot(a.x - b.x, a.z - b.z);
+}
+
+function average(values: number[]): number | null {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+}
+
+// 沿冷却连接向上游查找为该连接送风的空调
+function findCracs(topology: TopologyModel, link: TopologyLinkLayout, visited: Set<string> = new Set()): string[] {
+  if (topology.getNode(link.from)?.kind === 'crac') return [link.from];
+  if (visited.has(link.from)) return [];
+  visited.add(link.from);
+  return topology.getRackFeeds(link.from)
+    .filter(feed => feed.type === 'cooling')
+    .flatMap(feed => findCracs(topology, feed, visited));
+}
+
+/**
+ * 简化的气流模型：空调向指定机柜的冷通道送风，机柜从正面进风、背面排风，
+ * 排风温度由服务器实测进/出风温度（缺失时由热负荷）得出，邻近机柜的排风会回流到进风侧。
+ * 分别求解全部空调正常和当前拓扑故障状态下的进风温度，以二者之差修正实测值，
+ * 估算空调故障后各服务器的进风温度及会越过的告警阈值
+ */
+export function estimateAirflow(
+  room: RoomLayout,
+  topology: TopologyModel,
+  serverStatus: ServerStatus,
+  alertEngine: AlertEngine
+): AirflowEstimate {
+  const cracNodes = topology.getNodes().filter(node => node.kind === 'crac');
+  const racks: RackInput[] = getRoomRacks(room).map(rack => {
+    const capacity = computeRackCapacity(rack, serverStatus);
+    const servers = rack.devices
+      .map(device => serverStatus.getServerData(device.id))
+      .filter((data): data is ServerData => !!data && data.lastUpdate > 0 && !data.stale);
+    const inlet = average(servers.flatMap(data => (data.inletTemperature !== undefined ? [data.inletTemperature] : [])));
+    const outlet = average(servers.flatMap(data => (data.outletTemperature !== undefined ? [data.outletTemperature] : [])));
+    const supplies = topology.getRackFeeds(rack.id)
+      .filter(link => link.type === 'cooling')
+      .map(link => ({ link, cracIds: findCracs(topology, link) }));
+    return {
+      layout: rack,
+      position: rack.position,
+      front: getRackFront(rack),
+      supplies,
+      designated: [...new Set(supplies.flatMap(supply => supply.cracIds))],
+      heatLoadKw: capacity.heatLoadKw,
+      coolingKw: capacity.coolingKw,
+      servers,
+      exhaustRise: inlet !== null && outlet !== null
+        ? Math.max(0, outlet - inlet)
+        : capacity.heatLoadKw * EXHAUST_RISE_PER_KW,
+    };
+  });
+
+  // 额定制冷量按拓扑中指定给各空调的机柜制冷需求计算，与故障状态无关
+  const designedKw = new Map<string, number>(cracNodes.map(node => [node.id, 0]));
+  racks.forEach(rack => {
+    rack.designated.forEach(id => {
+      designedKw.set(id, (designedKw.get(id) ?? 0) + rack.coolingKw / rack.designated.length);
+    });
+  });
+
+  const solve = (withFailures: boolean): AirflowSolution => {
+    const isCracFailed = (id: string) => withFailures && topology.getState(id)?.status === 'failed';
+    const working = cracNodes.filter(node => !isCracFailed(node.id));
+    const solution: AirflowSolution = {
+      cracs: new Map(),
+      cracIds: new Map(),
+      fallback: new Set(),
+      inlet: new Map(),
+      recirculation: new Map(),
+    };
+
+    // 指定的冷却管路和空调正常时由其送风，否则由最近的可用空调跨区送风
+    const penalty = new Map<string, number>();
+    racks.forEach(rack => {
+      const id = rack.layout.id;
+      let cracIds = withFailures
+        ? [...new Set(rack.supplies
+          .filter(supply => topology.getState(supply.link.id)?.status !== 'failed')
+          .flatMap(supply => supply.cracIds)
+          .filter(crac => !isCracFailed(crac)))]
+        : rack.designated;
+      penalty.set(id, 0);
+      if (cracIds.length === 0 && working.length > 0) {
+        const nearest = working.reduce((best, node) =>
+          distance(node.position, rack.position) < distance(best.position, rack.position) ? node : best);
+        cracIds = [nearest.id];
+        if (rack.designated.length > 0) {
+          solution.fallback.add(id);
+          penalty.set(id, distance(nearest.position, rack.position) * FALLBACK_RISE_PER_M);
+        }
+      }
+      solution.cracIds.set(id, cracIds);
+    });
+
+    cracNodes.forEach(node => {
+      const capacityKw = Math.max(designedKw.get(node.id) ?? 0, DEFAULT_RACK_COOLING_KW) * CRAC_CAPACITY_MARGIN;
+      const loadKw = racks.reduce((sum, rack) => {
+        const cracIds = solution.cracIds.get(rack.layout.id)!;
+        return cracIds.includes(node.id) ? sum + rack.heatLoadKw / cracIds.length : sum;
+      }, 0);
+      const utilization = loadKw / capacityKw;
+      solution.cracs.set(node.id, {
+        id: node.id,
+        name: node.name ?? node.id,
+        position: node.position,
+        failed: isCracFailed(node.id),
+        capacityKw,
+        loadKw,
+        utilization,
+        supplyTemperature: SUPPLY_TEMPERATURE + Math.max(0, utilization - 1) * OVERLOAD_RISE,
+      });
+    });
+
+    // 送达机柜正面的冷风温度
+    const supply = new Map<string, number>();
+    racks.forEach(rack => {
+      const id = rack.layout.id;
+      const temperatures = solution.cracIds.get(id)!.map(crac => solution.cracs.get(crac)!.supplyTemperature);
+      supply.set(id, (average(temperatures) ?? SUPPLY_TEMPERATURE + NO_COOLING_RISE) + penalty.get(id)!);
+    });
+
+    // 进风口与其他机柜排风口的相对位置决定回流比例
+    const sources = new Map<string, { rack: RackInput; share: number }[]>();
+    racks.forEach(rack => {
+      const intake = {
+        x: rack.position.x + rack.front.x * RACK_FOOTPRINT.depth / 2,
+        z: rack.position.z + rack.front.z * RACK_FOOTPRINT.depth / 2,
+      };
+      const list: { rack: RackInput; share: number }[] = [];
+      racks.forEach(other => {
+        if (other === rack) return;
+        const exhaust = {
+          x: other.position.x - other.front.x * RACK_FOOTPRINT.depth / 2,
+          z: other.position.z - other.front.z * RACK_FOOTPRINT.depth / 2,
+        };
+        const gap = distance(intake, exhaust);
+        if (gap >= RECIRCULATION_RANGE || gap === 0) return;
+        // 排风方向（正面的反方向）需指向该进风口
+        const facing = (-other.front.x * (intake.x - exhaust.x) - other.front.z * (intake.z - exhaust.z)) / gap;
+        if (facing > 0.5) list.push({ rack: other, share: RECIRCULATION_SHARE * (1 - gap / RECIRCULATION_RANGE) });
+      });
+      const total = list.reduce((sum, item) => sum + item.share, 0);
+      const scale = total > MAX_RECIRCULATION ? MAX_RECIRCULATION / total : 1;
+      list.forEach(item => (item.share *= scale));
+      sources.set(rack.layout.id, list);
+      solution.recirculation.set(rack.layout.id, total * scale);
+    });
+
+    racks.forEach(rack => solution.inlet.set(rack.layout.id, supply.get(rack.layout.id)!));
+    for (let iteration = 0; iteration < RECIRCULATION_ITERATIONS; iteration++) {
+      const next = new Map<string, number>();
+      racks.forEach(rack => {
+        const id = rack.layout.id;
+        const list = sources.get(id)!;
+        const mixed = list.reduce((sum, item) =>
+          sum + item.share * (solution.inlet.get(item.rack.layout.id)! + item.rack.exhaustRise), 0);
+        next.set(id, (1 - solution.recirculation.get(id)!) * supply.get(id)! + mixed);
+      });
+      solution.inlet = next;
+    }
+    return solution;
+  };
+
+  const baseline = solve(false);
+  const current = solve(true);
+
+  const risks: ServerAirflowRisk[] = [];
+  const rackResults: RackAirflow[] = racks.map(rack => {
+    const id = rack.layout.id;
+    const baselineInlet = baseline.inlet.get(id)!;
+    const inletDelta = current.inlet.get(id)! - baselineInlet;
+    const measured = average(rack.servers.flatMap(data => (data.inletTemperature !== undefined ? [data.inletTemperature] : [])));
+    const inletTemperature = (measured ?? baselineInlet) + inletDelta;
+
+    rack.servers.forEach(data => {
+      const before = data.inletTemperature ?? measured ?? baselineInlet;
+      const after = before + inletDelta;
+      const level = alertEngine.getLevel('inletTemperature', after, data);
+      if (level === 'normal') return;
+      risks.push({
+        serverId: data.id,
+        rackId: id,
+        inletTemperature: after,
+        level,
+        newlyCrossed: RISK_ORDER[level] > RISK_ORDER[alertEngine.getLevel('inletTemperature', before, data)],
+      });
+    });
+
+    return {
+      rackId: id,
+      name: rack.layout.name ?? id,
+      position: rack.position,
+      front: rack.front,
+      cracIds: current.cracIds.get(id)!,
+      fallback: current.fallback.has(id),
+      heatLoadKw: rack.heatLoadKw,
+      recirculation: current.recirculation.get(id)!,
+      inletTemperature,
+      inletDelta,
+      exhaustTemperature: inletTemperature + rack.exhaustRise,
+    };
+  });
+
+  risks.sort((a, b) => RISK_ORDER[b.level] - RISK_ORDER[a.level] || b.inletTemperature - a.inletTemperature);
+  const scenario = cracNodes.some(node => topology.getState(node.id)?.status === 'failed') ||
+    racks.some(rack => rack.supplies.some(supply => topology.getState(supply.link.id)?.status === 'failed'));
+  return { cracs: [...current.cracs.values()], racks: rackResults, risks, scenario };
+}
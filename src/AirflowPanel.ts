@@ -0,0 +1,182 @@
+import { DataCenter } from './DataCenter';
+import { ServerStatus } from './ServerStatus';
+import { AirflowEstimate } from './Airflow';
+import { formatMetric } from './Metrics';
+import { palette } from './Palette';
+import { i18n, t } from './I18n';
+import { escapeHtml } from './Html';
+
+// 面板刷新间隔（毫秒）
+const REFRESH_MS = 2000;
+
+/**
+ * 气流模拟面板：列出各空调的负载和送风温度，可模拟单台空调故障（what-if），
+ * 查看各机柜估算的进风温度以及进风温度将越过告警阈值的服务器
+ */
+export class AirflowPanel {
+  private element: HTMLElement;
+  private content: HTMLElement;
+  private visible = false;
+  private lastRefresh = 0;
+  private unsubscribers: (() => void)[];
+
+  constructor(
+    container: HTMLElement,
+    private dataCenter: DataCenter,
+    private readonly serverStatus: ServerStatus,
+    private readonly onFocusRack: (rackId: string) => void,
+    private readonly onFocusServer: (serverId: string) => void
+  ) {
+    this.element = document.createElement('div');
+    this.element.id = 'airflow';
+    this.element.style.display = 'none';
+    this.element.innerHTML = `
+      <div style="margin-bottom: 5px;"><small>${t('airflow.hint')}</small></div>
+      <div data-role="content" style="max-height: 60vh; overflow-y: auto;"></div>
+    `;
+    container.appendChild(this.element);
+    this.content = this.element.querySelector('[data-role="content"]') as HTMLElement;
+    this.element.addEventListener('click', this.handleClick.bind(this));
+
+    this.unsubscribers = [
+      this.serverStatus.on('tick', time => {
+        if (this.visible && time - this.lastRefresh >= REFRESH_MS) this.render();
+      }),
+      i18n.on('temperatureUnitChanged', () => {
+        if (this.visible) this.render();
+      }),
+      palette.on('changed', () => {
+        if (this.visible) this.render();
+      }),
+    ];
+  }
+
+  public setVisible(visible: boolean): void {
+    this.visible = visible;
+    this.element.style.display = visible ? 'block' : 'none';
+    this.apply();
+  }
+
+  // 切换机房后在新场景中恢复气流视图
+  public setDataCenter(dataCenter: DataCenter): void {
+    this.dataCenter = dataCenter;
+    this.apply();
+  }
+
+  public dispose(): void {
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.element.remove();
+  }
+
+  private apply(): void {
+    this.dataCenter.setAirflowVisible(this.visible);
+    if (this.visible) this.render();
+  }
+
+  private handleClick(event: MouseEvent): void {
+    const target = event.target as HTMLElement;
+    const action = target.closest<HTMLElement>('[data-action]');
+    if (!action) return;
+
+    switch (action.dataset.action) {
+      case 'toggle-crac': {
+        const id = action.dataset.id!;
+        this.dataCenter.setTopologyFailed(id, !this.dataCenter.isTopologyFailed(id));
+        this.render();
+        break;
+      }
+      case 'focus-rack':
+        if (action.dataset.rackId) this.onFocusRack(action.dataset.rackId);
+        break;
+      case 'focus-server':
+        if (action.dataset.serverId) this.onFocusServer(action.dataset.serverId);
+        break;
+    }
+  }
+
+  private render(): void {
+    this.lastRefresh = Date.now();
+    const estimate = this.dataCenter.getAirflowEstimate();
+    this.content.innerHTML = estimate ? this.renderEstimate(estimate) : '';
+  }
+
+  private renderEstimate(estimate: AirflowEstimate): string {
+    if (estimate.cracs.length === 0) return `<p>${t('airflow.noCracs')}</p>`;
+    const cracNames = new Map(estimate.cracs.map(crac => [crac.id, crac.name]));
+    const rackNames = new Map(estimate.racks.map(rack => [rack.rackId, rack.name]));
+    const warnings = estimate.risks.filter(risk => risk.level === 'warning').length;
+    const errors = estimate.risks.length - warnings;
+    const newlyCrossed = estimate.risks.filter(risk => risk.newlyCrossed).length;
+    const racks = [...estimate.racks].sort((a, b) => b.inletTemperature - a.inletTemperature);
+
+    const utilizationColor = (utilization: number) =>
+      palette.statusColor(utilization > 1 ? 'error' : utilization >= 0.9 ? 'warning' : 'normal');
+
+    return `
+      <table style="width: 100%; border-collapse: collapse;">
+        <thead>
+          <tr>
+            <th style="text-align: left;">${t('airflow.crac')}</th>
+            <th style="text-align: left;">${t('airflow.load')}</th>
+            <th style="text-align: left;">${t('airflow.supply')}</th>
+            <th></th>
+          </tr>
+        </thead>
+        <tbody>
+          ${estimate.cracs.map(crac => `
+            <tr>
+              <td>${escapeHtml(crac.name)}${crac.failed ? ` <span style="color: ${palette.statusColor('error')};">${t('airflow.failed')}</span>` : ''}</td>
+              <td style="color: ${utilizationColor(crac.utilization)};">
+                ${i18n.formatNumber(crac.loadKw, 1)}/${i18n.formatNumber(crac.capacityKw, 1)} kW (${i18n.formatNumber(crac.utilization * 100)}%)
+              </td>
+              <td>${crac.failed ? '-' : formatMetric('inletTemperature', crac.supplyTemperature)}</td>
+              <td style="text-align: right;">
+                <button data-action="toggle-crac" data-id="${escapeHtml(crac.id)}">${crac.failed ? t('airflow.restore') : t('airflow.simulateFailure')}</button>
+              </td>
+            </tr>
+          `).join('')}
+        </tbody>
+      </table>
+      <div style="margin: 6px 0;">
+        ${estimate.risks.length === 0
+          ? t('airflow.noRisk')
+          : t('airflow.riskSummary', { warning: warnings, error: errors, newly: newlyCrossed })}
+      </div>
+      <table style="width: 100%; border-collapse: collapse;">
+        <thead>
+          <tr>
+            <th style="text-align: left;">${t('common.rack')}</th>
+            <th style="text-align: left;">${t('airflow.crac')}</th>
+            <th style="text-align: left;">${t('airflow.inlet')}</th>
+            <th style="text-align: left;">${t('airflow.change')}</th>
+            <th style="text-align: left;">${t('airflow.exhaust')}</th>
+          </tr>
+        </thead>
+        <tbody>
+          ${racks.map(rack => `
+            <tr data-action="focus-rack" data-rack-id="${escapeHtml(rack.rackId)}" style="cursor: pointer;">
+              <td>${escapeHtml(rack.name)}</td>
+              <td${rack.fallback ? ` style="color: ${palette.statusColor('warning')};" title="${t('airflow.fallback')}"` : ''}>
+                ${escapeHtml(rack.cracIds.map(id => cracNames.get(id) ?? id).join(t('common.listSeparator'))) || '-'}
+              </td>
+              <td>${formatMetric('inletTemperature', rack.inletTemperature)}</td>
+              <td>${i18n.formatTemperatureDelta(rack.inletDelta)}</td>
+              <td>${formatMetric('outletTemperature', rack.exhaustTemperature)}</td>
+            </tr>
+          `).join('')}
+        </tbody>
+      </table>
+      ${estimate.risks.length > 0 ? `
+        <h4 style="margin: 8px 0 4px 0;">${t('airflow.riskTitle')}</h4>
+        ${estimate.risks.map(risk => `
+          <div data-action="focus-server" data-server-id="${escapeHtml(risk.serverId)}"
+            style="cursor: pointer; padding: 2px 5px; border-left: 3px solid ${palette.statusColor(risk.level)}; margin: 2px 0;">
+            ${escapeHtml(risk.serverId)} <small>(${escapeHtml(rackNames.get(risk.rackId) ?? risk.rackId)})</small>
+            ${formatMetric('inletTemperature', risk.inletTemperature)} · ${t(`status.${risk.level}`)}
+            ${risk.newlyCrossed ? `<small style="color: ${palette.statusColor(risk.level)};">${t('airflow.newlyCrossed')}</small>` : ''}
+          </div>
+        `).join('')}
+      ` : ''}
+    `;
+  }
+}
@@ -0,0 +1,234 @@
+import * as THREE from 'three';
+import { AirflowEstimate, AirflowPoint, CracAirflow, RackAirflow } from './Airflow';
+import { ColorScale, HEAT_COLOR_SCALE, colorFromScale } from './Heatmap';
+import { RACK_FOOTPRINT } from './Layout';
+
+// 粒子颜色对应的温度范围（°C）
+const TEMPERATURE_RANGE: [number, number] = [15, 45];
+
+// 每条气流路径的粒子数和流速（米/秒）
+const PARTICLES_PER_PATH = 24;
+const PARTICLE_SPEED = 1.2;
+
+// 沿路径预先计算的颜色采样数
+const COLOR_SAMPLES = 32;
+
+// 气流高度：地板下送风，机柜中部穿过，回风沿吊顶返回空调顶部
+const UNDERFLOOR_Y = -0.1;
+const RACK_FLOW_Y = 1;
+const CEILING_Y = 2.6;
+const CRAC_TOP_Y = 1.9;
+
+// 冷通道送风地板和热通道排风口距机柜表面的距离
+const AISLE_OFFSET = 0.45;
+
+const UP = new THREE.Vector3(0, 1, 0);
+
+interface FlowPath {
+  points: THREE.Vector3[];
+  lengths: number[]; // 各顶点距起点的累计长度
+  temperatures: number[];
+  colors: THREE.Color[];
+}
+
+const _color = new THREE.Color();
+const _direction = new THREE.Vector3();
+const _matrix = new THREE.Matrix4();
+const _quaternion = new THREE.Quaternion();
+const _position = new THREE.Vector3();
+const _scale = new THREE.Vector3(1, 1, 1);
+
+/**
+ * 气流可视化：粒子从空调经地板下送到机柜正面，穿过机柜从背面排出后沿吊顶回到空调，
+ * 颜色表示估算的空气温度；机柜前后的箭头标出进风和排风方向及温度
+ */
+export class AirflowView extends THREE.Group {
+  private paths: FlowPath[] = [];
+  private pathKey = '';
+  private colorScale: ColorScale = HEAT_COLOR_SCALE;
+  private particles: THREE.Points;
+  private arrows: THREE.InstancedMesh | null = null;
+
+  constructor() {
+    super();
+    const material = new THREE.PointsMaterial({
+      size: 0.08,
+      vertexColors: true,
+      transparent: true,
+      opacity: 0.85,
+      depthWrite: false,
+    });
+    this.particles = new THREE.Points(new THREE.BufferGeometry(), material);
+    this.particles.frustumCulled = false;
+    this.add(this.particles);
+  }
+
+  public dispose(): void {
+    this.particles.geometry.dispose();
+    (this.particles.material as THREE.Material).dispose();
+    this.disposeArrows();
+  }
+
+  /**
+   * 按气流估算结果更新路径和颜色；送风关系变化时重建粒子和箭头
+   */
+  public setEstimate(estimate: AirflowEstimate, colorScale: ColorScale): void {
+    this.colorScale = colorScale;
+    const cracs = new Map(estimate.cracs.map(crac => [crac.id, crac]));
+    const key = estimate.racks.map(rack => `${rack.rackId}:${rack.cracIds.join(',')}`).join('|');
+    if (key !== this.pathKey) {
+      this.pathKey = key;
+      this.paths = estimate.racks.flatMap(rack =>
+        rack.cracIds.map(id => this.createPath(cracs.get(id)!, rack)));
+      this.particles.geometry.dispose();
+      const geometry = new THREE.BufferGeometry();
+      const count = this.paths.length * PARTICLES_PER_PATH;
+      geometry.setAttribute('position', new THREE.BufferAttribute(new Float32Array(count * 3), 3));
+      geometry.setAttribute('color', new THREE.BufferAttribute(new Float32Array(count * 3), 3));
+      this.particles.geometry = geometry;
+      this.createArrows(estimate.racks);
+    } else {
+      let index = 0;
+      estimate.racks.forEach(rack => {
+        rack.cracIds.forEach(id => {
+          this.paths[index++].temperatures = this.getPathTemperatures(cracs.get(id)!, rack);
+        });
+      });
+    }
+    this.paths.forEach(path => this.sampleColors(path));
+    this.updateArrowColors(estimate.racks);
+  }
+
+  // 每帧推进粒子位置
+  public update(time: number): void {
+    const positions = this.particles.geometry.getAttribute('position') as THREE.BufferAttribute | undefined;
+    const colors = this.particles.geometry.getAttribute('color') as THREE.BufferAttribute | undefined;
+    if (!positions || !colors) return;
+
+    this.paths.forEach((path, pathIndex) => {
+      const total = path.lengths[path.lengths.length - 1];
+      const offset = (time / 1000) * PARTICLE_SPEED / total;
+      for (let i = 0; i < PARTICLES_PER_PATH; i++) {
+        const progress = (offset + i / PARTICLES_PER_PATH) % 1;
+        const index = pathIndex * PARTICLES_PER_PATH + i;
+        this.getPointAt(path, progress * total, _position);
+        positions.setXYZ(index, _position.x, _position.y, _position.z);
+        const color = path.colors[Math.min(COLOR_SAMPLES - 1, Math.floor(progress * COLOR_SAMPLES))];
+        colors.setXYZ(index, color.r, color.g, color.b);
+      }
+    });
+    positions.needsUpdate = true;
+    colors.needsUpdate = true;
+  }
+
+  private createPath(crac: CracAirflow, rack: RackAirflow): FlowPath {
+    const at = (point: AirflowPoint, y: number) => new THREE.Vector3(point.x, y, point.z);
+    const offset = (distance: number): AirflowPoint => ({
+      x: rack.position.x + rack.front.x * distance,
+      z: rack.position.z + rack.front.z * distance,
+    });
+    const halfDepth = RACK_FOOTPRINT.depth / 2;
+    const tile = offset(halfDepth + AISLE_OFFSET);
+    const exhaust = offset(-halfDepth - AISLE_OFFSET);
+    const points = [
+      at(crac.position, 0.2),
+      at(crac.position, UNDERFLOOR_Y),
+      at(tile, UNDERFLOOR_Y),
+      at(tile, RACK_FLOW_Y),
+      at(offset(halfDepth), RACK_FLOW_Y),
+      at(offset(-halfDepth), RACK_FLOW_Y),
+      at(exhaust, RACK_FLOW_Y),
+      at(exhaust, CEILING_Y),
+      at(crac.position, CEILING_Y),
+      at(crac.position, CRAC_TOP_Y),
+    ];
+    const lengths = [0];
+    for (let i = 1; i < points.length; i++) {
+      lengths.push(lengths[i - 1] + points[i].distanceTo(points[i - 1]));
+    }
+    return {
+      points,
+      lengths,
+      temperatures: this.getPathTemperatures(crac, rack),
+      colors: Array.from({ length: COLOR_SAMPLES }, () => new THREE.Color()),
+    };
+  }
+
+  // 路径各顶点处的空气温度，与 createPath 的顶点一一对应
+  private getPathTemperatures(crac: CracAirflow, rack: RackAirflow): number[] {
+    const supply = crac.supplyTemperature;
+    const inlet = rack.inletTemperature;
+    const exhaust = rack.exhaustTemperature;
+    // 回风经过吊顶时与机房空气混合，略有降温
+    const returned = exhaust - (exhaust - supply) * 0.2;
+    return [supply, supply, supply, inlet, inlet, exhaust, exhaust, exhaust, returned, returned];
+  }
+
+  private sampleColors(path: FlowPath): void {
+    const total = path.lengths[path.lengths.length - 1];
+    const [min, max] = TEMPERATURE_RANGE;
+    path.colors.forEach((color, sample) => {
+      const temperature = this.getTemperatureAt(path, (sample + 0.5) / COLOR_SAMPLES * total);
+      colorFromScale(Math.max(0, Math.min(1, (temperature - min) / (max - min))), this.colorScale, color);
+    });
+  }
+
+  private getSegment(path: FlowPath, distance: number): { index: number; ratio: number } {
+    let index = 1;
+    while (index < path.lengths.length - 1 && path.lengths[index] < distance) index++;
+    const start = path.lengths[index - 1];
+    const length = path.lengths[index] - start;
+    return { index, ratio: length > 0 ? (distance - start) / length : 0 };
+  }
+
+  private getPointAt(path: FlowPath, distance: number, target: THREE.Vector3): THREE.Vector3 {
+    const { index, ratio } = this.getSegment(path, distance);
+    return target.lerpVectors(path.points[index - 1], path.points[index], ratio);
+  }
+
+  private getTemperatureAt(path: FlowPath, distance: number): number {
+    const { index, ratio } = this.getSegment(path, distance);
+    const from = path.temperatures[index - 1];
+    return from + (path.temperatures[index] - from) * ratio;
+  }
+
+  // 每个机柜两个箭头：正面进风、背面排风，均沿气流方向（正面指向背面）
+  private createArrows(racks: RackAirflow[]): void {
+    this.disposeArrows();
+    if (racks.length === 0) return;
+    const geometry = new THREE.ConeGeometry(0.08, 0.25, 8);
+    const arrows = new THREE.InstancedMesh(geometry, new THREE.MeshBasicMaterial(), racks.length * 2);
+    const halfDepth = RACK_FOOTPRINT.depth / 2;
+    racks.forEach((rack, index) => {
+      _direction.set(-rack.front.x, 0, -rack.front.z);
+      _quaternion.setFromUnitVectors(UP, _direction);
+      [halfDepth + 0.2, -halfDepth - 0.2].forEach((distance, side) => {
+        _position.set(rack.position.x + rack.front.x * distance, RACK_FLOW_Y + 0.3, rack.position.z + rack.front.z * distance);
+        arrows.setMatrixAt(index * 2 + side, _matrix.compose(_position, _quaternion, _scale));
+      });
+    });
+    this.arrows = arrows;
+    this.add(arrows);
+  }
+
+  private updateArrowColors(racks: RackAirflow[]): void {
+    const arrows = this.arrows;
+    if (!arrows) return;
+    const [min, max] = TEMPERATURE_RANGE;
+    const normalize = (temperature: number) => Math.max(0, Math.min(1, (temperature - min) / (max - min)));
+    racks.forEach((rack, index) => {
+      arrows.setColorAt(index * 2, colorFromScale(normalize(rack.inletTemperature), this.colorScale, _color));
+      arrows.setColorAt(index * 2 + 1, colorFromScale(normalize(rack.exhaustTemperature), this.colorScale, _color));
+    });
+    if (arrows.instanceColor) arrows.instanceColor.needsUpdate = true;
+  }
+
+  private disposeArrows(): void {
+    if (!this.arrows) return;
+    this.remove(this.arrows);
+    this.arrows.geometry.dispose();
+    (this.arrows.material as THREE.Material).dispose();
+    this.arrows.dispose();
+    this.arrows = null;
+  }
+}
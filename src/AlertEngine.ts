@@ -0,0 +1,286 @@
+import { EventEmitter } from './EventEmitter';
+import type { ServerData, StatusLevel } from './ServerStatus';
+import { METRIC_KEYS, MetricKey } from './Metrics';
+import { t } from './I18n';
+
+export type AlertSeverity = Exclude<StatusLevel, 'normal'>;
+export type AlertState = 'raised' | 'acknowledged' | 'cleared';
+
+export interface AlertRuleScope {
+  serverIds?: string[];
+  rackIds?: string[];
+  brands?: string[];
+}
+
+/**
+ * 单个指标的告警阈值规则。同一指标有多条规则匹配时，
+ * 作用范围最具体的规则生效（服务器 > 机柜 > 品牌 > 全局）
+ */
+export interface AlertRule {
+  id: string;
+  metric: MetricKey;
+  warning?: number;
+  error?: number;
+  direction?: 'above' | 'below'; // 默认超过阈值告警
+  hysteresis?: number; // 恢复时需回落到阈值以内的幅度
+  minDurationMs?: number; // 持续超过阈值该时长后才告警
+  scope?: AlertRuleScope;
+}
+
+export interface Alert {
+  id: string;
+  serverId: string;
+  rackId: string;
+  ruleId: string;
+  metric: MetricKey;
+  severity: AlertSeverity;
+  state: AlertState;
+  value: number;
+  threshold: number;
+  raisedAt: number;
+  acknowledgedAt?: number;
+  clearedAt?: number;
+}
+
+export interface AlertEngineEvents {
+  alertChanged: [alert: Alert];
+}
+
+type ServerContext = Pick<ServerData, 'id' | 'rackId' | 'brand'>;
+
+interface MetricState {
+  level: StatusLevel;
+  pendingLevel: StatusLevel;
+  pendingSince: number;
+  alert: Alert | null;
+}
+
+export const DEFAULT_ALERT_RULES: AlertRule[] = [
+  { id: 'temperature', metric: 'temperature', warning: 38, error: 42, hysteresis: 1 },
+  { id: 'cpu', metric: 'cpuUsage', warning: 75, error: 90, hysteresis: 3 },
+  { id: 'memory', metric: 'memoryUsage', warning: 75, error: 90, hysteresis: 3 },
+  // 进风温度按 ASHRAE 推荐上限 27°C 告警
+  { id: 'inlet', metric: 'inletTemperature', warning: 27, error: 32, hysteresis: 1 },
+];
+
+const LEVEL_RANK: Record<StatusLevel, number> = { normal: 0, warning: 1, error: 2 };
+const MAX_CLEARED_ALERTS = 100;
+
+export function worstLevel(levels: StatusLevel[]): StatusLevel {
+  return levels.reduce<StatusLevel>(
+    (worst, level) => (LEVEL_RANK[level] > LEVEL_RANK[worst] ? level : worst),
+    'normal'
+  );
+}
+
+export class AlertEngine extends EventEmitter<AlertEngineEvents> {
+  private rules: AlertRule[];
+  private states: Map<string, MetricState> = new Map();
+  private alerts: Map<string, Alert> = new Map();
+  private nextAlertId = 1;
+
+  constructor(rules: AlertRule[] = DEFAULT_ALERT_RULES) {
+    super();
+    this.rules = rules;
+  }
+
+  public getRules(): AlertRule[] {
+    return this.rules;
+  }
+
+  // 查找对服务器某指标生效的规则
+  public getRule(metric: MetricKey, server: ServerContext): AlertRule | undefined {
+    let best: AlertRule | undefined;
+    let bestScore = -1;
+    this.rules.forEach(rule => {
+      if (rule.metric !== metric) return;
+      const score = this.matchScope(rule.scope, server);
+      if (score > bestScore) {
+        best = rule;
+        bestScore = score;
+      }
+    });
+    return best;
+  }
+
+  private matchScope(scope: AlertRuleScope | undefined, server: ServerContext): number {
+    if (!scope) return 0;
+    if (scope.serverIds) return scope.serverIds.includes(server.id) ? 3 : -1;
+    if (scope.rackIds) return scope.rackIds.includes(server.rackId) ? 2 : -1;
+    if (scope.brands) return scope.brands.includes(server.brand) ? 1 : -1;
+    return 0;
+  }
+
+  /**
+   * 按阈值判断指标等级（不考虑滞回和持续时间），用于界面着色
+   */
+  public getLevel(metric: MetricKey, value: number, server: ServerContext): StatusLevel {
+    const rule = this.getRule(metric, server);
+    return rule ? this.classify(rule, value, 'normal') : 'normal';
+  }
+
+  private exceeds(rule: AlertRule, value: number, threshold: number): boolean {
+    return rule.direction === 'below' ? value < threshold : value > threshold;
+  }
+
+  // 当前处于某等级时，只有回落超过滞回幅度才会降级
+  private classify(rule: AlertRule, value: number, current: StatusLevel): StatusLevel {
+    const hysteresis = rule.hysteresis ?? 0;
+    const offset = rule.direction === 'below' ? hysteresis : -hysteresis;
+    for (const level of ['error', 'warning'] as AlertSeverity[]) {
+      const threshold = rule[level];
+      if (threshold === undefined) continue;
+      if (this.exceeds(rule, value, threshold)) return level;
+      if (LEVEL_RANK[current] >= LEVEL_RANK[level] && this.exceeds(rule, value, threshold + offset)) {
+        return level;
+      }
+    }
+    return 'normal';
+  }
+
+  /**
+   * 评估服务器各指标，更新告警并返回服务器的综合状态；未上报的指标不参与评估
+   */
+  public evaluate(server: ServerData, now: number = Date.now()): StatusLevel {
+    const levels = METRIC_KEYS.map(metric => {
+      const rule = this.getRule(metric, server);
+      const value = server[metric];
+      if (!rule || value === undefined) return 'normal';
+
+      const key = `${server.id}:${metric}`;
+      let state = this.states.get(key);
+      if (!state) {
+        state = { level: 'normal', pendingLevel: 'normal', pendingSince: now, alert: null };
+        this.states.set(key, state);
+      }
+
+      const target = this.classify(rule, value, state.level);
+      if (LEVEL_RANK[target] > LEVEL_RANK[state.level]) {
+        // 升级需持续 minDurationMs
+        if (state.pendingLevel !== target) {
+          state.pendingLevel = target;
+          state.pendingSince = now;
+        }
+        if (now - state.pendingSince >= (rule.minDurationMs ?? 0)) {
+          this.setLevel(state, target, server, rule, value, now);
+        }
+      } else {
+        state.pendingLevel = target;
+        state.pendingSince = now;
+        if (target !== state.level) {
+          this.setLevel(state, target, server, rule, value, now);
+        } else if (state.alert) {
+          state.alert.value = value;
+        }
+      }
+      return state.level;
+    });
+    return worstLevel(levels);
+  }
+
+  private setLevel(
+    state: MetricState,
+    level: StatusLevel,
+    server: ServerData,
+    rule: AlertRule,
+    value: number,
+    now: number
+  ): void {
+    state.level = level;
+    const alert = state.alert;
+
+    if (level === 'normal') {
+      if (alert) {
+        alert.state = 'cleared';
+        alert.clearedAt = now;
+        alert.value = value;
+        state.alert = null;
+        this.emit('alertChanged', alert);
+        this.pruneClearedAlerts();
+      }
+      return;
+    }
+
+    const threshold = rule[level] as number;
+    if (alert) {
+      // 告警升级后需重新确认
+      if (LEVEL_RANK[level] > LEVEL_RANK[alert.severity]) {
+        alert.state = 'raised';
+        alert.acknowledgedAt = undefined;
+      }
+      alert.severity = level;
+      alert.threshold = threshold;
+      alert.value = value;
+      this.emit('alertChanged', alert);
+      return;
+    }
+
+    const newAlert: Alert = {
+      id: `alert-${this.nextAlertId++}`,
+      serverId: server.id,
+      rackId: server.rackId,
+      ruleId: rule.id,
+      metric: rule.metric,
+      severity: level,
+      state: 'raised',
+      value,
+      threshold,
+      raisedAt: now,
+    };
+    state.alert = newAlert;
+    this.alerts.set(newAlert.id, newAlert);
+    this.emit('alertChanged', newAlert);
+  }
+
+  private pruneClearedAlerts(): void {
+    const cleared = [...this.alerts.values()].filter(alert => alert.state === 'cleared');
+    cleared.slice(0, Math.max(0, cleared.length - MAX_CLEARED_ALERTS)).forEach(alert => {
+      this.alerts.delete(alert.id);
+    });
+  }
+
+  public acknowledge(alertId: string, now: number = Date.now()): void {
+    const alert = this.alerts.get(alertId);
+    if (!alert || alert.state !== 'raised') return;
+    alert.state = 'acknowledged';
+    alert.acknowledgedAt = now;
+    this.emit('alertChanged', alert);
+  }
+
+  /**
+   * 设备从布局中删除后解除其未结束的告警，并丢弃各指标的评估状态
+   */
+  public removeServer(serverId: string, now: number = Date.now()): void {
+    this.states.forEach((state, key) => {
+      if (!key.startsWith(`${serverId}:`)) return;
+      this.states.delete(key);
+      const alert = state.alert;
+      if (!alert) return;
+      alert.state = 'cleared';
+      alert.clearedAt = now;
+      this.emit('alertChanged', alert);
+    });
+    this.pruneClearedAlerts();
+  }
+
+  public getAlerts(includeCleared: boolean = false): Alert[] {
+    return [...this.alerts.values()].filter(alert => includeCleared || alert.state !== 'cleared');
+  }
+}
+
+export async function loadAlertRules(url: string): Promise<AlertRule[]> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(t('alert.rulesLoadFailed', { url, status: `${response.status} ${response.statusText}` }));
+  }
+  const rules = await response.json();
+  if (!Array.isArray(rules)) {
+    throw new Error(t('alert.rulesNotArray', { url }));
+  }
+  rules.forEach((rule, index) => {
+    if (typeof rule?.id !== 'string' || !METRIC_KEYS.includes(rule.metric)) {
+      throw new Error(t('alert.ruleInvalid', { url, index: index + 1 }));
+    }
+  });
+  return rules as AlertRule[];
+}
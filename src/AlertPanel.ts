@@ -0,0 +1,88 @@
+import { Alert, AlertEngine } from './AlertEngine';
+import { formatMetric } from './Metrics';
+import { i18n, t } from './I18n';
+import { palette } from './Palette';
+import { escapeHtml } from './Html';
+
+/**
+ * 告警面板：列出当前告警，支持确认，点击告警定位到对应服务器
+ */
+export class AlertPanel {
+  private element: HTMLElement;
+  private showCleared = false;
+  private unsubscribe: () => void;
+
+  constructor(
+    container: HTMLElement,
+    private readonly alertEngine: AlertEngine,
+    private readonly onSelect: (alert: Alert) => void
+  ) {
+    this.element = document.createElement('div');
+    this.element.id = 'alerts';
+    container.appendChild(this.element);
+
+    this.element.addEventListener('click', this.handleClick.bind(this));
+    const unsubscribeAlerts = this.alertEngine.on('alertChanged', () => this.render());
+    const unsubscribePalette = palette.on('changed', () => this.render());
+    this.unsubscribe = () => {
+      unsubscribeAlerts();
+      unsubscribePalette();
+    };
+    this.render();
+  }
+
+  public dispose(): void {
+    this.unsubscribe();
+    this.element.remove();
+  }
+
+  private handleClick(event: MouseEvent): void {
+    const target = event.target as HTMLElement;
+    const action = target.closest<HTMLElement>('[data-action]');
+    if (!action) return;
+
+    const alertId = action.dataset.alertId;
+    switch (action.dataset.action) {
+      case 'acknowledge':
+        if (alertId) this.alertEngine.acknowledge(alertId);
+        break;
+      case 'select': {
+        const alert = this.alertEngine.getAlerts(true).find(item => item.id === alertId);
+        if (alert) this.onSelect(alert);
+        break;
+      }
+      case 'toggle-cleared':
+        this.showCleared = !this.showCleared;
+        this.render();
+        break;
+    }
+  }
+
+  private render(): void {
+    const severityRank = (alert: Alert) => (alert.severity === 'error' ? 0 : 1);
+    const alerts = this.alertEngine.getAlerts(this.showCleared).sort((a, b) =>
+      (a.state === 'cleared' ? 1 : 0) - (b.state === 'cleared' ? 1 : 0) ||
+      severityRank(a) - severityRank(b) ||
+      b.raisedAt - a.raisedAt
+    );
+    const activeCount = alerts.filter(alert => alert.state !== 'cleared').length;
+
+    const items = alerts.map(alert => {
+      const color = alert.state === 'cleared' ? palette.statusColor('stale') : palette.statusColor(alert.severity);
+      return `
+        <div data-action="select" data-alert-id="${alert.id}" style="margin: 5px 0; padding: 5px; border-left: 3px solid ${color}; cursor: pointer;">
+          <strong>${escapeHtml(alert.serverId)}</strong> - ${t(`metric.${alert.metric}`)} ${formatMetric(alert.metric, alert.value)}
+          <small>(${t('alert.threshold', { value: formatMetric(alert.metric, alert.threshold) })})</small><br>
+          <small>${i18n.formatTime(alert.raisedAt)} · ${t(`alertState.${alert.state}`)}</small>
+          ${alert.state === 'raised' ? `<button data-action="acknowledge" data-alert-id="${alert.id}" style="margin-left: 5px;">${t('alert.acknowledge')}</button>` : ''}
+        </div>
+      `;
+    }).join('');
+
+    this.element.innerHTML = `
+      <h3 style="margin: 0 0 10px 0;">${t('alert.title', { count: activeCount })}</h3>
+      ${items || `<p>${t('alert.none')}</p>`}
+      <button data-action="toggle-cleared">${this.showCleared ? t('alert.hideCleared') : t('alert.showCleared')}</button>
+    `;
+  }
+}
@@ -0,0 +1,85 @@
+import { ServerStatus, StatusLevel } from './ServerStatus';
+import { t } from './I18n';
+
+// 状态播报的最短间隔，避免读屏软件在数据频繁变化时持续朗读
+const STATUS_ANNOUNCE_INTERVAL_MS = 5000;
+
+// 逐台播报的上限，超过时改为汇总播报
+const MAX_ITEMIZED_CHANGES = 3;
+
+/**
+ * 读屏软件的实时播报区域：视觉上隐藏，内容变化时由读屏软件朗读
+ */
+export class Announcer {
+  private element: HTMLElement;
+  private frame: number | null = null;
+
+  constructor(container: HTMLElement) {
+    this.element = document.createElement('div');
+    this.element.className = 'sr-only';
+    this.element.setAttribute('role', 'status');
+    this.element.setAttribute('aria-live', 'polite');
+    this.element.setAttribute('aria-atomic', 'true');
+    container.appendChild(this.element);
+  }
+
+  // 先清空再在下一帧写入，连续播报相同内容时读屏软件也会重新朗读
+  public announce(text: string): void {
+    if (this.frame !== null) cancelAnimationFrame(this.frame);
+    this.element.textContent = '';
+    this.frame = requestAnimationFrame(() => {
+      this.frame = null;
+      this.element.textContent = text;
+    });
+  }
+
+  public dispose(): void {
+    if (this.frame !== null) cancelAnimationFrame(this.frame);
+    this.element.remove();
+  }
+}
+
+/**
+ * 将服务器状态变化汇总后定期播报：变化少时逐台播报，变化多时只播报各状态数量
+ */
+export class StatusAnnouncer {
+  private pending: Map<string, StatusLevel> = new Map();
+  private lastAnnounce = 0;
+  private enabled = true;
+  private unsubscribers: (() => void)[];
+
+  constructor(private readonly announcer: Announcer, serverStatus: ServerStatus) {
+    this.unsubscribers = [
+      serverStatus.on('statusChanged', data => {
+        if (this.enabled) this.pending.set(data.id, data.status);
+      }),
+      serverStatus.on('tick', time => {
+        if (this.pending.size > 0 && time - this.lastAnnounce >= STATUS_ANNOUNCE_INTERVAL_MS) this.flush(time);
+      }),
+    ];
+  }
+
+  public setEnabled(enabled: boolean): void {
+    this.enabled = enabled;
+    if (!enabled) this.pending.clear();
+  }
+
+  public dispose(): void {
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+  }
+
+  private flush(time: number): void {
+    const changes = [...this.pending];
+    this.pending.clear();
+    this.lastAnnounce = time;
+    if (changes.length <= MAX_ITEMIZED_CHANGES) {
+      this.announcer.announce(changes
+        .map(([server, status]) => t('a11y.statusChanged', { server, status: t(`status.${status}`) }))
+        .join(t('common.listSeparator')));
+      return;
+    }
+    const counts: Record<StatusLevel, number> = { normal: 0, warning: 0, error: 0 };
+    changes.forEach(([, status]) => counts[status]++);
+    this.announcer.announce(t('a11y.statusSummary', { count: changes.length, ...counts }));
+  }
+}
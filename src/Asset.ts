@@ -0,0 +1,324 @@
+import { EventEmitter } from './EventEmitter';
+import { t } from './I18n';
+
+export interface AssetRecord {
+  serverId: string;
+  serialNumber?: string;
+  model?: string;
+  purchaseDate?: string; // YYYY-MM-DD
+  warrantyEnd?: string; // YYYY-MM-DD
+  owner?: string; // 负责团队
+  ip?: string;
+  hostname?: string;
+  os?: string;
+  tags: string[];
+}
+
+export type AssetField = keyof AssetRecord;
+
+export type WarrantyStatus = 'ok' | 'expiring' | 'expired' | 'unknown';
+
+// 字段及 CMDB 导出中常见的列名（比较时忽略大小写和分隔符），显示名称见消息目录 asset.field.<AssetField>
+export const ASSET_FIELDS: { field: AssetField; aliases: string[] }[] = [
+  { field: 'serverId', aliases: ['serverid', 'server', 'id', 'assetid', 'deviceid'] },
+  { field: 'serialNumber', aliases: ['serialnumber', 'serial', 'sn', 'serialno'] },
+  { field: 'model', aliases: ['model', 'modelname'] },
+  { field: 'purchaseDate', aliases: ['purchasedate', 'purchased', 'purchaseon'] },
+  { field: 'warrantyEnd', aliases: ['warrantyend', 'warranty', 'warrantyexpiry', 'warrantyexpiration'] },
+  { field: 'owner', aliases: ['owner', 'team', 'ownerteam', 'department'] },
+  { field: 'ip', aliases: ['ip', 'ipaddress', 'ipv4', 'managementip'] },
+  { field: 'hostname', aliases: ['hostname', 'host', 'fqdn'] },
+  { field: 'os', aliases: ['os', 'operatingsystem', 'osversion'] },
+  { field: 'tags', aliases: ['tags', 'labels'] },
+];
+
+// 距离到期不足该天数视为即将到期
+export const WARRANTY_WARNING_DAYS = 90;
+
+// 导入文件的表格形式：列名 + 每行的字符串值
+export interface AssetTable {
+  headers: string[];
+  rows: Record<string, string>[];
+  rowNumbers: number[]; // 每行在文件中的序号，用于报告错误
+}
+
+export type AssetMapping = Partial<Record<AssetField, string>>;
+
+export interface AssetRowError {
+  row: number; // CSV 为记录行号（表头为第 1 行），JSON 为元素序号，从 1 开始
+  message: string;
+}
+
+export interface AssetImportResult {
+  records: AssetRecord[];
+  errors: AssetRowError[];
+}
+
+const STORAGE_KEY = 'datacenter:assets';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * 解析 CSV 文本，支持引号转义和 CRLF 换行；分隔符按表头自动识别（逗号、分号或制表符）
+ */
+export function parseCsv(text: string): string[][] {
+  const source = text.replace(/^\uFEFF/, '');
+  const headerLine = source.split(/\r?\n/, 1)[0] ?? '';
+  const delimiter = [',', ';', '\t']
+    .map(candidate => ({ candidate, count: headerLine.split(candidate).length }))
+    .sort((a, b) => b.count - a.count)[0].candidate;
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+// 嵌套对象展开为点号分隔的列名，如 network.ip
+function flatten(value: Record<string, unknown>, prefix: string = '', target: Record<string, string> = {}): Record<string, string> {
+  Object.entries(value).forEach(([key, item]) => {
+    const name = prefix ? `${prefix}.${key}` : key;
+    if (item !== null && typeof item === 'object' && !Array.isArray(item)) {
+      flatten(item as Record<string, unknown>, name, target);
+    } else if (Array.isArray(item)) {
+      target[name] = item.join(',');
+    } else if (item !== null && item !== undefined) {
+      target[name] = String(item);
+    }
+  });
+  return target;
+}
+
+/**
+ * 把 CSV 或 JSON 导出文件转换为表格；JSON 可以是对象数组，或包含对象数组的对象（如 { "data": [...] }）
+ */
+export function parseAssetFile(text: string, format: 'csv' | 'json'): AssetTable {
+  if (format === 'csv') {
+    const [headers = [], ...lines] = parseCsv(text);
+    const trimmed = headers.map(header => header.trim());
+    const table: AssetTable = { headers: trimmed, rows: [], rowNumbers: [] };
+    lines.forEach((line, index) => {
+      if (line.every(value => value.trim() === '')) return;
+      table.rows.push(Object.fromEntries(trimmed.map((header, column) => [header, (line[column] ?? '').trim()])));
+      table.rowNumbers.push(index + 2);
+    });
+    return table;
+  }
+
+  const parsed: unknown = JSON.parse(text);
+  const items = Array.isArray(parsed)
+    ? parsed
+    : Object.values(parsed as Record<string, unknown>).find(Array.isArray);
+  if (!Array.isArray(items)) {
+    throw new Error(t('asset.error.noRecords'));
+  }
+  const rows = items.map(item =>
+    item !== null && typeof item === 'object' ? flatten(item as Record<string, unknown>) : {}
+  );
+  const headers = [...new Set(rows.flatMap(row => Object.keys(row)))];
+  return { headers, rows, rowNumbers: rows.map((_row, index) => index + 1) };
+}
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/**
+ * 按列名猜测字段映射；嵌套列（如 network.ip）按最后一段匹配
+ */
+export function suggestMapping(headers: string[]): AssetMapping {
+  const mapping: AssetMapping = {};
+  ASSET_FIELDS.forEach(({ field, aliases }) => {
+    const match = headers.find(header => aliases.includes(normalizeHeader(header))) ??
+      headers.find(header => aliases.includes(normalizeHeader(header.split('.').pop() ?? '')));
+    if (match) mapping[field] = match;
+  });
+  return mapping;
+}
+
+// 接受 YYYY-MM-DD、YYYY/MM/DD 及其他 Date 可解析的格式，统一为 YYYY-MM-DD
+function normalizeDate(value: string): string | null {
+  const match = value.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})/);
+  if (match) {
+    const [year, month, day] = match.slice(1, 4).map(Number);
+    const date = new Date(Date.UTC(year, month - 1, day));
+    // 拒绝 2020-13-45 这类会被 Date 自动进位的日期
+    if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+    return date.toISOString().slice(0, 10);
+  }
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? null : new Date(time).toISOString().slice(0, 10);
+}
+
+const IPV4_PATTERN = /^(25[0-5]|2[0-4]\d|1?\d?\d)(\.(25[0-5]|2[0-4]\d|1?\d?\d)){3}$/;
+
+/**
+ * 按映射把表格行转换为资产记录，逐行校验；有错误的行不导入
+ */
+export function mapAssetRows(
+  table: AssetTable,
+  mapping: AssetMapping,
+  serverIds: Set<string>
+): AssetImportResult {
+  const records: AssetRecord[] = [];
+  const errors: AssetRowError[] = [];
+  if (!mapping.serverId) {
+    return { records, errors: [{ row: 0, message: t('asset.error.serverIdColumnRequired') }] };
+  }
+
+  const seen = new Set<string>();
+  table.rows.forEach((source, index) => {
+    const row = table.rowNumbers[index];
+    const value = (field: AssetField) => {
+      const column = mapping[field];
+      const text = column ? source[column]?.trim() : undefined;
+      return text ? text : undefined;
+    };
+    const rowErrors: string[] = [];
+
+    const serverId = value('serverId');
+    if (!serverId) {
+      rowErrors.push(t('asset.error.serverIdMissing'));
+    } else if (!serverIds.has(serverId)) {
+      rowErrors.push(t('asset.error.serverNotInLayout', { server: serverId }));
+    } else if (seen.has(serverId)) {
+      rowErrors.push(t('asset.error.serverDuplicate', { server: serverId }));
+    }
+
+    const dates: Partial<Record<'purchaseDate' | 'warrantyEnd', string>> = {};
+    (['purchaseDate', 'warrantyEnd'] as const).forEach(field => {
+      const text = value(field);
+      if (!text) return;
+      const date = normalizeDate(text);
+      if (date) {
+        dates[field] = date;
+      } else {
+        rowErrors.push(t('asset.error.invalidDate', { field: t(`asset.field.${field}`), value: text }));
+      }
+    });
+    if (dates.purchaseDate && dates.warrantyEnd && dates.warrantyEnd < dates.purchaseDate) {
+      rowErrors.push(t('asset.error.warrantyBeforePurchase'));
+    }
+
+    const ip = value('ip');
+    if (ip && !IPV4_PATTERN.test(ip) && !ip.includes(':')) {
+      rowErrors.push(t('asset.error.invalidIp', { ip }));
+    }
+
+    if (rowErrors.length > 0 || !serverId) {
+      rowErrors.forEach(message => errors.push({ row, message }));
+      return;
+    }
+    seen.add(serverId);
+    records.push({
+      serverId,
+      serialNumber: value('serialNumber'),
+      model: value('model'),
+      purchaseDate: dates.purchaseDate,
+      warrantyEnd: dates.warrantyEnd,
+      owner: value('owner'),
+      ip,
+      hostname: value('hostname'),
+      os: value('os'),
+      tags: (value('tags') ?? '').split(/[,;|]/).map(tag => tag.trim()).filter(Boolean),
+    });
+  });
+
+  return { records, errors };
+}
+
+export function getWarrantyStatus(record: AssetRecord | undefined, now: number = Date.now()): WarrantyStatus {
+  if (!record?.warrantyEnd) return 'unknown';
+  const end = Date.parse(record.warrantyEnd);
+  if (Number.isNaN(end)) return 'unknown';
+  if (end < now) return 'expired';
+  return end - now < WARRANTY_WARNING_DAYS * DAY_MS ? 'expiring' : 'ok';
+}
+
+export interface AssetStoreEvents {
+  changed: [];
+}
+
+/**
+ * 资产台账：按服务器ID保存资产记录，导入结果持久化到 localStorage
+ */
+export class AssetStore extends EventEmitter<AssetStoreEvents> {
+  private records: Map<string, AssetRecord> = new Map();
+
+  constructor() {
+    super();
+    this.read().forEach(record => this.records.set(record.serverId, record));
+  }
+
+  public get(serverId: string): AssetRecord | undefined {
+    return this.records.get(serverId);
+  }
+
+  public getAll(): AssetRecord[] {
+    return [...this.records.values()];
+  }
+
+  /**
+   * 导入记录：同一服务器的已有记录被覆盖；replace 为 true 时先清空全部记录
+   */
+  public import(records: AssetRecord[], replace: boolean = false): void {
+    if (replace) this.records.clear();
+    records.forEach(record => this.records.set(record.serverId, record));
+    this.write();
+    this.emit('changed');
+  }
+
+  public clear(): void {
+    this.records.clear();
+    this.write();
+    this.emit('changed');
+  }
+
+  private read(): AssetRecord[] {
+    try {
+      const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+      return Array.isArray(stored)
+        ? stored.filter((item: AssetRecord) => typeof item?.serverId === 'string' && Array.isArray(item.tags))
+        : [];
+    } catch (error) {
+      console.warn('读取资产台账失败', error);
+      return [];
+    }
+  }
+
+  private write(): void {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.getAll()));
+    } catch (error) {
+      console.warn('保存资产台账失败', error);
+    }
+  }
+}
@@ -0,0 +1,196 @@
+import {
+  ASSET_FIELDS,
+  AssetImportResult,
+  AssetMapping,
+  AssetStore,
+  AssetTable,
+  mapAssetRows,
+  parseAssetFile,
+  suggestMapping,
+} from './Asset';
+import { t } from './I18n';
+import { escapeHtml } from './Html';
+
+const PREVIEW_ROWS = 10;
+const MAX_LISTED_ERRORS = 50;
+
+/**
+ * 资产导入对话框：读取 CMDB 导出的 CSV/JSON，确认列映射并预览，
+ * 报告有问题的行后把有效记录导入资产台账
+ */
+export class AssetImportDialog {
+  private element: HTMLElement;
+  private mappingElement: HTMLElement;
+  private previewElement: HTMLElement;
+  private table: AssetTable | null = null;
+  private mapping: AssetMapping = {};
+  private result: AssetImportResult | null = null;
+  private serverIds: Set<string>;
+
+  constructor(container: HTMLElement, private readonly assets: AssetStore, serverIds: string[]) {
+    this.serverIds = new Set(serverIds);
+    this.element = document.createElement('div');
+    this.element.id = 'asset-import';
+    this.element.style.display = 'none';
+    this.element.innerHTML = `
+      <h3 style="margin: 0 0 10px 0;">${t('assetImport.title')}</h3>
+      <div style="display: flex; gap: 6px; align-items: center;">
+        <input data-role="file" type="file" accept=".csv,.json,text/csv,application/json" />
+        <select data-role="format">
+          <option value="csv">CSV</option>
+          <option value="json">JSON</option>
+        </select>
+        <button data-action="parse">${t('assetImport.parsePasted')}</button>
+      </div>
+      <textarea data-role="text" rows="4" placeholder="${t('assetImport.pastePlaceholder')}" style="width: 100%; box-sizing: border-box; margin-top: 5px;"></textarea>
+      <div data-role="mapping" style="margin-top: 8px;"></div>
+      <div data-role="preview" style="margin-top: 8px; max-height: 35vh; overflow: auto;"></div>
+      <div style="display: flex; gap: 6px; justify-content: flex-end; margin-top: 8px;">
+        <label><input data-role="replace" type="checkbox" /> ${t('assetImport.replace')}</label>
+        <button data-action="import" disabled>${t('common.import')}</button>
+        <button data-action="close">${t('common.cancel')}</button>
+      </div>
+    `;
+    container.appendChild(this.element);
+    this.mappingElement = this.element.querySelector('[data-role="mapping"]') as HTMLElement;
+    this.previewElement = this.element.querySelector('[data-role="preview"]') as HTMLElement;
+
+    const fileInput = this.element.querySelector('[data-role="file"]') as HTMLInputElement;
+    fileInput.addEventListener('change', () => {
+      const file = fileInput.files?.[0];
+      if (file) this.loadFile(file).catch(error => console.error('读取资产文件失败', error));
+    });
+    this.mappingElement.addEventListener('change', event => {
+      const select = event.target as HTMLSelectElement;
+      const field = select.dataset.field as keyof AssetMapping | undefined;
+      if (!field) return;
+      this.mapping[field] = select.value || undefined;
+      this.updatePreview();
+    });
+    this.element.addEventListener('click', this.handleClick.bind(this));
+  }
+
+  // 布局编辑增删设备后更新可导入的服务器ID
+  public setServerIds(serverIds: string[]): void {
+    this.serverIds = new Set(serverIds);
+  }
+
+  public open(): void {
+    this.element.style.display = 'block';
+  }
+
+  public close(): void {
+    this.element.style.display = 'none';
+    this.table = null;
+    this.result = null;
+    this.mappingElement.innerHTML = '';
+    this.previewElement.innerHTML = '';
+    (this.element.querySelector('[data-role="file"]') as HTMLInputElement).value = '';
+    (this.element.querySelector('[data-role="text"]') as HTMLTextAreaElement).value = '';
+    this.setImportEnabled(false);
+  }
+
+  public dispose(): void {
+    this.element.remove();
+  }
+
+  private handleClick(event: MouseEvent): void {
+    const action = (event.target as HTMLElement).closest<HTMLElement>('[data-action]');
+    switch (action?.dataset.action) {
+      case 'parse':
+        this.parse((this.element.querySelector('[data-role="text"]') as HTMLTextAreaElement).value, this.getFormat());
+        break;
+      case 'import':
+        this.importRecords();
+        break;
+      case 'close':
+        this.close();
+        break;
+    }
+  }
+
+  private getFormat(): 'csv' | 'json' {
+    return (this.element.querySelector('[data-role="format"]') as HTMLSelectElement).value as 'csv' | 'json';
+  }
+
+  private async loadFile(file: File): Promise<void> {
+    const format = file.name.toLowerCase().endsWith('.json') ? 'json' : 'csv';
+    (this.element.querySelector('[data-role="format"]') as HTMLSelectElement).value = format;
+    this.parse(await file.text(), format);
+  }
+
+  private parse(text: string, format: 'csv' | 'json'): void {
+    try {
+      this.table = parseAssetFile(text, format);
+    } catch (error) {
+      this.table = null;
+      this.mappingElement.innerHTML = '';
+      this.previewElement.innerHTML = `<p style="color: #ff4444;">${t('assetImport.parseFailed', { error: escapeHtml(error instanceof Error ? error.message : String(error)) })}</p>`;
+      this.setImportEnabled(false);
+      return;
+    }
+    this.mapping = suggestMapping(this.table.headers);
+    this.renderMapping();
+    this.updatePreview();
+  }
+
+  private renderMapping(): void {
+    if (!this.table) return;
+    const headers = this.table.headers;
+    this.mappingElement.innerHTML = `
+      <div style="display: grid; grid-template-columns: auto 1fr auto 1fr; gap: 4px 8px; align-items: center;">
+        ${ASSET_FIELDS.map(({ field }) => `
+          <label>${t(`asset.field.${field}`)}${field === 'serverId' ? ' *' : ''}</label>
+          <select data-field="${field}">
+            <option value="">${t('assetImport.skipField')}</option>
+            ${headers.map(header => `<option value="${escapeHtml(header)}" ${this.mapping[field] === header ? 'selected' : ''}>${escapeHtml(header)}</option>`).join('')}
+          </select>
+        `).join('')}
+      </div>
+    `;
+  }
+
+  private updatePreview(): void {
+    if (!this.table) return;
+    this.result = mapAssetRows(this.table, this.mapping, this.serverIds);
+    const { records, errors } = this.result;
+    const errorRows = new Set(errors.map(error => error.row)).size;
+
+    const preview = records.slice(0, PREVIEW_ROWS).map(record => `
+      <tr>
+        ${ASSET_FIELDS.map(({ field }) => {
+          const value = record[field];
+          return `<td>${escapeHtml(Array.isArray(value) ? value.join(', ') : value ?? '')}</td>`;
+        }).join('')}
+      </tr>
+    `).join('');
+
+    this.previewElement.innerHTML = `
+      <p>${t('assetImport.summary', { rows: this.table.rows.length, valid: records.length, errors: errorRows })}</p>
+      ${records.length > 0 ? `
+        <table style="border-collapse: collapse; white-space: nowrap;">
+          <thead><tr>${ASSET_FIELDS.map(({ field }) => `<th style="text-align: left;">${t(`asset.field.${field}`)}</th>`).join('')}</tr></thead>
+          <tbody>${preview}</tbody>
+        </table>
+        ${records.length > PREVIEW_ROWS ? `<p><small>${t('assetImport.previewTruncated', { count: PREVIEW_ROWS })}</small></p>` : ''}
+      ` : ''}
+      ${errors.slice(0, MAX_LISTED_ERRORS).map(error =>
+        `<p style="color: #ff4444; margin: 2px 0;">${error.row > 0 ? t('assetImport.rowPrefix', { row: error.row }) : ''}${escapeHtml(error.message)}</p>`
+      ).join('')}
+      ${errors.length > MAX_LISTED_ERRORS ? `<p><small>${t('assetImport.moreErrors', { count: errors.length - MAX_LISTED_ERRORS })}</small></p>` : ''}
+    `;
+    this.setImportEnabled(records.length > 0);
+  }
+
+  private setImportEnabled(enabled: boolean): void {
+    (this.element.querySelector('[data-action="import"]') as HTMLButtonElement).disabled = !enabled;
+  }
+
+  // 只导入校验通过的行
+  private importRecords(): void {
+    if (!this.result || this.result.records.length === 0) return;
+    const replace = (this.element.querySelector('[data-role="replace"]') as HTMLInputElement).checked;
+    this.assets.import(this.result.records, replace);
+    this.close();
+  }
+}
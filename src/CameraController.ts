@@ -0,0 +1,65 @@
+import * as THREE from 'three';
+import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls';
+
+interface CameraTransition {
+  fromPosition: THREE.Vector3;
+  toPosition: THREE.Vector3;
+  fromTarget: THREE.Vector3;
+  toTarget: THREE.Vector3;
+  start: number;
+  duration: number;
+}
+
+/**
+ * 在轨道控制器之上提供相机飞行动画
+ */
+export class CameraController {
+  private transition: CameraTransition | null = null;
+
+  constructor(
+    private readonly camera: THREE.PerspectiveCamera,
+    private readonly controls: OrbitControls
+  ) {
+    // 用户拖动视角时中断飞行动画
+    this.controls.addEventListener('start', () => {
+      this.transition = null;
+    });
+  }
+
+  public getView(): { position: THREE.Vector3; target: THREE.Vector3 } {
+    return { position: this.camera.position.clone(), target: this.controls.target.clone() };
+  }
+
+  public flyTo(position: THREE.Vector3, target: THREE.Vector3, duration: number = 1000): void {
+    this.transition = {
+      fromPosition: this.camera.position.clone(),
+      toPosition: position.clone(),
+      fromTarget: this.controls.target.clone(),
+      toTarget: target.clone(),
+      start: performance.now(),
+      duration,
+    };
+  }
+
+  // 从 normal 方向正对目标，保持一定距离并略微俯视
+  public focusOn(target: THREE.Vector3, normal: THREE.Vector3, distance: number = 2, duration?: number): void {
+    const position = target.clone()
+      .addScaledVector(normal.clone().normalize(), distance)
+      .add(new THREE.Vector3(0, distance * 0.4, 0));
+    this.flyTo(position, target, duration);
+  }
+
+  public update(time: number = performance.now()): void {
+    const transition = this.transition;
+    if (!transition) return;
+
+    const progress = Math.min(1, (time - transition.start) / transition.duration);
+    // 缓入缓出
+    const eased = progress < 0.5 ? 2 * progress * progress : 1 - Math.pow(-2 * progress + 2, 2) / 2;
+    this.camera.position.lerpVectors(transition.fromPosition, transition.toPosition, eased);
+    this.controls.target.lerpVectors(transition.fromTarget, transition.toTarget, eased);
+    if (progress >= 1) {
+      this.transition = null;
+    }
+  }
+}
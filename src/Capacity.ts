@@ -0,0 +1,124 @@
+import { DeviceLayout, RackLayout } from './Layout';
+import { ServerStatus } from './ServerStatus';
+
+export type CapacityMetric = 'space' | 'power' | 'cooling';
+
+export const CAPACITY_METRICS: CapacityMetric[] = ['space', 'power', 'cooling'];
+
+// 布局未给出额定值时使用的默认容量
+export const DEFAULT_RACK_POWER_KW = 5;
+export const DEFAULT_RACK_COOLING_KW = 5;
+export const DEFAULT_POWER_W_PER_U = 250;
+
+// 服务器空载约占额定功耗的30%
+const IDLE_POWER_RATIO = 0.3;
+
+// 连续的空闲U位区间
+export interface SlotRange {
+  slot: number;
+  sizeU: number;
+}
+
+export interface RackCapacity {
+  rackId: string;
+  name: string;
+  totalU: number;
+  usedU: number;
+  freeU: number;
+  largestFreeU: number;
+  freeRanges: SlotRange[];
+  ratedPowerKw: number;
+  drawnPowerKw: number;
+  coolingKw: number;
+  heatLoadKw: number; // 服务器耗电几乎全部转化为热量
+}
+
+export interface PlacementRequest {
+  sizeU: number;
+  powerW: number;
+}
+
+/**
+ * 按U位自下而上列出机柜内的空闲区间
+ */
+export function getFreeRanges(rack: RackLayout): SlotRange[] {
+  const occupied = new Array<boolean>(rack.heightU + 1).fill(false);
+  rack.devices.forEach(device => {
+    for (let u = device.slot; u < device.slot + device.sizeU && u <= rack.heightU; u++) {
+      occupied[u] = true;
+    }
+  });
+
+  const ranges: SlotRange[] = [];
+  for (let u = 1; u <= rack.heightU; u++) {
+    if (occupied[u]) continue;
+    const last = ranges[ranges.length - 1];
+    if (last && last.slot + last.sizeU === u) {
+      last.sizeU++;
+    } else {
+      ranges.push({ slot: u, sizeU: 1 });
+    }
+  }
+  return ranges;
+}
+
+export function getDevicePowerW(device: DeviceLayout): number {
+  return device.powerW ?? device.sizeU * DEFAULT_POWER_W_PER_U;
+}
+
+export function computeRackCapacity(rack: RackLayout, serverStatus: ServerStatus): RackCapacity {
+  const freeRanges = getFreeRanges(rack);
+  const freeU = freeRanges.reduce((sum, range) => sum + range.sizeU, 0);
+
+  // 优先使用实测功耗；只有 CPU 数据时按使用率估算，没有实时数据时保守地按额定功率计算
+  const drawnW = rack.devices.reduce((sum, device) => {
+    const ratedW = getDevicePowerW(device);
+    const data = serverStatus.getServerData(device.id);
+    if (!data || data.lastUpdate === 0 || data.stale) return sum + ratedW;
+    if (data.powerW !== undefined) return sum + data.powerW;
+    return sum + ratedW * (IDLE_POWER_RATIO + (1 - IDLE_POWER_RATIO) * data.cpuUsage / 100);
+  }, 0);
+
+  return {
+    rackId: rack.id,
+    name: rack.name ?? rack.id,
+    totalU: rack.heightU,
+    usedU: rack.heightU - freeU,
+    freeU,
+    largestFreeU: Math.max(0, ...freeRanges.map(range => range.sizeU)),
+    freeRanges,
+    ratedPowerKw: rack.powerKw ?? DEFAULT_RACK_POWER_KW,
+    drawnPowerKw: drawnW / 1000,
+    coolingKw: rack.coolingKw ?? DEFAULT_RACK_COOLING_KW,
+    heatLoadKw: drawnW / 1000,
+  };
+}
+
+// 指定维度的占用率（0-1）
+export function getCapacityUsage(capacity: RackCapacity, metric: CapacityMetric): number {
+  switch (metric) {
+    case 'space':
+      return capacity.usedU / capacity.totalU;
+    case 'power':
+      return Math.min(1, capacity.drawnPowerKw / capacity.ratedPowerKw);
+    case 'cooling':
+      return Math.min(1, capacity.heatLoadKw / capacity.coolingKw);
+  }
+}
+
+export function getCapacityColor(usage: number): number {
+  if (usage >= 0.9) return 0xff4444;
+  if (usage >= 0.7) return 0xffaa00;
+  return 0x44cc44;
+}
+
+/**
+ * 返回能容纳新设备的最低空闲区间：需要足够的连续U位，且电力和制冷余量不小于设备功率
+ */
+export function findPlacement(capacity: RackCapacity, request: PlacementRequest): SlotRange | null {
+  const powerKw = request.powerW / 1000;
+  if (capacity.ratedPowerKw - capacity.drawnPowerKw < powerKw) return null;
+  if (capacity.coolingKw - capacity.heatLoadKw < powerKw) return null;
+  const range = capacity.freeRanges.find(item => item.sizeU >= request.sizeU);
+  return range ? { slot: range.slot, sizeU: request.sizeU } : null;
+}
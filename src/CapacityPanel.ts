@@ -0,0 +1,195 @@
+import { DataCenter } from './DataCenter';
+import { ServerStatus } from './ServerStatus';
+import { CAPACITY_METRICS, CapacityMetric, RackCapacity, getCapacityColor, getCapacityUsage } from './Capacity';
+import { MessageKey, i18n, t } from './I18n';
+import { escapeHtml } from './Html';
+
+type SortKey = 'name' | 'freeU' | 'largestFreeU' | 'power' | 'cooling';
+
+const COLUMNS: { key: SortKey; label: MessageKey }[] = [
+  { key: 'name', label: 'common.rack' },
+  { key: 'freeU', label: 'capacity.column.freeU' },
+  { key: 'largestFreeU', label: 'capacity.column.largestFreeU' },
+  { key: 'power', label: 'capacity.column.power' },
+  { key: 'cooling', label: 'capacity.column.cooling' },
+];
+
+// 表格刷新间隔（毫秒）
+const REFRESH_MS = 2000;
+
+/**
+ * 容量规划面板：按空间、电力、制冷查看各机柜余量，可排序；
+ * 放置助手根据设备尺寸和功率在场景中突出显示可容纳的机柜
+ */
+export class CapacityPanel {
+  private element: HTMLElement;
+  private table: HTMLElement;
+  private summary: HTMLElement;
+  private metric: CapacityMetric = 'space';
+  private sortKey: SortKey = 'freeU';
+  private sortDescending = true;
+  private visible = false;
+  private lastRefresh = 0;
+  private unsubscribe: () => void;
+
+  constructor(
+    container: HTMLElement,
+    private dataCenter: DataCenter,
+    private readonly serverStatus: ServerStatus,
+    private readonly onFocusRack: (rackId: string) => void
+  ) {
+    this.element = document.createElement('div');
+    this.element.id = 'capacity';
+    this.element.style.display = 'none';
+    this.element.innerHTML = `
+      <div style="display: flex; gap: 6px; align-items: center; flex-wrap: wrap;">
+        <label>${t('floorPlan.colorBy')}
+          <select data-role="metric">
+            ${CAPACITY_METRICS.map(metric => `<option value="${metric}">${t(`capacity.${metric}`)}</option>`).join('')}
+          </select>
+        </label>
+        <label>${t('capacity.size')} <input data-role="size" type="number" min="1" value="2" style="width: 40px;" />U</label>
+        <label>${t('capacity.devicePower')} <input data-role="power" type="number" min="0" step="50" value="500" style="width: 60px;" />W</label>
+        <button data-action="place">${t('capacity.findPlacement')}</button>
+        <button data-action="clear">${t('common.clear')}</button>
+      </div>
+      <div data-role="summary" style="margin: 5px 0;"></div>
+      <div data-role="table" style="max-height: 35vh; overflow-y: auto;"></div>
+    `;
+    container.appendChild(this.element);
+
+    this.table = this.element.querySelector('[data-role="table"]') as HTMLElement;
+    this.summary = this.element.querySelector('[data-role="summary"]') as HTMLElement;
+    const metricSelect = this.element.querySelector('[data-role="metric"]') as HTMLSelectElement;
+    metricSelect.addEventListener('change', () => {
+      this.metric = metricSelect.value as CapacityMetric;
+      this.dataCenter.setCapacityMode(this.metric);
+      this.render();
+    });
+    this.element.addEventListener('click', this.handleClick.bind(this));
+
+    this.unsubscribe = this.serverStatus.on('tick', time => {
+      if (this.visible && time - this.lastRefresh >= REFRESH_MS) this.render();
+    });
+  }
+
+  public setVisible(visible: boolean): void {
+    this.visible = visible;
+    this.element.style.display = visible ? 'block' : 'none';
+    this.apply();
+  }
+
+  // 切换机房后在新场景中恢复容量视图
+  public setDataCenter(dataCenter: DataCenter): void {
+    this.dataCenter = dataCenter;
+    this.apply();
+  }
+
+  public dispose(): void {
+    this.unsubscribe();
+    this.element.remove();
+  }
+
+  private apply(): void {
+    this.dataCenter.setCapacityMode(this.visible ? this.metric : null);
+    this.dataCenter.setPlacement(null);
+    if (this.visible) this.render();
+  }
+
+  private handleClick(event: MouseEvent): void {
+    const target = event.target as HTMLElement;
+    const action = target.closest<HTMLElement>('[data-action]');
+    if (!action) return;
+
+    switch (action.dataset.action) {
+      case 'place': {
+        const sizeU = Math.max(1, Math.round(Number((this.element.querySelector('[data-role="size"]') as HTMLInputElement).value)));
+        const powerW = Math.max(0, Number((this.element.querySelector('[data-role="power"]') as HTMLInputElement).value));
+        this.dataCenter.setPlacement({ sizeU, powerW });
+        this.render();
+        break;
+      }
+      case 'clear':
+        this.dataCenter.setPlacement(null);
+        this.render();
+        break;
+      case 'sort': {
+        const key = action.dataset.key as SortKey;
+        this.sortDescending = this.sortKey === key ? !this.sortDescending : key !== 'name';
+        this.sortKey = key;
+        this.render();
+        break;
+      }
+      case 'focus':
+        if (action.dataset.rackId) this.onFocusRack(action.dataset.rackId);
+        break;
+    }
+  }
+
+  private getSortValue(capacity: RackCapacity): number | string {
+    switch (this.sortKey) {
+      case 'name':
+        return capacity.name;
+      case 'freeU':
+        return capacity.freeU;
+      case 'largestFreeU':
+        return capacity.largestFreeU;
+      case 'power':
+        return capacity.ratedPowerKw - capacity.drawnPowerKw;
+      case 'cooling':
+        return capacity.coolingKw - capacity.heatLoadKw;
+    }
+  }
+
+  private render(): void {
+    this.lastRefresh = Date.now();
+    const capacities = this.dataCenter.getRackCapacities();
+    const placements = this.dataCenter.getPlacements();
+    // 放置助手开启时只列出候选机柜
+    const rows = placements
+      ? capacities.filter(capacity => placements.has(capacity.rackId))
+      : capacities;
+    const direction = this.sortDescending ? -1 : 1;
+    rows.sort((a, b) => {
+      const valueA = this.getSortValue(a);
+      const valueB = this.getSortValue(b);
+      const order = typeof valueA === 'string' ? valueA.localeCompare(String(valueB)) : valueA - (valueB as number);
+      return order * direction;
+    });
+
+    const totalFree = capacities.reduce((sum, capacity) => sum + capacity.freeU, 0);
+    this.summary.textContent = placements
+      ? t('capacity.placementSummary', { fit: placements.size, total: capacities.length })
+      : t('capacity.freeSummary', { total: capacities.length, free: totalFree });
+
+    const color = (capacity: RackCapacity, metric: CapacityMetric) =>
+      `#${getCapacityColor(getCapacityUsage(capacity, metric)).toString(16).padStart(6, '0')}`;
+    this.table.innerHTML = `
+      <table style="width: 100%; border-collapse: collapse;">
+        <thead>
+          <tr>
+            ${COLUMNS.map(column => `
+              <th data-action="sort" data-key="${column.key}" style="text-align: left; cursor: pointer; white-space: nowrap;">
+                ${t(column.label)}${this.sortKey === column.key ? (this.sortDescending ? ' ▼' : ' ▲') : ''}
+              </th>
+            `).join('')}
+          </tr>
+        </thead>
+        <tbody>
+          ${rows.map(capacity => {
+            const placement = placements?.get(capacity.rackId);
+            return `
+              <tr data-action="focus" data-rack-id="${escapeHtml(capacity.rackId)}" style="cursor: pointer;">
+                <td>${escapeHtml(capacity.name)}${placement ? ` <small style="color: #44ff44;">U${placement.slot}</small>` : ''}</td>
+                <td style="color: ${color(capacity, 'space')};">${capacity.freeU}/${capacity.totalU}</td>
+                <td>${capacity.largestFreeU}U</td>
+                <td style="color: ${color(capacity, 'power')};">${i18n.formatNumber(capacity.drawnPowerKw, 1)}/${i18n.formatNumber(capacity.ratedPowerKw)}</td>
+                <td style="color: ${color(capacity, 'cooling')};">${i18n.formatNumber(capacity.coolingKw - capacity.heatLoadKw, 1)}</td>
+              </tr>
+            `;
+          }).join('')}
+        </tbody>
+      </table>
+    `;
+  }
+}
@@ -0,0 +1,104 @@
+import { RackLayout, RoomLayout, getRoomRacks } from './Layout';
+import { ServerData, ServerStatus, StatusLevel } from './ServerStatus';
+import { METRIC_KEYS, MetricKey } from './Metrics';
+import { computeRackCapacity } from './Capacity';
+
+export interface MetricAggregate {
+  avg: number;
+  max: number;
+  count: number; // 已上报该指标的服务器数量
+}
+
+// 一组服务器（机柜或机房）的汇总；状态只统计数据未过期的服务器，其余计入 stale
+export interface ServerGroupSummary {
+  servers: number;
+  reporting: number;
+  statusCounts: Record<StatusLevel | 'stale', number>;
+  metrics: Partial<Record<MetricKey, MetricAggregate>>;
+  powerKw: number; // 有实测功耗时使用实测值，否则与容量规划相同按 CPU 使用率估算
+}
+
+export interface RackSummary extends ServerGroupSummary {
+  rackId: string;
+  name: string;
+}
+
+export interface RoomSummary extends ServerGroupSummary {
+  roomId: string;
+  name: string;
+  racks: RackSummary[];
+}
+
+function isReporting(data: ServerData | undefined): data is ServerData {
+  return !!data && data.lastUpdate > 0 && !data.stale;
+}
+
+export function aggregateMetric(values: (number | undefined)[]): MetricAggregate | null {
+  const reported = values.filter((value): value is number => value !== undefined);
+  if (reported.length === 0) return null;
+  return {
+    avg: reported.reduce((sum, value) => sum + value, 0) / reported.length,
+    max: Math.max(...reported),
+    count: reported.length,
+  };
+}
+
+function summarizeServers(serverIds: string[], serverStatus: ServerStatus, powerKw: number): ServerGroupSummary {
+  const statusCounts: Record<StatusLevel | 'stale', number> = { normal: 0, warning: 0, error: 0, stale: 0 };
+  const reporting: ServerData[] = [];
+  serverIds.forEach(id => {
+    const data = serverStatus.getServerData(id);
+    if (isReporting(data)) {
+      reporting.push(data);
+      statusCounts[data.status]++;
+    } else {
+      statusCounts.stale++;
+    }
+  });
+
+  const metrics: Partial<Record<MetricKey, MetricAggregate>> = {};
+  METRIC_KEYS.forEach(metric => {
+    const aggregate = aggregateMetric(reporting.map(data => data[metric]));
+    if (aggregate) metrics[metric] = aggregate;
+  });
+  return { servers: serverIds.length, reporting: reporting.length, statusCounts, metrics, powerKw };
+}
+
+export function summarizeRack(rack: RackLayout, serverStatus: ServerStatus): RackSummary {
+  const powerKw = computeRackCapacity(rack, serverStatus).drawnPowerKw;
+  return {
+    rackId: rack.id,
+    name: rack.name ?? rack.id,
+    ...summarizeServers(rack.devices.map(device => device.id), serverStatus, powerKw),
+  };
+}
+
+export function summarizeRoom(room: RoomLayout, serverStatus: ServerStatus): RoomSummary {
+  const rackLayouts = getRoomRacks(room);
+  const racks = rackLayouts.map(rack => summarizeRack(rack, serverStatus));
+  const serverIds = rackLayouts.flatMap(rack => rack.devices.map(device => device.id));
+  const powerKw = racks.reduce((sum, rack) => sum + rack.powerKw, 0);
+  return {
+    roomId: room.id,
+    name: room.name,
+    racks,
+    ...summarizeServers(serverIds, serverStatus, powerKw),
+  };
+}
+
+/**
+ * 机房内指定指标最高的若干台服务器，只考虑数据未过期的服务器
+ */
+export function getTopServers(room: RoomLayout, serverStatus: ServerStatus, metric: MetricKey, count: number): ServerData[] {
+  return getRoomRacks(room)
+    .flatMap(rack => rack.devices.map(device => serverStatus.getServerData(device.id)))
+    .filter((data): data is ServerData => isReporting(data) && data[metric] !== undefined)
+    .sort((a, b) => (b[metric] as number) - (a[metric] as number))
+    .slice(0, count);
+}
+
+// 告警（含故障）服务器占已上报服务器的比例，没有数据时为 null
+export function getAlertRatio(summary: ServerGroupSummary): number | null {
+  if (summary.reporting === 0) return null;
+  return (summary.statusCounts.warning + summary.statusCounts.error) / summary.reporting;
+}
@@ -0,0 +1,196 @@
+import { RoomLayout } from './Layout';
+import { ServerStatus } from './ServerStatus';
+import { METRIC_KEYS, MetricKey, formatMetric } from './Metrics';
+import { RackSummary, RoomSummary, getAlertRatio, getTopServers, summarizeRoom } from './Dashboard';
+import { i18n, t } from './I18n';
+import { PaletteStatus, palette } from './Palette';
+import { escapeHtml } from './Html';
+
+const STATUS_ORDER: PaletteStatus[] = ['normal', 'warning', 'error', 'stale'];
+
+// 排行榜显示的服务器数量
+const TOP_COUNT = 5;
+
+// 看板刷新间隔（毫秒）
+const REFRESH_MS = 1000;
+
+/**
+ * 汇总看板：当前机房的整体指标、状态分布、最热/最忙服务器排行和各机柜汇总，
+ * 随数据节拍实时刷新；点击机柜或服务器定位到场景中的对应位置
+ */
+export class DashboardPanel {
+  private element: HTMLElement;
+  private content: HTMLElement;
+  private metric: MetricKey = 'temperature';
+  private visible = false;
+  private lastRefresh = 0;
+  private unsubscribe: () => void;
+
+  constructor(
+    container: HTMLElement,
+    private room: RoomLayout,
+    private readonly serverStatus: ServerStatus,
+    private readonly onFocusRack: (rackId: string) => void,
+    private readonly onFocusServer: (serverId: string) => void
+  ) {
+    this.element = document.createElement('div');
+    this.element.id = 'dashboard';
+    this.element.style.display = 'none';
+    this.element.innerHTML = `
+      <div data-role="content"></div>
+      <label>${t('dashboard.rackMetric')}
+        <select data-role="metric">
+          ${METRIC_KEYS.map(metric => `<option value="${metric}">${t(`metric.${metric}`)}</option>`).join('')}
+        </select>
+      </label>
+      <div data-role="racks" style="max-height: 30vh; overflow-y: auto; margin-top: 5px;"></div>
+    `;
+    container.appendChild(this.element);
+
+    this.content = this.element.querySelector('[data-role="content"]') as HTMLElement;
+    const metricSelect = this.element.querySelector('[data-role="metric"]') as HTMLSelectElement;
+    metricSelect.addEventListener('change', () => {
+      this.metric = metricSelect.value as MetricKey;
+      this.render();
+    });
+    this.element.addEventListener('click', this.handleClick.bind(this));
+
+    this.unsubscribe = this.serverStatus.on('tick', time => {
+      if (this.visible && time - this.lastRefresh >= REFRESH_MS) this.render();
+    });
+  }
+
+  public setVisible(visible: boolean): void {
+    this.visible = visible;
+    this.element.style.display = visible ? 'block' : 'none';
+    if (visible) this.render();
+  }
+
+  // 切换机房或布局编辑后汇总新的机房
+  public setRoom(room: RoomLayout): void {
+    this.room = room;
+    if (this.visible) this.render();
+  }
+
+  public dispose(): void {
+    this.unsubscribe();
+    this.element.remove();
+  }
+
+  private handleClick(event: MouseEvent): void {
+    const target = event.target as HTMLElement;
+    const action = target.closest<HTMLElement>('[data-action]');
+    if (!action) return;
+
+    switch (action.dataset.action) {
+      case 'focus-rack':
+        if (action.dataset.rackId) this.onFocusRack(action.dataset.rackId);
+        break;
+      case 'focus-server':
+        if (action.dataset.serverId) this.onFocusServer(action.dataset.serverId);
+        break;
+    }
+  }
+
+  private render(): void {
+    this.lastRefresh = Date.now();
+    const summary = summarizeRoom(this.room, this.serverStatus);
+    this.content.innerHTML = `
+      <h3 style="margin: 0 0 8px 0;">${t('dashboard.title', { room: escapeHtml(summary.name) })}</h3>
+      ${this.renderKpis(summary)}
+      <div style="display: flex; gap: 10px; margin: 6px 0;">
+        ${STATUS_ORDER.map(status => `
+          <span><span style="color: ${palette.statusColor(status)};">●</span> ${t(`status.${status}`)} ${summary.statusCounts[status]}</span>
+        `).join('')}
+      </div>
+      <div style="display: grid; grid-template-columns: 1fr 1fr; gap: 0 10px;">
+        ${this.renderTopList(t('dashboard.hottest'), 'temperature')}
+        ${this.renderTopList(t('dashboard.busiest'), 'cpuUsage')}
+      </div>
+    `;
+    (this.element.querySelector('[data-role="racks"]') as HTMLElement).innerHTML = this.renderRacks(summary.racks);
+  }
+
+  // 机房级关键指标
+  private renderKpis(summary: RoomSummary): string {
+    const alertRatio = getAlertRatio(summary);
+    const metricValue = (metric: MetricKey, field: 'avg' | 'max') => {
+      const aggregate = summary.metrics[metric];
+      return aggregate ? formatMetric(metric, aggregate[field]) : '-';
+    };
+    const kpis: [string, string][] = [
+      [t('dashboard.kpi.online'), `${summary.reporting}/${summary.servers}`],
+      [t('dashboard.kpi.alertRatio'), alertRatio === null ? '-' : `${i18n.formatNumber(alertRatio * 100, 1)}%`],
+      [t('dashboard.kpi.avgInlet'), metricValue('inletTemperature', 'avg')],
+      [t('dashboard.kpi.maxTemperature'), metricValue('temperature', 'max')],
+      [t('dashboard.kpi.totalPower'), `${i18n.formatNumber(summary.powerKw, 1)} kW`],
+      [t('dashboard.kpi.avgCpu'), metricValue('cpuUsage', 'avg')],
+    ];
+    return `
+      <div style="display: grid; grid-template-columns: repeat(3, 1fr); gap: 4px;">
+        ${kpis.map(([label, value]) => `
+          <div style="background: rgba(255, 255, 255, 0.08); padding: 4px; border-radius: 3px;">
+            <small style="color: #cccccc;">${label}</small><br>
+            <strong>${value}</strong>
+          </div>
+        `).join('')}
+      </div>
+    `;
+  }
+
+  private renderTopList(title: string, metric: MetricKey): string {
+    const servers = getTopServers(this.room, this.serverStatus, metric, TOP_COUNT);
+    const items = servers.map(data => `
+      <div data-action="focus-server" data-server-id="${escapeHtml(data.id)}" style="cursor: pointer; border-left: 3px solid ${palette.statusColor(data.status)}; padding-left: 4px; margin: 2px 0;">
+        ${escapeHtml(data.id)} <span style="float: right;">${formatMetric(metric, data[metric] as number)}</span>
+      </div>
+    `).join('');
+    return `
+      <div>
+        <p style="margin: 4px 0;">${title}</p>
+        ${items || `<small style="color: #999999;">${t('common.noData')}</small>`}
+      </div>
+    `;
+  }
+
+  // 各机柜按所选指标的最高值降序排列，未上报该指标的机柜排在最后
+  private renderRacks(racks: RackSummary[]): string {
+    const metric = this.metric;
+    const sorted = [...racks].sort((a, b) => {
+      const maxA = a.metrics[metric]?.max;
+      const maxB = b.metrics[metric]?.max;
+      if (maxA === undefined || maxB === undefined) return (maxA === undefined ? 1 : 0) - (maxB === undefined ? 1 : 0);
+      return maxB - maxA;
+    });
+    const value = (rack: RackSummary, field: 'avg' | 'max') => {
+      const aggregate = rack.metrics[metric];
+      return aggregate ? formatMetric(metric, aggregate[field]) : '-';
+    };
+    return `
+      <table style="width: 100%; border-collapse: collapse;">
+        <thead>
+          <tr>
+            <th style="text-align: left;">${t('common.rack')}</th>
+            <th style="text-align: left;">${t('dashboard.warningError')}</th>
+            <th style="text-align: right;">${t('dashboard.powerKw')}</th>
+            <th style="text-align: right;">${t('dashboard.avg')}</th>
+            <th style="text-align: right;">${t('dashboard.max')}</th>
+          </tr>
+        </thead>
+        <tbody>
+          ${sorted.map(rack => `
+            <tr data-action="focus-rack" data-rack-id="${escapeHtml(rack.rackId)}" style="cursor: pointer;">
+              <td>${escapeHtml(rack.name)}</td>
+              <td>
+                <span style="color: ${rack.statusCounts.warning > 0 ? palette.statusColor('warning') : '#cccccc'};">${rack.statusCounts.warning}</span>/<span style="color: ${rack.statusCounts.error > 0 ? palette.statusColor('error') : '#cccccc'};">${rack.statusCounts.error}</span>
+              </td>
+              <td style="text-align: right;">${i18n.formatNumber(rack.powerKw, 1)}</td>
+              <td style="text-align: right;">${value(rack, 'avg')}</td>
+              <td style="text-align: right;">${value(rack, 'max')}</td>
+            </tr>
+          `).join('')}
+        </tbody>
+      </table>
+    `;
+  }
+}
@@ -1,89 +1,192 @@
 import * as THREE from 'three';
-import { ServerStatus, ServerData } from './ServerStatus';
+import { ServerStatus, ServerData, StatusLevel } from './ServerStatus';
+import { AlertEngine } from './AlertEngine';
+import { METRICS, METRIC_KEYS, MetricKey, formatMetric, normalizeMetric, rollupMetric } from './Metrics';
+import { renderSparkline } from './Sparkline';
+import { colorFromScale } from './Heatmap';
+import { FloorHeatmap, HeatSource } from './FloorHeatmap';
+import { RackLayout, RoomLayout, getRoomRacks } from './Layout';
+import { RackRenderer } from './RackRenderer';
+import { RackPicker } from './RackPicker';
+import { AssetStore, WarrantyStatus, getWarrantyStatus } from './Asset';
+import { CapacityMetric, PlacementRequest, RackCapacity, SlotRange, computeRackCapacity, findPlacement, getCapacityColor, getCapacityUsage } from './Capacity';
+import { TopologyModel, TopologyStatus } from './Topology';
+import { TopologyView } from './TopologyView';
+import { AirflowEstimate, estimateAirflow } from './Airflow';
+import { AirflowView } from './AirflowView';
+import { summarizeRack, summarizeRoom } from './Dashboard';
+import { i18n, t } from './I18n';
+import { palette } from './Palette';
+import { escapeHtml } from './Html';
 
-interface ServerBrand {
-  name: string;
-  color: number;
-  logo?: string;
+interface HeatTransition {
+  from: number;
+  to: number;
+  start: number;
 }
 
-interface Infrastructure {
-  type: 'network' | 'power' | 'cooling' | 'fiber';
-  color: number;
-  width: number;
+export interface DataCenterOptions {
+  interpolationMs?: number; // 热力图取值在两次采样之间的过渡时长
+  onServerSelected?: (serverId: string) => void;
+  onRackHovered?: (rackId: string | null) => void; // 鼠标在场景中悬停的机柜变化
+  onHover?: (target: HoverTarget) => void; // 鼠标在场景中悬停的机柜或服务器变化
+  onFilterChanged?: (matchingIds: Set<string> | null) => void;
+  lodDistance?: number; // 相机距离超过该值的机柜收起内部细节
+  assets?: AssetStore;
+  infoElement?: HTMLElement | null; // 信息面板的宿主元素，未提供时不显示
+  onInfo?: (content: InfoContent) => void; // 提供时由宿主渲染信息面板，不再写入 infoElement
 }
 
+export interface HoverTarget {
+  rackId: string | null;
+  serverId: string | null;
+}
+
+// 信息面板当前展示的对象
+export type InfoContent =
+  | { kind: 'room'; roomId: string }
+  | { kind: 'rack'; rackId: string }
+  | { kind: 'server'; serverId: string; data: ServerData }
+  | { kind: 'topology'; id: string };
+
+interface PickResult {
+  rackId?: string;
+  serverId?: string;
+  topologyId?: string;
+}
+
+// 机柜外壳颜色：常规、供给中断、处于所选设备影响范围内
+const RACK_COLOR = 0x333333;
+const RACK_FEED_FAILED_COLOR = 0x882222;
+const RACK_IMPACTED_COLOR = 0x777733;
+const RACK_PLACEMENT_COLOR = 0x22aa44;
+
+// 保修状态高亮时服务器前面板的颜色，其余状态保持品牌颜色
+const WARRANTY_PANEL_COLORS: Partial<Record<WarrantyStatus, number>> = {
+  expired: 0xff2222,
+  expiring: 0xffaa00,
+};
+
+const _ray = new THREE.Ray();
+const _inverse = new THREE.Matrix4();
+const _cameraPosition = new THREE.Vector3();
+
 export class DataCenter extends THREE.Group {
   private serverStatus: ServerStatus;
-  private servers: Map<string, THREE.Mesh> = new Map();
-  private racks: Map<number, THREE.Group> = new Map();
-  private heatmapMaterial: THREE.ShaderMaterial;
-  private selectedServer: THREE.Mesh | null = null;
-  private hoveredRack: THREE.Group | null = null;
-  private hoveredServer: THREE.Mesh | null = null;
-  
-  private serverBrands: ServerBrand[] = [
-    { name: 'DELL', color: 0x0085c3 },
-    { name: 'HP', color: 0x0096d6 },
-    { name: '曙光', color: 0xff6b00 },
-    { name: '浪潮', color: 0x00a0e9 },
-    { name: '华为', color: 0xff0000 }
-  ];
-
-  private infrastructureTypes: Infrastructure[] = [
-    { type: 'network', color: 0x4287f5, width: 0.03 }, // 蓝色网线
-    { type: 'power', color: 0xff4444, width: 0.05 }, // 红色电源线
-    { type: 'cooling', color: 0x42f5aa, width: 0.08 }, // 青色冷却管道
-    { type: 'fiber', color: 0xf542f5, width: 0.02 }, // 紫色光纤
-  ];
-
-  constructor() {
+  private alertEngine: AlertEngine;
+  private room: RoomLayout;
+  private rackRenderer: RackRenderer;
+  private picker: RackPicker;
+  private rackLayouts: Map<string, RackLayout> = new Map();
+  private selectedServerId: string | null = null;
+  private hoveredRackId: string | null = null;
+  private hoveredServerId: string | null = null;
+  private infoServerId: string | null = null;
+  private infoTopologyId: string | null = null;
+  private heatTransitions: Map<string, HeatTransition> = new Map();
+  private heatmapMetric: MetricKey = 'temperature';
+  private interpolationMs: number;
+  private onServerSelected?: (serverId: string) => void;
+  private onRackHovered?: (rackId: string | null) => void;
+  private onHover?: (target: HoverTarget) => void;
+  private infoElement: HTMLElement | null;
+  private onInfo?: (content: InfoContent) => void;
+  private onFilterChanged?: (matchingIds: Set<string> | null) => void;
+  private unsubscribers: (() => void)[] = [];
+  private floorHeatmap: FloorHeatmap;
+  private filteredIds: Set<string> | null = null;
+  private heatmapDirty = true;
+  private lastHeatmapUpdate = 0;
+  private topology: TopologyModel;
+  private topologyView: TopologyView;
+  private topologyDirty = false;
+  private lastTopologyUpdate = 0;
+  private capacityMetric: CapacityMetric | null = null;
+  private placement: PlacementRequest | null = null;
+  private placements: Map<string, SlotRange> = new Map();
+  private capacityDirty = false;
+  private lastCapacityUpdate = 0;
+  private assets: AssetStore | null;
+  private warrantyHighlight = false;
+  private selectedTopologyId: string | null = null;
+  private impactedRacks: Set<string> = new Set();
+  private faultMode = false;
+  private airflowView: AirflowView;
+  private airflowEstimate: AirflowEstimate | null = null;
+  private airflowDirty = true;
+  private lastAirflowUpdate = 0;
+  private lodDistance: number;
+  private lastLodPosition: THREE.Vector3 | null = null;
+
+  constructor(room: RoomLayout, serverStatus: ServerStatus, alertEngine: AlertEngine, options: DataCenterOptions = {}) {
     super();
-    this.serverStatus = new ServerStatus();
-    this.heatmapMaterial = this.createHeatmapMaterial();
+    this.room = room;
+    this.serverStatus = serverStatus;
+    this.alertEngine = alertEngine;
+    this.interpolationMs = options.interpolationMs ?? 1000;
+    this.onServerSelected = options.onServerSelected;
+    this.onRackHovered = options.onRackHovered;
+    this.onHover = options.onHover;
+    this.infoElement = options.infoElement ?? null;
+    this.onInfo = options.onInfo;
+    this.onFilterChanged = options.onFilterChanged;
+    this.lodDistance = options.lodDistance ?? 30;
+    this.assets = options.assets ?? null;
     this.createFloor();
-    this.createInfrastructure();
-    this.createRacks();
-  }
-
-  private createHeatmapMaterial(): THREE.ShaderMaterial {
-    return new THREE.ShaderMaterial({
-      uniforms: {
-        temperature: { value: 0.0 },
-      },
-      vertexShader: `
-        varying vec2 vUv;
-        void main() {
-          vUv = uv;
-          gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
-        }
-      `,
-      fragmentShader: `
-        uniform float temperature;
-        varying vec2 vUv;
-        
-        vec3 colorFromTemp(float t) {
-          vec3 cold = vec3(0.0, 0.0, 1.0);
-          vec3 warm = vec3(1.0, 1.0, 0.0);
-          vec3 hot = vec3(1.0, 0.0, 0.0);
-          
-          if(t < 0.5) {
-            return mix(cold, warm, t * 2.0);
-          } else {
-            return mix(warm, hot, (t - 0.5) * 2.0);
-          }
-        }
-        
-        void main() {
-          vec3 color = colorFromTemp(temperature);
-          gl_FragColor = vec4(color, 1.0);
-        }
-      `,
+    this.rackRenderer = this.createRacks();
+    this.picker = new RackPicker(this.rackRenderer.getRacks());
+    this.topology = new TopologyModel(room, serverStatus);
+    this.topologyView = new TopologyView(this.topology, room);
+    this.add(this.topologyView);
+    this.floorHeatmap = new FloorHeatmap(room.width, room.depth);
+    this.add(this.floorHeatmap);
+    this.airflowView = new AirflowView();
+    this.airflowView.visible = false;
+    this.add(this.airflowView);
+
+    // 只在数据真正变化时更新场景
+    this.unsubscribers.push(
+      this.serverStatus.on('serverUpdated', this.onServerUpdated.bind(this)),
+      this.topology.on('changed', () => {
+        this.airflowDirty = true;
+        this.updateRackFeedStatus();
+      }),
+      i18n.on('temperatureUnitChanged', () => this.refreshInfo()),
+      palette.on('changed', () => this.applyPalette())
+    );
+    if (this.assets) {
+      this.unsubscribers.push(this.assets.on('changed', () => this.onAssetsChanged()));
+    }
+    this.applyColorScale();
+    this.rackRenderer.getServers().forEach(server => {
+      const data = this.serverStatus.getServerData(server.id);
+      if (data && data.lastUpdate > 0) {
+        this.onServerUpdated(data);
+      }
+    });
+    this.showDefaultInfo();
+  }
+
+  public dispose(): void {
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.unsubscribers = [];
+    this.topologyView.dispose();
+    this.topology.dispose();
+    this.airflowView.dispose();
+    this.rackRenderer.dispose();
+    // 地面、网格和热力图等其余对象
+    this.traverse(object => {
+      if (object instanceof THREE.Mesh || object instanceof THREE.LineSegments) {
+        object.geometry.dispose();
+        (Array.isArray(object.material) ? object.material : [object.material])
+          .forEach((material: THREE.Material) => material.dispose());
+      }
     });
   }
 
   private createFloor(): void {
-    const floorGeometry = new THREE.PlaneGeometry(20, 20);
+    const { width, depth } = this.room;
+    const floorGeometry = new THREE.PlaneGeometry(width, depth);
     const floorMaterial = new THREE.MeshStandardMaterial({
       color: 0x444444,
       side: THREE.DoubleSide,
@@ -96,10 +199,11 @@ export class DataCenter extends THREE.Group {
     floor.position.y = 0.01;
     this.add(floor);
 
-    const gridHelper = new THREE.GridHelper(20, 20);
+    const gridSize = Math.max(width, depth);
+    const gridHelper = new THREE.GridHelper(gridSize, gridSize);
     this.add(gridHelper);
 
-    const baseGeometry = new THREE.PlaneGeometry(20, 20);
+    const baseGeometry = new THREE.PlaneGeometry(width, depth);
     const baseMaterial = new THREE.MeshStandardMaterial({
       color: 0x222222,
       side: THREE.DoubleSide,
@@ -111,375 +215,766 @@ export class DataCenter extends THREE.Group {
     this.add(base);
   }
 
-  private createInfrastructure(): void {
-    this.createMainInfrastructure();
-    this.createRackConnections();
+  private createRacks(): RackRenderer {
+    const racks = getRoomRacks(this.room);
+    racks.forEach(rackLayout => this.rackLayouts.set(rackLayout.id, rackLayout));
+    const renderer = new RackRenderer(racks);
+    this.add(renderer);
+    return renderer;
   }
 
-  private createMainInfrastructure(): void {
-    const mainPathsNS = [
-      { x: -3, z: 0 },
-      { x: 0, z: 0 },
-      { x: 3, z: 0 },
-    ];
-
-    const mainPathsEW = [
-      { x: 0, z: -3 },
-      { x: 0, z: 0 },
-      { x: 0, z: 3 },
-    ];
+  private onServerUpdated(data: ServerData): void {
+    const server = this.rackRenderer.getServer(data.id);
+    if (!server) return;
 
-    mainPathsNS.forEach(path => {
-      this.infrastructureTypes.forEach((infra, index) => {
-        const curve = new THREE.LineCurve3(
-          new THREE.Vector3(path.x - 0.2 + index * 0.1, -0.15, -4),
-          new THREE.Vector3(path.x - 0.2 + index * 0.1, -0.15, 4)
-        );
-        this.createPipe(curve, infra);
-      });
+    // 从当前显示值过渡到新的采样值
+    this.heatTransitions.set(data.id, {
+      from: this.rackRenderer.getServerHeatValue(data.id),
+      to: this.getHeatValue(data),
+      start: performance.now(),
     });
 
-    mainPathsEW.forEach(path => {
-      this.infrastructureTypes.forEach((infra, index) => {
-        const curve = new THREE.LineCurve3(
-          new THREE.Vector3(-4, -0.15 - index * 0.05, path.z),
-          new THREE.Vector3(4, -0.15 - index * 0.05, path.z)
-        );
-        this.createPipe(curve, infra);
-      });
-    });
+    this.updateStatusLight(data);
+    this.heatmapDirty = true;
+    this.topologyDirty = true;
+    this.capacityDirty = true;
+    this.airflowDirty = true;
+    if (!server.rack.detailed) {
+      this.refreshRackAppearance(server.rack.id);
+    }
+
+    if (this.infoServerId === data.id) {
+      this.showServerInfo(data);
+    }
   }
 
-  private createRackConnections(): void {
-    for (let rackIndex = 0; rackIndex < 9; rackIndex++) {
-      const rack = this.racks.get(rackIndex);
-      if (rack) {
-        const rackPos = rack.position;
-        const mainLineX = Math.round(rackPos.x);
-        const mainLineZ = Math.round(rackPos.z);
-
-        this.infrastructureTypes.forEach((infra, index) => {
-          const verticalCurve = new THREE.LineCurve3(
-            new THREE.Vector3(rackPos.x - 0.2 + index * 0.1, -0.15, mainLineZ),
-            new THREE.Vector3(rackPos.x - 0.2 + index * 0.1, 0, mainLineZ)
-          );
-          this.createPipe(verticalCurve, infra, 0.5);
-
-          const horizontalCurve = new THREE.LineCurve3(
-            new THREE.Vector3(mainLineX, -0.15, rackPos.z - 0.2 + index * 0.1),
-            new THREE.Vector3(rackPos.x, -0.15, rackPos.z - 0.2 + index * 0.1)
-          );
-          this.createPipe(horizontalCurve, infra, 0.5);
-        });
+  private updateStatusLight(data: ServerData): void {
+    // 数据过期时指示灯显示为灰色
+    this.rackRenderer.setServerLedColor(data.id, palette.ledColor(data.stale ? 'stale' : data.status));
+  }
+
+  public update(time: number = performance.now(), camera?: THREE.Camera): void {
+    this.heatTransitions.forEach((transition, id) => {
+      const progress = Math.min(1, (time - transition.start) / this.interpolationMs);
+      this.rackRenderer.setServerHeatValue(id, transition.from + (transition.to - transition.from) * progress);
+      if (progress >= 1) {
+        this.heatTransitions.delete(id);
+      }
+    });
+
+    if (camera) {
+      this.updateLod(camera);
+    }
+
+    // 机房热力图计算量较大，最多每 500ms 刷新一次
+    if (this.floorHeatmap.visible && this.heatmapDirty && time - this.lastHeatmapUpdate > 500) {
+      this.refreshFloorHeatmap();
+      this.lastHeatmapUpdate = time;
+    }
+
+    // 拓扑利用率随服务器数据变化，每秒重新估算一次
+    if (this.topologyDirty && time - this.lastTopologyUpdate > 1000) {
+      this.topology.refresh();
+      this.topologyDirty = false;
+      this.lastTopologyUpdate = time;
+    }
+
+    // 实际功耗随 CPU 使用率变化，容量视图每秒刷新一次
+    if (this.capacityMetric && this.capacityDirty && time - this.lastCapacityUpdate > 1000) {
+      this.refreshCapacity();
+      this.capacityDirty = false;
+      this.lastCapacityUpdate = time;
+    }
+
+    // 气流估算随服务器数据和拓扑故障状态变化，每秒刷新一次；粒子每帧移动
+    if (this.airflowView.visible) {
+      if (this.airflowDirty && time - this.lastAirflowUpdate > 1000) {
+        this.refreshAirflow();
+        this.lastAirflowUpdate = time;
       }
+      this.airflowView.update(time);
     }
+
+    this.rackRenderer.flush();
   }
 
-  private createPipe(curve: THREE.LineCurve3, infrastructure: Infrastructure, opacity: number = 1): void {
-    const geometry = new THREE.TubeGeometry(curve, 1, infrastructure.width, 8, false);
-    const material = new THREE.MeshStandardMaterial({
-      color: infrastructure.color,
-      metalness: 0.5,
-      roughness: 0.5,
-      transparent: true,
-      opacity: opacity,
-    });
-    const pipe = new THREE.Mesh(geometry, material);
-    pipe.userData.type = infrastructure.type;
-    this.add(pipe);
-  }
-
-  private createRacks(): void {
-    const rackPositions = [
-      [-3, 0, -3],
-      [-3, 0, 0],
-      [-3, 0, 3],
-      [0, 0, -3],
-      [0, 0, 0],
-      [0, 0, 3],
-      [3, 0, -3],
-      [3, 0, 0],
-      [3, 0, 3],
-    ];
-
-    rackPositions.forEach((position, rackIndex) => {
-      const rack = this.createRack(rackIndex);
-      rack.position.set(position[0], position[1], position[2]);
-      this.racks.set(rackIndex, rack);
-      this.add(rack);
+  // 相机移动超过半个单位时重新判定各机柜的细节层级
+  private updateLod(camera: THREE.Camera): void {
+    this.worldToLocal(camera.getWorldPosition(_cameraPosition));
+    if (this.lastLodPosition && this.lastLodPosition.distanceToSquared(_cameraPosition) < 0.25) return;
+    this.lastLodPosition = _cameraPosition.clone();
+
+    const maxDistanceSq = this.lodDistance * this.lodDistance;
+    this.rackRenderer.getRacks().forEach(rack => {
+      const dx = rack.layout.position.x - _cameraPosition.x;
+      const dz = rack.layout.position.z - _cameraPosition.z;
+      const dy = 1 - _cameraPosition.y;
+      const detailed = dx * dx + dy * dy + dz * dz < maxDistanceSq;
+      if (detailed !== rack.detailed) {
+        this.rackRenderer.setRackDetailed(rack.id, detailed);
+        this.refreshRackAppearance(rack.id);
+      }
     });
   }
 
-  private createRack(rackIndex: number): THREE.Group {
-    const rack = new THREE.Group();
-    rack.userData.rackIndex = rackIndex;
+  public getRenderStats(): { racks: number; detailedRacks: number; servers: number } {
+    const racks = this.rackRenderer.getRacks();
+    return {
+      racks: racks.length,
+      detailedRacks: racks.filter(rack => rack.detailed).length,
+      servers: this.rackRenderer.serverCount,
+    };
+  }
+
+  public setFloorHeatmapVisible(visible: boolean): void {
+    this.floorHeatmap.setFloorVisible(visible);
+    if (visible) this.refreshFloorHeatmap();
+  }
 
-    const rackGeometry = new THREE.BoxGeometry(0.8, 2, 0.8);
-    const rackMaterial = new THREE.MeshStandardMaterial({
-      color: 0x333333,
-      metalness: 0.8,
-      roughness: 0.2,
-      transparent: true,
-      opacity: 1,
+  public setHeatmapSliceVisible(visible: boolean): void {
+    this.floorHeatmap.setSliceVisible(visible);
+    if (visible) this.refreshFloorHeatmap();
+  }
+
+  public setHeatmapSlicePosition(position: number): void {
+    this.floorHeatmap.setSlicePosition(position);
+  }
+
+  /**
+   * 切换服务器机身、机房热力图和远景机柜着色所用的指标
+   */
+  public setHeatmapMetric(metric: MetricKey): void {
+    if (metric === this.heatmapMetric) return;
+    this.heatmapMetric = metric;
+    this.applyColorScale();
+
+    // 切换指标时直接显示新值，不做过渡
+    this.heatTransitions.clear();
+    this.rackRenderer.getServers().forEach(server => {
+      const data = this.serverStatus.getServerData(server.id);
+      this.rackRenderer.setServerHeatValue(server.id, data && data.lastUpdate > 0 ? this.getHeatValue(data) : 0);
     });
-    const rackMesh = new THREE.Mesh(rackGeometry, rackMaterial);
-    rackMesh.position.y = 1;
-    rackMesh.userData.isRackCase = true;
-    rack.add(rackMesh);
-
-    const serverCount = 5;
-    const serverHeight = 1.6 / serverCount;
-    const serverWidth = 0.75;
-    const serverDepth = 0.75;
-    const serverSpacing = 0.02;
-
-    for (let i = 0; i < serverCount; i++) {
-      const serverId = `rack${rackIndex}-server${i}`;
-      const brand = this.serverBrands[i];
-      
-      const serverGroup = new THREE.Group();
-      serverGroup.position.y = 0.2 + i * serverHeight + serverHeight / 2;
-      
-      const serverGeometry = new THREE.BoxGeometry(
-        serverWidth,
-        serverHeight - serverSpacing,
-        serverDepth
-      );
-      
-      const serverMaterial = this.heatmapMaterial.clone();
-      const server = new THREE.Mesh(serverGeometry, serverMaterial);
-      server.userData.id = serverId;
-      server.userData.brand = brand.name;
-      serverGroup.add(server);
-      this.servers.set(serverId, server);
-
-      const lightGeometry = new THREE.BoxGeometry(0.04, 0.04, 0.04);
-      const lightMaterial = new THREE.MeshBasicMaterial({ color: 0x00ff00 });
-      const light = new THREE.Mesh(lightGeometry, lightMaterial);
-      light.position.set(serverWidth / 2 - 0.05, 0, serverDepth / 2 + 0.02);
-      server.add(light);
-
-      const panelGeometry = new THREE.PlaneGeometry(serverWidth * 0.95, serverHeight * 0.8);
-      const panelMaterial = new THREE.MeshStandardMaterial({
-        color: brand.color,
-        metalness: 0.5,
-        roughness: 0.5,
-      });
-      const panel = new THREE.Mesh(panelGeometry, panelMaterial);
-      panel.position.z = serverDepth / 2 + 0.001;
-      serverGroup.add(panel);
-
-      const textGeometry = new THREE.PlaneGeometry(serverWidth * 0.4, serverHeight * 0.2);
-      const textMaterial = new THREE.MeshBasicMaterial({
-        color: 0xffffff,
-        transparent: true,
-        opacity: 0.8,
-      });
-      const textPlane = new THREE.Mesh(textGeometry, textMaterial);
-      textPlane.position.z = serverDepth / 2 + 0.002;
-      serverGroup.add(textPlane);
-
-      const ventsGeometry = new THREE.PlaneGeometry(serverWidth * 0.8, serverHeight * 0.3);
-      const ventsMaterial = new THREE.MeshPhongMaterial({
-        color: 0x222222,
-        shininess: 0,
-        bumpScale: 0.002,
-      });
-      const vents = new THREE.Mesh(ventsGeometry, ventsMaterial);
-      vents.position.z = serverDepth / 2 + 0.001;
-      vents.position.y = -serverHeight / 4;
-      serverGroup.add(vents);
+    this.heatmapDirty = true;
+    this.lastHeatmapUpdate = 0;
+    this.rackLayouts.forEach((_rackLayout, rackId) => this.refreshRackAppearance(rackId));
+    const data = this.infoServerId ? this.serverStatus.getServerData(this.infoServerId) : undefined;
+    if (data) this.showServerInfo(data);
+  }
 
-      rack.add(serverGroup);
-    }
+  public getHeatmapMetric(): MetricKey {
+    return this.heatmapMetric;
+  }
 
-    return rack;
+  // 当前热力图指标的归一化取值，未上报时为 0
+  private getHeatValue(data: ServerData): number {
+    const value = data[this.heatmapMetric];
+    if (value === undefined) return 0;
+    return normalizeMetric(this.heatmapMetric, value, this.alertEngine.getRule(this.heatmapMetric, data));
   }
 
-  public update(): void {
-    this.serverStatus.updateServerStatus();
-    
-    this.servers.forEach((serverMesh, id) => {
-      const data = this.serverStatus.getServerData(id);
-      if (data && serverMesh) {
-        const material = serverMesh.material as THREE.ShaderMaterial;
-        if (material && material.uniforms) {
-          material.uniforms.temperature.value = (data.temperature - 20) / 30;
-        }
+  // 地面按机柜取平均值，垂直切面使用每台服务器的位置
+  private refreshFloorHeatmap(): void {
+    const floorSources: HeatSource[] = [];
+    const volumeSources: HeatSource[] = [];
 
-        const light = serverMesh.children[0];
-        if (light) {
-          const lightMaterial = light.material as THREE.MeshBasicMaterial;
-          if (lightMaterial) {
-            switch (data.status) {
-              case 'normal':
-                lightMaterial.color.setHex(0x00ff00);
-                break;
-              case 'warning':
-                lightMaterial.color.setHex(0xffff00);
-                break;
-              case 'error':
-                lightMaterial.color.setHex(0xff0000);
-                break;
-            }
-          }
-        }
+    this.rackRenderer.getRacks().forEach(rack => {
+      let sum = 0;
+      let count = 0;
+      rack.servers.forEach(server => {
+        const data = this.serverStatus.getServerData(server.id);
+        if (!data || data.lastUpdate === 0 || data[this.heatmapMetric] === undefined) return;
+        const value = this.getHeatValue(data);
+        volumeSources.push({ x: server.center.x, y: server.center.y, z: server.center.z, value });
+        sum += value;
+        count++;
+      });
+      if (count > 0) {
+        floorSources.push({ x: rack.layout.position.x, y: 0, z: rack.layout.position.z, value: sum / count });
       }
     });
+
+    this.floorHeatmap.setSources(floorSources, volumeSources);
+    this.heatmapDirty = false;
   }
 
-  public handleMouseMove(raycaster: THREE.Raycaster, camera: THREE.Camera): void {
-    if (this.hoveredRack) {
-      const rackCase = this.hoveredRack.children.find(child => child.userData.isRackCase) as THREE.Mesh;
-      if (rackCase) {
-        (rackCase.material as THREE.MeshStandardMaterial).opacity = 1;
-      }
+  // 拾取最近的机柜/服务器或拓扑元素；机柜通过 BVH 检测，不再遍历场景
+  private pick(raycaster: THREE.Raycaster): PickResult | null {
+    this.updateMatrixWorld();
+    _ray.copy(raycaster.ray).applyMatrix4(_inverse.copy(this.matrixWorld).invert());
+    const rackHit = this.picker.pick(_ray);
+    const topologyHit = this.topologyView.pick(raycaster);
+    if (topologyHit && (!rackHit || topologyHit.distance < rackHit.distance)) {
+      return { topologyId: topologyHit.id };
     }
-    if (this.hoveredServer && this.hoveredServer !== this.selectedServer) {
-      const material = this.hoveredServer.material as THREE.ShaderMaterial;
-      material.wireframe = false;
+    return rackHit ? { rackId: rackHit.rackId, serverId: rackHit.serverId } : null;
+  }
+
+  public handleMouseMove(raycaster: THREE.Raycaster): void {
+    const hit = this.pick(raycaster);
+    const hoveredRackId = hit?.rackId ?? null;
+    const hoveredServerId = hit?.serverId ?? null;
+    const changed = hoveredRackId !== this.hoveredRackId || hoveredServerId !== this.hoveredServerId;
+
+    this.setHoveredServer(hoveredServerId);
+    if (hoveredRackId !== this.hoveredRackId) {
+      this.setHoveredRack(hoveredRackId);
+      this.onRackHovered?.(hoveredRackId);
     }
+    if (changed) this.onHover?.({ rackId: hoveredRackId, serverId: hoveredServerId });
 
-    const interactiveObjects: THREE.Object3D[] = [];
-    this.traverse((child) => {
-      if (child instanceof THREE.Mesh) {
-        if (child.userData.id || child.userData.isRackCase) {
-          interactiveObjects.push(child);
-        }
+    if (hit?.topologyId) {
+      this.showTopologyInfo(hit.topologyId);
+    } else if (hoveredServerId) {
+      const serverData = this.serverStatus.getServerData(hoveredServerId);
+      if (serverData) {
+        this.showServerInfo(serverData);
       }
-    });
+    } else if (hoveredRackId) {
+      this.showRackInfo(hoveredRackId);
+    } else {
+      this.showDefaultInfo();
+    }
+  }
 
-    const intersects = raycaster.intersectObjects(interactiveObjects, true);
-    
-    if (intersects.length > 0) {
-      const intersectedObject = intersects[0].object as THREE.Mesh;
-      
-      let targetObject = intersectedObject;
-      let parent = intersectedObject.parent;
-      while (parent && !(parent instanceof THREE.Group && parent.userData.rackIndex !== undefined)) {
-        if (parent instanceof THREE.Mesh && parent.userData.id) {
-          targetObject = parent;
-          break;
-        }
-        if (parent instanceof THREE.Group && parent.userData.id) {
-          const serverMesh = this.servers.get(parent.userData.id);
-          if (serverMesh) {
-            targetObject = serverMesh;
-            break;
-          }
-        }
-        parent = parent.parent;
-      }
+  /**
+   * 从其他视图（如二维平面图）同步悬停的机柜，并显示机柜信息
+   */
+  public hoverRack(rackId: string | null): void {
+    if (rackId && !this.rackLayouts.has(rackId)) return;
+    this.setHoveredServer(null);
+    this.setHoveredRack(rackId);
+    if (rackId) {
+      this.showRackInfo(rackId);
+    } else {
+      this.showDefaultInfo();
+    }
+  }
 
-      if (targetObject.userData.isRackCase) {
-        const rack = targetObject.parent as THREE.Group;
-        this.hoveredRack = rack;
-        (targetObject.material as THREE.MeshStandardMaterial).opacity = 0.7;
-        this.showRackInfo(rack.userData.rackIndex);
-      } else if (targetObject.userData.id) {
-        this.hoveredServer = targetObject;
-        if (this.hoveredServer !== this.selectedServer) {
-          const material = targetObject.material as THREE.ShaderMaterial;
-          material.wireframe = true;
-        }
-        const serverData = this.serverStatus.getServerData(targetObject.userData.id);
-        if (serverData) {
-          this.showServerInfo(serverData);
-        }
-      }
+  /**
+   * 键盘导航等非鼠标方式悬停服务器：高亮服务器及其机柜，并显示服务器信息
+   */
+  public hoverServer(serverId: string | null): void {
+    const serverData = serverId ? this.serverStatus.getServerData(serverId) : undefined;
+    if (serverId && (!serverData || !this.rackRenderer.getServer(serverId))) return;
+    this.setHoveredServer(serverId);
+    this.setHoveredRack(serverData?.rackId ?? null);
+    if (serverData) {
+      this.showServerInfo(serverData);
     } else {
-      this.hoveredRack = null;
-      this.hoveredServer = null;
       this.showDefaultInfo();
     }
   }
 
-  public handleClick(raycaster: THREE.Raycaster, camera: THREE.Camera): void {
-    const serverMeshes: THREE.Object3D[] = [];
-    this.traverse((child) => {
-      if (child instanceof THREE.Mesh && child.userData.id) {
-        serverMeshes.push(child);
+  private setHoveredServer(serverId: string | null): void {
+    if (serverId === this.hoveredServerId) return;
+    if (this.hoveredServerId && this.hoveredServerId !== this.selectedServerId) {
+      this.rackRenderer.setServerHighlighted(this.hoveredServerId, false);
+    }
+    if (serverId) {
+      this.rackRenderer.setServerHighlighted(serverId, true);
+    }
+    this.hoveredServerId = serverId;
+  }
+
+  private setHoveredRack(rackId: string | null): void {
+    if (rackId === this.hoveredRackId) return;
+    const previous = this.hoveredRackId;
+    this.hoveredRackId = rackId;
+    if (previous) this.refreshRackAppearance(previous);
+    if (rackId) this.refreshRackAppearance(rackId);
+  }
+
+  public handleClick(raycaster: THREE.Raycaster): void {
+    const hit = this.pick(raycaster);
+    if (hit?.serverId) {
+      this.selectServer(hit.serverId);
+    } else if (hit?.topologyId) {
+      if (this.faultMode) {
+        this.topology.setFailed(hit.topologyId, !this.topology.isFailed(hit.topologyId));
       }
+      this.selectTopology(hit.topologyId);
+    } else {
+      this.selectTopology(null);
+    }
+  }
+
+  public getRackCapacities(): RackCapacity[] {
+    return [...this.rackLayouts.values()].map(rackLayout => computeRackCapacity(rackLayout, this.serverStatus));
+  }
+
+  /**
+   * 容量视图：按指定维度在机柜侧面显示占用率柱，并显示空闲U位；传入 null 关闭
+   */
+  public setCapacityMode(metric: CapacityMetric | null): void {
+    this.capacityMetric = metric;
+    this.rackRenderer.setEmptySlotsVisible(metric !== null);
+    this.refreshCapacity();
+  }
+
+  /**
+   * 放置助手：突出显示能容纳指定尺寸和功率设备的机柜及其最低可用U位；传入 null 清除
+   */
+  public setPlacement(request: PlacementRequest | null): void {
+    this.placement = request;
+    this.refreshCapacity();
+  }
+
+  // 当前放置请求的候选位置（机柜ID -> U位区间），未启用放置助手时返回 null
+  public getPlacements(): Map<string, SlotRange> | null {
+    return this.placement ? this.placements : null;
+  }
+
+  private refreshCapacity(): void {
+    const capacities = this.capacityMetric || this.placement ? this.getRackCapacities() : [];
+    this.placements = new Map();
+    capacities.forEach(capacity => {
+      const range = this.placement ? findPlacement(capacity, this.placement) : null;
+      if (range) this.placements.set(capacity.rackId, range);
     });
+    this.rackRenderer.setPlacementSlots(this.placement ? this.placements : null);
 
-    const intersects = raycaster.intersectObjects(serverMeshes);
-    
-    if (intersects.length > 0) {
-      const clickedObject = intersects[0].object as THREE.Mesh;
-      const serverId = clickedObject.userData.id;
-      
-      if (serverId) {
-        const serverData = this.serverStatus.getServerData(serverId);
-        if (serverData) {
-          if (this.selectedServer) {
-            const material = this.selectedServer.material as THREE.ShaderMaterial;
-            material.wireframe = false;
-          }
-
-          this.selectedServer = clickedObject;
-          const material = clickedObject.material as THREE.ShaderMaterial;
-          material.wireframe = true;
-
-          this.showServerInfo(serverData);
-        }
+    const metric = this.capacityMetric;
+    const capacityById = new Map(capacities.map(capacity => [capacity.rackId, capacity]));
+    this.rackLayouts.forEach((_rackLayout, rackId) => {
+      const capacity = capacityById.get(rackId);
+      if (metric && capacity) {
+        const usage = getCapacityUsage(capacity, metric);
+        this.rackRenderer.setRackFillLevel(rackId, usage, getCapacityColor(usage));
+      } else {
+        this.rackRenderer.setRackFillLevel(rackId, null);
       }
+      this.refreshRackAppearance(rackId);
+    });
+  }
+
+  /**
+   * 按资产台账的保修到期日高亮服务器：已过保为红色，即将到期为橙色
+   */
+  public setWarrantyHighlight(active: boolean): void {
+    this.warrantyHighlight = active;
+    this.refreshServerPanels();
+  }
+
+  // 服务器前面板颜色：气流视图中进风温度将越过阈值的服务器优先，其次为保修状态
+  private refreshServerPanels(): void {
+    const risks = new Map(this.airflowEstimate?.risks.map(risk => [risk.serverId, risk.level]));
+    this.rackRenderer.getServers().forEach(server => {
+      const risk = risks.get(server.id);
+      const warranty = this.warrantyHighlight
+        ? WARRANTY_PANEL_COLORS[getWarrantyStatus(this.assets?.get(server.id))] ?? null
+        : null;
+      this.rackRenderer.setServerPanelColor(server.id, risk ? palette.ledColor(risk) : warranty);
+    });
+  }
+
+  /**
+   * 气流模拟：显示空调送风、机柜进排风的粒子流和箭头，并高亮进风温度将越过告警阈值的服务器。
+   * 配合故障模拟（拓扑中标记空调或冷却管路故障）估算空调失效后的影响
+   */
+  public setAirflowVisible(visible: boolean): void {
+    this.airflowView.visible = visible;
+    if (visible) {
+      this.refreshAirflow();
+    } else {
+      this.airflowEstimate = null;
+      this.refreshServerPanels();
     }
   }
 
-  private showRackInfo(rackIndex: number): void {
-    const infoElement = document.getElementById('info');
-    if (infoElement) {
+  public isAirflowVisible(): boolean {
+    return this.airflowView.visible;
+  }
+
+  // 当前故障状态下的气流估算，气流视图未开启时为 null
+  public getAirflowEstimate(): AirflowEstimate | null {
+    return this.airflowEstimate;
+  }
+
+  /**
+   * 标记拓扑节点或连接故障（或恢复），与故障模拟模式下单击的效果相同
+   */
+  public setTopologyFailed(id: string, failed: boolean): void {
+    this.topology.setFailed(id, failed);
+    if (this.airflowView.visible) this.refreshAirflow();
+  }
+
+  public isTopologyFailed(id: string): boolean {
+    return this.topology.isFailed(id);
+  }
+
+  private refreshAirflow(): void {
+    this.airflowEstimate = estimateAirflow(this.room, this.topology, this.serverStatus, this.alertEngine);
+    this.airflowDirty = false;
+    this.airflowView.setEstimate(this.airflowEstimate, palette.colorScale('inletTemperature'));
+    this.refreshServerPanels();
+  }
+
+  private onAssetsChanged(): void {
+    if (this.warrantyHighlight) this.setWarrantyHighlight(true);
+    const data = this.infoServerId ? this.serverStatus.getServerData(this.infoServerId) : undefined;
+    if (data) this.showServerInfo(data);
+  }
+
+  // 服务器机身和地面热力图使用当前指标在当前配色下的色阶
+  private applyColorScale(): void {
+    const colorScale = palette.colorScale(this.heatmapMetric);
+    this.rackRenderer.setColorScale(colorScale);
+    this.floorHeatmap.setColorScale(colorScale);
+  }
+
+  // 切换配色后重新设置热力图色阶、指示灯和机柜颜色
+  private applyPalette(): void {
+    this.applyColorScale();
+    this.rackRenderer.getServers().forEach(server => {
+      const data = this.serverStatus.getServerData(server.id);
+      if (data && data.lastUpdate > 0) this.updateStatusLight(data);
+    });
+    this.heatmapDirty = true;
+    this.airflowDirty = true;
+    this.rackLayouts.forEach((_rackLayout, rackId) => this.refreshRackAppearance(rackId));
+    this.refreshServerPanels();
+    this.refreshInfo();
+  }
+
+  // 温度单位切换后按新单位重新显示当前的信息面板
+  private refreshInfo(): void {
+    const data = this.infoServerId ? this.serverStatus.getServerData(this.infoServerId) : undefined;
+    if (data) {
+      this.showServerInfo(data);
+    } else if (this.hoveredRackId) {
+      this.showRackInfo(this.hoveredRackId);
+    }
+  }
+
+  /**
+   * 故障模拟模式：开启后单击拓扑节点或连接切换其故障状态
+   */
+  public setFaultMode(active: boolean): void {
+    this.faultMode = active;
+  }
+
+  /**
+   * 选中拓扑节点或连接，突出显示其下游受影响的节点、连接、机柜和服务器；传入 null 取消
+   */
+  public selectTopology(id: string | null): void {
+    this.selectedTopologyId = id;
+    if (!id) {
+      this.impactedRacks = new Set();
+      this.topologyView.setHighlight(null);
+      this.updateRackFeedStatus();
+      return;
+    }
+    const impact = this.topology.getDownstream(id);
+    this.impactedRacks = new Set(impact.racks);
+    this.topologyView.setHighlight(new Set([id, ...impact.nodes, ...impact.links]));
+    this.updateRackFeedStatus();
+    this.showTopologyInfo(id);
+  }
+
+  private updateRackFeedStatus(): void {
+    this.rackLayouts.forEach((_rackLayout, rackId) => this.refreshRackAppearance(rackId));
+    if (this.selectedTopologyId && this.infoTopologyId === this.selectedTopologyId) {
+      this.showTopologyInfo(this.selectedTopologyId);
+    }
+  }
+
+  /**
+   * 机柜外壳外观：供给中断为红色，处于所选设备影响范围内为黄色，
+   * 收起细节的远景机柜显示当前热力图指标的最高值；透明度反映悬停与过滤状态
+   */
+  private refreshRackAppearance(rackId: string): void {
+    const rack = this.rackRenderer.getRack(rackId);
+    if (!rack) return;
+    const feedFailed = this.topology.getRackFeeds(rackId)
+      .some(link => this.topology.getState(link.id)?.status === 'failed');
+
+    let color: THREE.Color | number = RACK_COLOR;
+    if (feedFailed) {
+      color = RACK_FEED_FAILED_COLOR;
+    } else if (this.impactedRacks.has(rackId)) {
+      color = RACK_IMPACTED_COLOR;
+    } else if (this.placements.has(rackId)) {
+      color = RACK_PLACEMENT_COLOR;
+    } else if (!rack.detailed) {
+      const hottest = Math.max(0, ...rack.servers.map(server => {
+        const data = this.serverStatus.getServerData(server.id);
+        return data && data.lastUpdate > 0 ? this.getHeatValue(data) : 0;
+      }));
+      color = colorFromScale(hottest, palette.colorScale(this.heatmapMetric));
+    }
+
+    // 放置助手开启时，不能容纳新设备的机柜淡化显示
+    const unplaceable = this.placement !== null && !this.placements.has(rackId);
+    const opacity = this.hoveredRackId === rackId ? 0.7 : unplaceable ? 0.25 : this.getRackBaseOpacity(rackId);
+    this.rackRenderer.setRackAppearance(rackId, color, opacity);
+  }
+
+  public selectServer(serverId: string): boolean {
+    const serverData = this.serverStatus.getServerData(serverId);
+    if (!this.rackRenderer.getServer(serverId) || !serverData) return false;
+
+    if (this.selectedServerId && this.selectedServerId !== this.hoveredServerId) {
+      this.rackRenderer.setServerHighlighted(this.selectedServerId, false);
+    }
+
+    this.selectedServerId = serverId;
+    this.rackRenderer.setServerHighlighted(serverId, true);
+
+    this.showServerInfo(serverData);
+    this.onServerSelected?.(serverId);
+    return true;
+  }
+
+  /**
+   * 取消选中的服务器，没有选中时返回 false
+   */
+  public clearSelection(): boolean {
+    if (!this.selectedServerId) return false;
+    if (this.selectedServerId !== this.hoveredServerId) {
+      this.rackRenderer.setServerHighlighted(this.selectedServerId, false);
+    }
+    this.selectedServerId = null;
+    this.showDefaultInfo();
+    return true;
+  }
+
+  /**
+   * 返回射线命中的服务器或机柜
+   */
+  public pickObject(raycaster: THREE.Raycaster): { rackId: string; serverId?: string } | null {
+    this.updateMatrixWorld();
+    _ray.copy(raycaster.ray).applyMatrix4(_inverse.copy(this.matrixWorld).invert());
+    const hit = this.picker.pick(_ray);
+    return hit ? { rackId: hit.rackId, serverId: hit.serverId } : null;
+  }
+
+  // 按 ID、名称或序号查找机柜
+  public resolveRack(ref: string): string | undefined {
+    if (this.rackLayouts.has(ref)) return ref;
+    const racks = [...this.rackLayouts.values()];
+    const byName = racks.find(rack => rack.name === ref);
+    if (byName) return byName.id;
+    return /^\d+$/.test(ref) ? racks[Number(ref)]?.id : undefined;
+  }
+
+  // 在机柜内按 ID 或序号查找服务器
+  public resolveServer(rackId: string, ref: string): string | undefined {
+    const devices = this.rackLayouts.get(rackId)?.devices ?? [];
+    if (devices.some(device => device.id === ref)) return ref;
+    return /^\d+$/.test(ref) ? devices[Number(ref)]?.id : undefined;
+  }
+
+  public getServerIds(): string[] {
+    return this.rackRenderer.getServers().map(server => server.id);
+  }
+
+  public getRackLayout(rackId: string): RackLayout | undefined {
+    return this.rackLayouts.get(rackId);
+  }
+
+  /**
+   * 高亮过滤结果：不匹配的服务器和没有匹配服务器的机柜半透明显示，传入 null 取消过滤
+   */
+  public setFilter(matchingIds: Set<string> | null): void {
+    this.filteredIds = matchingIds;
+    this.rackRenderer.getServers().forEach(server => {
+      this.rackRenderer.setServerGhosted(server.id, matchingIds !== null && !matchingIds.has(server.id));
+    });
+    this.rackLayouts.forEach((_rackLayout, rackId) => this.refreshRackAppearance(rackId));
+    this.onFilterChanged?.(matchingIds);
+  }
+
+  private getRackBaseOpacity(rackId: string): number {
+    if (!this.filteredIds) return 1;
+    const rackLayout = this.rackLayouts.get(rackId);
+    const hasMatch = rackLayout?.devices.some(device => this.filteredIds?.has(device.id));
+    return hasMatch ? 1 : 0.2;
+  }
+
+  /**
+   * 返回服务器中心的世界坐标及其正面朝向，用于相机定位
+   */
+  public getServerFocus(serverId: string): { target: THREE.Vector3; normal: THREE.Vector3 } | null {
+    const server = this.rackRenderer.getServer(serverId);
+    if (!server) return null;
+    this.updateWorldMatrix(true, false);
+    const target = this.localToWorld(server.center.clone());
+    return { target, normal: this.getRackNormal(server.rack.layout) };
+  }
+
+  /**
+   * 返回机柜中心的世界坐标及其正面朝向，用于相机定位
+   */
+  public getRackFocus(rackId: string): { target: THREE.Vector3; normal: THREE.Vector3 } | null {
+    const rackLayout = this.rackLayouts.get(rackId);
+    if (!rackLayout) return null;
+    this.updateWorldMatrix(true, false);
+    const target = this.localToWorld(new THREE.Vector3(rackLayout.position.x, 1, rackLayout.position.z));
+    return { target, normal: this.getRackNormal(rackLayout) };
+  }
+
+  // 机柜正面朝向（世界坐标系）
+  private getRackNormal(rackLayout: RackLayout): THREE.Vector3 {
+    const rotation = THREE.MathUtils.degToRad(rackLayout.rotation ?? 0);
+    return new THREE.Vector3(Math.sin(rotation), 0, Math.cos(rotation))
+      .applyQuaternion(this.getWorldQuaternion(new THREE.Quaternion()));
+  }
+
+  // 通知宿主信息面板的内容；返回需要写入的元素，由宿主渲染时返回 null
+  private beginInfo(content: InfoContent): HTMLElement | null {
+    if (this.onInfo) {
+      this.onInfo(content);
+      return null;
+    }
+    return this.infoElement;
+  }
+
+  private showRackInfo(rackId: string): void {
+    this.infoServerId = null;
+    this.infoTopologyId = null;
+    const infoElement = this.beginInfo({ kind: 'rack', rackId });
+    const rackLayout = this.rackLayouts.get(rackId);
+    if (infoElement && rackLayout) {
       let serverList = '';
-      for (let i = 0; i < 5; i++) {
-        const serverId = `rack${rackIndex}-server${i}`;
-        const server = this.servers.get(serverId);
-        const brand = server?.userData.brand || '未知品牌';
+      // 自上而下列出机柜内设备
+      const devices = [...rackLayout.devices].sort((a, b) => b.slot - a.slot);
+      for (const device of devices) {
+        const serverId = device.id;
+        const brand = device.brand || t('server.unknownBrand');
         const data = this.serverStatus.getServerData(serverId);
         if (data) {
           const statusColor = this.getStatusColor(data.status);
+          // 热力图指标不是温度或 CPU 时一并列出
+          const heatValue = data[this.heatmapMetric];
+          const extra = heatValue !== undefined && !['temperature', 'cpuUsage'].includes(this.heatmapMetric)
+            ? ` | ${t(`metric.${this.heatmapMetric}`)}: ${formatMetric(this.heatmapMetric, heatValue)}`
+            : '';
           serverList += `
             <div style="margin: 5px 0; padding: 5px; border-left: 3px solid ${statusColor}">
-              <strong>${brand}</strong> - ${serverId}<br>
-              <small>温度: ${data.temperature.toFixed(1)}°C | CPU: ${data.cpuUsage.toFixed(1)}%</small>
+              <strong>${escapeHtml(brand)}</strong> - ${escapeHtml(serverId)} <small>(U${device.slot}, ${device.sizeU}U)</small><br>
+              <small>${t('metric.temperature')}: ${formatMetric('temperature', data.temperature)} | CPU: ${formatMetric('cpuUsage', data.cpuUsage)}${extra}</small>
             </div>
           `;
         }
       }
 
+      const capacity = computeRackCapacity(rackLayout, this.serverStatus);
+      const { statusCounts } = summarizeRack(rackLayout, this.serverStatus);
+
+      // 按各指标的汇总方式合并机柜内已上报数据的服务器
+      const reporting = rackLayout.devices
+        .map(device => this.serverStatus.getServerData(device.id))
+        .filter((data): data is ServerData => !!data && data.lastUpdate > 0);
+      const rollups = METRIC_KEYS.flatMap(metric => {
+        const value = rollupMetric(metric, reporting.map(data => data[metric]));
+        if (value === null) return [];
+        const label = t('rack.rollup', { metric: t(`metric.${metric}`), rollup: t(`rollup.${METRICS[metric].rollup}`) });
+        return [`<span>${label}: ${formatMetric(metric, value)}</span>`];
+      });
+
+      // 该机柜的网络、电源、冷却供给来源
+      const feeds = this.topology.getRackFeeds(rackId).map(link => {
+        const status = this.topology.getState(link.id)?.status ?? 'normal';
+        const source = this.topology.getNode(link.from);
+        return `<span style="color: ${this.getTopologyStatusColor(status)}">${t(`infrastructure.${link.type}`)}: ${escapeHtml(source?.name ?? link.from)}</span>`;
+      });
+
+      // 气流视图开启时显示估算的进风、排风温度及送风空调
+      const airflow = this.airflowEstimate?.racks.find(item => item.rackId === rackId);
+      const cracNames = airflow?.cracIds.map(id => this.topology.getNode(id)?.name ?? id) ?? [];
+
       infoElement.innerHTML = `
         <div style="background: rgba(0, 0, 0, 0.7); padding: 10px; border-radius: 5px;">
-          <h3 style="margin: 0 0 10px 0;">机柜 #${rackIndex + 1} 服务器列表</h3>
+          <h3 style="margin: 0 0 10px 0;">${t('rack.serverListTitle', { rack: escapeHtml(rackLayout.name ?? rackLayout.id) })}</h3>
+          ${feeds.length > 0 ? `<p><small>${feeds.join(' | ')}</small></p>` : ''}
+          ${airflow ? `<p><small>${t('airflow.rackSummary', {
+            inlet: formatMetric('inletTemperature', airflow.inletTemperature),
+            delta: i18n.formatTemperatureDelta(airflow.inletDelta),
+            exhaust: formatMetric('outletTemperature', airflow.exhaustTemperature),
+            cracs: cracNames.length > 0 ? escapeHtml(cracNames.join(t('common.listSeparator'))) : t('airflow.noCrac'),
+          })}${airflow.fallback ? ` <span style="color: ${this.getStatusColor('warning')}">${t('airflow.fallback')}</span>` : ''}</small></p>` : ''}
+          <p><small>${t('status.normal')} ${statusCounts.normal} | <span style="color: ${this.getStatusColor('warning')}">${t('status.warning')} ${statusCounts.warning}</span> | <span style="color: ${this.getStatusColor('error')}">${t('status.error')} ${statusCounts.error}</span> | ${t('status.stale')} ${statusCounts.stale}</small></p>
+          <p><small>${t('rack.capacitySummary', {
+            freeU: capacity.freeU,
+            largestFreeU: capacity.largestFreeU,
+            drawn: i18n.formatNumber(capacity.drawnPowerKw, 1),
+            rated: i18n.formatNumber(capacity.ratedPowerKw),
+            cooling: i18n.formatNumber(capacity.coolingKw - capacity.heatLoadKw, 1),
+          })}</small></p>
+          ${rollups.length > 0 ? `<div style="display: grid; grid-template-columns: 1fr 1fr; gap: 0 10px; font-size: 12px;">${rollups.join('')}</div>` : ''}
           ${serverList}
         </div>
       `;
     }
   }
 
+  private showTopologyInfo(id: string): void {
+    this.infoServerId = null;
+    this.infoTopologyId = id;
+    const infoElement = this.beginInfo({ kind: 'topology', id });
+    const state = this.topology.getState(id);
+    if (!infoElement || !state) return;
+
+    const node = this.topology.getNode(id);
+    const link = this.topology.getLink(id);
+    // 节点和机柜名称来自布局文件，转义后再写入
+    const describe = (endpoint: string) =>
+      escapeHtml(this.topology.getNode(endpoint)?.name ?? this.rackLayouts.get(endpoint)?.name ?? endpoint);
+    const impact = this.topology.getDownstream(id);
+    const selected = this.selectedTopologyId === id;
+    const impactList = selected
+      ? `<p><small>${impact.racks.map(rackId => t('rack.label', { rack: describe(rackId) })).join(t('common.listSeparator'))}</small></p>`
+      : `<p><small>${t('topology.clickForImpact')}</small></p>`;
+
+    infoElement.innerHTML = `
+      <div style="background: rgba(0, 0, 0, 0.7); padding: 10px; border-radius: 5px;">
+        <h3 style="margin: 0 0 10px 0;">${node ? escapeHtml(node.name ?? node.id) : t(`infrastructure.${link!.type}`)}</h3>
+        ${node ? `<p>${t('topology.kind')}: ${t(`topologyNode.${node.kind}`)}</p>` : ''}
+        ${link ? `<p>${t('topology.link')}: ${describe(link.from)} → ${describe(link.to)}</p>` : ''}
+        <p>ID: ${escapeHtml(id)}</p>
+        <p>${t('common.status')}: <span style="color: ${this.getTopologyStatusColor(state.status)}">${t(`topologyStatus.${state.status}`)}</span>${state.failed ? t('topology.markedFailed') : ''}</p>
+        <p>${t('topology.utilization')}: ${i18n.formatNumber(state.utilization * 100, 1)}%</p>
+        <p>${t('topology.impact', { racks: impact.racks.length, servers: impact.servers.length })}</p>
+        ${impactList}
+      </div>
+    `;
+  }
+
   private showDefaultInfo(): void {
-    const infoElement = document.getElementById('info');
+    this.infoServerId = null;
+    this.infoTopologyId = null;
+    const infoElement = this.beginInfo({ kind: 'room', roomId: this.room.id });
     if (infoElement) {
+      const summary = summarizeRoom(this.room, this.serverStatus);
       infoElement.innerHTML = `
         <div style="background: rgba(0, 0, 0, 0.7); padding: 10px; border-radius: 5px;">
-          <h3 style="margin: 0;">数据中心概览</h3>
-          <p>请将鼠标移到机柜或服务器上查看详细信息</p>
+          <h3 style="margin: 0;">${t('room.overviewTitle', { room: escapeHtml(this.room.name) })}</h3>
+          <p>${t('room.overviewSummary', {
+            reporting: summary.reporting,
+            servers: summary.servers,
+            warning: summary.statusCounts.warning,
+            error: summary.statusCounts.error,
+            power: i18n.formatNumber(summary.powerKw, 1),
+          })}</p>
+          <p>${t('room.hoverHint')}</p>
           <div style="margin-top: 10px;">
-            <p>基础设施图例：</p>
+            <p>${t('room.legend')}</p>
             <div style="display: flex; gap: 10px; flex-wrap: wrap;">
               <div style="display: flex; align-items: center;">
                 <span style="display: inline-block; width: 20px; height: 10px; background: #4287f5; margin-right: 5px;"></span>
-                <span>网络线缆</span>
+                <span>${t('legend.network')}</span>
               </div>
               <div style="display: flex; align-items: center;">
                 <span style="display: inline-block; width: 20px; height: 10px; background: #ff4444; margin-right: 5px;"></span>
-                <span>电源线路</span>
+                <span>${t('legend.power')}</span>
               </div>
               <div style="display: flex; align-items: center;">
                 <span style="display: inline-block; width: 20px; height: 10px; background: #42f5aa; margin-right: 5px;"></span>
-                <span>冷却管道</span>
+                <span>${t('legend.cooling')}</span>
               </div>
               <div style="display: flex; align-items: center;">
                 <span style="display: inline-block; width: 20px; height: 10px; background: #f542f5; margin-right: 5px;"></span>
-                <span>光纤线路</span>
+                <span>${t('legend.fiber')}</span>
               </div>
             </div>
           </div>
@@ -489,43 +984,108 @@ export class DataCenter extends THREE.Group {
   }
 
   private showServerInfo(data: ServerData): void {
-    const infoElement = document.getElementById('info');
+    this.infoServerId = data.id;
+    this.infoTopologyId = null;
+    const infoElement = this.beginInfo({ kind: 'server', serverId: data.id, data });
     if (infoElement) {
-      const server = this.servers.get(data.id);
-      const brandName = server?.userData.brand || '未知品牌';
+      const device = this.rackRenderer.getServer(data.id)?.device;
+      const brandName = device?.brand || t('server.unknownBrand');
+      const asset = this.assets?.get(data.id);
       
       infoElement.innerHTML = `
         <div style="background: rgba(0, 0, 0, 0.7); padding: 10px; border-radius: 5px;">
-          <h3 style="margin: 0 0 10px 0;">服务器信息</h3>
-          <p>品牌: ${brandName}</p>
-          <p>ID: ${data.id}</p>
-          <p>温度: <span style="color: ${this.getTemperatureColor(data.temperature)}">${data.temperature.toFixed(1)}°C</span></p>
-          <p>CPU使用率: <span style="color: ${this.getUsageColor(data.cpuUsage)}">${data.cpuUsage.toFixed(1)}%</span></p>
-          <p>内存使用率: <span style="color: ${this.getUsageColor(data.memoryUsage)}">${data.memoryUsage.toFixed(1)}%</span></p>
-          <p>状态: <span style="color: ${this.getStatusColor(data.status)}">${data.status}</span></p>
+          <h3 style="margin: 0 0 10px 0;">${t('server.infoTitle')}</h3>
+          <p>${t('common.brand')}: ${escapeHtml(brandName)}</p>
+          <p>${t('common.model')}: ${escapeHtml(asset?.model ?? device?.model ?? '-')}</p>
+          <p>ID: ${escapeHtml(data.id)}</p>
+          ${this.renderAssetInfo(data.id)}
+          ${this.renderMetrics(data)}
+          <p>${t('common.status')}: <span style="color: ${this.getStatusColor(data.status)}">${t(`status.${data.status}`)}</span></p>
+          ${data.stale ? `<p style="color: #999999;">${t('server.staleData', { time: data.lastUpdate ? i18n.formatTime(data.lastUpdate) : t('server.never') })}</p>` : ''}
         </div>
       `;
     }
   }
 
-  private getTemperatureColor(temp: number): string {
-    if (temp > 45) return '#ff4444';
-    if (temp > 35) return '#ffaa00';
-    return '#44ff44';
+  // 资产台账中的硬件身份、归属与保修信息
+  private renderAssetInfo(serverId: string): string {
+    const asset = this.assets?.get(serverId);
+    if (!asset) return `<p style="color: #999999;">${t('asset.none')}</p>`;
+    const warranty = getWarrantyStatus(asset);
+    const warrantyColor = warranty === 'expired'
+      ? palette.statusColor('error')
+      : warranty === 'expiring' ? palette.statusColor('warning') : '#ffffff';
+    // 台账字段来自用户导入的文件，必须转义
+    const row = (label: string, value: string | undefined) => (value ? `<p>${label}: ${escapeHtml(value)}</p>` : '');
+    return `
+      ${row(t('asset.field.serialNumber'), asset.serialNumber)}
+      ${row(t('asset.field.hostname'), asset.hostname)}
+      ${row(t('asset.field.ip'), asset.ip)}
+      ${row(t('asset.field.os'), asset.os)}
+      ${row(t('asset.field.owner'), asset.owner)}
+      ${row(t('asset.field.purchaseDate'), asset.purchaseDate)}
+      ${asset.warrantyEnd ? `<p>${t('asset.field.warrantyEnd')}: <span style="color: ${warrantyColor}">${t('asset.warrantyValue', { date: escapeHtml(asset.warrantyEnd), status: t(`warranty.${warranty}`) })}</span></p>` : ''}
+      ${asset.tags.length > 0 ? `<p>${t('asset.field.tags')}: ${escapeHtml(asset.tags.join(', '))}</p>` : ''}
+    `;
+  }
+
+  // 热力图指标显示完整历史，其余已上报的指标每项一行，带迷你折线
+  private renderMetrics(data: ServerData): string {
+    const rows = METRIC_KEYS
+      .filter(metric => metric !== this.heatmapMetric && data[metric] !== undefined)
+      .map(metric => {
+        const color = this.getMetricColor(metric, data);
+        return `
+          <div style="display: flex; align-items: center; gap: 8px;">
+            <span style="flex: 1;">${t(`metric.${metric}`)}</span>
+            <span style="color: ${color}; min-width: 80px; text-align: right;">${formatMetric(metric, data[metric] as number)}</span>
+            ${renderSparkline(this.serverStatus.getHistory(data.id, metric, 5 * 60 * 1000), { color, width: 80, height: 16 })}
+          </div>
+        `;
+      });
+    return `
+      ${data[this.heatmapMetric] !== undefined ? this.renderMetricHistory(this.heatmapMetric, data) : ''}
+      <div style="margin: 5px 0;">${rows.join('')}</div>
+    `;
+  }
+
+  // 当前值 + 最近5分钟折线 + 5分钟/1小时统计
+  private renderMetricHistory(metric: MetricKey, data: ServerData): string {
+    const label = t(`metric.${metric}`);
+    const color = this.getMetricColor(metric, data);
+    const formatStats = (windowLabel: string, windowMs: number) => {
+      const stats = this.serverStatus.getHistoryStats(data.id, metric, windowMs);
+      if (!stats) return `${windowLabel}: -`;
+      return `${windowLabel}: ${t('history.stats', {
+        min: formatMetric(metric, stats.min),
+        max: formatMetric(metric, stats.max),
+        avg: formatMetric(metric, stats.avg),
+      })}`;
+    };
+
+    return `
+      <p>${label}: <span style="color: ${color}">${formatMetric(metric, data[metric] as number)}</span></p>
+      ${renderSparkline(this.serverStatus.getHistory(data.id, metric, 5 * 60 * 1000), { color })}
+      <small style="color: #cccccc;">${formatStats(t('history.window5m'), 5 * 60 * 1000)}<br>${formatStats(t('history.window1h'), 60 * 60 * 1000)}</small>
+    `;
   }
 
-  private getUsageColor(usage: number): string {
-    if (usage > 90) return '#ff4444';
-    if (usage > 70) return '#ffaa00';
-    return '#44ff44';
+  // 指标颜色与 ServerData.status 使用同一套告警阈值
+  private getMetricColor(metric: MetricKey, data: ServerData): string {
+    const value = data[metric];
+    if (value === undefined) return '#ffffff';
+    return this.getStatusColor(this.alertEngine.getLevel(metric, value, data));
   }
 
-  private getStatusColor(status: string): string {
+  private getTopologyStatusColor(status: TopologyStatus): string {
     switch (status) {
-      case 'error': return '#ff4444';
-      case 'warning': return '#ffaa00';
-      case 'normal': return '#44ff44';
-      default: return '#ffffff';
+      case 'failed': return palette.statusColor('error');
+      case 'degraded': return palette.statusColor('warning');
+      case 'normal': return palette.statusColor('normal');
     }
   }
+
+  private getStatusColor(status: StatusLevel): string {
+    return palette.statusColor(status);
+  }
 } 
\ No newline at end of file
@@ -0,0 +1,320 @@
+import * as THREE from 'three';
+import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls';
+import { DataCenter, HoverTarget, InfoContent } from './DataCenter';
+import { EventEmitter } from './EventEmitter';
+import { ServerData, ServerStatus } from './ServerStatus';
+import { Alert, AlertEngine, AlertRule, DEFAULT_ALERT_RULES } from './AlertEngine';
+import { DataCenterLayout, getLayoutDevices, parseLayout } from './Layout';
+import { ConnectionState, TelemetrySample, TelemetrySource } from './TelemetrySource';
+import { TelemetryConfig, createTelemetrySource } from './TelemetryConfig';
+import { CameraController } from './CameraController';
+import { PointerInput, PointerKind } from './PointerInput';
+import { RenderQuality } from './RenderQuality';
+import { MetricKey } from './Metrics';
+import { createDefaultViewpoints } from './Viewpoints';
+
+export interface DataCenterViewerOptions {
+  layout: unknown; // 布局数据，按 parseLayout 校验，不合法时抛出 LayoutValidationError
+  roomId?: string; // 初始机房，默认为第一个
+  alertRules?: AlertRule[];
+  telemetry?: TelemetryConfig; // 提供时自动连接数据源；否则由宿主调用 pushTelemetry 推送数据
+  tickMs?: number; // 数据节拍间隔，默认取 telemetry.tickMs 或 1000
+  staleAfterMs?: number;
+  infoElement?: HTMLElement | null; // 信息面板的宿主元素，未提供时不显示
+  onInfo?: (content: InfoContent) => void; // 提供时由宿主渲染信息面板，不再写入 infoElement
+  background?: number;
+}
+
+export interface DataCenterViewerEvents {
+  select: [serverId: string, data: ServerData];
+  hover: [target: HoverTarget];
+  alert: [alert: Alert]; // 告警产生、升级、确认或解除
+  roomChanged: [roomId: string];
+  connectionChanged: [state: ConnectionState];
+}
+
+/**
+ * 可嵌入的三维机房视图：只包含场景、交互和数据，不创建工具栏和各功能面板，
+ * 画布大小跟随容器。宿主通过方法加载布局、推送遥测数据和定位服务器，通过事件获知选中、悬停和告警
+ */
+export class DataCenterViewer extends EventEmitter<DataCenterViewerEvents> {
+  private scene: THREE.Scene;
+  private camera: THREE.PerspectiveCamera;
+  private renderer: THREE.WebGLRenderer;
+  private renderQuality: RenderQuality;
+  private controls: OrbitControls;
+  private cameraController: CameraController;
+  private pointerInput: PointerInput;
+  private resizeObserver: ResizeObserver;
+  private raycaster = new THREE.Raycaster();
+  private pointer = new THREE.Vector2();
+  private layout!: DataCenterLayout;
+  private roomId!: string;
+  private serverRooms: Map<string, string> = new Map();
+  private alertEngine!: AlertEngine;
+  private serverStatus!: ServerStatus;
+  private dataCenter!: DataCenter;
+  private telemetrySource: TelemetrySource | null = null;
+  private heatmapMetric: MetricKey = 'temperature';
+  private unsubscribers: (() => void)[] = [];
+  private frame: number | null = null;
+  private disposed = false;
+
+  constructor(private readonly container: HTMLElement, private readonly options: DataCenterViewerOptions) {
+    super();
+    this.scene = new THREE.Scene();
+    this.scene.background = new THREE.Color(options.background ?? 0x1a1a1a);
+    this.camera = new THREE.PerspectiveCamera(75, 1, 0.1, 1000);
+    this.renderer = new THREE.WebGLRenderer({ antialias: true });
+    this.renderer.domElement.style.display = 'block';
+    this.renderer.domElement.style.touchAction = 'none';
+    this.renderQuality = new RenderQuality(this.renderer);
+    container.appendChild(this.renderer.domElement);
+
+    this.controls = new OrbitControls(this.camera, this.renderer.domElement);
+    this.controls.enableDamping = true;
+    this.cameraController = new CameraController(this.camera, this.controls);
+
+    this.scene.add(new THREE.AmbientLight(0xffffff, 0.5));
+    const directionalLight = new THREE.DirectionalLight(0xffffff, 1);
+    directionalLight.position.set(5, 5, 5);
+    this.scene.add(directionalLight);
+
+    this.pointerInput = new PointerInput(this.renderer.domElement, {
+      onHover: (x, y) => this.dataCenter.handleMouseMove(this.updateRaycaster(x, y)),
+      onTap: this.onTap.bind(this),
+      onLongPress: (x, y) => this.dataCenter.handleMouseMove(this.updateRaycaster(x, y)),
+      onDoubleTap: this.onDoubleTap.bind(this),
+    });
+    this.resizeObserver = new ResizeObserver(() => this.resize());
+    this.resizeObserver.observe(container);
+    this.resize();
+
+    try {
+      this.loadLayout(options.layout, options.roomId);
+    } catch (error) {
+      // 初始布局不合法时移除已创建的画布和监听，再把错误交给宿主
+      this.dispose();
+      throw error;
+    }
+    this.animate();
+  }
+
+  /**
+   * 加载新的布局：重建服务器状态、告警和场景，已连接的数据源按新的设备列表重新连接
+   */
+  public loadLayout(input: unknown, roomId?: string): void {
+    // 布局和数据源都创建成功后才释放旧的状态，出错时视图保持原样
+    const layout = parseLayout(input);
+    const serverRooms = new Map(getLayoutDevices(layout).map(device => [device.id, device.roomId]));
+    const source = this.options.telemetry ? createTelemetrySource(this.options.telemetry, [...serverRooms.keys()]) : null;
+    this.teardown();
+    this.layout = layout;
+    this.serverRooms = serverRooms;
+
+    const tickMs = this.options.tickMs ?? this.options.telemetry?.tickMs ?? 1000;
+    this.alertEngine = new AlertEngine(this.options.alertRules ?? DEFAULT_ALERT_RULES);
+    this.serverStatus = new ServerStatus(layout, this.alertEngine, {
+      staleAfterMs: this.options.staleAfterMs ?? this.options.telemetry?.staleAfterMs,
+      history: { rawIntervalMs: tickMs },
+    });
+    this.unsubscribers.push(this.alertEngine.on('alertChanged', alert => this.emit('alert', alert)));
+    this.serverStatus.start(tickMs);
+
+    const room = layout.rooms.find(item => item.id === roomId) ?? layout.rooms[0];
+    this.createRoom(room.id);
+    this.flyToOverview(true);
+
+    if (source) {
+      this.telemetrySource = source;
+      this.unsubscribers.push(source.onStateChange(state => this.emit('connectionChanged', state)));
+      source.start(samples => this.serverStatus.applySamples(samples));
+    }
+  }
+
+  public getLayout(): DataCenterLayout {
+    return this.layout;
+  }
+
+  public getRoomId(): string {
+    return this.roomId;
+  }
+
+  /**
+   * 切换到另一个机房，机房不存在时返回 false
+   */
+  public loadRoom(roomId: string): boolean {
+    if (roomId === this.roomId) return true;
+    if (!this.layout.rooms.some(room => room.id === roomId)) return false;
+    this.scene.remove(this.dataCenter);
+    this.dataCenter.dispose();
+    this.createRoom(roomId);
+    this.flyToOverview();
+    return true;
+  }
+
+  // 宿主推送遥测数据，在下一个数据节拍中应用
+  public pushTelemetry(samples: TelemetrySample[]): void {
+    this.serverStatus.applySamples(samples);
+  }
+
+  public getServerData(serverId: string): ServerData | undefined {
+    return this.serverStatus.getServerData(serverId);
+  }
+
+  public getAlerts(includeCleared: boolean = false): Alert[] {
+    return this.alertEngine.getAlerts(includeCleared);
+  }
+
+  /**
+   * 选中服务器（必要时切换机房），focus 为 true 时相机飞到服务器正面；服务器不存在时返回 false
+   */
+  public selectServer(serverId: string, focus: boolean = true): boolean {
+    const roomId = this.serverRooms.get(serverId);
+    if (!roomId) return false;
+    this.loadRoom(roomId);
+    if (focus) {
+      const target = this.dataCenter.getServerFocus(serverId);
+      if (target) this.cameraController.focusOn(target.target, target.normal);
+    }
+    return this.dataCenter.selectServer(serverId);
+  }
+
+  public focusServer(serverId: string): boolean {
+    return this.selectServer(serverId, true);
+  }
+
+  // 相机飞到当前机房中机柜的正面
+  public focusRack(rackId: string): boolean {
+    const target = this.dataCenter.getRackFocus(rackId);
+    if (!target) return false;
+    this.cameraController.focusOn(target.target, target.normal, 3);
+    return true;
+  }
+
+  public clearSelection(): void {
+    this.dataCenter.clearSelection();
+  }
+
+  public setHeatmapMetric(metric: MetricKey): void {
+    this.heatmapMetric = metric;
+    this.dataCenter.setHeatmapMetric(metric);
+  }
+
+  // 容器大小变化时自动调用；容器从隐藏变为显示等情况也可手动调用
+  public resize(): void {
+    const width = Math.max(1, this.container.clientWidth);
+    const height = Math.max(1, this.container.clientHeight);
+    this.camera.aspect = width / height;
+    this.camera.updateProjectionMatrix();
+    this.renderer.setSize(width, height);
+    this.renderQuality.handleResize();
+  }
+
+  /**
+   * 停止渲染和数据源，释放场景和图形资源并移除画布；之后不能再使用该实例
+   */
+  public dispose(): void {
+    if (this.disposed) return;
+    this.disposed = true;
+    if (this.frame !== null) cancelAnimationFrame(this.frame);
+    this.teardown();
+    this.pointerInput.dispose();
+    this.resizeObserver.disconnect();
+    this.controls.dispose();
+    this.renderer.dispose();
+    this.renderer.domElement.remove();
+    this.removeAllListeners();
+  }
+
+  private createRoom(roomId: string): void {
+    const room = this.layout.rooms.find(item => item.id === roomId)!;
+    this.roomId = room.id;
+    this.dataCenter = new DataCenter(room, this.serverStatus, this.alertEngine, {
+      interpolationMs: this.options.tickMs ?? this.options.telemetry?.tickMs ?? 1000,
+      onServerSelected: serverId => {
+        const data = this.serverStatus.getServerData(serverId);
+        if (data) this.emit('select', serverId, data);
+      },
+      onHover: target => this.emit('hover', target),
+      infoElement: this.options.infoElement,
+      onInfo: this.options.onInfo,
+    });
+    this.dataCenter.setHeatmapMetric(this.heatmapMetric);
+    this.scene.add(this.dataCenter);
+    this.emit('roomChanged', room.id);
+  }
+
+  // 释放当前布局相关的场景、数据和订阅
+  private teardown(): void {
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.unsubscribers = [];
+    this.telemetrySource?.stop();
+    this.telemetrySource = null;
+    if (this.serverStatus) {
+      this.serverStatus.stop();
+      this.serverStatus.removeAllListeners();
+    }
+    if (this.dataCenter) {
+      this.scene.remove(this.dataCenter);
+      this.dataCenter.dispose();
+    }
+  }
+
+  // 首次加载布局时直接放置相机，之后切换机房时平滑过渡
+  private flyToOverview(immediate: boolean = false): void {
+    const room = this.layout.rooms.find(item => item.id === this.roomId)!;
+    const overview = createDefaultViewpoints(room).find(viewpoint => viewpoint.id === 'overview');
+    if (!overview) return;
+    const position = new THREE.Vector3(...overview.position);
+    const target = new THREE.Vector3(...overview.target);
+    if (immediate) {
+      this.camera.position.copy(position);
+      this.controls.target.copy(target);
+      this.controls.update();
+    } else {
+      this.cameraController.flyTo(position, target);
+    }
+  }
+
+  // 指针坐标相对于画布，画布不一定占满窗口
+  private updateRaycaster(x: number, y: number): THREE.Raycaster {
+    const rect = this.renderer.domElement.getBoundingClientRect();
+    this.pointer.x = ((x - rect.left) / rect.width) * 2 - 1;
+    this.pointer.y = -((y - rect.top) / rect.height) * 2 + 1;
+    this.raycaster.setFromCamera(this.pointer, this.camera);
+    return this.raycaster;
+  }
+
+  private onTap(x: number, y: number, kind: PointerKind): void {
+    const raycaster = this.updateRaycaster(x, y);
+    if (kind !== 'mouse') this.dataCenter.handleMouseMove(raycaster);
+    this.dataCenter.handleClick(raycaster);
+  }
+
+  private onDoubleTap(x: number, y: number): void {
+    const picked = this.dataCenter.pickObject(this.updateRaycaster(x, y));
+    if (picked?.serverId) {
+      this.focusServer(picked.serverId);
+    } else if (picked) {
+      this.focusRack(picked.rackId);
+    }
+  }
+
+  private animate(): void {
+    this.frame = requestAnimationFrame(this.animate.bind(this));
+    const time = performance.now();
+    this.cameraController.update(time);
+    this.controls.update();
+    this.dataCenter.update(time, this.camera);
+    this.renderer.render(this.scene, this.camera);
+    this.renderQuality.update(time);
+  }
+}
+
+/**
+ * 在容器中创建三维机房视图
+ */
+export function createDataCenterViewer(container: HTMLElement, options: DataCenterViewerOptions): DataCenterViewer {
+  return new DataCenterViewer(container, options);
+}
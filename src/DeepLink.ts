@@ -0,0 +1,52 @@
+export type DeepLink =
+  | { kind: 'room'; room: string }
+  | { kind: 'rack'; room?: string; rack: string }
+  | { kind: 'server'; room?: string; rack: string; server: string }
+  | { kind: 'view'; room?: string; view: string };
+
+/**
+ * 解析地址栏 hash 中的深链接，支持：
+ *   #/room/<机房>、#/rack/<机柜>、#/rack/<机柜>/server/<服务器>、#/view/<视角ID>，
+ * 后三种可以加 #/room/<机房> 前缀；未指定机房时指当前机房。
+ * 机房可以是 ID 或名称，机柜和服务器可以是 ID、名称或从 0 开始的序号
+ */
+export function parseDeepLink(hash: string): DeepLink | null {
+  let segments: string[];
+  try {
+    segments = hash.replace(/^#\/?/, '').split('/').filter(Boolean).map(decodeURIComponent);
+  } catch (error) {
+    // 编码不合法（如 %E0）时视为没有深链接
+    console.warn('解析深链接失败', error);
+    return null;
+  }
+  let room: string | undefined;
+  if (segments[0] === 'room' && segments[1]) {
+    room = segments[1];
+    segments = segments.slice(2);
+    if (segments.length === 0) return { kind: 'room', room };
+  }
+  if (segments[0] === 'rack' && segments[1]) {
+    if (segments[2] === 'server' && segments[3]) {
+      return { kind: 'server', room, rack: segments[1], server: segments[3] };
+    }
+    return { kind: 'rack', room, rack: segments[1] };
+  }
+  if (segments[0] === 'view' && segments[1]) {
+    return { kind: 'view', room, view: segments[1] };
+  }
+  return null;
+}
+
+export function formatDeepLink(link: DeepLink): string {
+  const prefix = link.room ? `#/room/${encodeURIComponent(link.room)}` : '#';
+  switch (link.kind) {
+    case 'room':
+      return prefix;
+    case 'rack':
+      return `${prefix}/rack/${encodeURIComponent(link.rack)}`;
+    case 'server':
+      return `${prefix}/rack/${encodeURIComponent(link.rack)}/server/${encodeURIComponent(link.server)}`;
+    case 'view':
+      return `${prefix}/view/${encodeURIComponent(link.view)}`;
+  }
+}
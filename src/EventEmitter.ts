@@ -0,0 +1,27 @@
+type Listener<Args extends unknown[]> = (...args: Args) => void;
+
+/**
+ * 轻量的类型安全事件发射器，事件参数由 Events 映射定义
+ */
+export class EventEmitter<Events extends { [K in keyof Events]: unknown[] }> {
+  private listeners: { [K in keyof Events]?: Set<Listener<Events[K]>> } = {};
+
+  public on<K extends keyof Events>(event: K, listener: Listener<Events[K]>): () => void {
+    const set = this.listeners[event] ?? new Set<Listener<Events[K]>>();
+    this.listeners[event] = set;
+    set.add(listener);
+    return () => this.off(event, listener);
+  }
+
+  public off<K extends keyof Events>(event: K, listener: Listener<Events[K]>): void {
+    this.listeners[event]?.delete(listener);
+  }
+
+  protected emit<K extends keyof Events>(event: K, ...args: Events[K]): void {
+    this.listeners[event]?.forEach(listener => listener(...args));
+  }
+
+  public removeAllListeners(): void {
+    this.listeners = {};
+  }
+}
@@ -0,0 +1,198 @@
+import { Alert } from './AlertEngine';
+import { DataCenterLayout, RoomLayout, getLayoutDevices, getRoomRacks } from './Layout';
+import { METRIC_KEYS, MetricValues, formatMetric } from './Metrics';
+import { RoomSummary, getAlertRatio } from './Dashboard';
+import { ServerStatus, StatusLevel } from './ServerStatus';
+import { i18n, t } from './I18n';
+import { escapeHtml } from './Html';
+
+// 导出的单台服务器：遥测数据加上所在机房、机柜和U位
+export interface ServerExportRow extends MetricValues {
+  id: string;
+  roomId: string;
+  roomName: string;
+  rackId: string;
+  rackName: string;
+  slot: number;
+  sizeU: number;
+  brand: string;
+  model: string;
+  status: StatusLevel;
+  stale: boolean;
+  lastUpdate: string | null; // ISO 时间，尚无数据时为 null
+}
+
+const FIXED_COLUMNS = [
+  'id', 'roomId', 'roomName', 'rackId', 'rackName', 'slot', 'sizeU', 'brand', 'model', 'status', 'stale', 'lastUpdate',
+] as const;
+
+/**
+ * 收集布局中全部设备的当前数据，按机房、机柜、U位（自上而下）排列
+ */
+export function collectServerRows(layout: DataCenterLayout, serverStatus: ServerStatus): ServerExportRow[] {
+  const roomNames = new Map(layout.rooms.map(room => [room.id, room.name]));
+  const rackNames = new Map(layout.rooms.flatMap(getRoomRacks).map(rack => [rack.id, rack.name ?? rack.id]));
+  return getLayoutDevices(layout).map(device => {
+    const data = serverStatus.getServerData(device.id);
+    const row: ServerExportRow = {
+      id: device.id,
+      roomId: device.roomId,
+      roomName: roomNames.get(device.roomId) ?? device.roomId,
+      rackId: device.rackId,
+      rackName: rackNames.get(device.rackId) ?? device.rackId,
+      slot: device.slot,
+      sizeU: device.sizeU,
+      brand: device.brand,
+      model: device.model,
+      status: data?.status ?? 'normal',
+      stale: data?.stale ?? true,
+      lastUpdate: data && data.lastUpdate > 0 ? new Date(data.lastUpdate).toISOString() : null,
+    };
+    if (data && data.lastUpdate > 0) {
+      METRIC_KEYS.forEach(metric => {
+        if (data[metric] !== undefined) row[metric] = data[metric];
+      });
+    }
+    return row;
+  });
+}
+
+function toCsvField(value: string | number | boolean | null | undefined): string {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * 导出为 CSV：列名使用字段名，取值不做本地化，便于其他工具处理
+ */
+export function exportServersCsv(rows: ServerExportRow[]): string {
+  const columns = [...FIXED_COLUMNS, ...METRIC_KEYS];
+  const lines = rows.map(row => columns.map(column => toCsvField(row[column])).join(','));
+  return [columns.join(','), ...lines].join('\r\n') + '\r\n';
+}
+
+export function exportServersJson(rows: ServerExportRow[], exportedAt: number = Date.now()): string {
+  return JSON.stringify({ exportedAt: new Date(exportedAt).toISOString(), servers: rows }, null, 2);
+}
+
+const REPORT_STYLE = `
+  body { font-family: Arial, sans-serif; font-size: 12px; color: #222222; margin: 24px; }
+  h1 { font-size: 20px; margin: 0 0 4px 0; }
+  h2 { font-size: 15px; margin: 20px 0 6px 0; border-bottom: 1px solid #cccccc; padding-bottom: 2px; }
+  table { border-collapse: collapse; width: 100%; }
+  th, td { border: 1px solid #cccccc; padding: 3px 6px; text-align: left; }
+  th { background: #f0f0f0; }
+  td.number { text-align: right; }
+  .kpis { display: flex; flex-wrap: wrap; gap: 8px; }
+  .kpi { border: 1px solid #cccccc; padding: 6px 10px; min-width: 120px; }
+  .kpi strong { display: block; font-size: 16px; }
+  .warning { color: #b36b00; }
+  .error { color: #c00000; }
+  .stale { color: #777777; }
+  tr { page-break-inside: avoid; }
+  @media print { .no-print { display: none; } body { margin: 0; } }
+`;
+
+/**
+ * 生成单个机房的状态报告（完整 HTML 文档），浏览器打印或另存为 PDF 即可归档
+ */
+export function renderRoomReport(
+  room: RoomLayout,
+  summary: RoomSummary,
+  rows: ServerExportRow[],
+  alerts: Alert[],
+  generatedAt: number = Date.now()
+): string {
+  const roomRows = rows.filter(row => row.roomId === room.id);
+  const rackIds = new Set(roomRows.map(row => row.rackId));
+  const roomAlerts = alerts
+    .filter(alert => rackIds.has(alert.rackId))
+    .sort((a, b) => (a.severity === b.severity ? b.raisedAt - a.raisedAt : a.severity === 'error' ? -1 : 1));
+  const abnormal = roomRows.filter(row => row.stale || row.status !== 'normal');
+  const alertRatio = getAlertRatio(summary);
+  const statusOf = (row: ServerExportRow) => (row.stale ? 'stale' : row.status);
+
+  const kpis = [
+    [t('dashboard.kpi.online'), `${summary.reporting}/${summary.servers}`],
+    [t('dashboard.kpi.alertRatio'), alertRatio === null ? '-' : `${i18n.formatNumber(alertRatio * 100, 1)}%`],
+    [t('dashboard.kpi.totalPower'), `${i18n.formatNumber(summary.powerKw, 1)} kW`],
+    ...(['normal', 'warning', 'error', 'stale'] as const).map(status => [t(`status.${status}`), String(summary.statusCounts[status])]),
+  ];
+
+  return `<!DOCTYPE html>
+<html lang="${i18n.locale}">
+<head>
+<meta charset="UTF-8" />
+<title>${escapeHtml(t('report.title', { room: room.name }))}</title>
+<style>${REPORT_STYLE}</style>
+</head>
+<body>
+<button class="no-print" onclick="window.print()" style="float: right;">${t('report.print')}</button>
+<h1>${escapeHtml(t('report.title', { room: room.name }))}</h1>
+<div>${t('report.generatedAt', { time: i18n.formatDateTime(generatedAt) })}</div>
+
+<h2>${t('report.summary')}</h2>
+<div class="kpis">
+${kpis.map(([label, value]) => `<div class="kpi">${label}<strong>${value}</strong></div>`).join('\n')}
+</div>
+
+<h2>${t('report.metrics')}</h2>
+<table>
+<tr><th>${t('report.metric')}</th><th>${t('dashboard.avg')}</th><th>${t('dashboard.max')}</th><th>${t('report.reportingCount')}</th></tr>
+${METRIC_KEYS.filter(metric => summary.metrics[metric]).map(metric => {
+    const aggregate = summary.metrics[metric]!;
+    return `<tr><td>${t(`metric.${metric}`)}</td><td class="number">${formatMetric(metric, aggregate.avg)}</td>` +
+      `<td class="number">${formatMetric(metric, aggregate.max)}</td><td class="number">${aggregate.count}</td></tr>`;
+  }).join('\n')}
+</table>
+
+<h2>${t('report.racks')}</h2>
+<table>
+<tr><th>${t('common.rack')}</th><th>${t('report.servers')}</th><th>${t('dashboard.warningError')}</th><th>${t('dashboard.powerKw')}</th><th>${t('dashboard.kpi.maxTemperature')}</th></tr>
+${summary.racks.map(rack => {
+    const temperature = rack.metrics.temperature;
+    return `<tr><td>${escapeHtml(rack.name)}</td><td class="number">${rack.reporting}/${rack.servers}</td>` +
+      `<td class="number"><span class="warning">${rack.statusCounts.warning}</span>/<span class="error">${rack.statusCounts.error}</span></td>` +
+      `<td class="number">${i18n.formatNumber(rack.powerKw, 2)}</td>` +
+      `<td class="number">${temperature ? formatMetric('temperature', temperature.max) : '-'}</td></tr>`;
+  }).join('\n')}
+</table>
+
+<h2>${t('report.alerts')} (${roomAlerts.length})</h2>
+${roomAlerts.length === 0 ? `<p>${t('alert.none')}</p>` : `<table>
+<tr><th>${t('report.server')}</th><th>${t('common.status')}</th><th>${t('report.metric')}</th><th>${t('report.value')}</th><th>${t('report.threshold')}</th><th>${t('report.raisedAt')}</th><th>${t('report.alertState')}</th></tr>
+${roomAlerts.map(alert => `<tr><td>${escapeHtml(alert.serverId)}</td><td class="${alert.severity}">${t(`status.${alert.severity}`)}</td>` +
+    `<td>${t(`metric.${alert.metric}`)}</td><td class="number">${formatMetric(alert.metric, alert.value)}</td>` +
+    `<td class="number">${formatMetric(alert.metric, alert.threshold)}</td><td>${i18n.formatDateTime(alert.raisedAt)}</td>` +
+    `<td>${t(`alertState.${alert.state}`)}</td></tr>`).join('\n')}
+</table>`}
+
+<h2>${t('report.abnormalServers')} (${abnormal.length})</h2>
+${abnormal.length === 0 ? `<p>${t('report.noAbnormalServers')}</p>` : `<table>
+<tr><th>${t('report.server')}</th><th>${t('common.rack')}</th><th>${t('report.slot')}</th><th>${t('common.brand')}</th><th>${t('common.model')}</th><th>${t('common.status')}</th><th>${t('metric.temperature')}</th></tr>
+${abnormal.map(row => `<tr><td>${escapeHtml(row.id)}</td><td>${escapeHtml(row.rackName)}</td><td class="number">${row.slot}</td>` +
+    `<td>${escapeHtml(row.brand)}</td><td>${escapeHtml(row.model)}</td><td class="${statusOf(row)}">${t(`status.${statusOf(row)}`)}</td>` +
+    `<td class="number">${row.temperature === undefined ? '-' : formatMetric('temperature', row.temperature)}</td></tr>`).join('\n')}
+</table>`}
+</body>
+</html>
+`;
+}
+
+/**
+ * 以文件形式下载导出内容
+ */
+export function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+// 文件名中使用的时间戳，如 2024-05-01T08-30-00
+export function getExportStamp(time: number = Date.now()): string {
+  return new Date(time).toISOString().slice(0, 19).replace(/:/g, '-');
+}
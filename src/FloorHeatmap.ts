@@ -0,0 +1,211 @@
+import * as THREE from 'three';
+import { ColorScale, HEATMAP_COLOR_GLSL, createColorScaleUniform, setColorScaleUniform } from './Heatmap';
+
+// 热源：世界坐标 + 归一化指标值（0-1）
+export interface HeatSource {
+  x: number;
+  y: number;
+  z: number;
+  value: number;
+}
+
+const CELLS_PER_UNIT = 4;
+const MAX_RESOLUTION = 256;
+
+/**
+ * 机房级热力图：在地面（以及可选的垂直切面）上按反距离加权插值全部热源的指标值，
+ * 插值结果写入数据纹理，由着色器映射为颜色
+ */
+export class FloorHeatmap extends THREE.Group {
+  private floorTexture: THREE.DataTexture;
+  private floorMesh: THREE.Mesh;
+  private sliceTexture: THREE.DataTexture;
+  private sliceMesh: THREE.Mesh;
+  private floorSize: { cols: number; rows: number };
+  private sliceSize: { cols: number; rows: number };
+  private volumeSources: HeatSource[] = [];
+  private colorScale = createColorScaleUniform();
+
+  constructor(
+    private readonly width: number,
+    private readonly depth: number,
+    private readonly height: number = 2,
+    private readonly radius: number = 4 // 超出该距离的热源不参与插值
+  ) {
+    super();
+
+    this.floorSize = {
+      cols: Math.min(MAX_RESOLUTION, Math.ceil(width * CELLS_PER_UNIT)),
+      rows: Math.min(MAX_RESOLUTION, Math.ceil(depth * CELLS_PER_UNIT)),
+    };
+    this.floorTexture = this.createTexture(this.floorSize.cols, this.floorSize.rows);
+    this.floorMesh = new THREE.Mesh(new THREE.PlaneGeometry(width, depth), this.createMaterial(this.floorTexture));
+    this.floorMesh.rotation.x = -Math.PI / 2;
+    this.floorMesh.position.y = 0.02;
+    this.floorMesh.renderOrder = 1;
+    this.add(this.floorMesh);
+
+    this.sliceSize = {
+      cols: this.floorSize.cols,
+      rows: Math.min(MAX_RESOLUTION, Math.ceil(height * CELLS_PER_UNIT * 2)),
+    };
+    this.sliceTexture = this.createTexture(this.sliceSize.cols, this.sliceSize.rows);
+    this.sliceMesh = new THREE.Mesh(new THREE.PlaneGeometry(width, height), this.createMaterial(this.sliceTexture));
+    this.sliceMesh.position.y = height / 2;
+    this.sliceMesh.renderOrder = 1;
+    this.sliceMesh.visible = false;
+    this.add(this.sliceMesh);
+
+    this.visible = false;
+  }
+
+  private createTexture(cols: number, rows: number): THREE.DataTexture {
+    const texture = new THREE.DataTexture(new Uint8Array(cols * rows * 4), cols, rows, THREE.RGBAFormat);
+    texture.magFilter = THREE.LinearFilter;
+    texture.minFilter = THREE.LinearFilter;
+    texture.needsUpdate = true;
+    return texture;
+  }
+
+  private createMaterial(texture: THREE.DataTexture): THREE.ShaderMaterial {
+    return new THREE.ShaderMaterial({
+      uniforms: {
+        heatmap: { value: texture },
+        opacity: { value: 0.65 },
+        heatmapColors: this.colorScale,
+      },
+      vertexShader: `
+        varying vec2 vUv;
+        void main() {
+          vUv = uv;
+          gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
+        }
+      `,
+      fragmentShader: `
+        uniform sampler2D heatmap;
+        uniform float opacity;
+        varying vec2 vUv;
+        ${HEATMAP_COLOR_GLSL}
+        void main() {
+          vec4 data = texture2D(heatmap, vUv);
+          // r 通道为指标值，g 通道为插值可信度（离热源越远越透明）
+          gl_FragColor = vec4(heatmapColor(data.r), data.g * opacity);
+        }
+      `,
+      transparent: true,
+      depthWrite: false,
+      side: THREE.DoubleSide,
+    });
+  }
+
+  // 两个网格共用同一个色阶 uniform
+  public setColorScale(scale: ColorScale): void {
+    setColorScaleUniform(this.colorScale, scale);
+  }
+
+  public setFloorVisible(visible: boolean): void {
+    this.floorMesh.visible = visible;
+    this.visible = this.floorMesh.visible || this.sliceMesh.visible;
+  }
+
+  public setSliceVisible(visible: boolean): void {
+    this.sliceMesh.visible = visible;
+    this.visible = this.floorMesh.visible || this.sliceMesh.visible;
+    if (visible) this.updateSlice();
+  }
+
+  public get floorVisible(): boolean {
+    return this.visible && this.floorMesh.visible;
+  }
+
+  public get sliceVisible(): boolean {
+    return this.visible && this.sliceMesh.visible;
+  }
+
+  // 切面沿 z 轴移动，position 取 0-1 表示从机房前端到后端
+  public setSlicePosition(position: number): void {
+    this.sliceMesh.position.z = (position - 0.5) * this.depth;
+    if (this.sliceMesh.visible) this.updateSlice();
+  }
+
+  /**
+   * floorSources 用于地面（通常每个机柜一个），volumeSources 用于垂直切面（通常每台服务器一个）
+   */
+  public setSources(floorSources: HeatSource[], volumeSources: HeatSource[]): void {
+    this.volumeSources = volumeSources;
+    const { cols, rows } = this.floorSize;
+    this.interpolate(this.floorTexture, cols, rows, floorSources, (col, row) => [
+      -this.width / 2 + ((col + 0.5) / cols) * this.width,
+      0,
+      this.depth / 2 - ((row + 0.5) / rows) * this.depth,
+    ], true);
+    if (this.sliceMesh.visible) this.updateSlice();
+  }
+
+  private updateSlice(): void {
+    const { cols, rows } = this.sliceSize;
+    const z = this.sliceMesh.position.z;
+    const nearby = this.volumeSources.filter(source => Math.abs(source.z - z) < this.radius);
+    this.interpolate(this.sliceTexture, cols, rows, nearby, (col, row) => [
+      -this.width / 2 + ((col + 0.5) / cols) * this.width,
+      ((row + 0.5) / rows) * this.height,
+      z,
+    ], false);
+  }
+
+  // 反距离加权插值；地面插值忽略热源高度
+  private interpolate(
+    texture: THREE.DataTexture,
+    cols: number,
+    rows: number,
+    sources: HeatSource[],
+    cellPosition: (col: number, row: number) => [number, number, number],
+    flat: boolean
+  ): void {
+    const data = texture.image.data;
+    const radiusSq = this.radius * this.radius;
+
+    // 按网格分桶，只检查邻近的热源
+    const bucketSize = this.radius;
+    const buckets = new Map<string, HeatSource[]>();
+    sources.forEach(source => {
+      const key = `${Math.floor(source.x / bucketSize)},${Math.floor(source.z / bucketSize)}`;
+      const bucket = buckets.get(key) ?? [];
+      bucket.push(source);
+      buckets.set(key, bucket);
+    });
+
+    for (let row = 0; row < rows; row++) {
+      for (let col = 0; col < cols; col++) {
+        const [x, y, z] = cellPosition(col, row);
+        const bx = Math.floor(x / bucketSize);
+        const bz = Math.floor(z / bucketSize);
+        let weightSum = 0;
+        let valueSum = 0;
+        let nearestSq = Infinity;
+
+        for (let dx = -1; dx <= 1; dx++) {
+          for (let dz = -1; dz <= 1; dz++) {
+            buckets.get(`${bx + dx},${bz + dz}`)?.forEach(source => {
+              const dy = flat ? 0 : source.y - y;
+              const distanceSq = (source.x - x) ** 2 + dy ** 2 + (source.z - z) ** 2;
+              if (distanceSq > radiusSq) return;
+              const weight = 1 / (distanceSq + 0.05);
+              weightSum += weight;
+              valueSum += weight * source.value;
+              nearestSq = Math.min(nearestSq, distanceSq);
+            });
+          }
+        }
+
+        const index = (row * cols + col) * 4;
+        const confidence = weightSum > 0 ? 1 - Math.sqrt(nearestSq) / this.radius : 0;
+        data[index] = weightSum > 0 ? Math.round((valueSum / weightSum) * 255) : 0;
+        data[index + 1] = Math.round(confidence * 255);
+        data[index + 2] = 0;
+        data[index + 3] = 255;
+      }
+    }
+    texture.needsUpdate = true;
+  }
+}
@@ -0,0 +1,324 @@
+import * as THREE from 'three';
+import { RACK_FOOTPRINT, RackLayout, RoomLayout, getRoomRacks } from './Layout';
+import { ServerData, ServerStatus, StatusLevel } from './ServerStatus';
+import { AlertEngine } from './AlertEngine';
+import { METRIC_KEYS, MetricKey, formatMetric, normalizeMetric } from './Metrics';
+import { colorFromScale } from './Heatmap';
+import { t } from './I18n';
+import { palette } from './Palette';
+import { escapeHtml } from './Html';
+
+// 平面图着色方式：按最差状态或按指定指标
+export type FloorPlanColorMode = 'status' | MetricKey;
+
+const STATUS_RANK: Record<StatusLevel, number> = { normal: 0, warning: 1, error: 2 };
+
+// 没有数据的机柜和设备
+const NO_DATA_COLOR = '#666666';
+
+// 机柜立面图每U的高度（像素）
+const U_HEIGHT = 10;
+const ELEVATION_WIDTH = 150;
+const ELEVATION_MARGIN = 22;
+
+// 平面图刷新间隔（毫秒）
+const REFRESH_MS = 1000;
+
+const _color = new THREE.Color();
+
+/**
+ * 二维平面图：俯视的机柜示意图，按最差状态或所选指标着色；点击机柜显示逐U的正面立面图。
+ * 悬停、选中和过滤状态与三维场景同步
+ */
+export class FloorPlanView {
+  private element: HTMLElement;
+  private plan: HTMLElement;
+  private elevation: HTMLElement;
+  private colorMode: FloorPlanColorMode = 'status';
+  private rackLayouts: Map<string, RackLayout> = new Map();
+  private hoveredRackId: string | null = null;
+  private selectedRackId: string | null = null;
+  private selectedServerId: string | null = null;
+  private filteredIds: Set<string> | null = null;
+  private visible = false;
+  private lastRefresh = 0;
+  private unsubscribe: () => void;
+
+  constructor(
+    container: HTMLElement,
+    private room: RoomLayout,
+    private readonly serverStatus: ServerStatus,
+    private readonly alertEngine: AlertEngine,
+    private readonly onHoverRack: (rackId: string | null) => void,
+    private readonly onSelectRack: (rackId: string) => void,
+    private readonly onSelectServer: (serverId: string) => void
+  ) {
+    this.element = document.createElement('div');
+    this.element.id = 'floor-plan';
+    this.element.style.display = 'none';
+    this.element.innerHTML = `
+      <div style="display: flex; gap: 10px; align-items: center; margin-bottom: 6px;">
+        <strong data-role="title"></strong>
+        <label>${t('floorPlan.colorBy')}
+          <select data-role="color-mode">
+            <option value="status">${t('floorPlan.worstStatus')}</option>
+            ${METRIC_KEYS.map(metric => `<option value="${metric}">${t(`metric.${metric}`)}</option>`).join('')}
+          </select>
+        </label>
+      </div>
+      <div style="display: flex; gap: 10px; flex: 1; min-height: 0;">
+        <div data-role="plan" style="flex: 1; min-width: 0;"></div>
+        <div data-role="elevation" style="width: ${ELEVATION_WIDTH + ELEVATION_MARGIN + 10}px; overflow-y: auto;"></div>
+      </div>
+    `;
+    container.appendChild(this.element);
+
+    this.plan = this.element.querySelector('[data-role="plan"]') as HTMLElement;
+    this.elevation = this.element.querySelector('[data-role="elevation"]') as HTMLElement;
+    const colorSelect = this.element.querySelector('[data-role="color-mode"]') as HTMLSelectElement;
+    colorSelect.addEventListener('change', () => {
+      this.colorMode = colorSelect.value as FloorPlanColorMode;
+      this.refresh();
+    });
+    this.element.addEventListener('click', this.handleClick.bind(this));
+    this.plan.addEventListener('mouseover', this.handleMouseOver.bind(this));
+    this.plan.addEventListener('mouseleave', () => {
+      if (!this.hoveredRackId) return;
+      this.setHoveredRack(null);
+      this.onHoverRack(null);
+    });
+
+    this.unsubscribe = this.serverStatus.on('tick', time => {
+      if (this.visible && time - this.lastRefresh >= REFRESH_MS) this.refresh();
+    });
+    this.build();
+  }
+
+  public setVisible(visible: boolean): void {
+    this.visible = visible;
+    this.element.style.display = visible ? 'flex' : 'none';
+    if (visible) this.refresh();
+  }
+
+  // 切换机房或布局编辑后重新绘制
+  public setRoom(room: RoomLayout): void {
+    this.room = room;
+    this.hoveredRackId = null;
+    if (this.selectedRackId && !getRoomRacks(room).some(rack => rack.id === this.selectedRackId)) {
+      this.selectedRackId = null;
+      this.selectedServerId = null;
+    }
+    this.build();
+  }
+
+  // 三维场景中悬停的机柜
+  public setHoveredRack(rackId: string | null): void {
+    if (rackId === this.hoveredRackId) return;
+    this.hoveredRackId = rackId;
+    this.updateOutlines();
+  }
+
+  // 三维场景中选中的服务器，同时显示其所在机柜的立面图
+  public setSelectedServer(serverId: string | null): void {
+    this.selectedServerId = serverId;
+    const rackId = serverId ? this.serverStatus.getServerData(serverId)?.rackId : undefined;
+    if (rackId && this.rackLayouts.has(rackId) && rackId !== this.selectedRackId) {
+      this.selectedRackId = rackId;
+      this.buildElevation();
+    }
+    this.updateOutlines();
+    this.refresh();
+  }
+
+  public setFilter(matchingIds: Set<string> | null): void {
+    this.filteredIds = matchingIds;
+    this.refresh();
+  }
+
+  public dispose(): void {
+    this.unsubscribe();
+    this.element.remove();
+  }
+
+  private handleClick(event: MouseEvent): void {
+    const target = event.target as HTMLElement;
+    const action = target.closest<HTMLElement | SVGElement>('[data-action]');
+    if (!action) return;
+
+    switch (action.dataset.action) {
+      case 'select-rack': {
+        const rackId = action.dataset.rackId;
+        if (!rackId) return;
+        this.selectedRackId = rackId;
+        this.buildElevation();
+        this.updateOutlines();
+        this.refresh();
+        this.onSelectRack(rackId);
+        break;
+      }
+      case 'select-server':
+        if (action.dataset.serverId) this.onSelectServer(action.dataset.serverId);
+        break;
+    }
+  }
+
+  private handleMouseOver(event: MouseEvent): void {
+    const rack = (event.target as Element).closest<SVGElement>('[data-rack-id]');
+    const rackId = rack?.dataset.rackId ?? null;
+    if (rackId === this.hoveredRackId) return;
+    this.setHoveredRack(rackId);
+    this.onHoverRack(rackId);
+  }
+
+  // 按布局生成机房轮廓和机柜图块，之后只更新颜色和描边
+  private build(): void {
+    const { width, depth } = this.room;
+    const racks = getRoomRacks(this.room);
+    this.rackLayouts = new Map(racks.map(rack => [rack.id, rack]));
+    (this.element.querySelector('[data-role="title"]') as HTMLElement).textContent = t('floorPlan.title', { room: this.room.name });
+
+    const halfWidth = RACK_FOOTPRINT.width / 2;
+    const halfDepth = RACK_FOOTPRINT.depth / 2;
+    // 俯视图中 x 向右、z 向下；机柜正面朝向本地 +z，绕 Y 轴旋转在 SVG 中为反向旋转
+    this.plan.innerHTML = `
+      <svg viewBox="${-width / 2 - 0.5} ${-depth / 2 - 0.5} ${width + 1} ${depth + 1}" style="width: 100%; height: 100%; display: block;">
+        <rect x="${-width / 2}" y="${-depth / 2}" width="${width}" height="${depth}" fill="#2a2a2a" stroke="#888888" stroke-width="0.05" />
+        ${racks.map(rack => `
+          <g data-action="select-rack" data-rack-id="${escapeHtml(rack.id)}" transform="translate(${rack.position.x} ${rack.position.z})" style="cursor: pointer;">
+            <title>${escapeHtml(rack.name ?? rack.id)}</title>
+            <g transform="rotate(${-(rack.rotation ?? 0)})">
+              <rect data-role="tile" x="${-halfWidth}" y="${-halfDepth}" width="${RACK_FOOTPRINT.width}" height="${RACK_FOOTPRINT.depth}" fill="${NO_DATA_COLOR}" />
+              <line x1="${-halfWidth}" y1="${halfDepth}" x2="${halfWidth}" y2="${halfDepth}" stroke="#ffffff" stroke-width="0.06" />
+            </g>
+            <text font-size="0.22" fill="#ffffff" text-anchor="middle" dominant-baseline="middle" pointer-events="none">${escapeHtml(rack.name ?? rack.id)}</text>
+          </g>
+        `).join('')}
+      </svg>
+    `;
+    this.buildElevation();
+    this.updateOutlines();
+    this.refresh();
+  }
+
+  // 所选机柜的正面立面图：U位自下而上编号，设备按实际U位和尺寸绘制
+  private buildElevation(): void {
+    const rack = this.selectedRackId ? this.rackLayouts.get(this.selectedRackId) : undefined;
+    if (!rack) {
+      this.elevation.innerHTML = `<p style="color: #999999;">${t('floorPlan.elevationHint')}</p>`;
+      return;
+    }
+
+    const height = rack.heightU * U_HEIGHT;
+    const slotY = (slot: number) => (rack.heightU - slot) * U_HEIGHT;
+    const slots = Array.from({ length: rack.heightU }, (_item, index) => index + 1);
+    this.elevation.innerHTML = `
+      <p style="margin: 0 0 4px 0;">${t('floorPlan.elevationTitle', { rack: escapeHtml(rack.name ?? rack.id), height: rack.heightU })}</p>
+      <svg width="${ELEVATION_WIDTH + ELEVATION_MARGIN}" height="${height + 2}" style="display: block;">
+        <rect x="${ELEVATION_MARGIN}" y="0" width="${ELEVATION_WIDTH}" height="${height}" fill="#1e1e1e" stroke="#888888" />
+        ${slots.map(slot => `
+          <text x="${ELEVATION_MARGIN - 3}" y="${slotY(slot) + U_HEIGHT - 2}" font-size="8" fill="#999999" text-anchor="end">${slot}</text>
+          <line x1="${ELEVATION_MARGIN}" y1="${slotY(slot)}" x2="${ELEVATION_MARGIN + ELEVATION_WIDTH}" y2="${slotY(slot)}" stroke="#333333" />
+        `).join('')}
+        ${rack.devices.map(device => `
+          <g data-action="select-server" data-server-id="${escapeHtml(device.id)}" style="cursor: pointer;">
+            <title>${escapeHtml(`${device.brand} ${device.model} - ${device.id}`)} ${t('floorPlan.deviceSlot', { slot: device.slot, size: device.sizeU })}</title>
+            <rect data-role="device" x="${ELEVATION_MARGIN + 2}" y="${slotY(device.slot + device.sizeU - 1) + 1}" width="${ELEVATION_WIDTH - 4}" height="${device.sizeU * U_HEIGHT - 2}" rx="1" fill="${NO_DATA_COLOR}" />
+            <text x="${ELEVATION_MARGIN + 6}" y="${slotY(device.slot + device.sizeU - 1) + U_HEIGHT - 2}" font-size="8" fill="#000000" pointer-events="none">${escapeHtml(device.id)}</text>
+          </g>
+        `).join('')}
+      </svg>
+      <p data-role="elevation-value" style="margin: 4px 0 0 0; color: #cccccc;"></p>
+    `;
+  }
+
+  // 悬停为白色描边，选中为蓝色描边
+  private updateOutlines(): void {
+    this.plan.querySelectorAll<SVGElement>('[data-rack-id]').forEach(group => {
+      const rackId = group.dataset.rackId;
+      const tile = group.querySelector('[data-role="tile"]') as SVGElement;
+      const selected = rackId === this.selectedRackId;
+      const hovered = rackId === this.hoveredRackId;
+      tile.setAttribute('stroke', selected ? '#2a6fdb' : hovered ? '#ffffff' : '#111111');
+      tile.setAttribute('stroke-width', selected || hovered ? '0.08' : '0.02');
+    });
+    this.elevation.querySelectorAll<SVGElement>('[data-server-id]').forEach(group => {
+      const device = group.querySelector('[data-role="device"]') as SVGElement;
+      const selected = group.dataset.serverId === this.selectedServerId;
+      device.setAttribute('stroke', selected ? '#ffffff' : 'none');
+      device.setAttribute('stroke-width', selected ? '2' : '0');
+    });
+  }
+
+  private refresh(): void {
+    this.lastRefresh = Date.now();
+    if (!this.visible) return;
+
+    this.plan.querySelectorAll<SVGElement>('[data-rack-id]').forEach(group => {
+      const rack = this.rackLayouts.get(group.dataset.rackId ?? '');
+      if (!rack) return;
+      const servers = rack.devices
+        .map(device => this.serverStatus.getServerData(device.id))
+        .filter((data): data is ServerData => !!data && data.lastUpdate > 0 && !data.stale);
+      (group.querySelector('[data-role="tile"]') as SVGElement).setAttribute('fill', this.getRackColor(servers));
+      // 与三维场景一致：没有匹配服务器的机柜淡化显示
+      const hasMatch = !this.filteredIds || rack.devices.some(device => this.filteredIds?.has(device.id));
+      group.setAttribute('opacity', hasMatch ? '1' : '0.2');
+    });
+
+    this.elevation.querySelectorAll<SVGElement>('[data-server-id]').forEach(group => {
+      const data = this.serverStatus.getServerData(group.dataset.serverId ?? '');
+      const reporting = !!data && data.lastUpdate > 0 && !data.stale;
+      (group.querySelector('[data-role="device"]') as SVGElement)
+        .setAttribute('fill', reporting ? this.getServerColor(data) : NO_DATA_COLOR);
+      const matches = !this.filteredIds || this.filteredIds.has(group.dataset.serverId ?? '');
+      group.setAttribute('opacity', matches ? '1' : '0.25');
+    });
+
+    const valueElement = this.elevation.querySelector('[data-role="elevation-value"]');
+    const selected = this.selectedServerId ? this.serverStatus.getServerData(this.selectedServerId) : undefined;
+    if (valueElement) {
+      valueElement.textContent = selected && selected.rackId === this.selectedRackId
+        ? `${selected.id}: ${this.describe(selected)}`
+        : '';
+    }
+  }
+
+  private describe(data: ServerData): string {
+    if (this.colorMode === 'status') return t(`status.${data.status}`);
+    const value = data[this.colorMode];
+    return value === undefined ? '-' : `${t(`metric.${this.colorMode}`)} ${formatMetric(this.colorMode, value)}`;
+  }
+
+  // 机柜颜色：最差状态，或所选指标的最高归一化取值
+  private getRackColor(servers: ServerData[]): string {
+    if (servers.length === 0) return NO_DATA_COLOR;
+    if (this.colorMode === 'status') {
+      const worst = servers.reduce<StatusLevel>(
+        (level, data) => (STATUS_RANK[data.status] > STATUS_RANK[level] ? data.status : level),
+        'normal'
+      );
+      return palette.statusColor(worst);
+    }
+    const values = servers.map(data => this.getMetricValue(data)).filter((value): value is number => value !== null);
+    return values.length > 0 ? this.getScaleColor(Math.max(...values)) : NO_DATA_COLOR;
+  }
+
+  private getServerColor(data: ServerData): string {
+    if (this.colorMode === 'status') return palette.statusColor(data.status);
+    const value = this.getMetricValue(data);
+    return value === null ? NO_DATA_COLOR : this.getScaleColor(value);
+  }
+
+  // 与三维热力图相同的归一化方式，未上报时为 null
+  private getMetricValue(data: ServerData): number | null {
+    if (this.colorMode === 'status') return null;
+    const value = data[this.colorMode];
+    if (value === undefined) return null;
+    return normalizeMetric(this.colorMode, value, this.alertEngine.getRule(this.colorMode, data));
+  }
+
+  private getScaleColor(value: number): string {
+    const metric = this.colorMode as MetricKey;
+    return `#${colorFromScale(value, palette.colorScale(metric), _color).getHexString()}`;
+  }
+}
@@ -0,0 +1,43 @@
+import * as THREE from 'three';
+
+// 三段色阶：低 → 中 → 高
+export type ColorScale = [number, number, number];
+
+export const HEAT_COLOR_SCALE: ColorScale = [0x0000ff, 0xffff00, 0xff0000];
+export const USAGE_COLOR_SCALE: ColorScale = [0x22aa44, 0xffff00, 0xff0000];
+export const FLOW_COLOR_SCALE: ColorScale = [0x102a60, 0x00ccff, 0xffffff];
+
+// 热力图配色，服务器和机房热力图共用；色阶由 heatmapColors uniform 提供
+export const HEATMAP_COLOR_GLSL = `
+  uniform vec3 heatmapColors[3];
+
+  vec3 heatmapColor(float t) {
+    if(t < 0.5) {
+      return mix(heatmapColors[0], heatmapColors[1], t * 2.0);
+    } else {
+      return mix(heatmapColors[1], heatmapColors[2], (t - 0.5) * 2.0);
+    }
+  }
+`;
+
+export function createColorScaleUniform(scale: ColorScale = HEAT_COLOR_SCALE): { value: THREE.Color[] } {
+  return { value: scale.map(hex => new THREE.Color(hex)) };
+}
+
+export function setColorScaleUniform(uniform: { value: THREE.Color[] }, scale: ColorScale): void {
+  scale.forEach((hex, index) => uniform.value[index].setHex(hex));
+}
+
+const _low = new THREE.Color();
+const _middle = new THREE.Color();
+const _high = new THREE.Color();
+
+// 与 heatmapColor 相同的配色，供 CPU 端使用
+export function colorFromScale(t: number, scale: ColorScale = HEAT_COLOR_SCALE, target: THREE.Color = new THREE.Color()): THREE.Color {
+  _low.setHex(scale[0]);
+  _middle.setHex(scale[1]);
+  _high.setHex(scale[2]);
+  return t < 0.5
+    ? target.lerpColors(_low, _middle, t * 2)
+    : target.lerpColors(_middle, _high, (t - 0.5) * 2);
+}
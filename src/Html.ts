@@ -0,0 +1,11 @@
+/**
+ * 转义后可安全插入 innerHTML 的文本内容和带引号的属性值
+ */
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
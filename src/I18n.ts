@@ -0,0 +1,148 @@
+import { EventEmitter } from './EventEmitter';
+import zhCN from './locales/zh-CN';
+import enUS from './locales/en-US';
+
+export type Locale = 'zh-CN' | 'en-US';
+
+// 消息键以中文目录为准，其他语言的目录必须包含全部键
+export type MessageKey = keyof typeof zhCN;
+
+export type MessageParams = Record<string, string | number>;
+
+export type TemperatureUnit = 'celsius' | 'fahrenheit';
+
+export const LOCALES: { locale: Locale; label: string }[] = [
+  { locale: 'zh-CN', label: '中文' },
+  { locale: 'en-US', label: 'English' },
+];
+
+const CATALOGS: Record<Locale, Record<MessageKey, string>> = {
+  'zh-CN': zhCN,
+  'en-US': enUS,
+};
+
+const LOCALE_STORAGE_KEY = 'datacenter:locale';
+const TEMPERATURE_UNIT_STORAGE_KEY = 'datacenter:temperatureUnit';
+
+function isLocale(value: string | null): value is Locale {
+  return LOCALES.some(item => item.locale === value);
+}
+
+function readSetting(key: string): string | null {
+  try {
+    return localStorage.getItem(key);
+  } catch (error) {
+    console.warn('读取语言设置失败', error);
+    return null;
+  }
+}
+
+function writeSetting(key: string, value: string): void {
+  try {
+    localStorage.setItem(key, value);
+  } catch (error) {
+    console.warn('保存语言设置失败', error);
+  }
+}
+
+// 地址栏 ?lang= 优先，其次是上次选择的语言，最后按浏览器语言判断
+function resolveLocale(): Locale {
+  const param = typeof window === 'undefined' ? null : new URLSearchParams(window.location.search).get('lang');
+  if (isLocale(param)) return param;
+  const stored = readSetting(LOCALE_STORAGE_KEY);
+  if (isLocale(stored)) return stored;
+  const language = typeof navigator === 'undefined' ? 'zh-CN' : navigator.language;
+  return language.toLowerCase().startsWith('zh') ? 'zh-CN' : 'en-US';
+}
+
+export interface I18nEvents {
+  temperatureUnitChanged: [unit: TemperatureUnit];
+}
+
+/**
+ * 界面语言与本地化格式：消息目录查找、按语言格式化数字和时间，以及温度单位（°C/°F）
+ */
+export class I18n extends EventEmitter<I18nEvents> {
+  public readonly locale: Locale;
+  private unit: TemperatureUnit;
+  private numberFormats: Map<number, Intl.NumberFormat> = new Map();
+
+  constructor(locale: Locale = resolveLocale()) {
+    super();
+    this.locale = locale;
+    this.unit = readSetting(TEMPERATURE_UNIT_STORAGE_KEY) === 'fahrenheit' ? 'fahrenheit' : 'celsius';
+  }
+
+  public get temperatureUnit(): TemperatureUnit {
+    return this.unit;
+  }
+
+  /**
+   * 查找消息并替换 {name} 形式的参数；当前语言缺少该消息时退回中文
+   */
+  public t(key: MessageKey, params?: MessageParams): string {
+    const message = CATALOGS[this.locale][key] ?? CATALOGS['zh-CN'][key] ?? key;
+    if (!params) return message;
+    return message.replace(/\{(\w+)\}/g, (match, name: string) =>
+      params[name] === undefined ? match : String(params[name])
+    );
+  }
+
+  public formatNumber(value: number, decimals: number = 0): string {
+    let format = this.numberFormats.get(decimals);
+    if (!format) {
+      format = new Intl.NumberFormat(this.locale, { minimumFractionDigits: decimals, maximumFractionDigits: decimals });
+      this.numberFormats.set(decimals, format);
+    }
+    return format.format(value);
+  }
+
+  // 温度数据统一以摄氏度存储，显示时按所选单位换算
+  public formatTemperature(celsius: number, decimals: number = 1): string {
+    return this.unit === 'fahrenheit'
+      ? `${this.formatNumber(celsius * 9 / 5 + 32, decimals)}°F`
+      : `${this.formatNumber(celsius, decimals)}°C`;
+  }
+
+  // 温差按当前单位换算（不加华氏零点偏移），带正负号
+  public formatTemperatureDelta(celsius: number, decimals: number = 1): string {
+    const value = Number((this.unit === 'fahrenheit' ? celsius * 9 / 5 : celsius).toFixed(decimals)) || 0;
+    return `${value >= 0 ? '+' : ''}${this.formatNumber(value, decimals)}${this.unit === 'fahrenheit' ? '°F' : '°C'}`;
+  }
+
+  public formatTime(time: number | Date): string {
+    return new Date(time).toLocaleTimeString(this.locale);
+  }
+
+  public formatDate(time: number | Date): string {
+    return new Date(time).toLocaleDateString(this.locale);
+  }
+
+  public formatDateTime(time: number | Date): string {
+    return new Date(time).toLocaleString(this.locale);
+  }
+
+  /**
+   * 切换界面语言：保存选择后重新加载页面，使所有面板以新语言重建
+   */
+  public setLocale(locale: Locale): void {
+    if (locale === this.locale) return;
+    writeSetting(LOCALE_STORAGE_KEY, locale);
+    const url = new URL(window.location.href);
+    url.searchParams.delete('lang');
+    window.location.href = url.toString();
+  }
+
+  public setTemperatureUnit(unit: TemperatureUnit): void {
+    if (unit === this.unit) return;
+    this.unit = unit;
+    writeSetting(TEMPERATURE_UNIT_STORAGE_KEY, unit);
+    this.emit('temperatureUnitChanged', unit);
+  }
+}
+
+export const i18n = new I18n();
+
+export function t(key: MessageKey, params?: MessageParams): string {
+  return i18n.t(key, params);
+}
@@ -0,0 +1,27 @@
+import * as THREE from 'three';
+
+/**
+ * 为内置材质增加逐实例透明度：几何体需要提供 instanceOpacity 实例属性
+ */
+export function enableInstanceOpacity<T extends THREE.Material>(material: T): T {
+  material.transparent = true;
+  material.onBeforeCompile = shader => {
+    shader.vertexShader = shader.vertexShader
+      .replace('#include <common>', '#include <common>\nattribute float instanceOpacity;\nvarying float vInstanceOpacity;')
+      .replace('#include <begin_vertex>', '#include <begin_vertex>\nvInstanceOpacity = instanceOpacity;');
+    shader.fragmentShader = shader.fragmentShader
+      .replace('#include <common>', '#include <common>\nvarying float vInstanceOpacity;')
+      .replace('#include <opaque_fragment>', 'diffuseColor.a *= vInstanceOpacity;\n#include <opaque_fragment>');
+  };
+  material.customProgramCacheKey = () => 'instance-opacity';
+  return material;
+}
+
+export function createInstanceAttribute(count: number, initial: number): THREE.InstancedBufferAttribute {
+  const attribute = new THREE.InstancedBufferAttribute(new Float32Array(count).fill(initial), 1);
+  attribute.setUsage(THREE.DynamicDrawUsage);
+  return attribute;
+}
+
+// 缩放为 0 的矩阵，用于隐藏单个实例
+export const HIDDEN_MATRIX = new THREE.Matrix4().makeScale(0, 0, 0);
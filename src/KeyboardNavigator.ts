@@ -0,0 +1,154 @@
+import { DeviceLayout, RackLayout, RoomLayout } from './Layout';
+
+// 键盘光标：serverId 为 null 时停在机柜上，否则停在机柜内的服务器上
+export interface NavigationCursor {
+  rackId: string;
+  serverId: string | null;
+}
+
+/**
+ * 键盘导航：方向键在机柜排与机柜之间移动，Enter 进入机柜后上下键逐台浏览服务器，
+ * 再次 Enter 选中服务器，Esc 逐级退出。只负责光标移动，高亮与镜头由调用方处理
+ */
+export class KeyboardNavigator {
+  private rows: RackLayout[][] = [];
+  private cursor: NavigationCursor | null = null;
+
+  constructor(
+    room: RoomLayout,
+    private readonly onMove: (cursor: NavigationCursor | null) => void,
+    private readonly onSelect: (serverId: string) => void
+  ) {
+    this.setRoom(room);
+  }
+
+  public getCursor(): NavigationCursor | null {
+    return this.cursor;
+  }
+
+  // 切换机房或布局编辑后重建导航顺序，光标所在机柜已不存在时清除光标
+  public setRoom(room: RoomLayout): void {
+    this.rows = room.rows.map(row => row.racks).filter(racks => racks.length > 0);
+    if (this.cursor && !this.findRack(this.cursor.rackId)) this.clear();
+  }
+
+  public clear(): void {
+    if (!this.cursor) return;
+    this.cursor = null;
+    this.onMove(null);
+  }
+
+  /**
+   * 处理按键，返回 true 表示已处理（调用方应阻止默认行为）
+   */
+  public handleKey(key: string): boolean {
+    if (key === 'Escape') {
+      if (!this.cursor) return false;
+      if (this.cursor.serverId) {
+        this.moveTo({ rackId: this.cursor.rackId, serverId: null });
+      } else {
+        this.clear();
+      }
+      return true;
+    }
+    if (!['ArrowUp', 'ArrowDown', 'ArrowLeft', 'ArrowRight', 'Enter'].includes(key)) return false;
+    if (this.rows.length === 0) return false;
+
+    // 尚无光标时任意导航键都从第一个机柜开始
+    if (!this.cursor) {
+      this.moveTo({ rackId: this.rows[0][0].id, serverId: null });
+      return true;
+    }
+    if (this.cursor.serverId) {
+      this.handleServerKey(key, this.cursor.rackId, this.cursor.serverId);
+    } else {
+      this.handleRackKey(key, this.cursor.rackId);
+    }
+    return true;
+  }
+
+  private handleRackKey(key: string, rackId: string): void {
+    const position = this.findRack(rackId);
+    if (!position) return;
+    const { row, index } = position;
+    switch (key) {
+      case 'ArrowLeft':
+      case 'ArrowRight': {
+        const racks = this.rows[row];
+        const next = racks[index + (key === 'ArrowLeft' ? -1 : 1)];
+        if (next) this.moveTo({ rackId: next.id, serverId: null });
+        break;
+      }
+      case 'ArrowUp':
+      case 'ArrowDown': {
+        const racks = this.rows[row + (key === 'ArrowUp' ? -1 : 1)];
+        if (racks) this.moveTo({ rackId: racks[Math.min(index, racks.length - 1)].id, serverId: null });
+        break;
+      }
+      case 'Enter': {
+        const top = this.getDevices(this.rows[row][index])[0];
+        if (top) this.moveTo({ rackId, serverId: top.id });
+        break;
+      }
+    }
+  }
+
+  private handleServerKey(key: string, rackId: string, serverId: string): void {
+    const position = this.findRack(rackId);
+    if (!position) return;
+    const rack = this.rows[position.row][position.index];
+    const devices = this.getDevices(rack);
+    const current = devices.findIndex(device => device.id === serverId);
+    switch (key) {
+      case 'ArrowUp':
+      case 'ArrowDown': {
+        const next = devices[current + (key === 'ArrowUp' ? -1 : 1)];
+        if (next) this.moveTo({ rackId, serverId: next.id });
+        break;
+      }
+      case 'ArrowLeft':
+      case 'ArrowRight': {
+        // 移到同排相邻机柜中U位最接近的服务器，相邻机柜没有服务器时跳过
+        const racks = this.rows[position.row];
+        const step = key === 'ArrowLeft' ? -1 : 1;
+        const slot = devices[current]?.slot ?? 1;
+        for (let index = position.index + step; index >= 0 && index < racks.length; index += step) {
+          const nearest = this.getNearestDevice(racks[index], slot);
+          if (nearest) {
+            this.moveTo({ rackId: racks[index].id, serverId: nearest.id });
+            break;
+          }
+        }
+        break;
+      }
+      case 'Enter':
+        this.onSelect(serverId);
+        break;
+    }
+  }
+
+  private moveTo(cursor: NavigationCursor): void {
+    this.cursor = cursor;
+    this.onMove(cursor);
+  }
+
+  private findRack(rackId: string): { row: number; index: number } | null {
+    for (let row = 0; row < this.rows.length; row++) {
+      const index = this.rows[row].findIndex(rack => rack.id === rackId);
+      if (index >= 0) return { row, index };
+    }
+    return null;
+  }
+
+  // 与机柜信息面板一致，自上而下排列
+  private getDevices(rack: RackLayout): DeviceLayout[] {
+    return [...rack.devices].sort((a, b) => b.slot - a.slot);
+  }
+
+  private getNearestDevice(rack: RackLayout, slot: number): DeviceLayout | undefined {
+    return this.getDevices(rack).reduce<DeviceLayout | undefined>(
+      (nearest, device) => (!nearest || Math.abs(device.slot - slot) < Math.abs(nearest.slot - slot) ? device : nearest),
+      undefined
+    );
+  }
+}
@@ -0,0 +1,141 @@
+import { DataCenterLayout, getRoomRacks } from './Layout';
+import { ServerData, ServerStatus } from './ServerStatus';
+import { ViewpointStore, createDefaultViewpoints } from './Viewpoints';
+import { DeepLink } from './DeepLink';
+
+export type KioskTourKind = 'views' | 'racks';
+
+export interface KioskConfig {
+  tour: KioskTourKind;
+  intervalMs: number; // 每个巡视点停留的时长
+  views?: string[]; // 只巡视这些视角ID，缺省为各机房的全部视角
+}
+
+export const DEFAULT_KIOSK_CONFIG: KioskConfig = {
+  tour: 'views',
+  intervalMs: 20000,
+};
+
+// 巡视间隔的下限（毫秒），避免相机飞行动画尚未结束就切换
+const MIN_INTERVAL_MS = 3000;
+
+/**
+ * 从地址栏参数读取展台模式配置：?kiosk（或 ?kiosk=views / ?kiosk=racks）开启，
+ * ?kioskInterval=<秒> 设置停留时长，?kioskViews=<视角ID,...> 限定巡视的视角；未开启时返回 null
+ */
+export function parseKioskConfig(params: URLSearchParams): KioskConfig | null {
+  const kiosk = params.get('kiosk');
+  if (kiosk === null || kiosk === '0' || kiosk === 'false') return null;
+  const seconds = Number(params.get('kioskInterval'));
+  const views = params.get('kioskViews')?.split(',').map(view => view.trim()).filter(Boolean);
+  return {
+    tour: kiosk === 'racks' ? 'racks' : 'views',
+    intervalMs: Number.isFinite(seconds) && seconds > 0
+      ? Math.max(MIN_INTERVAL_MS, seconds * 1000)
+      : DEFAULT_KIOSK_CONFIG.intervalMs,
+    views: views && views.length > 0 ? views : undefined,
+  };
+}
+
+/**
+ * 按配置列出巡视点：依次经过每个机房的视角（含用户保存的视角）或每个机柜
+ */
+export function createKioskStops(layout: DataCenterLayout, config: KioskConfig): DeepLink[] {
+  return layout.rooms.flatMap<DeepLink>(room => {
+    if (config.tour === 'racks') {
+      return getRoomRacks(room).map(rack => ({ kind: 'rack', room: room.id, rack: rack.id }));
+    }
+    return new ViewpointStore(room.id, createDefaultViewpoints(room)).getAll()
+      .filter(viewpoint => !config.views || config.views.includes(viewpoint.id))
+      .map(viewpoint => ({ kind: 'view', room: room.id, view: viewpoint.id }));
+  });
+}
+
+/**
+ * 展台巡视：按固定间隔轮流显示各巡视点；有服务器进入故障状态时立即定位到该服务器并停留，
+ * 恢复后转到下一台故障服务器，全部恢复后继续巡视
+ */
+export class KioskTour {
+  private index = -1;
+  private timer: number | null = null;
+  private errorServers: string[] = []; // 按进入故障的先后排列
+  private pinnedServerId: string | null = null;
+  private unsubscribe: (() => void) | null = null;
+
+  constructor(
+    private readonly stops: DeepLink[],
+    private readonly intervalMs: number,
+    private readonly serverStatus: ServerStatus,
+    private readonly onNavigate: (link: DeepLink) => void,
+    private readonly onPinServer: (serverId: string | null) => void
+  ) {}
+
+  public get pinned(): string | null {
+    return this.pinnedServerId;
+  }
+
+  // 当前巡视点的序号和总数，用于界面显示
+  public get position(): { index: number; total: number } {
+    return { index: Math.max(0, this.index), total: this.stops.length };
+  }
+
+  public start(): void {
+    this.stop();
+    this.errorServers = [...this.serverStatus.getAllServers().values()]
+      .filter(data => data.status === 'error')
+      .map(data => data.id);
+    this.unsubscribe = this.serverStatus.on('statusChanged', data => this.onStatusChanged(data));
+    this.updatePin();
+    this.resume();
+  }
+
+  public stop(): void {
+    this.stopTimer();
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    this.pinnedServerId = null;
+  }
+
+  // 立即前往下一个巡视点，并从此刻重新计时
+  private resume(): void {
+    this.stopTimer();
+    this.timer = window.setInterval(() => this.advance(), this.intervalMs);
+    this.advance();
+  }
+
+  private stopTimer(): void {
+    if (this.timer !== null) {
+      window.clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private advance(): void {
+    if (this.pinnedServerId || this.stops.length === 0) return;
+    this.index = (this.index + 1) % this.stops.length;
+    this.onNavigate(this.stops[this.index]);
+  }
+
+  private onStatusChanged(data: ServerData): void {
+    const listed = this.errorServers.includes(data.id);
+    if (data.status === 'error' && !listed) {
+      this.errorServers.push(data.id);
+    } else if (data.status !== 'error' && listed) {
+      this.errorServers = this.errorServers.filter(id => id !== data.id);
+    } else {
+      return;
+    }
+    const previous = this.pinnedServerId;
+    this.updatePin();
+    // 全部恢复后立即继续巡视，不等下一个间隔
+    if (previous && !this.pinnedServerId) this.resume();
+  }
+
+  // 锁定最早进入故障且仍未恢复的服务器
+  private updatePin(): void {
+    const next = this.errorServers[0] ?? null;
+    if (next === this.pinnedServerId) return;
+    this.pinnedServerId = next;
+    this.onPinServer(next);
+  }
+}
@@ -0,0 +1,108 @@
+import { AlertEngine } from './AlertEngine';
+import { formatMetric } from './Metrics';
+import { CONNECTION_STATE_COLORS, ConnectionState } from './TelemetrySource';
+import { i18n, t } from './I18n';
+import { palette } from './Palette';
+import { escapeHtml } from './Html';
+
+// 滚动字幕每个字符的显示时长（秒），保证长短不同的字幕滚动速度一致
+const TICKER_SECONDS_PER_CHAR = 0.25;
+
+/**
+ * 展台模式的大屏信息层：时钟、连接状态、巡视/锁定提示和底部滚动的告警字幕
+ */
+export class KioskOverlay {
+  private element: HTMLElement;
+  private clock: HTMLElement;
+  private connection: HTMLElement;
+  private status: HTMLElement;
+  private notice: HTMLElement;
+  private ticker: HTMLElement;
+  private clockTimer: number | null = null;
+  private visible = false;
+  private unsubscribe: () => void;
+
+  constructor(container: HTMLElement, private readonly alertEngine: AlertEngine) {
+    this.element = document.createElement('div');
+    this.element.id = 'kiosk';
+    this.element.style.display = 'none';
+    this.element.innerHTML = `
+      <div style="position: absolute; top: 20px; right: 30px; text-align: right;">
+        <div data-role="clock" style="font-size: 64px; font-weight: bold; line-height: 1;"></div>
+        <div data-role="connection" style="font-size: 20px; margin-top: 8px;"></div>
+      </div>
+      <div data-role="status" style="position: absolute; top: 20px; left: 50%; transform: translateX(-50%); font-size: 24px;"></div>
+      <div data-role="notice" style="position: absolute; top: 50%; left: 50%; transform: translate(-50%, -50%); font-size: 32px; display: none;
+        background: rgba(0, 0, 0, 0.85); padding: 20px 30px; border-radius: 8px;"></div>
+      <div style="position: absolute; left: 0; right: 0; bottom: 0; overflow: hidden; white-space: nowrap; background: rgba(0, 0, 0, 0.8); font-size: 24px; padding: 8px 0;">
+        <div data-role="ticker" style="display: inline-block; padding-left: 100%;"></div>
+      </div>
+    `;
+    container.appendChild(this.element);
+
+    this.clock = this.element.querySelector('[data-role="clock"]') as HTMLElement;
+    this.connection = this.element.querySelector('[data-role="connection"]') as HTMLElement;
+    this.status = this.element.querySelector('[data-role="status"]') as HTMLElement;
+    this.notice = this.element.querySelector('[data-role="notice"]') as HTMLElement;
+    this.ticker = this.element.querySelector('[data-role="ticker"]') as HTMLElement;
+    this.unsubscribe = this.alertEngine.on('alertChanged', () => {
+      if (this.visible) this.renderTicker();
+    });
+  }
+
+  public setVisible(visible: boolean): void {
+    this.visible = visible;
+    this.element.style.display = visible ? 'block' : 'none';
+    if (this.clockTimer !== null) {
+      window.clearInterval(this.clockTimer);
+      this.clockTimer = null;
+    }
+    if (!visible) return;
+    this.renderClock();
+    this.clockTimer = window.setInterval(() => this.renderClock(), 1000);
+    this.renderTicker();
+  }
+
+  public setConnectionState(state: ConnectionState, sourceName: string): void {
+    this.connection.innerHTML = `<span style="color: ${CONNECTION_STATE_COLORS[state]};">●</span> ${escapeHtml(sourceName)}: ${t(`connection.${state}`)}`;
+  }
+
+  // 巡视进度或故障锁定提示，error 为 true 时以故障颜色显示
+  public setStatus(text: string, error: boolean = false): void {
+    this.status.textContent = text;
+    this.status.style.color = error ? palette.statusColor('error') : '#ffffff';
+  }
+
+  // 居中显示的提示（如图形上下文丢失），传入 null 隐藏
+  public setNotice(text: string | null): void {
+    this.notice.textContent = text ?? '';
+    this.notice.style.display = text ? 'block' : 'none';
+  }
+
+  public dispose(): void {
+    this.setVisible(false);
+    this.unsubscribe();
+    this.element.remove();
+  }
+
+  private renderClock(): void {
+    const now = new Date();
+    this.clock.innerHTML = `${i18n.formatTime(now)}<div style="font-size: 20px; font-weight: normal;">${i18n.formatDate(now)}</div>`;
+  }
+
+  // 未恢复的告警按严重程度排列，故障在前
+  private renderTicker(): void {
+    const alerts = this.alertEngine.getAlerts().sort((a, b) =>
+      a.severity === b.severity ? b.raisedAt - a.raisedAt : a.severity === 'error' ? -1 : 1
+    );
+    const items = alerts.map(alert => `
+      <span style="color: ${palette.statusColor(alert.severity)}; margin-right: 60px;">
+        ● ${escapeHtml(alert.serverId)} ${t(`metric.${alert.metric}`)} ${formatMetric(alert.metric, alert.value)}
+        ${t('kiosk.alertTime', { time: i18n.formatTime(alert.raisedAt) })}
+      </span>
+    `);
+    this.ticker.innerHTML = items.length > 0 ? items.join('') : `<span style="color: ${palette.statusColor('normal')};">● ${t('kiosk.noAlerts')}</span>`;
+    const length = (this.ticker.textContent ?? '').replace(/\s+/g, ' ').length;
+    this.ticker.style.animation = `kiosk-ticker ${Math.max(10, length * TICKER_SECONDS_PER_CHAR)}s linear infinite`;
+  }
+}
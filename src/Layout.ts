@@ -0,0 +1,515 @@
+import { t } from './I18n';
+
+// 机柜占地尺寸（场景单位），布局校验与三维场景共用
+export const RACK_FOOTPRINT = { width: 0.8, depth: 0.8 };
+
+export interface DeviceLayout {
+  id: string;
+  slot: number; // 起始U位，从1开始自下而上
+  sizeU: number;
+  brand: string;
+  model: string;
+  powerW?: number; // 额定功率（瓦），缺省按每U 250W 估算
+}
+
+export interface RackLayout {
+  id: string;
+  name?: string;
+  position: { x: number; z: number };
+  rotation?: number; // 绕Y轴旋转角度（度）
+  heightU: number;
+  powerKw?: number; // 额定供电容量（千瓦）
+  coolingKw?: number; // 制冷能力（千瓦）
+  devices: DeviceLayout[];
+}
+
+export interface RowLayout {
+  id: string;
+  name?: string;
+  racks: RackLayout[];
+}
+
+export type InfrastructureType = 'network' | 'power' | 'cooling' | 'fiber';
+export type TopologyNodeKind = 'switch' | 'pdu' | 'crac' | 'fiberPanel';
+
+export interface TopologyNodeLayout {
+  id: string;
+  kind: TopologyNodeKind;
+  name?: string;
+  position: { x: number; z: number };
+}
+
+// 连接方向为上游 -> 下游，端点可以是拓扑节点或机柜
+export interface TopologyLinkLayout {
+  id: string;
+  type: InfrastructureType;
+  from: string;
+  to: string;
+}
+
+export interface TopologyLayout {
+  nodes: TopologyNodeLayout[];
+  links: TopologyLinkLayout[];
+}
+
+export interface RoomLayout {
+  id: string;
+  name: string;
+  width: number;
+  depth: number;
+  rows: RowLayout[];
+  topology?: TopologyLayout; // 缺省时按机柜排自动生成
+}
+
+// 站点 → 楼栋 → 楼层 → 机房的层级，楼层通过机房ID引用 rooms 中的机房
+export interface FloorLayout {
+  id: string;
+  name?: string;
+  rooms: string[];
+}
+
+export interface BuildingLayout {
+  id: string;
+  name?: string;
+  floors: FloorLayout[];
+}
+
+export interface SiteLayout {
+  id: string;
+  name?: string;
+  buildings: BuildingLayout[];
+}
+
+export interface DataCenterLayout {
+  version: 1;
+  rooms: RoomLayout[];
+  sites?: SiteLayout[]; // 缺省时全部机房归入一个默认站点
+}
+
+export interface LayoutDevice extends DeviceLayout {
+  rackId: string;
+  roomId: string;
+}
+
+export class LayoutValidationError extends Error {
+  public readonly errors: string[];
+
+  constructor(errors: string[]) {
+    super(`${t('layout.validationFailed')}\n${errors.join('\n')}`);
+    this.name = 'LayoutValidationError';
+    this.errors = errors;
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+function isPositiveInteger(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) > 0;
+}
+
+// 计算旋转后机柜占地的轴对齐包围盒
+function getRackBounds(rack: RackLayout): { minX: number; maxX: number; minZ: number; maxZ: number } {
+  const angle = ((rack.rotation ?? 0) * Math.PI) / 180;
+  const cos = Math.abs(Math.cos(angle));
+  const sin = Math.abs(Math.sin(angle));
+  const halfX = (RACK_FOOTPRINT.width * cos + RACK_FOOTPRINT.depth * sin) / 2;
+  const halfZ = (RACK_FOOTPRINT.width * sin + RACK_FOOTPRINT.depth * cos) / 2;
+  return {
+    minX: rack.position.x - halfX,
+    maxX: rack.position.x + halfX,
+    minZ: rack.position.z - halfZ,
+    maxZ: rack.position.z + halfZ,
+  };
+}
+
+type RackBounds = ReturnType<typeof getRackBounds>;
+
+function isOutsideRoom(bounds: RackBounds, width: number, depth: number): boolean {
+  return bounds.minX < -width / 2 || bounds.maxX > width / 2 || bounds.minZ < -depth / 2 || bounds.maxZ > depth / 2;
+}
+
+function boundsOverlap(a: RackBounds, b: RackBounds): boolean {
+  return a.minX < b.maxX && a.maxX > b.minX && a.minZ < b.maxZ && a.maxZ > b.minZ;
+}
+
+/**
+ * 检查单个机柜在机房中的摆放（超出范围、与其他机柜重叠），供布局编辑时即时提示
+ */
+export function getRackPlacementErrors(room: RoomLayout, rack: RackLayout): string[] {
+  const errors: string[] = [];
+  const bounds = getRackBounds(rack);
+  if (isOutsideRoom(bounds, room.width, room.depth)) {
+    errors.push(t('layout.rackOutsideRoom', { rack: rack.name ?? rack.id }));
+  }
+  room.rows.forEach(row => row.racks.forEach(other => {
+    if (other.id !== rack.id && boundsOverlap(bounds, getRackBounds(other))) {
+      errors.push(t('layout.rackOverlap', { rack: rack.name ?? rack.id, other: other.name ?? other.id }));
+    }
+  }));
+  return errors;
+}
+
+function validateDevice(device: unknown, path: string, errors: string[]): device is DeviceLayout {
+  if (!isObject(device)) {
+    errors.push(`${path}: ${t('layout.deviceNotObject')}`);
+    return false;
+  }
+  let valid = true;
+  if (typeof device.id !== 'string' || device.id === '') {
+    errors.push(`${path}.id: ${t('layout.deviceIdInvalid')}`);
+    valid = false;
+  }
+  if (!isPositiveInteger(device.slot)) {
+    errors.push(`${path}.slot: ${t('layout.slotInvalid')}`);
+    valid = false;
+  }
+  if (!isPositiveInteger(device.sizeU)) {
+    errors.push(`${path}.sizeU: ${t('layout.sizeUInvalid')}`);
+    valid = false;
+  }
+  if (typeof device.brand !== 'string') {
+    errors.push(`${path}.brand: ${t('layout.brandInvalid')}`);
+    valid = false;
+  }
+  if (typeof device.model !== 'string') {
+    errors.push(`${path}.model: ${t('layout.modelInvalid')}`);
+    valid = false;
+  }
+  if (device.powerW !== undefined && !(isNumber(device.powerW) && device.powerW >= 0)) {
+    errors.push(`${path}.powerW: ${t('layout.powerInvalid')}`);
+    valid = false;
+  }
+  return valid;
+}
+
+function validateRack(rack: unknown, path: string, errors: string[]): rack is RackLayout {
+  if (!isObject(rack)) {
+    errors.push(`${path}: ${t('layout.rackNotObject')}`);
+    return false;
+  }
+  let valid = true;
+  if (typeof rack.id !== 'string' || rack.id === '') {
+    errors.push(`${path}.id: ${t('layout.rackIdInvalid')}`);
+    valid = false;
+  }
+  if (rack.name !== undefined && typeof rack.name !== 'string') {
+    errors.push(`${path}.name: ${t('layout.rackNameInvalid')}`);
+    valid = false;
+  }
+  if (!isObject(rack.position) || !isNumber(rack.position.x) || !isNumber(rack.position.z)) {
+    errors.push(`${path}.position: ${t('layout.positionInvalid')}`);
+    valid = false;
+  }
+  if (rack.rotation !== undefined && !isNumber(rack.rotation)) {
+    errors.push(`${path}.rotation: ${t('layout.rotationInvalid')}`);
+    valid = false;
+  }
+  if (!isPositiveInteger(rack.heightU)) {
+    errors.push(`${path}.heightU: ${t('layout.heightUInvalid')}`);
+    valid = false;
+  }
+  (['powerKw', 'coolingKw'] as const).forEach(key => {
+    if (rack[key] !== undefined && !(isNumber(rack[key]) && (rack[key] as number) > 0)) {
+      errors.push(`${path}.${key}: ${t('layout.capacityInvalid')}`);
+      valid = false;
+    }
+  });
+  if (!Array.isArray(rack.devices)) {
+    errors.push(`${path}.devices: ${t('layout.devicesInvalid')}`);
+    return false;
+  }
+
+  // 设备错误只记录，不影响机柜本身参与位置校验
+  const devices = rack.devices.filter((device, index) =>
+    validateDevice(device, `${path}.devices[${index}]`, errors)
+  );
+
+  // 校验U位范围与重叠
+  const heightU = rack.heightU;
+  if (isPositiveInteger(heightU)) {
+    const occupied: (string | undefined)[] = new Array(heightU + 1);
+    rack.devices.forEach((device, index) => {
+      if (!devices.includes(device)) return;
+      const top = device.slot + device.sizeU - 1;
+      const devicePath = `${path}.devices[${index}]`;
+      if (top > heightU) {
+        errors.push(`${devicePath}: ${t('layout.slotOutOfRange', { from: device.slot, to: top, height: heightU })}`);
+        return;
+      }
+      for (let u = device.slot; u <= top; u++) {
+        const other = occupied[u];
+        if (other !== undefined) {
+          errors.push(`${devicePath}: ${t('layout.slotOverlap', { device: device.id, slot: u, other })}`);
+          return;
+        }
+      }
+      for (let u = device.slot; u <= top; u++) {
+        occupied[u] = device.id;
+      }
+    });
+  }
+
+  return valid;
+}
+
+export const INFRASTRUCTURE_TYPES: InfrastructureType[] = ['network', 'power', 'cooling', 'fiber'];
+export const TOPOLOGY_NODE_KINDS: TopologyNodeKind[] = ['switch', 'pdu', 'crac', 'fiberPanel'];
+
+function validateTopology(topology: unknown, path: string, errors: string[], roomRackIds: Set<string>): void {
+  if (!isObject(topology) || !Array.isArray(topology.nodes) || !Array.isArray(topology.links)) {
+    errors.push(`${path}: ${t('layout.topologyInvalid')}`);
+    return;
+  }
+
+  const nodeIds = new Set<string>();
+  topology.nodes.forEach((node, index) => {
+    const nodePath = `${path}.nodes[${index}]`;
+    if (!isObject(node) || typeof node.id !== 'string' || node.id === '') {
+      errors.push(`${nodePath}.id: ${t('layout.nodeIdInvalid')}`);
+      return;
+    }
+    if (nodeIds.has(node.id) || roomRackIds.has(node.id)) {
+      errors.push(`${nodePath}.id: ${t('layout.nodeIdDuplicate', { id: node.id })}`);
+    }
+    nodeIds.add(node.id);
+    if (!TOPOLOGY_NODE_KINDS.includes(node.kind as TopologyNodeKind)) {
+      errors.push(`${nodePath}.kind: ${t('layout.nodeKindInvalid', { kinds: TOPOLOGY_NODE_KINDS.join('/') })}`);
+    }
+    if (!isObject(node.position) || !isNumber(node.position.x) || !isNumber(node.position.z)) {
+      errors.push(`${nodePath}.position: ${t('layout.positionInvalid')}`);
+    }
+  });
+
+  const linkIds = new Set<string>();
+  topology.links.forEach((link, index) => {
+    const linkPath = `${path}.links[${index}]`;
+    if (!isObject(link) || typeof link.id !== 'string' || link.id === '') {
+      errors.push(`${linkPath}.id: ${t('layout.linkIdInvalid')}`);
+      return;
+    }
+    if (linkIds.has(link.id)) {
+      errors.push(`${linkPath}.id: ${t('layout.linkIdDuplicate', { id: link.id })}`);
+    }
+    linkIds.add(link.id);
+    if (!INFRASTRUCTURE_TYPES.includes(link.type as InfrastructureType)) {
+      errors.push(`${linkPath}.type: ${t('layout.linkTypeInvalid', { types: INFRASTRUCTURE_TYPES.join('/') })}`);
+    }
+    (['from', 'to'] as const).forEach(end => {
+      const endpoint = link[end];
+      if (typeof endpoint !== 'string' || (!nodeIds.has(endpoint) && !roomRackIds.has(endpoint))) {
+        errors.push(`${linkPath}.${end}: ${t('layout.linkEndpointInvalid', { endpoint: String(endpoint) })}`);
+      }
+    });
+    if (link.from === link.to) {
+      errors.push(`${linkPath}: ${t('layout.linkSelfLoop')}`);
+    }
+  });
+}
+
+function validateRoom(room: unknown, path: string, errors: string[], rackIds: Set<string>, deviceIds: Set<string>): void {
+  if (!isObject(room)) {
+    errors.push(`${path}: ${t('layout.roomNotObject')}`);
+    return;
+  }
+  if (typeof room.id !== 'string' || room.id === '') {
+    errors.push(`${path}.id: ${t('layout.roomIdInvalid')}`);
+  }
+  if (typeof room.name !== 'string') {
+    errors.push(`${path}.name: ${t('layout.roomNameInvalid')}`);
+  }
+  const hasSize = isNumber(room.width) && isNumber(room.depth) && room.width > 0 && room.depth > 0;
+  if (!hasSize) {
+    errors.push(`${path}: ${t('layout.roomSizeInvalid')}`);
+  }
+  if (!Array.isArray(room.rows)) {
+    errors.push(`${path}.rows: ${t('layout.rowsInvalid')}`);
+    return;
+  }
+
+  const placed: { rack: RackLayout; path: string }[] = [];
+  room.rows.forEach((row, rowIndex) => {
+    const rowPath = `${path}.rows[${rowIndex}]`;
+    if (!isObject(row) || typeof row.id !== 'string' || !Array.isArray(row.racks)) {
+      errors.push(`${rowPath}: ${t('layout.rowInvalid')}`);
+      return;
+    }
+    row.racks.forEach((rack, rackIndex) => {
+      const rackPath = `${rowPath}.racks[${rackIndex}]`;
+      if (!validateRack(rack, rackPath, errors)) return;
+
+      if (rackIds.has(rack.id)) {
+        errors.push(`${rackPath}.id: ${t('layout.rackIdDuplicate', { id: rack.id })}`);
+      }
+      rackIds.add(rack.id);
+      rack.devices.forEach((device, deviceIndex) => {
+        if (!isObject(device) || typeof device.id !== 'string') return;
+        if (deviceIds.has(device.id)) {
+          errors.push(`${rackPath}.devices[${deviceIndex}].id: ${t('layout.deviceIdDuplicate', { id: device.id })}`);
+        }
+        deviceIds.add(device.id);
+      });
+      placed.push({ rack, path: rackPath });
+    });
+  });
+
+  if (room.topology !== undefined) {
+    validateTopology(room.topology, `${path}.topology`, errors, new Set(placed.map(({ rack }) => rack.id)));
+  }
+
+  // 校验机柜是否超出机房范围或相互重叠
+  const bounds = placed.map(({ rack }) => getRackBounds(rack));
+  placed.forEach(({ rack, path: rackPath }, i) => {
+    const a = bounds[i];
+    if (hasSize && isOutsideRoom(a, room.width as number, room.depth as number)) {
+      errors.push(`${rackPath}: ${t('layout.rackOutsideRoom', { rack: rack.id })}`);
+    }
+    for (let j = 0; j < i; j++) {
+      if (boundsOverlap(a, bounds[j])) {
+        errors.push(`${rackPath}: ${t('layout.rackOverlap', { rack: rack.id, other: placed[j].rack.id })}`);
+      }
+    }
+  });
+}
+
+/**
+ * 校验布局数据，返回所有错误信息（为空表示校验通过）
+ */
+export function validateLayout(input: unknown): string[] {
+  const errors: string[] = [];
+  if (!isObject(input)) {
+    return [t('layout.notObject')];
+  }
+  if (input.version !== 1) {
+    errors.push(`version: ${t('layout.versionUnsupported')}`);
+  }
+  if (!Array.isArray(input.rooms) || input.rooms.length === 0) {
+    errors.push(`rooms: ${t('layout.roomsEmpty')}`);
+    return errors;
+  }
+
+  const roomIds = new Set<string>();
+  const rackIds = new Set<string>();
+  const deviceIds = new Set<string>();
+  input.rooms.forEach((room, index) => {
+    const path = `rooms[${index}]`;
+    if (isObject(room) && typeof room.id === 'string') {
+      if (roomIds.has(room.id)) {
+        errors.push(`${path}.id: ${t('layout.roomIdDuplicate', { id: room.id })}`);
+      }
+      roomIds.add(room.id);
+    }
+    validateRoom(room, path, errors, rackIds, deviceIds);
+  });
+  if (input.sites !== undefined) {
+    validateSites(input.sites, errors, roomIds);
+  }
+
+  return errors;
+}
+
+// 层级中每个站点、楼栋、楼层必须有唯一ID，每个机房恰好归属一个楼层
+function validateSites(sites: unknown, errors: string[], roomIds: Set<string>): void {
+  if (!Array.isArray(sites)) {
+    errors.push(`sites: ${t('layout.sitesInvalid')}`);
+    return;
+  }
+  const nodeIds = new Set<string>();
+  const assigned = new Set<string>();
+  const checkNode = (node: unknown, path: string, children: string, label: string): unknown[] => {
+    if (!isObject(node) || typeof node.id !== 'string' || node.id === '') {
+      errors.push(`${path}.id: ${t('layout.siteNodeIdInvalid', { level: label })}`);
+      return [];
+    }
+    if (nodeIds.has(node.id)) {
+      errors.push(`${path}.id: ${t('layout.siteNodeIdDuplicate', { id: node.id })}`);
+    }
+    nodeIds.add(node.id);
+    if (node.name !== undefined && typeof node.name !== 'string') {
+      errors.push(`${path}.name: ${t('layout.siteNodeNameInvalid', { level: label })}`);
+    }
+    if (!Array.isArray(node[children])) {
+      errors.push(`${path}.${children}: ${t('layout.arrayRequired')}`);
+      return [];
+    }
+    return node[children] as unknown[];
+  };
+
+  sites.forEach((site, siteIndex) => {
+    const sitePath = `sites[${siteIndex}]`;
+    checkNode(site, sitePath, 'buildings', t('site.site')).forEach((building, buildingIndex) => {
+      const buildingPath = `${sitePath}.buildings[${buildingIndex}]`;
+      checkNode(building, buildingPath, 'floors', t('site.building')).forEach((floor, floorIndex) => {
+        const floorPath = `${buildingPath}.floors[${floorIndex}]`;
+        checkNode(floor, floorPath, 'rooms', t('site.floor')).forEach((roomId, roomIndex) => {
+          const roomPath = `${floorPath}.rooms[${roomIndex}]`;
+          if (typeof roomId !== 'string' || !roomIds.has(roomId)) {
+            errors.push(`${roomPath}: ${t('layout.roomNotFound', { room: String(roomId) })}`);
+          } else if (assigned.has(roomId)) {
+            errors.push(`${roomPath}: ${t('layout.roomAssignedTwice', { room: roomId })}`);
+          } else {
+            assigned.add(roomId);
+          }
+        });
+      });
+    });
+  });
+
+  roomIds.forEach(roomId => {
+    if (!assigned.has(roomId)) {
+      errors.push(`sites: ${t('layout.roomUnassigned', { room: roomId })}`);
+    }
+  });
+}
+
+/**
+ * 解析并校验布局数据，校验失败时抛出 LayoutValidationError
+ */
+export function parseLayout(input: unknown): DataCenterLayout {
+  const errors = validateLayout(input);
+  if (errors.length > 0) {
+    throw new LayoutValidationError(errors);
+  }
+  return input as DataCenterLayout;
+}
+
+export async function loadLayout(url: string): Promise<DataCenterLayout> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(t('layout.loadFailed', { url, status: `${response.status} ${response.statusText}` }));
+  }
+  return parseLayout(await response.json());
+}
+
+/**
+ * 返回站点层级；布局未定义 sites 时把全部机房放在一个默认站点的同一楼层下
+ */
+export function getSites(layout: DataCenterLayout): SiteLayout[] {
+  if (layout.sites) return layout.sites;
+  return [{
+    id: 'site-default',
+    name: t('site.defaultSite'),
+    buildings: [{
+      id: 'building-default',
+      name: t('site.defaultBuilding'),
+      floors: [{ id: 'floor-default', name: t('site.defaultFloor'), rooms: layout.rooms.map(room => room.id) }],
+    }],
+  }];
+}
+
+export function getRoomRacks(room: RoomLayout): RackLayout[] {
+  return room.rows.flatMap(row => row.racks);
+}
+
+export function getLayoutDevices(layout: DataCenterLayout): LayoutDevice[] {
+  return layout.rooms.flatMap(room =>
+    getRoomRacks(room).flatMap(rack =>
+      rack.devices.map(device => ({ ...device, rackId: rack.id, roomId: room.id }))
+    )
+  );
+}
@@ -0,0 +1,450 @@
+import * as THREE from 'three';
+import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls';
+import { TransformControls } from 'three/examples/jsm/controls/TransformControls';
+import { DataCenter } from './DataCenter';
+import { DeviceLayout, RACK_FOOTPRINT, RackLayout, getRackPlacementErrors } from './Layout';
+import { LayoutEditor } from './LayoutEditor';
+import { RACK_HEIGHT, SERVER_SIZE } from './RackRenderer';
+import { t } from './I18n';
+import { escapeHtml } from './Html';
+
+// 地面网格间距（场景单位）与旋转步进
+const GRID_SIZE = 0.5;
+const ROTATION_STEP = Math.PI / 2;
+
+const VALID_COLOR = 0x44ff44;
+const INVALID_COLOR = 0xff4444;
+
+// 指针移动不超过该像素数视为单击
+const CLICK_TOLERANCE = 4;
+
+interface DeviceDrag {
+  rack: RackLayout;
+  device: DeviceLayout;
+  slot: number;
+}
+
+/**
+ * 布局编辑模式：单击选择机柜，用变换手柄在网格上拖动或按90度旋转，
+ * 在选中机柜内上下拖动服务器调整U位；修改经 LayoutEditor 校验后重建场景
+ */
+export class LayoutEditController {
+  private element: HTMLElement;
+  private status: HTMLElement;
+  private active = false;
+  private selectedRackId: string | null = null;
+  private gizmo: TransformControls;
+  private grid: THREE.GridHelper | null = null;
+  private rackProxy: THREE.Group;
+  private rackOutline: THREE.LineSegments;
+  private deviceOutline: THREE.LineSegments;
+  private deviceDrag: DeviceDrag | null = null;
+  private pointerDown: { x: number; y: number } | null = null;
+  private raycaster = new THREE.Raycaster();
+  private messages: string[] = [];
+
+  constructor(
+    container: HTMLElement,
+    private readonly editor: LayoutEditor,
+    private readonly scene: THREE.Scene,
+    private readonly camera: THREE.Camera,
+    private readonly domElement: HTMLElement,
+    private readonly controls: OrbitControls,
+    private dataCenter: DataCenter,
+    private roomId: string
+  ) {
+    this.element = document.createElement('div');
+    this.element.id = 'layout-editor';
+    this.element.style.display = 'none';
+    this.element.innerHTML = `
+      <div style="display: flex; gap: 6px; flex-wrap: wrap;">
+        <button data-action="translate" aria-pressed="true">${t('layoutEditor.translate')}</button>
+        <button data-action="rotate" aria-pressed="false">${t('layoutEditor.rotate')}</button>
+        <button data-action="add">${t('layoutEditor.addRack')}</button>
+        <button data-action="remove">${t('layoutEditor.removeRack')}</button>
+        <button data-action="undo">${t('layoutEditor.undo')}</button>
+        <button data-action="redo">${t('layoutEditor.redo')}</button>
+        <button data-action="export">${t('layoutEditor.export')}</button>
+      </div>
+      <div data-role="status" style="margin-top: 5px;"></div>
+      <small>${t('layoutEditor.hint')}</small>
+    `;
+    container.appendChild(this.element);
+    this.status = this.element.querySelector('[data-role="status"]') as HTMLElement;
+    this.element.addEventListener('click', this.handleClick.bind(this));
+
+    // 机柜代理：变换手柄挂在线框上，松开后才提交到布局
+    this.rackOutline = new THREE.LineSegments(
+      new THREE.EdgesGeometry(new THREE.BoxGeometry(RACK_FOOTPRINT.width, RACK_HEIGHT, RACK_FOOTPRINT.depth)),
+      new THREE.LineBasicMaterial({ color: VALID_COLOR })
+    );
+    this.rackOutline.position.y = RACK_HEIGHT / 2;
+    this.deviceOutline = new THREE.LineSegments(
+      new THREE.EdgesGeometry(new THREE.BoxGeometry(SERVER_SIZE.width, 1, SERVER_SIZE.depth)),
+      new THREE.LineBasicMaterial({ color: VALID_COLOR })
+    );
+    this.deviceOutline.visible = false;
+    this.rackProxy = new THREE.Group();
+    // 箭头指向机柜正面
+    this.rackProxy.add(this.rackOutline, this.deviceOutline, new THREE.ArrowHelper(
+      new THREE.Vector3(0, 0, 1), new THREE.Vector3(0, 0.05, 0), RACK_FOOTPRINT.depth, VALID_COLOR, 0.15, 0.1
+    ));
+    this.rackProxy.visible = false;
+    this.scene.add(this.rackProxy);
+
+    this.gizmo = new TransformControls(this.camera, this.domElement);
+    this.gizmo.setTranslationSnap(GRID_SIZE);
+    this.gizmo.setRotationSnap(ROTATION_STEP);
+    this.setMode('translate');
+    this.gizmo.addEventListener('dragging-changed', event => {
+      this.controls.enabled = !event.value;
+      if (!event.value) this.commitRackTransform();
+    });
+    this.gizmo.addEventListener('objectChange', () => this.checkRackProxy());
+    this.scene.add(this.gizmo);
+
+    this.domElement.addEventListener('pointerdown', this.onPointerDown.bind(this));
+    this.domElement.addEventListener('pointermove', this.onPointerMove.bind(this));
+    this.domElement.addEventListener('pointerup', this.onPointerUp.bind(this));
+    window.addEventListener('keydown', this.onKeyDown.bind(this));
+  }
+
+  public get isActive(): boolean {
+    return this.active;
+  }
+
+  public setActive(active: boolean): void {
+    this.active = active;
+    this.element.style.display = active ? 'block' : 'none';
+    this.messages = [];
+    if (active) {
+      this.createGrid();
+    } else {
+      this.cancelDeviceDrag();
+      this.select(null);
+      this.removeGrid();
+    }
+    this.render();
+  }
+
+  // 编辑后重建或切换机房时更新场景引用，保留仍然存在的选择
+  public setDataCenter(dataCenter: DataCenter, roomId: string): void {
+    const roomChanged = roomId !== this.roomId;
+    this.dataCenter = dataCenter;
+    this.roomId = roomId;
+    this.cancelDeviceDrag();
+    if (this.active && roomChanged) this.createGrid();
+    const rackId = this.selectedRackId;
+    this.select(rackId && !roomChanged && this.editor.getRack(roomId, rackId) ? rackId : null);
+  }
+
+  public dispose(): void {
+    this.gizmo.detach();
+    this.gizmo.dispose();
+    this.scene.remove(this.gizmo, this.rackProxy);
+    this.removeGrid();
+    [this.rackOutline, this.deviceOutline].forEach(outline => {
+      outline.geometry.dispose();
+      (outline.material as THREE.Material).dispose();
+    });
+    this.element.remove();
+  }
+
+  private handleClick(event: MouseEvent): void {
+    const action = (event.target as HTMLElement).closest<HTMLElement>('[data-action]');
+    switch (action?.dataset.action) {
+      case 'translate':
+      case 'rotate':
+        this.setMode(action.dataset.action);
+        break;
+      case 'add':
+        this.addRack();
+        break;
+      case 'remove':
+        this.removeSelectedRack();
+        break;
+      case 'undo':
+        this.editor.undo();
+        break;
+      case 'redo':
+        this.editor.redo();
+        break;
+      case 'export':
+        this.download();
+        break;
+    }
+  }
+
+  private onKeyDown(event: KeyboardEvent): void {
+    if (!this.active || event.target instanceof HTMLInputElement || event.target instanceof HTMLTextAreaElement) return;
+    const key = event.key.toLowerCase();
+    if ((event.ctrlKey || event.metaKey) && key === 'z') {
+      if (event.shiftKey) {
+        this.editor.redo();
+      } else {
+        this.editor.undo();
+      }
+    } else if ((event.ctrlKey || event.metaKey) && key === 'y') {
+      this.editor.redo();
+    } else if (key === 'r') {
+      this.setMode(this.gizmo.getMode() === 'translate' ? 'rotate' : 'translate');
+    } else if (key === 'delete') {
+      this.removeSelectedRack();
+    } else if (key === 'escape') {
+      this.select(null);
+    } else {
+      return;
+    }
+    event.preventDefault();
+  }
+
+  // 平移只在地面内进行，旋转只绕Y轴
+  private setMode(mode: 'translate' | 'rotate'): void {
+    this.gizmo.setMode(mode);
+    this.gizmo.showX = mode === 'translate';
+    this.gizmo.showY = mode === 'rotate';
+    this.gizmo.showZ = mode === 'translate';
+    this.element.querySelectorAll<HTMLElement>('[data-action="translate"], [data-action="rotate"]').forEach(button => {
+      button.setAttribute('aria-pressed', String(button.dataset.action === mode));
+    });
+  }
+
+  private select(rackId: string | null): void {
+    this.selectedRackId = rackId;
+    const rack = rackId ? this.editor.getRack(this.roomId, rackId) : undefined;
+    if (rack) {
+      this.placeRackProxy(rack);
+      this.gizmo.attach(this.rackProxy);
+    } else {
+      this.selectedRackId = null;
+      this.gizmo.detach();
+      this.rackProxy.visible = false;
+    }
+    this.render();
+  }
+
+  private placeRackProxy(rack: RackLayout): void {
+    this.rackProxy.position.set(rack.position.x, 0, rack.position.z);
+    this.rackProxy.rotation.set(0, THREE.MathUtils.degToRad(rack.rotation ?? 0), 0);
+    this.rackProxy.visible = true;
+    this.setOutlineColor(this.rackOutline, VALID_COLOR);
+  }
+
+  // 拖动过程中检查越界和重叠，用代理线框颜色提示
+  private checkRackProxy(): void {
+    const rack = this.getProxyRack();
+    const room = this.editor.getRoom(this.roomId);
+    if (!rack || !room) return;
+    this.messages = getRackPlacementErrors(room, rack);
+    this.setOutlineColor(this.rackOutline, this.messages.length === 0 ? VALID_COLOR : INVALID_COLOR);
+    this.render();
+  }
+
+  private getProxyRack(): RackLayout | null {
+    const rack = this.selectedRackId ? this.editor.getRack(this.roomId, this.selectedRackId) : undefined;
+    if (!rack) return null;
+    // 由正面朝向换算角度，避免欧拉角分解在180度附近出现X/Z翻转
+    const front = new THREE.Vector3(0, 0, 1).applyQuaternion(this.rackProxy.quaternion);
+    return {
+      ...rack,
+      position: { x: this.rackProxy.position.x, z: this.rackProxy.position.z },
+      rotation: Math.round(THREE.MathUtils.radToDeg(Math.atan2(front.x, front.z))),
+    };
+  }
+
+  private commitRackTransform(): void {
+    const rack = this.getProxyRack();
+    const original = this.selectedRackId ? this.editor.getRack(this.roomId, this.selectedRackId) : undefined;
+    if (!rack || !original) return;
+    const unchanged = rack.position.x === original.position.x && rack.position.z === original.position.z &&
+      (((rack.rotation ?? 0) - (original.rotation ?? 0)) % 360 === 0);
+    if (unchanged) return;
+    this.messages = this.editor.moveRack(this.roomId, rack.id, rack.position, rack.rotation ?? 0);
+    // 提交失败时代理回到原位
+    if (this.messages.length > 0) this.placeRackProxy(original);
+    this.render();
+  }
+
+  private addRack(): void {
+    const room = this.editor.getRoom(this.roomId);
+    if (!room) return;
+    const selected = this.selectedRackId ? this.editor.getRack(this.roomId, this.selectedRackId) : undefined;
+    const position = this.findFreePosition(selected?.position ?? { x: 0, z: 0 });
+    if (!position) {
+      this.messages = [t('layoutEditor.noSpace')];
+      this.render();
+      return;
+    }
+    const rowId = selected ? room.rows.find(row => row.racks.includes(selected))?.id : undefined;
+    const { rackId, errors } = this.editor.addRack(this.roomId, position, rowId);
+    this.messages = errors;
+    if (rackId) this.select(rackId);
+    this.render();
+  }
+
+  // 从起点向外逐圈搜索网格上第一个不与其他机柜重叠的位置
+  private findFreePosition(origin: { x: number; z: number }): { x: number; z: number } | null {
+    const room = this.editor.getRoom(this.roomId);
+    if (!room) return null;
+    const startX = Math.round(origin.x / GRID_SIZE) * GRID_SIZE;
+    const startZ = Math.round(origin.z / GRID_SIZE) * GRID_SIZE;
+    const maxRing = Math.ceil(Math.max(room.width, room.depth) / GRID_SIZE);
+    for (let ring = 0; ring <= maxRing; ring++) {
+      for (let i = -ring; i <= ring; i++) {
+        for (let j = -ring; j <= ring; j++) {
+          if (Math.max(Math.abs(i), Math.abs(j)) !== ring) continue;
+          const position = { x: startX + i * GRID_SIZE, z: startZ + j * GRID_SIZE };
+          const candidate: RackLayout = { id: '', position, heightU: 1, devices: [] };
+          if (getRackPlacementErrors(room, candidate).length === 0) return position;
+        }
+      }
+    }
+    return null;
+  }
+
+  private removeSelectedRack(): void {
+    const rack = this.selectedRackId ? this.editor.getRack(this.roomId, this.selectedRackId) : undefined;
+    if (!rack) return;
+    if (rack.devices.length > 0 && !window.confirm(t('layoutEditor.confirmRemove', { rack: rack.name ?? rack.id, count: rack.devices.length }))) {
+      return;
+    }
+    this.select(null);
+    this.messages = this.editor.removeRack(this.roomId, rack.id);
+    this.render();
+  }
+
+  private download(): void {
+    const blob = new Blob([this.editor.toJSON()], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'layout.json';
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+
+  private updateRaycaster(event: PointerEvent): void {
+    const rect = this.domElement.getBoundingClientRect();
+    const pointer = new THREE.Vector2(
+      ((event.clientX - rect.left) / rect.width) * 2 - 1,
+      -((event.clientY - rect.top) / rect.height) * 2 + 1
+    );
+    this.raycaster.setFromCamera(pointer, this.camera);
+  }
+
+  private onPointerDown(event: PointerEvent): void {
+    // 手柄上的操作由 TransformControls 处理
+    if (!this.active || event.button !== 0 || this.gizmo.axis !== null) return;
+    this.pointerDown = { x: event.clientX, y: event.clientY };
+    this.updateRaycaster(event);
+    const hit = this.dataCenter.pickObject(this.raycaster);
+    const rack = this.selectedRackId ? this.editor.getRack(this.roomId, this.selectedRackId) : undefined;
+    const device = hit?.serverId && hit.rackId === rack?.id
+      ? rack.devices.find(item => item.id === hit.serverId)
+      : undefined;
+    if (!rack || !device) return;
+
+    this.deviceDrag = { rack, device, slot: device.slot };
+    this.controls.enabled = false;
+    this.updateDeviceOutline();
+  }
+
+  private onPointerMove(event: PointerEvent): void {
+    if (!this.deviceDrag) return;
+    this.updateRaycaster(event);
+    const slot = this.getSlotAtPointer(this.deviceDrag);
+    if (slot === null || slot === this.deviceDrag.slot) return;
+    this.deviceDrag.slot = slot;
+    this.updateDeviceOutline();
+  }
+
+  private onPointerUp(event: PointerEvent): void {
+    const down = this.pointerDown;
+    this.pointerDown = null;
+    if (this.deviceDrag) {
+      const { rack, device, slot } = this.deviceDrag;
+      this.cancelDeviceDrag();
+      if (slot !== device.slot) {
+        this.messages = this.editor.moveDevice(this.roomId, rack.id, device.id, slot);
+        this.render();
+      }
+      return;
+    }
+    if (!this.active || !down) return;
+    if (Math.hypot(event.clientX - down.x, event.clientY - down.y) > CLICK_TOLERANCE) return;
+    this.updateRaycaster(event);
+    this.messages = [];
+    this.select(this.dataCenter.pickObject(this.raycaster)?.rackId ?? null);
+  }
+
+  private cancelDeviceDrag(): void {
+    if (!this.deviceDrag) return;
+    this.deviceDrag = null;
+    this.deviceOutline.visible = false;
+    this.controls.enabled = true;
+  }
+
+  // 射线与机柜竖直剖面求交，按交点高度换算设备底部U位
+  private getSlotAtPointer({ rack, device }: DeviceDrag): number | null {
+    const inverse = this.rackProxy.matrixWorld.clone().invert();
+    const ray = this.raycaster.ray.clone().applyMatrix4(inverse);
+    // 选择与视线更接近正对的剖面，避免从侧面看时射线与平面近乎平行
+    const normal = Math.abs(ray.direction.z) >= Math.abs(ray.direction.x)
+      ? new THREE.Vector3(0, 0, 1)
+      : new THREE.Vector3(1, 0, 0);
+    const point = ray.intersectPlane(new THREE.Plane(normal, 0), new THREE.Vector3());
+    if (!point) return null;
+    const unitHeight = 1.6 / rack.heightU;
+    const slot = Math.round((point.y - 0.2) / unitHeight - device.sizeU / 2) + 1;
+    return THREE.MathUtils.clamp(slot, 1, rack.heightU - device.sizeU + 1);
+  }
+
+  private updateDeviceOutline(): void {
+    if (!this.deviceDrag) return;
+    const { rack, device, slot } = this.deviceDrag;
+    const unitHeight = 1.6 / rack.heightU;
+    const height = device.sizeU * unitHeight;
+    this.deviceOutline.scale.set(1, height, 1);
+    this.deviceOutline.position.set(0, 0.2 + (slot - 1) * unitHeight + height / 2, 0);
+    this.deviceOutline.visible = true;
+    const end = slot + device.sizeU;
+    const overlaps = rack.devices.some(other => other.id !== device.id && slot < other.slot + other.sizeU && other.slot < end);
+    this.setOutlineColor(this.deviceOutline, overlaps ? INVALID_COLOR : VALID_COLOR);
+    this.messages = overlaps ? [t('layoutEditor.slotOccupied', { slot })] : [];
+    this.render();
+  }
+
+  private setOutlineColor(outline: THREE.LineSegments, color: number): void {
+    (outline.material as THREE.LineBasicMaterial).color.setHex(color);
+  }
+
+  private createGrid(): void {
+    this.removeGrid();
+    const room = this.editor.getRoom(this.roomId);
+    if (!room) return;
+    const size = Math.ceil(Math.max(room.width, room.depth) / GRID_SIZE) * GRID_SIZE;
+    this.grid = new THREE.GridHelper(size, Math.round(size / GRID_SIZE), 0x44aaff, 0x335577);
+    this.grid.position.y = 0.005;
+    this.scene.add(this.grid);
+  }
+
+  private removeGrid(): void {
+    if (!this.grid) return;
+    this.scene.remove(this.grid);
+    this.grid.dispose();
+    this.grid = null;
+  }
+
+  private render(): void {
+    const rack = this.selectedRackId ? this.editor.getRack(this.roomId, this.selectedRackId) : undefined;
+    (this.element.querySelector('[data-action="remove"]') as HTMLButtonElement).disabled = !rack;
+    (this.element.querySelector('[data-action="undo"]') as HTMLButtonElement).disabled = !this.editor.canUndo;
+    (this.element.querySelector('[data-action="redo"]') as HTMLButtonElement).disabled = !this.editor.canRedo;
+    this.status.innerHTML = `
+      <p style="margin: 2px 0;">${rack
+        ? t('layoutEditor.selected', { rack: escapeHtml(rack.name ?? rack.id), x: rack.position.x, z: rack.position.z, rotation: rack.rotation ?? 0, height: rack.heightU })
+        : t('layoutEditor.noSelection')}</p>
+      ${this.messages.map(message => `<p style="color: #ff4444; margin: 2px 0;">${escapeHtml(message)}</p>`).join('')}
+    `;
+  }
+}
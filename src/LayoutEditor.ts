@@ -0,0 +1,174 @@
+import { EventEmitter } from './EventEmitter';
+import { DataCenterLayout, RackLayout, RoomLayout, validateLayout } from './Layout';
+import { t } from './I18n';
+
+// 新增机柜的默认高度（U）
+export const DEFAULT_RACK_HEIGHT_U = 42;
+
+// 撤销历史的最大步数
+const MAX_HISTORY = 50;
+
+interface HistoryEntry {
+  layout: DataCenterLayout;
+  roomId: string; // 该步修改的机房，撤销/重做后切换到此机房
+}
+
+export interface LayoutEditorEvents {
+  changed: [layout: DataCenterLayout, roomId: string];
+}
+
+/**
+ * 布局编辑器：在布局副本上执行移动、增删机柜和调整设备U位等操作，
+ * 每次修改后整体校验，校验失败的修改不会生效；支持撤销/重做
+ */
+export class LayoutEditor extends EventEmitter<LayoutEditorEvents> {
+  private layout: DataCenterLayout;
+  private undoStack: HistoryEntry[] = [];
+  private redoStack: HistoryEntry[] = [];
+
+  constructor(layout: DataCenterLayout) {
+    super();
+    this.layout = structuredClone(layout);
+  }
+
+  public getLayout(): DataCenterLayout {
+    return this.layout;
+  }
+
+  public getRoom(roomId: string): RoomLayout | undefined {
+    return this.layout.rooms.find(room => room.id === roomId);
+  }
+
+  public getRack(roomId: string, rackId: string): RackLayout | undefined {
+    const room = this.getRoom(roomId);
+    return room ? findRack(room, rackId) : undefined;
+  }
+
+  public get canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  public get canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  public moveRack(roomId: string, rackId: string, position: { x: number; z: number }, rotation: number): string[] {
+    return this.apply(roomId, room => {
+      const rack = findRack(room, rackId);
+      if (!rack) return [t('layoutEditor.rackNotFound', { rack: rackId })];
+      rack.position = { x: position.x, z: position.z };
+      // 角度统一到 0-359，0 度时省略字段
+      const degrees = ((Math.round(rotation) % 360) + 360) % 360;
+      if (degrees === 0) {
+        delete rack.rotation;
+      } else {
+        rack.rotation = degrees;
+      }
+      return [];
+    });
+  }
+
+  /**
+   * 在指定机柜排（缺省为第一排）中新增一个空机柜，返回新机柜ID
+   */
+  public addRack(roomId: string, position: { x: number; z: number }, rowId?: string): { rackId: string | null; errors: string[] } {
+    const rackId = this.createRackId();
+    const errors = this.apply(roomId, room => {
+      let row = room.rows.find(item => item.id === rowId) ?? room.rows[0];
+      if (!row) {
+        row = { id: `${room.id}-row-1`, racks: [] };
+        room.rows.push(row);
+      }
+      row.racks.push({
+        id: rackId,
+        name: `${row.name ?? row.id}-${row.racks.length + 1}`,
+        position: { x: position.x, z: position.z },
+        heightU: DEFAULT_RACK_HEIGHT_U,
+        devices: [],
+      });
+      return [];
+    });
+    return { rackId: errors.length === 0 ? rackId : null, errors };
+  }
+
+  /**
+   * 删除机柜及其中的设备，同时移除拓扑中连接该机柜的链路
+   */
+  public removeRack(roomId: string, rackId: string): string[] {
+    return this.apply(roomId, room => {
+      const row = room.rows.find(item => item.racks.some(rack => rack.id === rackId));
+      if (!row) return [t('layoutEditor.rackNotFound', { rack: rackId })];
+      row.racks = row.racks.filter(rack => rack.id !== rackId);
+      if (room.topology) {
+        room.topology.links = room.topology.links.filter(link => link.from !== rackId && link.to !== rackId);
+      }
+      return [];
+    });
+  }
+
+  public moveDevice(roomId: string, rackId: string, deviceId: string, slot: number): string[] {
+    return this.apply(roomId, room => {
+      const device = findRack(room, rackId)?.devices.find(item => item.id === deviceId);
+      if (!device) return [t('layoutEditor.deviceNotFound', { device: deviceId })];
+      device.slot = slot;
+      return [];
+    });
+  }
+
+  public undo(): boolean {
+    const entry = this.undoStack.pop();
+    if (!entry) return false;
+    this.redoStack.push({ layout: this.layout, roomId: entry.roomId });
+    this.layout = entry.layout;
+    this.emit('changed', this.layout, entry.roomId);
+    return true;
+  }
+
+  public redo(): boolean {
+    const entry = this.redoStack.pop();
+    if (!entry) return false;
+    this.undoStack.push({ layout: this.layout, roomId: entry.roomId });
+    this.layout = entry.layout;
+    this.emit('changed', this.layout, entry.roomId);
+    return true;
+  }
+
+  // 导出为布局文件，可通过 ?layout=<url> 重新加载
+  public toJSON(): string {
+    return JSON.stringify(this.layout, null, 2);
+  }
+
+  // 在副本上执行修改并校验整个布局，通过后才替换当前布局
+  private apply(roomId: string, mutate: (room: RoomLayout) => string[]): string[] {
+    const candidate = structuredClone(this.layout);
+    const room = candidate.rooms.find(item => item.id === roomId);
+    if (!room) return [t('layoutEditor.roomNotFound', { room: roomId })];
+    const errors = mutate(room);
+    if (errors.length > 0) return errors;
+    const validationErrors = validateLayout(candidate);
+    if (validationErrors.length > 0) return validationErrors;
+
+    this.undoStack.push({ layout: this.layout, roomId });
+    if (this.undoStack.length > MAX_HISTORY) this.undoStack.shift();
+    this.redoStack = [];
+    this.layout = candidate;
+    this.emit('changed', this.layout, roomId);
+    return [];
+  }
+
+  // 机柜ID在整个布局中唯一
+  private createRackId(): string {
+    const ids = new Set(this.layout.rooms.flatMap(room => room.rows.flatMap(row => row.racks.map(rack => rack.id))));
+    let index = 1;
+    while (ids.has(`rack-new-${index}`)) index++;
+    return `rack-new-${index}`;
+  }
+}
+
+function findRack(room: RoomLayout, rackId: string): RackLayout | undefined {
+  for (const row of room.rows) {
+    const rack = row.racks.find(item => item.id === rackId);
+    if (rack) return rack;
+  }
+  return undefined;
+}
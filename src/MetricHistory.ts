@@ -0,0 +1,210 @@
+import { METRIC_KEYS, MetricKey } from './Metrics';
+import type { ServerData } from './ServerStatus';
+
+export interface HistoryPoint {
+  time: number;
+  value: number;
+}
+
+export interface HistoryStats {
+  min: number;
+  max: number;
+  avg: number;
+  count: number;
+}
+
+export interface HistoryOptions {
+  rawRetentionMs?: number; // 原始采样保留时长
+  rawIntervalMs?: number; // 原始采样间隔（与数据节拍一致）
+  coarseRetentionMs?: number; // 降采样数据保留时长
+  coarseIntervalMs?: number; // 降采样桶宽度
+}
+
+/**
+ * 固定容量的环形缓冲区，一个时间戳对应多个数值通道；NaN 表示该时刻没有数据。
+ * 通道在首次写入有效值时才分配，未上报的指标不占用内存
+ */
+class RingBuffer {
+  private times: Float64Array;
+  private channels: (Float32Array | null)[];
+  private head = 0;
+  private size = 0;
+
+  constructor(private readonly capacity: number, channelCount: number) {
+    this.times = new Float64Array(capacity);
+    this.channels = new Array(channelCount).fill(null);
+  }
+
+  public push(time: number, values: number[]): void {
+    this.times[this.head] = time;
+    values.forEach((value, channel) => {
+      let data = this.channels[channel];
+      if (!data) {
+        if (Number.isNaN(value)) return;
+        data = new Float32Array(this.capacity).fill(NaN);
+        this.channels[channel] = data;
+      }
+      data[this.head] = value;
+    });
+    this.head = (this.head + 1) % this.capacity;
+    this.size = Math.min(this.size + 1, this.capacity);
+  }
+
+  // 从旧到新遍历 since 之后的数据
+  public forEach(since: number, callback: (time: number, read: (channel: number) => number) => void): void {
+    const first = (this.head - this.size + this.capacity) % this.capacity;
+    for (let i = 0; i < this.size; i++) {
+      const index = (first + i) % this.capacity;
+      const time = this.times[index];
+      if (time < since) continue;
+      callback(time, channel => this.channels[channel]?.[index] ?? NaN);
+    }
+  }
+}
+
+interface Bucket {
+  start: number;
+  sum: number[];
+  min: number[];
+  max: number[];
+  count: number[]; // 每个通道的有效采样数
+}
+
+// 单台服务器的历史：原始层保存最近的每次采样，粗粒度层保存每个桶的平均/最小/最大值
+class ServerHistory {
+  private raw: RingBuffer;
+  private coarse: RingBuffer;
+  private bucket: Bucket | null = null;
+
+  constructor(private readonly options: Required<HistoryOptions>) {
+    const metricCount = METRIC_KEYS.length;
+    this.raw = new RingBuffer(Math.ceil(options.rawRetentionMs / options.rawIntervalMs) + 1, metricCount);
+    this.coarse = new RingBuffer(Math.ceil(options.coarseRetentionMs / options.coarseIntervalMs) + 1, metricCount * 3);
+  }
+
+  public record(time: number, values: number[]): void {
+    this.raw.push(time, values);
+
+    const bucketStart = Math.floor(time / this.options.coarseIntervalMs) * this.options.coarseIntervalMs;
+    if (this.bucket && this.bucket.start !== bucketStart) {
+      this.flushBucket();
+    }
+    if (!this.bucket) {
+      this.bucket = {
+        start: bucketStart,
+        sum: values.map(() => 0),
+        min: values.map(() => Infinity),
+        max: values.map(() => -Infinity),
+        count: values.map(() => 0),
+      };
+    }
+    const bucket = this.bucket;
+    values.forEach((value, channel) => {
+      if (Number.isNaN(value)) return;
+      bucket.sum[channel] += value;
+      bucket.min[channel] = Math.min(bucket.min[channel], value);
+      bucket.max[channel] = Math.max(bucket.max[channel], value);
+      bucket.count[channel]++;
+    });
+  }
+
+  private flushBucket(): void {
+    const bucket = this.bucket;
+    if (!bucket) return;
+    const values = bucket.sum.flatMap((sum, channel) => bucket.count[channel] > 0
+      ? [sum / bucket.count[channel], bucket.min[channel], bucket.max[channel]]
+      : [NaN, NaN, NaN]);
+    this.coarse.push(bucket.start, values);
+    this.bucket = null;
+  }
+
+  public getSeries(channel: number, windowMs: number, now: number): HistoryPoint[] {
+    const since = now - windowMs;
+    const points: HistoryPoint[] = [];
+    const push = (time: number, value: number) => {
+      if (!Number.isNaN(value)) points.push({ time, value });
+    };
+    if (windowMs <= this.options.rawRetentionMs) {
+      this.raw.forEach(since, (time, read) => push(time, read(channel)));
+      return points;
+    }
+    this.coarse.forEach(since, (time, read) => push(time, read(channel * 3)));
+    if (this.bucket && this.bucket.count[channel] > 0) {
+      push(this.bucket.start, this.bucket.sum[channel] / this.bucket.count[channel]);
+    }
+    return points;
+  }
+
+  public getStats(channel: number, windowMs: number, now: number): HistoryStats | null {
+    const since = now - windowMs;
+    let min = Infinity;
+    let max = -Infinity;
+    let sum = 0;
+    let count = 0;
+
+    if (windowMs <= this.options.rawRetentionMs) {
+      this.raw.forEach(since, (_time, read) => {
+        const value = read(channel);
+        if (Number.isNaN(value)) return;
+        min = Math.min(min, value);
+        max = Math.max(max, value);
+        sum += value;
+        count++;
+      });
+    } else {
+      this.coarse.forEach(since, (_time, read) => {
+        if (Number.isNaN(read(channel * 3))) return;
+        min = Math.min(min, read(channel * 3 + 1));
+        max = Math.max(max, read(channel * 3 + 2));
+        sum += read(channel * 3);
+        count++;
+      });
+      if (this.bucket && this.bucket.count[channel] > 0) {
+        min = Math.min(min, this.bucket.min[channel]);
+        max = Math.max(max, this.bucket.max[channel]);
+        sum += this.bucket.sum[channel] / this.bucket.count[channel];
+        count++;
+      }
+    }
+
+    return count > 0 ? { min, max, avg: sum / count, count } : null;
+  }
+}
+
+/**
+ * 按服务器、按指标保存历史数据，超出原始保留时长的查询自动使用降采样数据
+ */
+export class MetricHistory {
+  private options: Required<HistoryOptions>;
+  private servers: Map<string, ServerHistory> = new Map();
+
+  constructor(options: HistoryOptions = {}) {
+    this.options = {
+      rawRetentionMs: options.rawRetentionMs ?? 5 * 60 * 1000,
+      rawIntervalMs: options.rawIntervalMs ?? 1000,
+      coarseRetentionMs: options.coarseRetentionMs ?? 60 * 60 * 1000,
+      coarseIntervalMs: options.coarseIntervalMs ?? 10 * 1000,
+    };
+  }
+
+  public record(server: ServerData, time: number): void {
+    let history = this.servers.get(server.id);
+    if (!history) {
+      history = new ServerHistory(this.options);
+      this.servers.set(server.id, history);
+    }
+    history.record(time, METRIC_KEYS.map(metric => server[metric] ?? NaN));
+  }
+
+  public remove(serverId: string): void {
+    this.servers.delete(serverId);
+  }
+
+  public getSeries(serverId: string, metric: MetricKey, windowMs: number, now: number = Date.now()): HistoryPoint[] {
+    return this.servers.get(serverId)?.getSeries(METRIC_KEYS.indexOf(metric), windowMs, now) ?? [];
+  }
+
+  public getStats(serverId: string, metric: MetricKey, windowMs: number, now: number = Date.now()): HistoryStats | null {
+    return this.servers.get(serverId)?.getStats(METRIC_KEYS.indexOf(metric), windowMs, now) ?? null;
+  }
+}
@@ -0,0 +1,104 @@
+import type { AlertRule } from './AlertEngine';
+import { ColorScale, FLOW_COLOR_SCALE, HEAT_COLOR_SCALE, USAGE_COLOR_SCALE } from './Heatmap';
+import { i18n } from './I18n';
+
+export type MetricKey =
+  | 'temperature'
+  | 'inletTemperature'
+  | 'outletTemperature'
+  | 'cpuUsage'
+  | 'memoryUsage'
+  | 'powerW'
+  | 'fanRpm'
+  | 'diskUsage'
+  | 'diskIops'
+  | 'networkIn'
+  | 'networkOut';
+
+// 机柜汇总方式：功耗、流量等按合计，温度取最高，使用率取平均
+export type MetricRollup = 'sum' | 'avg' | 'max';
+
+// 指标名称见消息目录 metric.<MetricKey>，汇总方式名称见 rollup.<MetricRollup>
+export interface MetricDefinition {
+  unit: string;
+  range: [number, number]; // 热力图色阶对应的取值范围，有告警阈值时低端仍以此为起点
+  decimals: number;
+  colorScale: ColorScale;
+  rollup: MetricRollup;
+  aliases?: string[]; // 过滤表达式中可用的简写
+}
+
+/**
+ * 指标注册表：新增指标只需在此登记，信息面板、热力图、机柜汇总、过滤和遥测字段映射会自动支持
+ */
+export const METRICS: Record<MetricKey, MetricDefinition> = {
+  temperature: { unit: '°C', range: [20, 45], decimals: 1, colorScale: HEAT_COLOR_SCALE, rollup: 'max', aliases: ['temp'] },
+  inletTemperature: { unit: '°C', range: [15, 35], decimals: 1, colorScale: HEAT_COLOR_SCALE, rollup: 'max', aliases: ['inlet'] },
+  outletTemperature: { unit: '°C', range: [20, 55], decimals: 1, colorScale: HEAT_COLOR_SCALE, rollup: 'max', aliases: ['outlet'] },
+  cpuUsage: { unit: '%', range: [0, 100], decimals: 1, colorScale: USAGE_COLOR_SCALE, rollup: 'avg', aliases: ['cpu'] },
+  memoryUsage: { unit: '%', range: [0, 100], decimals: 1, colorScale: USAGE_COLOR_SCALE, rollup: 'avg', aliases: ['mem', 'memory'] },
+  powerW: { unit: 'W', range: [0, 1000], decimals: 0, colorScale: HEAT_COLOR_SCALE, rollup: 'sum', aliases: ['power'] },
+  fanRpm: { unit: ' RPM', range: [0, 15000], decimals: 0, colorScale: FLOW_COLOR_SCALE, rollup: 'avg', aliases: ['fan'] },
+  diskUsage: { unit: '%', range: [0, 100], decimals: 1, colorScale: USAGE_COLOR_SCALE, rollup: 'avg', aliases: ['disk'] },
+  diskIops: { unit: '', range: [0, 20000], decimals: 0, colorScale: FLOW_COLOR_SCALE, rollup: 'sum', aliases: ['iops'] },
+  networkIn: { unit: ' Mbps', range: [0, 10000], decimals: 0, colorScale: FLOW_COLOR_SCALE, rollup: 'sum', aliases: ['netin', 'rx'] },
+  networkOut: { unit: ' Mbps', range: [0, 10000], decimals: 0, colorScale: FLOW_COLOR_SCALE, rollup: 'sum', aliases: ['netout', 'tx'] },
+};
+
+export const METRIC_KEYS = Object.keys(METRICS) as MetricKey[];
+
+// 每台服务器的指标取值，尚未上报的指标为 undefined
+export type MetricValues = { [K in MetricKey]?: number };
+
+/**
+ * 按当前语言格式化指标取值；温度类指标按用户选择的温度单位显示
+ */
+export function formatMetric(metric: MetricKey, value: number): string {
+  const { unit, decimals } = METRICS[metric];
+  if (unit === '°C') return i18n.formatTemperature(value, decimals);
+  return `${i18n.formatNumber(value, decimals)}${unit}`;
+}
+
+/**
+ * 将指标映射到 0-1 的热力图取值。有告警规则时与阈值对齐：
+ * 范围下限为色阶起点，告警阈值为中间色，严重阈值为终点色；否则在范围内线性映射
+ */
+export function normalizeMetric(metric: MetricKey, value: number, rule?: AlertRule): number {
+  const [min, max] = METRICS[metric].range;
+  let normalized: number;
+  if (rule?.warning !== undefined && rule.error !== undefined && rule.direction !== 'below') {
+    normalized = value <= rule.warning
+      ? 0.5 * (value - min) / (rule.warning - min)
+      : 0.5 + 0.5 * (value - rule.warning) / (rule.error - rule.warning);
+  } else {
+    normalized = (value - min) / (max - min);
+  }
+  return Math.max(0, Math.min(1, normalized));
+}
+
+/**
+ * 色阶起点、中间色和终点对应的指标取值，与 normalizeMetric 的映射一致，用于绘制图例
+ */
+export function getMetricScaleStops(metric: MetricKey, rule?: AlertRule): [number, number, number] {
+  const [min, max] = METRICS[metric].range;
+  if (rule?.warning !== undefined && rule.error !== undefined && rule.direction !== 'below') {
+    return [min, rule.warning, rule.error];
+  }
+  return [min, (min + max) / 2, max];
+}
+
+/**
+ * 按指标的汇总方式合并多台服务器的取值，忽略未上报的值；全部缺失时返回 null
+ */
+export function rollupMetric(metric: MetricKey, values: (number | undefined)[]): number | null {
+  const reported = values.filter((value): value is number => value !== undefined);
+  if (reported.length === 0) return null;
+  switch (METRICS[metric].rollup) {
+    case 'sum':
+      return reported.reduce((sum, value) => sum + value, 0);
+    case 'avg':
+      return reported.reduce((sum, value) => sum + value, 0) / reported.length;
+    case 'max':
+      return Math.max(...reported);
+  }
+}
@@ -0,0 +1,92 @@
+import { EventEmitter } from './EventEmitter';
+import { ColorScale, FLOW_COLOR_SCALE, HEAT_COLOR_SCALE, USAGE_COLOR_SCALE } from './Heatmap';
+import { METRICS, MetricKey } from './Metrics';
+import type { StatusLevel } from './ServerStatus';
+
+// default 为原有的红/黄/绿配色；accessible 为高对比、色盲友好的配色（基于 Okabe-Ito 与 viridis/cividis 色阶）
+export type PaletteName = 'default' | 'accessible';
+
+export type PaletteStatus = StatusLevel | 'stale';
+
+interface PaletteColors {
+  status: Record<PaletteStatus, string>; // 面板中的状态文字与色块
+  led: Record<PaletteStatus, number>; // 服务器指示灯
+}
+
+const PALETTES: Record<PaletteName, PaletteColors> = {
+  default: {
+    status: { normal: '#44ff44', warning: '#ffaa00', error: '#ff4444', stale: '#999999' },
+    led: { normal: 0x00ff00, warning: 0xffff00, error: 0xff0000, stale: 0x666666 },
+  },
+  accessible: {
+    status: { normal: '#56b4e9', warning: '#f0e442', error: '#ff6e1a', stale: '#bbbbbb' },
+    led: { normal: 0x56b4e9, warning: 0xf0e442, error: 0xff6e1a, stale: 0x888888 },
+  },
+};
+
+// 红绿区分困难时改用亮度单调递增的色阶
+const VIRIDIS_COLOR_SCALE: ColorScale = [0x440154, 0x21918c, 0xfde725];
+const CIVIDIS_COLOR_SCALE: ColorScale = [0x00204c, 0x7c7b78, 0xffe945];
+
+const ACCESSIBLE_COLOR_SCALES = new Map<ColorScale, ColorScale>([
+  [HEAT_COLOR_SCALE, VIRIDIS_COLOR_SCALE],
+  [USAGE_COLOR_SCALE, VIRIDIS_COLOR_SCALE],
+  [FLOW_COLOR_SCALE, CIVIDIS_COLOR_SCALE],
+]);
+
+const STORAGE_KEY = 'datacenter:palette';
+
+export interface ColorPaletteEvents {
+  changed: [name: PaletteName];
+}
+
+/**
+ * 状态与热力图配色：所有面板和三维场景通过它取色，切换后发出 changed 以便重新着色
+ */
+export class ColorPalette extends EventEmitter<ColorPaletteEvents> {
+  private current: PaletteName;
+
+  constructor() {
+    super();
+    this.current = this.load();
+  }
+
+  public get name(): PaletteName {
+    return this.current;
+  }
+
+  public setName(name: PaletteName): void {
+    if (name === this.current) return;
+    this.current = name;
+    try {
+      localStorage.setItem(STORAGE_KEY, name);
+    } catch (error) {
+      console.warn('保存配色设置失败', error);
+    }
+    this.emit('changed', name);
+  }
+
+  public statusColor(status: PaletteStatus): string {
+    return PALETTES[this.current].status[status];
+  }
+
+  public ledColor(status: PaletteStatus): number {
+    return PALETTES[this.current].led[status];
+  }
+
+  public colorScale(metric: MetricKey): ColorScale {
+    const scale = METRICS[metric].colorScale;
+    return this.current === 'accessible' ? ACCESSIBLE_COLOR_SCALES.get(scale) ?? VIRIDIS_COLOR_SCALE : scale;
+  }
+
+  private load(): PaletteName {
+    try {
+      return localStorage.getItem(STORAGE_KEY) === 'accessible' ? 'accessible' : 'default';
+    } catch (error) {
+      console.warn('读取配色设置失败', error);
+      return 'default';
+    }
+  }
+}
+
+export const palette = new ColorPalette();
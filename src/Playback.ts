@@ -0,0 +1,215 @@
+import { ServerSnapshot, ServerStatus, StatusLevel } from './ServerStatus';
+import { EventEmitter } from './EventEmitter';
+import { t } from './I18n';
+
+export interface StatusSnapshot {
+  time: number;
+  servers: ServerSnapshot[];
+}
+
+const RECORDING_FORMAT = 'datacenter-recording';
+const STATUS_LEVELS: StatusLevel[] = ['normal', 'warning', 'error'];
+
+/**
+ * 在每个数据节拍记录全部服务器的快照，超出保留时长的旧快照会被丢弃
+ */
+export class SnapshotRecorder {
+  private snapshots: StatusSnapshot[] = [];
+  private unsubscribe: () => void;
+
+  constructor(private readonly serverStatus: ServerStatus, private readonly maxDurationMs: number = 60 * 60 * 1000) {
+    this.unsubscribe = serverStatus.on('tick', time => this.record(time));
+  }
+
+  private record(time: number): void {
+    this.snapshots.push({ time, servers: this.serverStatus.getSnapshot() });
+
+    // 超出保留时长10%后再批量裁剪，避免每个节拍都移动数组
+    const cutoff = time - this.maxDurationMs;
+    const overflow = this.snapshots.findIndex(snapshot => snapshot.time >= cutoff);
+    if (overflow > this.snapshots.length * 0.1) {
+      this.snapshots.splice(0, overflow);
+    }
+  }
+
+  public getSnapshots(): StatusSnapshot[] {
+    return [...this.snapshots];
+  }
+
+  public dispose(): void {
+    this.unsubscribe();
+  }
+}
+
+export function exportRecording(snapshots: StatusSnapshot[]): string {
+  const header = JSON.stringify({ format: RECORDING_FORMAT, version: 1, snapshots: snapshots.length });
+  return [header, ...snapshots.map(snapshot => JSON.stringify(snapshot))].join('\n') + '\n';
+}
+
+function isServerSnapshot(value: unknown): value is ServerSnapshot {
+  const server = value as ServerSnapshot;
+  return typeof server?.id === 'string' &&
+    typeof server.temperature === 'number' &&
+    typeof server.cpuUsage === 'number' &&
+    typeof server.memoryUsage === 'number' &&
+    STATUS_LEVELS.includes(server.status);
+}
+
+/**
+ * 解析 NDJSON 录制文件，每行一个快照；首行可以是格式说明
+ */
+export function importRecording(text: string): StatusSnapshot[] {
+  const snapshots: StatusSnapshot[] = [];
+  text.split('\n').forEach((line, index) => {
+    if (line.trim() === '') return;
+    let record: unknown;
+    try {
+      record = JSON.parse(line);
+    } catch {
+      throw new Error(t('playback.error.invalidJson', { line: index + 1 }));
+    }
+    const snapshot = record as Partial<StatusSnapshot> & { format?: string };
+    if (snapshot.format === RECORDING_FORMAT) return;
+    if (typeof snapshot.time !== 'number' || !Array.isArray(snapshot.servers)) {
+      throw new Error(t('playback.error.missingFields', { line: index + 1 }));
+    }
+    const servers = snapshot.servers.filter(isServerSnapshot).map(server => ({ ...server, stale: !!server.stale }));
+    snapshots.push({ time: snapshot.time, servers });
+  });
+  if (snapshots.length === 0) {
+    throw new Error(t('playback.error.empty'));
+  }
+  return snapshots.sort((a, b) => a.time - b.time);
+}
+
+export interface PlaybackEvents {
+  stateChanged: [];
+}
+
+/**
+ * 回放控制：按时间轴播放录制的快照，并写入 ServerStatus 驱动场景
+ */
+export class PlaybackController extends EventEmitter<PlaybackEvents> {
+  private snapshots: StatusSnapshot[] = [];
+  private currentTime = 0;
+  private appliedIndex = -1;
+  private playing = false;
+  private speed = 1;
+  private lastFrameTime: number | null = null;
+
+  constructor(private readonly serverStatus: ServerStatus) {
+    super();
+  }
+
+  public get active(): boolean {
+    return this.serverStatus.isPlayback();
+  }
+
+  public get isPlaying(): boolean {
+    return this.playing;
+  }
+
+  public get playbackSpeed(): number {
+    return this.speed;
+  }
+
+  public get time(): number {
+    return this.currentTime;
+  }
+
+  public get range(): { start: number; end: number } {
+    const start = this.snapshots[0]?.time ?? 0;
+    const end = this.snapshots[this.snapshots.length - 1]?.time ?? 0;
+    return { start, end };
+  }
+
+  public getSnapshots(): StatusSnapshot[] {
+    return this.snapshots;
+  }
+
+  public load(snapshots: StatusSnapshot[]): void {
+    if (snapshots.length === 0) return;
+    this.snapshots = snapshots;
+    this.serverStatus.enterPlayback();
+    this.appliedIndex = -1;
+    this.playing = false;
+    this.seek(snapshots[0].time);
+  }
+
+  public exit(): void {
+    this.playing = false;
+    this.snapshots = [];
+    this.appliedIndex = -1;
+    this.serverStatus.exitPlayback();
+    this.emit('stateChanged');
+  }
+
+  public play(): void {
+    if (!this.active) return;
+    // 播放到末尾后重新开始
+    if (this.currentTime >= this.range.end) {
+      this.seek(this.range.start);
+    }
+    this.playing = true;
+    this.lastFrameTime = null;
+    this.emit('stateChanged');
+  }
+
+  public pause(): void {
+    this.playing = false;
+    this.emit('stateChanged');
+  }
+
+  public setSpeed(speed: number): void {
+    this.speed = speed;
+    this.emit('stateChanged');
+  }
+
+  public seek(time: number): void {
+    const { start, end } = this.range;
+    this.currentTime = Math.max(start, Math.min(end, time));
+    this.applyCurrent();
+    this.emit('stateChanged');
+  }
+
+  // 二分查找不晚于当前时间的最后一个快照
+  private findIndex(time: number): number {
+    let low = 0;
+    let high = this.snapshots.length - 1;
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2);
+      if (this.snapshots[mid].time <= time) {
+        low = mid;
+      } else {
+        high = mid - 1;
+      }
+    }
+    return low;
+  }
+
+  private applyCurrent(): void {
+    const index = this.findIndex(this.currentTime);
+    if (index === this.appliedIndex) return;
+    this.appliedIndex = index;
+    const snapshot = this.snapshots[index];
+    this.serverStatus.applySnapshot(snapshot.time, snapshot.servers);
+  }
+
+  public update(time: number = performance.now()): void {
+    if (!this.playing) {
+      this.lastFrameTime = null;
+      return;
+    }
+    const delta = this.lastFrameTime === null ? 0 : time - this.lastFrameTime;
+    this.lastFrameTime = time;
+    this.currentTime = Math.min(this.range.end, this.currentTime + delta * this.speed);
+    const previousIndex = this.appliedIndex;
+    this.applyCurrent();
+    if (this.currentTime >= this.range.end) {
+      this.playing = false;
+    }
+    if (previousIndex !== this.appliedIndex || !this.playing) {
+      this.emit('stateChanged');
+    }
+  }
+}
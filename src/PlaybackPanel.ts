@@ -0,0 +1,158 @@
+import { PlaybackController, SnapshotRecorder, StatusSnapshot, exportRecording, importRecording } from './Playback';
+import { ServerStatus } from './ServerStatus';
+import { i18n, t } from './I18n';
+
+const SPEEDS = [1, 2, 5, 10, 30, 60];
+
+function formatDuration(ms: number): string {
+  const seconds = Math.floor(ms / 1000);
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${String(seconds % 60).padStart(2, '0')}`;
+}
+
+/**
+ * 回放时间轴面板：播放/暂停、拖动时间轴、倍速，以及录制文件的导入导出
+ */
+export class PlaybackPanel {
+  private element: HTMLElement;
+  private liveControls: HTMLElement;
+  private playbackControls: HTMLElement;
+  private recordingLabel: HTMLElement;
+  private playButton: HTMLButtonElement;
+  private scrubber: HTMLInputElement;
+  private timeLabel: HTMLElement;
+  private speedSelect: HTMLSelectElement;
+  private fileInput: HTMLInputElement;
+  private unsubscribers: (() => void)[] = [];
+
+  constructor(
+    container: HTMLElement,
+    private readonly playback: PlaybackController,
+    private readonly recorder: SnapshotRecorder,
+    serverStatus: ServerStatus
+  ) {
+    this.element = document.createElement('div');
+    this.element.id = 'playback';
+    this.element.innerHTML = `
+      <div data-role="live">
+        <span data-role="recording"></span>
+        <button data-action="replay">${t('playback.replayRecent')}</button>
+        <button data-action="import">${t('playback.importRecording')}</button>
+        <button data-action="export">${t('playback.exportRecording')}</button>
+      </div>
+      <div data-role="playback" style="display: none; align-items: center; gap: 8px;">
+        <strong style="color: #ffaa00;">${t('playback.playingBack')}</strong>
+        <button data-action="toggle-play"></button>
+        <input data-role="scrubber" type="range" style="width: 320px;" />
+        <span data-role="time"></span>
+        <select data-role="speed">
+          ${SPEEDS.map(speed => `<option value="${speed}">${speed}x</option>`).join('')}
+        </select>
+        <button data-action="export">${t('common.export')}</button>
+        <button data-action="exit">${t('playback.backToLive')}</button>
+      </div>
+      <input data-role="file" type="file" accept=".ndjson,.jsonl,application/x-ndjson" style="display: none;" />
+    `;
+    container.appendChild(this.element);
+
+    const query = <T extends HTMLElement>(selector: string) => this.element.querySelector(selector) as T;
+    this.liveControls = query('[data-role="live"]');
+    this.playbackControls = query('[data-role="playback"]');
+    this.recordingLabel = query('[data-role="recording"]');
+    this.playButton = query<HTMLButtonElement>('[data-action="toggle-play"]');
+    this.scrubber = query<HTMLInputElement>('[data-role="scrubber"]');
+    this.timeLabel = query('[data-role="time"]');
+    this.speedSelect = query<HTMLSelectElement>('[data-role="speed"]');
+    this.fileInput = query<HTMLInputElement>('[data-role="file"]');
+
+    this.element.addEventListener('click', this.handleClick.bind(this));
+    this.scrubber.addEventListener('input', () => this.playback.seek(Number(this.scrubber.value)));
+    this.speedSelect.addEventListener('change', () => this.playback.setSpeed(Number(this.speedSelect.value)));
+    this.fileInput.addEventListener('change', this.handleFile.bind(this));
+
+    this.unsubscribers.push(
+      this.playback.on('stateChanged', () => this.render()),
+      serverStatus.on('tick', () => this.renderRecording())
+    );
+    this.render();
+  }
+
+  public dispose(): void {
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.element.remove();
+  }
+
+  private handleClick(event: MouseEvent): void {
+    const action = (event.target as HTMLElement).closest<HTMLElement>('[data-action]')?.dataset.action;
+    switch (action) {
+      case 'replay': {
+        const snapshots = this.recorder.getSnapshots();
+        if (snapshots.length > 0) {
+          this.playback.load(snapshots);
+        }
+        break;
+      }
+      case 'import':
+        this.fileInput.click();
+        break;
+      case 'export':
+        this.download(this.playback.active ? this.playback.getSnapshots() : this.recorder.getSnapshots());
+        break;
+      case 'toggle-play':
+        if (this.playback.isPlaying) {
+          this.playback.pause();
+        } else {
+          this.playback.play();
+        }
+        break;
+      case 'exit':
+        this.playback.exit();
+        break;
+    }
+  }
+
+  private async handleFile(): Promise<void> {
+    const file = this.fileInput.files?.[0];
+    this.fileInput.value = '';
+    if (!file) return;
+    try {
+      this.playback.load(importRecording(await file.text()));
+    } catch (error) {
+      window.alert(t('playback.importFailed', { error: error instanceof Error ? error.message : String(error) }));
+    }
+  }
+
+  private download(snapshots: StatusSnapshot[]): void {
+    if (snapshots.length === 0) return;
+    const blob = new Blob([exportRecording(snapshots)], { type: 'application/x-ndjson' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    const stamp = new Date(snapshots[0].time).toISOString().replace(/[:.]/g, '-');
+    link.href = url;
+    link.download = `recording-${stamp}.ndjson`;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+
+  private renderRecording(): void {
+    const snapshots = this.recorder.getSnapshots();
+    const duration = snapshots.length > 1 ? snapshots[snapshots.length - 1].time - snapshots[0].time : 0;
+    this.recordingLabel.textContent = t('playback.recorded', { count: snapshots.length, duration: formatDuration(duration) });
+  }
+
+  private render(): void {
+    const active = this.playback.active;
+    this.liveControls.style.display = active ? 'none' : 'block';
+    this.playbackControls.style.display = active ? 'flex' : 'none';
+    this.renderRecording();
+    if (!active) return;
+
+    const { start, end } = this.playback.range;
+    this.playButton.textContent = this.playback.isPlaying ? t('playback.pause') : t('playback.play');
+    this.scrubber.min = String(start);
+    this.scrubber.max = String(end);
+    this.scrubber.value = String(this.playback.time);
+    this.speedSelect.value = String(this.playback.playbackSpeed);
+    this.timeLabel.textContent = `${i18n.formatDateTime(this.playback.time)} (${formatDuration(this.playback.time - start)} / ${formatDuration(end - start)})`;
+  }
+}
@@ -0,0 +1,120 @@
+// 按下到抬起移动超过该距离（像素）视为拖动（旋转视角），不触发点按
+const TAP_TOLERANCE = 8;
+
+// 触屏长按触发时长（毫秒）
+const LONG_PRESS_MS = 500;
+
+// 两次点按间隔小于该时长视为双击（毫秒）
+const DOUBLE_TAP_MS = 300;
+
+export type PointerKind = 'mouse' | 'touch' | 'pen';
+
+export interface PointerGestureHandlers {
+  onHover: (x: number, y: number) => void; // 仅鼠标：未按键时移动
+  onTap: (x: number, y: number, kind: PointerKind) => void;
+  onLongPress: (x: number, y: number, kind: PointerKind) => void; // 仅触屏和触控笔
+  onDoubleTap: (x: number, y: number, kind: PointerKind) => void;
+}
+
+interface Press {
+  pointerId: number;
+  x: number;
+  y: number;
+  kind: PointerKind;
+  longPressed: boolean;
+}
+
+/**
+ * 基于指针事件统一识别鼠标、触屏和触控笔手势：点按、长按、双击和鼠标悬停。
+ * 拖动与双指缩放/旋转交给 OrbitControls，这里只负责不把它们误判为点按
+ */
+export class PointerInput {
+  private pointers: Set<number> = new Set();
+  private press: Press | null = null;
+  private longPressTimer: number | null = null;
+  private lastTap: { x: number; y: number; time: number } | null = null;
+  private listeners: [string, EventListener][];
+
+  constructor(private readonly element: HTMLElement, private readonly handlers: PointerGestureHandlers) {
+    this.listeners = [
+      ['pointerdown', this.onPointerDown.bind(this) as EventListener],
+      ['pointermove', this.onPointerMove.bind(this) as EventListener],
+      ['pointerup', this.onPointerUp.bind(this) as EventListener],
+      ['pointercancel', this.onPointerCancel.bind(this) as EventListener],
+      ['contextmenu', this.onContextMenu.bind(this)],
+    ];
+    this.listeners.forEach(([type, listener]) => this.element.addEventListener(type, listener));
+  }
+
+  public dispose(): void {
+    this.cancelPress();
+    this.listeners.forEach(([type, listener]) => this.element.removeEventListener(type, listener));
+  }
+
+  private onPointerDown(event: PointerEvent): void {
+    this.pointers.add(event.pointerId);
+    // 第二根手指按下即为双指手势，取消点按和长按
+    if (this.pointers.size > 1) {
+      this.cancelPress();
+      return;
+    }
+    if (event.pointerType === 'mouse' && event.button !== 0) return;
+
+    const kind = event.pointerType as PointerKind;
+    const press: Press = { pointerId: event.pointerId, x: event.clientX, y: event.clientY, kind, longPressed: false };
+    this.press = press;
+    if (kind === 'mouse') return;
+    this.longPressTimer = window.setTimeout(() => {
+      this.longPressTimer = null;
+      press.longPressed = true;
+      this.handlers.onLongPress(press.x, press.y, kind);
+    }, LONG_PRESS_MS);
+  }
+
+  private onPointerMove(event: PointerEvent): void {
+    if (event.pointerType === 'mouse' && event.buttons === 0) {
+      this.handlers.onHover(event.clientX, event.clientY);
+      return;
+    }
+    const press = this.press;
+    if (press?.pointerId === event.pointerId && Math.hypot(event.clientX - press.x, event.clientY - press.y) > TAP_TOLERANCE) {
+      this.cancelPress();
+    }
+  }
+
+  private onPointerUp(event: PointerEvent): void {
+    this.pointers.delete(event.pointerId);
+    const press = this.press;
+    if (press?.pointerId !== event.pointerId) return;
+    this.cancelPress();
+    if (press.longPressed) return;
+
+    this.handlers.onTap(press.x, press.y, press.kind);
+    const now = performance.now();
+    const last = this.lastTap;
+    if (last && now - last.time < DOUBLE_TAP_MS && Math.hypot(press.x - last.x, press.y - last.y) <= TAP_TOLERANCE) {
+      this.lastTap = null;
+      this.handlers.onDoubleTap(press.x, press.y, press.kind);
+    } else {
+      this.lastTap = { x: press.x, y: press.y, time: now };
+    }
+  }
+
+  private onPointerCancel(event: PointerEvent): void {
+    this.pointers.delete(event.pointerId);
+    if (this.press?.pointerId === event.pointerId) this.cancelPress();
+  }
+
+  // 触屏长按时浏览器会弹出上下文菜单，由长按手势代替
+  private onContextMenu(event: Event): void {
+    if (this.press && this.press.kind !== 'mouse') event.preventDefault();
+  }
+
+  private cancelPress(): void {
+    if (this.longPressTimer !== null) {
+      window.clearTimeout(this.longPressTimer);
+      this.longPressTimer = null;
+    }
+    this.press = null;
+  }
+}
@@ -0,0 +1,118 @@
+import * as THREE from 'three';
+import { RACK_FOOTPRINT } from './Layout';
+import { RACK_HEIGHT, RackSlot, SERVER_SIZE } from './RackRenderer';
+
+export interface RackPickResult {
+  rackId: string;
+  serverId?: string;
+  distance: number;
+}
+
+interface BvhNode {
+  box: THREE.Box3;
+  left?: BvhNode;
+  right?: BvhNode;
+  racks?: RackSlot[];
+}
+
+const LEAF_SIZE = 4;
+
+// 机柜坐标系下的外壳包围盒
+const RACK_BOX = new THREE.Box3(
+  new THREE.Vector3(-RACK_FOOTPRINT.width / 2, 0, -RACK_FOOTPRINT.depth / 2),
+  new THREE.Vector3(RACK_FOOTPRINT.width / 2, RACK_HEIGHT, RACK_FOOTPRINT.depth / 2)
+);
+
+const _ray = new THREE.Ray();
+const _point = new THREE.Vector3();
+const _box = new THREE.Box3();
+
+/**
+ * 基于机柜包围盒层次结构（BVH）的拾取：布局不变时只构建一次，
+ * 命中机柜后再在机柜坐标系内检测其中的服务器，避免每次事件遍历整个场景
+ */
+export class RackPicker {
+  private root: BvhNode | null;
+
+  constructor(racks: RackSlot[]) {
+    const items = racks.map(rack => ({ rack, box: RACK_BOX.clone().applyMatrix4(rack.matrix) }));
+    this.root = items.length > 0 ? this.build(items) : null;
+  }
+
+  /**
+   * ray 位于机房坐标系；返回最近命中的机柜以及该机柜内被命中的服务器
+   */
+  public pick(ray: THREE.Ray): RackPickResult | null {
+    if (!this.root) return null;
+    let best: { rack: RackSlot; distance: number } | null = null;
+    const stack: BvhNode[] = [this.root];
+
+    while (stack.length > 0) {
+      const node = stack.pop()!;
+      const entry = ray.intersectBox(node.box, _point);
+      if (!entry) continue;
+      if (best && ray.origin.distanceTo(entry) > best.distance) continue;
+
+      if (node.racks) {
+        for (const rack of node.racks) {
+          _ray.copy(ray).applyMatrix4(rack.inverseMatrix);
+          if (!_ray.intersectBox(RACK_BOX, _point)) continue;
+          const distance = _point.applyMatrix4(rack.matrix).distanceTo(ray.origin);
+          if (!best || distance < best.distance) {
+            best = { rack, distance };
+          }
+        }
+      } else {
+        if (node.left) stack.push(node.left);
+        if (node.right) stack.push(node.right);
+      }
+    }
+
+    if (!best) return null;
+    const { rack, distance } = best;
+    return { rackId: rack.id, serverId: this.pickServer(rack, ray), distance };
+  }
+
+  private pickServer(rack: RackSlot, ray: THREE.Ray): string | undefined {
+    // 细节层级关闭时服务器不可见，只能拾取到机柜
+    if (!rack.detailed) return undefined;
+    _ray.copy(ray).applyMatrix4(rack.inverseMatrix);
+    let nearest: { id: string; distance: number } | undefined;
+    for (const server of rack.servers) {
+      _box.setFromCenterAndSize(
+        server.localCenter,
+        _point.set(SERVER_SIZE.width, server.height - SERVER_SIZE.spacing, SERVER_SIZE.depth)
+      );
+      const hit = _ray.intersectBox(_box, _point);
+      if (!hit) continue;
+      const distance = hit.distanceTo(_ray.origin);
+      if (!nearest || distance < nearest.distance) {
+        nearest = { id: server.id, distance };
+      }
+    }
+    return nearest?.id;
+  }
+
+  // 沿包围盒最长轴按中位数划分
+  private build(items: { rack: RackSlot; box: THREE.Box3 }[]): BvhNode {
+    const box = new THREE.Box3();
+    items.forEach(item => box.union(item.box));
+    if (items.length <= LEAF_SIZE) {
+      return { box, racks: items.map(item => item.rack) };
+    }
+
+    const size = box.getSize(new THREE.Vector3());
+    const axis = size.x >= size.y && size.x >= size.z ? 'x' : size.y >= size.z ? 'y' : 'z';
+    const center = new THREE.Vector3();
+    const sorted = items
+      .map(item => ({ item, key: item.box.getCenter(center)[axis] }))
+      .sort((a, b) => a.key - b.key)
+      .map(({ item }) => item);
+    const middle = Math.floor(sorted.length / 2);
+    return {
+      box,
+      left: this.build(sorted.slice(0, middle)),
+      right: this.build(sorted.slice(middle)),
+    };
+  }
+}
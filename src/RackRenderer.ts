@@ -0,0 +1,467 @@
+import * as THREE from 'three';
+import { DeviceLayout, RACK_FOOTPRINT, RackLayout } from './Layout';
+import { ColorScale, HEATMAP_COLOR_GLSL, createColorScaleUniform, setColorScaleUniform } from './Heatmap';
+import { HIDDEN_MATRIX, createInstanceAttribute, enableInstanceOpacity } from './InstancedMaterials';
+import { SlotRange, getFreeRanges } from './Capacity';
+import type { ExportColorAt } from './SceneExport';
+
+export interface RackSlot {
+  id: string;
+  index: number;
+  layout: RackLayout;
+  matrix: THREE.Matrix4; // 机柜坐标系 -> 机房坐标系
+  inverseMatrix: THREE.Matrix4;
+  servers: ServerSlot[];
+  detailed: boolean;
+  emptySlots: EmptySlot[];
+}
+
+// 空闲U位的占位框，每U一个实例
+export interface EmptySlot {
+  index: number;
+  slot: number;
+}
+
+export interface ServerSlot {
+  id: string;
+  index: number;
+  rack: RackSlot;
+  device: DeviceLayout;
+  localCenter: THREE.Vector3; // 机柜坐标系
+  center: THREE.Vector3; // 机房坐标系
+  height: number;
+  ghosted: boolean;
+}
+
+export const RACK_HEIGHT = 2;
+export const SERVER_SIZE = { width: 0.75, depth: 0.75, spacing: 0.02 };
+
+// 品牌面板颜色，未知品牌显示为灰色
+const BRAND_COLORS: Record<string, number> = {
+  'DELL': 0x0085c3,
+  'HP': 0x0096d6,
+  '曙光': 0xff6b00,
+  '浪潮': 0x00a0e9,
+  '华为': 0xff0000,
+};
+const UNKNOWN_BRAND_COLOR = 0x888888;
+
+// 空闲U位占位框：默认淡蓝色，可放置新设备的U位显示为绿色
+const EMPTY_SLOT_STYLE = { color: 0x88ccff, opacity: 0.12 };
+const PLACEMENT_SLOT_STYLE = { color: 0x44ff44, opacity: 0.6 };
+
+const _matrix = new THREE.Matrix4();
+const _local = new THREE.Matrix4();
+const _color = new THREE.Color();
+
+/**
+ * 机柜与服务器的实例化渲染：每类部件（机柜外壳、服务器机身、面板、铭牌、通风口、指示灯）
+ * 只占用一个 InstancedMesh，热力图取值、状态、透明度等作为逐实例属性写入
+ */
+export class RackRenderer extends THREE.Group {
+  private rackSlots: RackSlot[] = [];
+  private serverSlots: ServerSlot[] = [];
+  private emptySlotCount = 0;
+  private emptySlotsVisible = false;
+  private rackIndex: Map<string, RackSlot> = new Map();
+  private serverIndex: Map<string, ServerSlot> = new Map();
+
+  private rackCases: THREE.InstancedMesh;
+  private bodies: THREE.InstancedMesh;
+  private leds: THREE.InstancedMesh;
+  private panels: THREE.InstancedMesh;
+  private labels: THREE.InstancedMesh;
+  private vents: THREE.InstancedMesh;
+  private fillBars: THREE.InstancedMesh;
+  private emptySlots: THREE.InstancedMesh;
+
+  private rackOpacity: THREE.InstancedBufferAttribute;
+  private heatValue: THREE.InstancedBufferAttribute;
+  private bodyOpacity: THREE.InstancedBufferAttribute;
+  private highlight: THREE.InstancedBufferAttribute;
+  private emptySlotOpacity: THREE.InstancedBufferAttribute;
+  private colorScale = createColorScaleUniform();
+  private dirty: Set<THREE.BufferAttribute | THREE.InstancedBufferAttribute> = new Set();
+
+  constructor(racks: RackLayout[]) {
+    super();
+    racks.forEach(layout => this.addRackSlot(layout));
+    const rackCount = this.rackSlots.length;
+    const serverCount = this.serverSlots.length;
+
+    this.rackOpacity = createInstanceAttribute(rackCount, 1);
+    const rackGeometry = new THREE.BoxGeometry(1, 1, 1);
+    rackGeometry.setAttribute('instanceOpacity', this.rackOpacity);
+    this.rackCases = new THREE.InstancedMesh(rackGeometry, enableInstanceOpacity(new THREE.MeshStandardMaterial({
+      metalness: 0.8,
+      roughness: 0.2,
+    })), rackCount);
+    // 机柜外壳在服务器之后绘制，半透明时可以看到内部服务器
+    this.rackCases.renderOrder = 1;
+
+    this.heatValue = createInstanceAttribute(serverCount, 0);
+    this.bodyOpacity = createInstanceAttribute(serverCount, 1);
+    this.highlight = createInstanceAttribute(serverCount, 0);
+    const bodyGeometry = new THREE.BoxGeometry(1, 1, 1);
+    bodyGeometry.setAttribute('instanceHeat', this.heatValue);
+    bodyGeometry.setAttribute('instanceOpacity', this.bodyOpacity);
+    bodyGeometry.setAttribute('instanceHighlight', this.highlight);
+    this.bodies = new THREE.InstancedMesh(bodyGeometry, this.createBodyMaterial(), serverCount);
+    this.bodies.userData.exportColorAt = this.getBodyColor.bind(this) satisfies ExportColorAt;
+
+    this.leds = new THREE.InstancedMesh(new THREE.BoxGeometry(1, 1, 1), new THREE.MeshBasicMaterial(), serverCount);
+    this.panels = new THREE.InstancedMesh(new THREE.PlaneGeometry(1, 1), new THREE.MeshStandardMaterial({
+      metalness: 0.5,
+      roughness: 0.5,
+    }), serverCount);
+    this.labels = new THREE.InstancedMesh(new THREE.PlaneGeometry(1, 1), new THREE.MeshBasicMaterial({
+      color: 0xffffff,
+      transparent: true,
+      opacity: 0.8,
+    }), serverCount);
+    this.vents = new THREE.InstancedMesh(new THREE.PlaneGeometry(1, 1), new THREE.MeshPhongMaterial({
+      color: 0x222222,
+      shininess: 0,
+    }), serverCount);
+    // 三维包围球只在首次渲染时计算一次，而细节层级会把收起机柜内的实例移到隐藏位置，
+    // 缓存的包围球无法覆盖之后展开的机柜，因此这些部件不做整体视锥剔除
+    [this.bodies, this.leds, this.panels, this.labels, this.vents].forEach(mesh => {
+      mesh.frustumCulled = false;
+    });
+
+    // 容量视图：机柜侧面的占用率柱和空闲U位占位框，默认隐藏
+    this.fillBars = new THREE.InstancedMesh(new THREE.BoxGeometry(1, 1, 1), new THREE.MeshBasicMaterial(), rackCount);
+    this.emptySlotOpacity = createInstanceAttribute(this.emptySlotCount, EMPTY_SLOT_STYLE.opacity);
+    const emptySlotGeometry = new THREE.BoxGeometry(1, 1, 1);
+    emptySlotGeometry.setAttribute('instanceOpacity', this.emptySlotOpacity);
+    const emptySlotMaterial = enableInstanceOpacity(new THREE.MeshBasicMaterial());
+    emptySlotMaterial.depthWrite = false;
+    this.emptySlots = new THREE.InstancedMesh(emptySlotGeometry, emptySlotMaterial, this.emptySlotCount);
+    // 初始实例全部隐藏，首次渲染时缓存的包围球为原点处的一个点，同样不做整体视锥剔除
+    this.fillBars.frustumCulled = false;
+    this.emptySlots.frustumCulled = false;
+
+    this.getMeshes().forEach(mesh => {
+      mesh.instanceMatrix.setUsage(THREE.DynamicDrawUsage);
+      this.add(mesh);
+    });
+
+    this.rackSlots.forEach(rack => {
+      this.rackCases.setColorAt(rack.index, _color.setHex(0x333333));
+      this.writeRackMatrix(rack);
+      this.fillBars.setColorAt(rack.index, _color.setHex(0xffffff));
+      this.fillBars.setMatrixAt(rack.index, HIDDEN_MATRIX);
+      rack.emptySlots.forEach(emptySlot => {
+        this.emptySlots.setColorAt(emptySlot.index, _color.setHex(EMPTY_SLOT_STYLE.color));
+        this.emptySlots.setMatrixAt(emptySlot.index, HIDDEN_MATRIX);
+      });
+    });
+    this.serverSlots.forEach(server => {
+      this.leds.setColorAt(server.index, _color.setHex(0x00ff00));
+      this.panels.setColorAt(server.index, _color.setHex(BRAND_COLORS[server.device.brand] ?? UNKNOWN_BRAND_COLOR));
+      this.writeServerMatrices(server);
+    });
+    this.flush();
+  }
+
+  public get rackCount(): number {
+    return this.rackSlots.length;
+  }
+
+  public get serverCount(): number {
+    return this.serverSlots.length;
+  }
+
+  public getRacks(): RackSlot[] {
+    return this.rackSlots;
+  }
+
+  public getRack(id: string): RackSlot | undefined {
+    return this.rackIndex.get(id);
+  }
+
+  public getServers(): ServerSlot[] {
+    return this.serverSlots;
+  }
+
+  public getServer(id: string): ServerSlot | undefined {
+    return this.serverIndex.get(id);
+  }
+
+  // 机身颜色对应的热力图取值（0-1），按当前色阶着色
+  public setServerHeatValue(id: string, value: number): void {
+    const server = this.serverIndex.get(id);
+    if (!server) return;
+    this.heatValue.setX(server.index, value);
+    this.dirty.add(this.heatValue);
+  }
+
+  public getServerHeatValue(id: string): number {
+    const server = this.serverIndex.get(id);
+    return server ? this.heatValue.getX(server.index) : 0;
+  }
+
+  public setColorScale(scale: ColorScale): void {
+    setColorScaleUniform(this.colorScale, scale);
+  }
+
+  public setServerLedColor(id: string, hex: number): void {
+    const server = this.serverIndex.get(id);
+    if (!server || !this.leds.instanceColor) return;
+    this.leds.setColorAt(server.index, _color.setHex(hex));
+    this.dirty.add(this.leds.instanceColor);
+  }
+
+  // 改变服务器前面板颜色，传入 null 恢复品牌颜色
+  public setServerPanelColor(id: string, hex: number | null): void {
+    const server = this.serverIndex.get(id);
+    if (!server || !this.panels.instanceColor) return;
+    this.panels.setColorAt(server.index, _color.setHex(hex ?? BRAND_COLORS[server.device.brand] ?? UNKNOWN_BRAND_COLOR));
+    this.dirty.add(this.panels.instanceColor);
+  }
+
+  // 选中/悬停的服务器以边框高亮显示
+  public setServerHighlighted(id: string, highlighted: boolean): void {
+    const server = this.serverIndex.get(id);
+    if (!server) return;
+    this.highlight.setX(server.index, highlighted ? 1 : 0);
+    this.dirty.add(this.highlight);
+  }
+
+  // 半透明显示服务器，并隐藏其面板等细节
+  public setServerGhosted(id: string, ghosted: boolean): void {
+    const server = this.serverIndex.get(id);
+    if (!server || server.ghosted === ghosted) return;
+    server.ghosted = ghosted;
+    this.bodyOpacity.setX(server.index, ghosted ? 0.15 : 1);
+    this.dirty.add(this.bodyOpacity);
+    this.writeServerMatrices(server);
+  }
+
+  public setRackAppearance(id: string, color: THREE.Color | number, opacity: number): void {
+    const rack = this.rackIndex.get(id);
+    if (!rack || !this.rackCases.instanceColor) return;
+    this.rackCases.setColorAt(rack.index, typeof color === 'number' ? _color.setHex(color) : color);
+    this.rackOpacity.setX(rack.index, opacity);
+    this.dirty.add(this.rackCases.instanceColor);
+    this.dirty.add(this.rackOpacity);
+  }
+
+  /**
+   * 切换机柜细节层级：关闭后只保留机柜外壳，内部服务器全部隐藏
+   */
+  public setRackDetailed(id: string, detailed: boolean): void {
+    const rack = this.rackIndex.get(id);
+    if (!rack || rack.detailed === detailed) return;
+    rack.detailed = detailed;
+    rack.servers.forEach(server => this.writeServerMatrices(server));
+    this.writeEmptySlotMatrices(rack);
+  }
+
+  /**
+   * 在机柜侧面显示占用率柱，高度和颜色表示占用程度；传入 null 隐藏
+   */
+  public setRackFillLevel(id: string, level: number | null, color: number = 0xffffff): void {
+    const rack = this.rackIndex.get(id);
+    if (!rack || !this.fillBars.instanceColor) return;
+    if (level === null) {
+      this.fillBars.setMatrixAt(rack.index, HIDDEN_MATRIX);
+    } else {
+      const height = Math.max(0.02, Math.min(1, level)) * RACK_HEIGHT;
+      _local.makeScale(0.05, height, 0.05)
+        .setPosition(RACK_FOOTPRINT.width / 2 + 0.04, height / 2, RACK_FOOTPRINT.depth / 2 - 0.05);
+      this.fillBars.setMatrixAt(rack.index, _matrix.multiplyMatrices(rack.matrix, _local));
+      this.fillBars.setColorAt(rack.index, _color.setHex(color));
+      this.dirty.add(this.fillBars.instanceColor);
+    }
+    this.dirty.add(this.fillBars.instanceMatrix);
+  }
+
+  public setEmptySlotsVisible(visible: boolean): void {
+    if (this.emptySlotsVisible === visible) return;
+    this.emptySlotsVisible = visible;
+    this.rackSlots.forEach(rack => this.writeEmptySlotMatrices(rack));
+  }
+
+  /**
+   * 突出显示可放置新设备的U位区间（机柜ID -> 区间），传入 null 恢复默认样式
+   */
+  public setPlacementSlots(placements: Map<string, SlotRange> | null): void {
+    if (!this.emptySlots.instanceColor) return;
+    this.rackSlots.forEach(rack => {
+      const range = placements?.get(rack.id);
+      rack.emptySlots.forEach(emptySlot => {
+        const inRange = !!range && emptySlot.slot >= range.slot && emptySlot.slot < range.slot + range.sizeU;
+        const style = inRange ? PLACEMENT_SLOT_STYLE : EMPTY_SLOT_STYLE;
+        this.emptySlots.setColorAt(emptySlot.index, _color.setHex(style.color));
+        this.emptySlotOpacity.setX(emptySlot.index, style.opacity);
+      });
+    });
+    this.dirty.add(this.emptySlots.instanceColor);
+    this.dirty.add(this.emptySlotOpacity);
+  }
+
+  // 把本帧修改过的实例数据提交到 GPU
+  public flush(): void {
+    this.dirty.forEach(attribute => {
+      attribute.needsUpdate = true;
+    });
+    this.dirty.clear();
+  }
+
+  public dispose(): void {
+    this.getMeshes().forEach(mesh => {
+      mesh.geometry.dispose();
+      (mesh.material as THREE.Material).dispose();
+      mesh.dispose();
+    });
+  }
+
+  private getMeshes(): THREE.InstancedMesh[] {
+    return [this.rackCases, this.bodies, this.leds, this.panels, this.labels, this.vents, this.fillBars, this.emptySlots];
+  }
+
+  private addRackSlot(layout: RackLayout): void {
+    const matrix = new THREE.Matrix4().compose(
+      new THREE.Vector3(layout.position.x, 0, layout.position.z),
+      new THREE.Quaternion().setFromAxisAngle(new THREE.Vector3(0, 1, 0), THREE.MathUtils.degToRad(layout.rotation ?? 0)),
+      new THREE.Vector3(1, 1, 1)
+    );
+    const rack: RackSlot = {
+      id: layout.id,
+      index: this.rackSlots.length,
+      layout,
+      matrix,
+      inverseMatrix: matrix.clone().invert(),
+      servers: [],
+      detailed: true,
+      emptySlots: [],
+    };
+    this.rackSlots.push(rack);
+    this.rackIndex.set(rack.id, rack);
+
+    // 机柜内部可用高度为 0.2-1.8，按U数等分
+    const unitHeight = 1.6 / layout.heightU;
+    layout.devices.forEach(device => {
+      const height = device.sizeU * unitHeight;
+      const localCenter = new THREE.Vector3(0, 0.2 + (device.slot - 1) * unitHeight + height / 2, 0);
+      const server: ServerSlot = {
+        id: device.id,
+        index: this.serverSlots.length,
+        rack,
+        device,
+        localCenter,
+        center: localCenter.clone().applyMatrix4(matrix),
+        height,
+        ghosted: false,
+      };
+      rack.servers.push(server);
+      this.serverSlots.push(server);
+      this.serverIndex.set(server.id, server);
+    });
+
+    getFreeRanges(layout).forEach(range => {
+      for (let slot = range.slot; slot < range.slot + range.sizeU; slot++) {
+        rack.emptySlots.push({ index: this.emptySlotCount++, slot });
+      }
+    });
+  }
+
+  private writeRackMatrix(rack: RackSlot): void {
+    _local.compose(
+      new THREE.Vector3(0, RACK_HEIGHT / 2, 0),
+      new THREE.Quaternion(),
+      new THREE.Vector3(RACK_FOOTPRINT.width, RACK_HEIGHT, RACK_FOOTPRINT.depth)
+    );
+    this.rackCases.setMatrixAt(rack.index, _matrix.multiplyMatrices(rack.matrix, _local));
+    this.dirty.add(this.rackCases.instanceMatrix);
+  }
+
+  private writeEmptySlotMatrices(rack: RackSlot): void {
+    const unitHeight = 1.6 / rack.layout.heightU;
+    const { width, depth, spacing } = SERVER_SIZE;
+    rack.emptySlots.forEach(emptySlot => {
+      if (this.emptySlotsVisible && rack.detailed) {
+        _local.makeScale(width, unitHeight - spacing, depth)
+          .setPosition(0, 0.2 + (emptySlot.slot - 0.5) * unitHeight, 0);
+        this.emptySlots.setMatrixAt(emptySlot.index, _matrix.multiplyMatrices(rack.matrix, _local));
+      } else {
+        this.emptySlots.setMatrixAt(emptySlot.index, HIDDEN_MATRIX);
+      }
+    });
+    this.dirty.add(this.emptySlots.instanceMatrix);
+  }
+
+  // 部件相对服务器中心的位置和尺寸
+  private writeServerMatrices(server: ServerSlot): void {
+    const { width, depth, spacing } = SERVER_SIZE;
+    const height = server.height;
+    const front = depth / 2;
+    const visible = server.rack.detailed;
+    const detailed = visible && !server.ghosted;
+
+    const place = (mesh: THREE.InstancedMesh, show: boolean, x: number, y: number, z: number, sx: number, sy: number, sz: number) => {
+      if (show) {
+        _local.makeScale(sx, sy, sz).setPosition(server.localCenter.x + x, server.localCenter.y + y, server.localCenter.z + z);
+        mesh.setMatrixAt(server.index, _matrix.multiplyMatrices(server.rack.matrix, _local));
+      } else {
+        mesh.setMatrixAt(server.index, HIDDEN_MATRIX);
+      }
+      this.dirty.add(mesh.instanceMatrix);
+    };
+
+    place(this.bodies, visible, 0, 0, 0, width, height - spacing, depth);
+    place(this.leds, detailed, width / 2 - 0.05, 0, front + 0.02, 0.04, 0.04, 0.04);
+    place(this.panels, detailed, 0, 0, front + 0.001, width * 0.95, height * 0.8, 1);
+    place(this.labels, detailed, 0, 0, front + 0.002, width * 0.4, height * 0.2, 1);
+    place(this.vents, detailed, 0, -height / 4, front + 0.001, width * 0.8, height * 0.3, 1);
+  }
+
+  // 与机身着色器相同的热力图配色，导出 glTF 时烘焙到材质
+  private getBodyColor(index: number, target: THREE.Color): THREE.Color {
+    const [low, middle, high] = this.colorScale.value;
+    const heat = this.heatValue.getX(index);
+    return heat < 0.5
+      ? target.copy(low).lerp(middle, heat * 2)
+      : target.copy(middle).lerp(high, (heat - 0.5) * 2);
+  }
+
+  private createBodyMaterial(): THREE.ShaderMaterial {
+    return new THREE.ShaderMaterial({
+      uniforms: {
+        heatmapColors: this.colorScale,
+      },
+      vertexShader: `
+        attribute float instanceHeat;
+        attribute float instanceOpacity;
+        attribute float instanceHighlight;
+        varying vec2 vUv;
+        varying float vHeat;
+        varying float vOpacity;
+        varying float vHighlight;
+        void main() {
+          vUv = uv;
+          vHeat = instanceHeat;
+          vOpacity = instanceOpacity;
+          vHighlight = instanceHighlight;
+          gl_Position = projectionMatrix * modelViewMatrix * instanceMatrix * vec4(position, 1.0);
+        }
+      `,
+      fragmentShader: `
+        varying vec2 vUv;
+        varying float vHeat;
+        varying float vOpacity;
+        varying float vHighlight;
+        ${HEATMAP_COLOR_GLSL}
+        void main() {
+          vec3 color = heatmapColor(vHeat);
+          // 高亮时在每个面的边缘绘制白色边框
+          float edge = max(abs(vUv.x - 0.5), abs(vUv.y - 0.5));
+          color = mix(color, vec3(1.0), vHighlight * step(0.44, edge));
+          gl_FragColor = vec4(color, vOpacity);
+        }
+      `,
+      transparent: true,
+    });
+  }
+}
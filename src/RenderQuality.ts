@@ -0,0 +1,86 @@
+import * as THREE from 'three';
+
+// 像素比上限：高分屏手机的 devicePixelRatio 可达 3，按原值渲染代价过高
+const MAX_PIXEL_RATIO = 2;
+const LOW_POWER_MAX_PIXEL_RATIO = 1.5;
+const MIN_PIXEL_RATIO = 1;
+const PIXEL_RATIO_STEP = 0.25;
+
+// 按采样周期内的平均帧率调整：低于 LOW_FPS 降低像素比，高于 HIGH_FPS 逐步恢复
+const SAMPLE_MS = 2000;
+const LOW_FPS = 30;
+const HIGH_FPS = 50;
+
+// 两帧间隔超过该时长（页面在后台等）时丢弃本次采样
+const MAX_FRAME_GAP_MS = 500;
+
+/**
+ * 触屏设备或核心数、内存较少的设备按低功耗设备处理
+ */
+export function isLowPowerDevice(): boolean {
+  const memory = (navigator as Navigator & { deviceMemory?: number }).deviceMemory;
+  return window.matchMedia('(pointer: coarse)').matches
+    || navigator.hardwareConcurrency <= 4
+    || (memory !== undefined && memory <= 4);
+}
+
+/**
+ * 自适应渲染质量：限制像素比上限，并根据实际帧率在上下限之间调整
+ */
+export class RenderQuality {
+  private maxPixelRatio = MIN_PIXEL_RATIO;
+  private pixelRatio = MIN_PIXEL_RATIO;
+  private sampleStart = 0;
+  private lastFrame = 0;
+  private frames = 0;
+
+  constructor(private readonly renderer: THREE.WebGLRenderer, private readonly lowPower: boolean = isLowPowerDevice()) {
+    this.handleResize();
+  }
+
+  public getPixelRatio(): number {
+    return this.pixelRatio;
+  }
+
+  // 窗口移到缩放比例不同的屏幕后重新计算上限
+  public handleResize(): void {
+    this.maxPixelRatio = Math.max(
+      MIN_PIXEL_RATIO,
+      Math.min(window.devicePixelRatio, this.lowPower ? LOW_POWER_MAX_PIXEL_RATIO : MAX_PIXEL_RATIO)
+    );
+    this.setPixelRatio(this.maxPixelRatio);
+  }
+
+  // 每帧渲染后调用
+  public update(time: number): void {
+    if (this.lastFrame === 0 || time - this.lastFrame > MAX_FRAME_GAP_MS) {
+      this.resetSample(time);
+      return;
+    }
+    this.lastFrame = time;
+    this.frames++;
+    const elapsed = time - this.sampleStart;
+    if (elapsed < SAMPLE_MS) return;
+
+    const fps = this.frames * 1000 / elapsed;
+    this.resetSample(time);
+    if (fps < LOW_FPS) {
+      this.setPixelRatio(this.pixelRatio - PIXEL_RATIO_STEP);
+    } else if (fps > HIGH_FPS) {
+      this.setPixelRatio(this.pixelRatio + PIXEL_RATIO_STEP);
+    }
+  }
+
+  private resetSample(time: number): void {
+    this.sampleStart = time;
+    this.lastFrame = time;
+    this.frames = 0;
+  }
+
+  private setPixelRatio(pixelRatio: number): void {
+    const clamped = Math.max(MIN_PIXEL_RATIO, Math.min(this.maxPixelRatio, pixelRatio));
+    if (clamped === this.pixelRatio && clamped === this.renderer.getPixelRatio()) return;
+    this.pixelRatio = clamped;
+    this.renderer.setPixelRatio(clamped);
+  }
+}
@@ -0,0 +1,90 @@
+import {
+  Backoff,
+  BaseTelemetrySource,
+  DEFAULT_FIELD_MAPPING,
+  FieldMapping,
+  TelemetryAuth,
+  TelemetryListener,
+  appendAuthQuery,
+  mapPayload,
+} from './TelemetrySource';
+
+export interface RestTelemetryOptions {
+  url: string;
+  intervalMs?: number;
+  timeoutMs?: number;
+  auth?: TelemetryAuth;
+  mapping?: FieldMapping;
+}
+
+/**
+ * 定时轮询 REST 接口获取遥测数据，请求失败时按指数退避重试
+ */
+export class RestTelemetrySource extends BaseTelemetrySource {
+  public readonly name = 'REST';
+  private timer: number | null = null;
+  private abortController: AbortController | null = null;
+  private backoff = new Backoff();
+  private onSamples: TelemetryListener | null = null;
+
+  constructor(private readonly options: RestTelemetryOptions) {
+    super();
+  }
+
+  public start(onSamples: TelemetryListener): void {
+    this.stop();
+    this.onSamples = onSamples;
+    this.setState('connecting');
+    this.poll();
+  }
+
+  public stop(): void {
+    if (this.timer !== null) {
+      window.clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.abortController?.abort();
+    this.abortController = null;
+    this.onSamples = null;
+    this.backoff.reset();
+    if (this.state !== 'idle') this.setState('disconnected');
+  }
+
+  private async poll(): Promise<void> {
+    const { intervalMs = 5000, timeoutMs = 10000, auth, mapping = DEFAULT_FIELD_MAPPING } = this.options;
+    const controller = new AbortController();
+    this.abortController = controller;
+    const timeout = window.setTimeout(() => controller.abort(), timeoutMs);
+
+    let delay = intervalMs;
+    try {
+      const headers: Record<string, string> = { Accept: 'application/json' };
+      if (auth && !auth.queryParam) {
+        headers[auth.header ?? 'Authorization'] = auth.value;
+      }
+      const response = await fetch(appendAuthQuery(this.options.url, auth), {
+        headers,
+        signal: controller.signal,
+      });
+      if (!response.ok) {
+        throw new Error(`${response.status} ${response.statusText}`);
+      }
+      const samples = mapPayload(await response.json(), mapping);
+      // 已停止或已重新启动时丢弃本次结果
+      if (this.abortController !== controller || !this.onSamples) return;
+      this.backoff.reset();
+      this.setState('connected');
+      this.onSamples(samples);
+    } catch (error) {
+      if (this.abortController !== controller) return;
+      delay = this.backoff.next();
+      this.setState('reconnecting', error);
+    } finally {
+      window.clearTimeout(timeout);
+    }
+
+    if (this.abortController === controller) {
+      this.timer = window.setTimeout(() => this.poll(), delay);
+    }
+  }
+}
@@ -0,0 +1,204 @@
+import * as THREE from 'three';
+import { GLTFExporter } from 'three/examples/jsm/exporters/GLTFExporter';
+import { ColorScale, colorFromScale } from './Heatmap';
+import { MetricKey, formatMetric } from './Metrics';
+import { PaletteStatus, palette } from './Palette';
+import { i18n, t } from './I18n';
+
+// 截图默认按屏幕尺寸的 2 倍渲染
+const SCREENSHOT_SCALE = 2;
+
+// 自定义着色器材质无法导出为 glTF，部件可在 userData.exportColorAt 中提供逐实例的等效颜色
+export type ExportColorAt = (index: number, target: THREE.Color) => THREE.Color;
+
+export interface ScreenshotOverlay {
+  title: string;
+  time: number;
+  metric: MetricKey;
+  colorScale: ColorScale;
+  stops: [number, number, number]; // 色阶起点、中间色和终点对应的取值
+}
+
+/**
+ * 按更高的像素比重新渲染当前视图并叠加标题、时间和图例，返回 PNG
+ */
+export function captureScreenshot(
+  renderer: THREE.WebGLRenderer,
+  scene: THREE.Scene,
+  camera: THREE.Camera,
+  overlay: ScreenshotOverlay,
+  scale: number = SCREENSHOT_SCALE
+): Promise<Blob> {
+  const size = renderer.getSize(new THREE.Vector2());
+  const maxSize = renderer.capabilities.maxTextureSize;
+  const pixelRatio = Math.min(scale, maxSize / Math.max(size.x, size.y));
+  const previousPixelRatio = renderer.getPixelRatio();
+
+  // 没有开启 preserveDrawingBuffer，必须在渲染后立即复制画面
+  renderer.setPixelRatio(pixelRatio);
+  renderer.render(scene, camera);
+  const canvas = document.createElement('canvas');
+  canvas.width = renderer.domElement.width;
+  canvas.height = renderer.domElement.height;
+  const context = canvas.getContext('2d') as CanvasRenderingContext2D;
+  context.drawImage(renderer.domElement, 0, 0);
+  renderer.setPixelRatio(previousPixelRatio);
+
+  context.scale(pixelRatio, pixelRatio);
+  drawOverlay(context, size.x, overlay);
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('toBlob failed'))), 'image/png');
+  });
+}
+
+function drawOverlay(context: CanvasRenderingContext2D, width: number, overlay: ScreenshotOverlay): void {
+  const padding = 10;
+  const boxWidth = 260;
+  const boxHeight = 118;
+  const left = width - boxWidth - 20;
+  const top = 20;
+  context.fillStyle = 'rgba(0, 0, 0, 0.7)';
+  context.fillRect(left, top, boxWidth, boxHeight);
+
+  context.fillStyle = '#ffffff';
+  context.textBaseline = 'top';
+  context.font = 'bold 14px Arial, sans-serif';
+  context.fillText(overlay.title, left + padding, top + padding, boxWidth - padding * 2);
+  context.font = '12px Arial, sans-serif';
+  context.fillText(i18n.formatDateTime(overlay.time), left + padding, top + padding + 20);
+
+  // 热力图色阶
+  const barTop = top + padding + 40;
+  const barWidth = boxWidth - padding * 2;
+  context.fillText(t(`metric.${overlay.metric}`), left + padding, barTop);
+  const gradient = context.createLinearGradient(left + padding, 0, left + padding + barWidth, 0);
+  [0, 0.25, 0.5, 0.75, 1].forEach(stop => {
+    gradient.addColorStop(stop, `#${colorFromScale(stop, overlay.colorScale).getHexString()}`);
+  });
+  context.fillStyle = gradient;
+  context.fillRect(left + padding, barTop + 16, barWidth, 10);
+  context.fillStyle = '#ffffff';
+  overlay.stops.forEach((value, index) => {
+    const label = formatMetric(overlay.metric, value);
+    const x = left + padding + barWidth * index / 2 - context.measureText(label).width * index / 2;
+    context.fillText(label, x, barTop + 30);
+  });
+
+  // 状态颜色
+  const statusTop = barTop + 48;
+  let x = left + padding;
+  (['normal', 'warning', 'error', 'stale'] as PaletteStatus[]).forEach(status => {
+    context.fillStyle = palette.statusColor(status);
+    context.fillRect(x, statusTop + 2, 8, 8);
+    context.fillStyle = '#ffffff';
+    const label = t(`status.${status}`);
+    context.fillText(label, x + 12, statusTop);
+    x += 12 + context.measureText(label).width + 10;
+  });
+}
+
+/**
+ * 生成可导出的静态模型：实例化网格展开为逐个网格（兼容不支持 GPU 实例扩展的工具），
+ * 颜色和透明度烘焙到材质中；无法导出的着色器材质部件（如热力图）跳过
+ */
+export function createExportModel(root: THREE.Object3D): THREE.Group {
+  root.updateMatrixWorld(true);
+  const model = new THREE.Group();
+  model.name = root.name || 'datacenter';
+  const geometries: Map<THREE.BufferGeometry, THREE.BufferGeometry> = new Map();
+  const materials: Map<string, THREE.Material> = new Map();
+
+  const getGeometry = (geometry: THREE.BufferGeometry) => {
+    let copy = geometries.get(geometry);
+    if (!copy) {
+      // 只保留顶点属性，实例属性的数量与顶点数不一致，不能写入 glTF
+      copy = new THREE.BufferGeometry();
+      (['position', 'normal', 'uv'] as const).forEach(name => {
+        const attribute = geometry.getAttribute(name);
+        if (attribute) copy!.setAttribute(name, attribute);
+      });
+      if (geometry.index) copy.setIndex(geometry.index);
+      geometries.set(geometry, copy);
+    }
+    return copy;
+  };
+
+  const getMaterial = (source: THREE.Material, color: THREE.Color | null, opacity: number) => {
+    const key = `${source.uuid}:${color?.getHexString() ?? ''}:${opacity.toFixed(2)}`;
+    let material = materials.get(key);
+    if (!material) {
+      const base = source as THREE.MeshStandardMaterial;
+      const parameters = {
+        color: color ?? base.color ?? 0xffffff,
+        transparent: opacity < 1 || source.opacity < 1,
+        opacity: opacity * source.opacity,
+        side: source.side,
+      };
+      // 无光照材质导出为 KHR_materials_unlit，其余按 PBR 材质导出
+      material = source instanceof THREE.MeshBasicMaterial
+        ? new THREE.MeshBasicMaterial(parameters)
+        : new THREE.MeshStandardMaterial({ ...parameters, metalness: base.metalness ?? 0, roughness: base.roughness ?? 1 });
+      materials.set(key, material);
+    }
+    return material;
+  };
+
+  const instanceMatrix = new THREE.Matrix4();
+  const instanceColor = new THREE.Color();
+  root.traverseVisible(object => {
+    if (!(object instanceof THREE.Mesh) || Array.isArray(object.material)) return;
+    const source = object.material as THREE.Material;
+    const colorAt = object.userData.exportColorAt as ExportColorAt | undefined;
+    if (source instanceof THREE.ShaderMaterial && !colorAt) return;
+
+    if (!(object instanceof THREE.InstancedMesh)) {
+      const mesh = new THREE.Mesh(getGeometry(object.geometry), getMaterial(source, null, 1));
+      object.matrixWorld.decompose(mesh.position, mesh.quaternion, mesh.scale);
+      model.add(mesh);
+      return;
+    }
+
+    const opacities = object.geometry.getAttribute('instanceOpacity');
+    for (let index = 0; index < object.count; index++) {
+      object.getMatrixAt(index, instanceMatrix);
+      const opacity = opacities ? opacities.getX(index) : 1;
+      // 缩放为 0 或完全透明的实例为隐藏状态
+      if (instanceMatrix.determinant() === 0 || opacity <= 0) continue;
+      let color: THREE.Color | null = null;
+      if (colorAt) {
+        color = colorAt(index, instanceColor);
+      } else if (object.instanceColor) {
+        object.getColorAt(index, instanceColor);
+        color = instanceColor.multiply((source as THREE.MeshBasicMaterial).color ?? new THREE.Color(0xffffff));
+      }
+      const mesh = new THREE.Mesh(getGeometry(object.geometry), getMaterial(source, color, opacity));
+      instanceMatrix.premultiply(object.matrixWorld).decompose(mesh.position, mesh.quaternion, mesh.scale);
+      model.add(mesh);
+    }
+  });
+  return model;
+}
+
+// 释放导出模型创建的几何体副本和材质，原场景共享的缓冲区不受影响
+function disposeExportModel(model: THREE.Group): void {
+  const disposed: Set<{ dispose: () => void }> = new Set();
+  model.traverse(object => {
+    if (!(object instanceof THREE.Mesh)) return;
+    disposed.add(object.geometry);
+    disposed.add(object.material as THREE.Material);
+  });
+  disposed.forEach(item => item.dispose());
+}
+
+/**
+ * 导出为二进制 glTF（.glb）
+ */
+export async function exportGltf(root: THREE.Object3D): Promise<Blob> {
+  const model = createExportModel(root);
+  try {
+    const result = await new GLTFExporter().parseAsync(model, { binary: true });
+    return new Blob([result as ArrayBuffer], { type: 'model/gltf-binary' });
+  } finally {
+    disposeExportModel(model);
+  }
+}
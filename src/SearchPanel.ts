@@ -0,0 +1,231 @@
+import { DataCenter } from './DataCenter';
+import { ServerStatus } from './ServerStatus';
+import { METRIC_KEYS } from './Metrics';
+import { FilterCondition, matchesFilter, parseFilter } from './ServerFilter';
+import { MessageKey, t } from './I18n';
+import { escapeHtml } from './Html';
+
+const TEXT_FIELD_OPTIONS: { value: string; label: MessageKey }[] = [
+  { value: 'id', label: 'common.id' },
+  { value: 'brand', label: 'common.brand' },
+  { value: 'model', label: 'common.model' },
+  { value: 'rack', label: 'common.rack' },
+  { value: 'status', label: 'common.status' },
+];
+
+const MAX_LISTED_RESULTS = 200;
+
+/**
+ * 搜索与过滤面板：输入过滤表达式或用条件构建器生成，高亮匹配服务器并可逐个定位。
+ * 过滤表达式同步到 URL 的 filter 参数，便于分享
+ */
+export class SearchPanel {
+  private element: HTMLElement;
+  private input: HTMLInputElement;
+  private fieldSelect: HTMLSelectElement;
+  private operatorSelect: HTMLSelectElement;
+  private valueInput: HTMLInputElement;
+  private summary: HTMLElement;
+  private results: HTMLElement;
+  private query = '';
+  private conditions: FilterCondition[] = [];
+  private matches: string[] = [];
+  private currentIndex = -1;
+  private refreshScheduled = false;
+  private inputTimer: number | null = null;
+  private unsubscribe: () => void;
+
+  constructor(
+    container: HTMLElement,
+    private dataCenter: DataCenter,
+    private readonly serverStatus: ServerStatus,
+    private readonly onFocus: (serverId: string) => void
+  ) {
+    this.element = document.createElement('div');
+    this.element.id = 'search';
+    this.element.innerHTML = `
+      <input data-role="query" type="search" placeholder="${t('search.placeholder')}" style="width: 100%; box-sizing: border-box;" />
+      <div style="display: flex; gap: 4px; margin-top: 5px;">
+        <select data-role="field">
+          ${TEXT_FIELD_OPTIONS.map(option => `<option value="${option.value}">${t(option.label)}</option>`).join('')}
+          ${METRIC_KEYS.map(metric => `<option value="${metric}">${t(`metric.${metric}`)}</option>`).join('')}
+        </select>
+        <select data-role="operator"></select>
+        <input data-role="value" style="width: 70px;" />
+        <button data-action="add">${t('search.addCondition')}</button>
+      </div>
+      <div data-role="summary" style="margin-top: 5px;"></div>
+      <div data-role="results" style="max-height: 200px; overflow-y: auto;"></div>
+    `;
+    container.appendChild(this.element);
+
+    const query = <T extends HTMLElement>(selector: string) => this.element.querySelector(selector) as T;
+    this.input = query<HTMLInputElement>('[data-role="query"]');
+    this.fieldSelect = query<HTMLSelectElement>('[data-role="field"]');
+    this.operatorSelect = query<HTMLSelectElement>('[data-role="operator"]');
+    this.valueInput = query<HTMLInputElement>('[data-role="value"]');
+    this.summary = query('[data-role="summary"]');
+    this.results = query('[data-role="results"]');
+
+    this.input.addEventListener('input', () => {
+      if (this.inputTimer !== null) window.clearTimeout(this.inputTimer);
+      this.inputTimer = window.setTimeout(() => this.setQuery(this.input.value), 200);
+    });
+    this.fieldSelect.addEventListener('change', () => this.updateOperators());
+    this.element.addEventListener('click', this.handleClick.bind(this));
+    this.updateOperators();
+
+    // 指标和状态条件随数据变化，每帧最多重新计算一次
+    this.unsubscribe = this.serverStatus.on('serverUpdated', () => this.scheduleRefresh());
+
+    const initialQuery = new URLSearchParams(window.location.search).get('filter');
+    if (initialQuery) {
+      this.input.value = initialQuery;
+      this.setQuery(initialQuery);
+    } else {
+      this.render();
+    }
+  }
+
+  public dispose(): void {
+    this.unsubscribe();
+    this.dataCenter.setFilter(null);
+    this.element.remove();
+  }
+
+  // 切换机房后在新场景中重新应用当前过滤条件
+  public setDataCenter(dataCenter: DataCenter): void {
+    this.dataCenter = dataCenter;
+    this.currentIndex = -1;
+    this.refresh();
+  }
+
+  public setQuery(query: string): void {
+    this.query = query.trim();
+    this.input.value = query;
+    const parsed = parseFilter(this.query);
+    this.conditions = parsed.errors.length > 0 ? [] : parsed.conditions;
+    this.currentIndex = -1;
+    this.updateUrl();
+    this.refresh();
+    if (parsed.errors.length > 0) {
+      this.summary.innerHTML = `<span style="color: #ff4444;">${escapeHtml(parsed.errors.join(t('search.errorSeparator')))}</span>`;
+    }
+  }
+
+  private updateUrl(): void {
+    const url = new URL(window.location.href);
+    if (this.query) {
+      url.searchParams.set('filter', this.query);
+    } else {
+      url.searchParams.delete('filter');
+    }
+    window.history.replaceState(window.history.state, '', url);
+  }
+
+  private updateOperators(): void {
+    const isMetric = (METRIC_KEYS as string[]).includes(this.fieldSelect.value);
+    const operators = isMetric ? ['>', '>=', '<', '<=', '='] : [':'];
+    this.operatorSelect.innerHTML = operators
+      .map(operator => `<option value="${operator}">${operator === ':' ? t('search.contains') : operator}</option>`)
+      .join('');
+    this.valueInput.placeholder = this.fieldSelect.value === 'status' ? 'normal/warning/error' : '';
+  }
+
+  private handleClick(event: MouseEvent): void {
+    const target = (event.target as HTMLElement).closest<HTMLElement>('[data-action]');
+    switch (target?.dataset.action) {
+      case 'add': {
+        const value = this.valueInput.value.trim();
+        if (!value) return;
+        const operator = this.operatorSelect.value;
+        const quoted = /\s/.test(value) ? `"${value}"` : value;
+        const condition = operator === ':'
+          ? `${this.fieldSelect.value}:${quoted}`
+          : `${this.fieldSelect.value} ${operator} ${value}`;
+        this.valueInput.value = '';
+        this.setQuery(this.query ? `${this.query} ${condition}` : condition);
+        break;
+      }
+      case 'previous':
+        this.focusAt(this.currentIndex < 0 ? -1 : this.currentIndex - 1);
+        break;
+      case 'next':
+        this.focusAt(this.currentIndex + 1);
+        break;
+      case 'clear':
+        this.setQuery('');
+        break;
+      case 'focus': {
+        const index = this.matches.indexOf(target.dataset.serverId ?? '');
+        if (index >= 0) this.focusAt(index);
+        break;
+      }
+    }
+  }
+
+  // 循环切换，越界时回绕到另一端
+  private focusAt(index: number): void {
+    const count = this.matches.length;
+    if (count === 0) return;
+    this.currentIndex = ((index % count) + count) % count;
+    this.onFocus(this.matches[this.currentIndex]);
+    this.render();
+  }
+
+  private scheduleRefresh(): void {
+    if (this.refreshScheduled || this.conditions.length === 0) return;
+    this.refreshScheduled = true;
+    requestAnimationFrame(() => {
+      this.refreshScheduled = false;
+      this.refresh();
+    });
+  }
+
+  private refresh(): void {
+    if (this.conditions.length === 0) {
+      this.matches = [];
+      this.dataCenter.setFilter(null);
+      this.render();
+      return;
+    }
+
+    const current = this.matches[this.currentIndex];
+    this.matches = this.dataCenter.getServerIds().filter(id => {
+      const data = this.serverStatus.getServerData(id);
+      if (!data) return false;
+      const rackName = this.dataCenter.getRackLayout(data.rackId)?.name ?? data.rackId;
+      return matchesFilter({ data, rackName }, this.conditions);
+    });
+    this.currentIndex = current ? this.matches.indexOf(current) : -1;
+    this.dataCenter.setFilter(new Set(this.matches));
+    this.render();
+  }
+
+  private render(): void {
+    if (this.conditions.length === 0) {
+      this.summary.innerHTML = '';
+      this.results.innerHTML = '';
+      return;
+    }
+
+    const position = this.currentIndex >= 0 ? `${this.currentIndex + 1}/` : '';
+    this.summary.innerHTML = `
+      ${t('search.matches', { position, count: this.matches.length })}
+      <button data-action="previous">${t('search.previous')}</button>
+      <button data-action="next">${t('search.next')}</button>
+      <button data-action="clear">${t('common.clear')}</button>
+    `;
+
+    this.results.innerHTML = this.matches.slice(0, MAX_LISTED_RESULTS).map((id, index) => {
+      const data = this.serverStatus.getServerData(id);
+      const rackName = data ? this.dataCenter.getRackLayout(data.rackId)?.name ?? data.rackId : '';
+      const active = index === this.currentIndex ? 'background: rgba(42, 111, 219, 0.5);' : '';
+      return `
+        <div data-action="focus" data-server-id="${escapeHtml(id)}" style="padding: 3px 5px; cursor: pointer; ${active}">
+          ${escapeHtml(id)} <small>${escapeHtml(data?.brand ?? '')} · ${t('rack.label', { rack: escapeHtml(rackName) })}</small>
+        </div>
+      `;
+    }).join('') + (this.matches.length > MAX_LISTED_RESULTS ? `<small>${t('search.truncated', { count: MAX_LISTED_RESULTS })}</small>` : '');
+  }
+}
@@ -0,0 +1,112 @@
+import { METRICS, METRIC_KEYS, MetricKey } from './Metrics';
+import type { ServerData, StatusLevel } from './ServerStatus';
+import { t } from './I18n';
+
+export type TextField = 'id' | 'brand' | 'model' | 'rack' | 'status';
+export type ComparisonOperator = '>' | '>=' | '<' | '<=' | '=' | '!=';
+
+export type FilterCondition =
+  | { kind: 'text'; field: TextField | 'any'; value: string }
+  | { kind: 'metric'; metric: MetricKey; operator: ComparisonOperator; value: number };
+
+export interface ParsedFilter {
+  conditions: FilterCondition[];
+  errors: string[];
+}
+
+export interface FilterTarget {
+  data: ServerData;
+  rackName: string;
+}
+
+const TEXT_FIELDS: TextField[] = ['id', 'brand', 'model', 'rack', 'status'];
+const STATUS_VALUES: StatusLevel[] = ['normal', 'warning', 'error'];
+
+function resolveMetric(name: string): MetricKey | undefined {
+  if ((METRIC_KEYS as string[]).includes(name)) return name as MetricKey;
+  // 指标别名（如 cpu、temp）由注册表提供，方便手动输入
+  const alias = name.toLowerCase();
+  return METRIC_KEYS.find(metric => METRICS[metric].aliases?.includes(alias));
+}
+
+/**
+ * 解析过滤表达式，条件之间为“且”关系，例如：
+ *   brand:DELL status:warning cpuUsage > 80 rack:A0
+ * 不带字段的词按 ID、品牌、型号、机柜模糊匹配
+ */
+export function parseFilter(query: string): ParsedFilter {
+  const conditions: FilterCondition[] = [];
+  const errors: string[] = [];
+
+  // 去掉比较运算符两侧的空格，使 "cpuUsage > 80" 成为一个词
+  const normalized = query.replace(/(\w+)\s*(>=|<=|!=|>|<|=)\s*(-?[\d.]+)/g, '$1$2$3');
+  const tokens = normalized.match(/\w+:"[^"]*"|"[^"]*"|\S+/g) ?? [];
+
+  tokens.forEach(token => {
+    const comparison = token.match(/^(\w+)(>=|<=|!=|>|<|=)(-?[\d.]+)$/);
+    if (comparison) {
+      const metric = resolveMetric(comparison[1]);
+      const value = Number(comparison[3]);
+      if (!metric) {
+        errors.push(t('filter.unknownMetric', { metric: comparison[1] }));
+      } else if (Number.isNaN(value)) {
+        errors.push(t('filter.invalidNumber', { value: comparison[3] }));
+      } else {
+        conditions.push({ kind: 'metric', metric, operator: comparison[2] as ComparisonOperator, value });
+      }
+      return;
+    }
+
+    const fieldMatch = token.match(/^(\w+):(.*)$/);
+    if (fieldMatch) {
+      const field = fieldMatch[1].toLowerCase() as TextField;
+      const value = fieldMatch[2].replace(/^"|"$/g, '');
+      if (!TEXT_FIELDS.includes(field)) {
+        errors.push(t('filter.unknownField', { field: fieldMatch[1] }));
+      } else if (field === 'status' && !STATUS_VALUES.includes(value as StatusLevel)) {
+        errors.push(t('filter.invalidStatus', { values: STATUS_VALUES.join('/') }));
+      } else if (value !== '') {
+        conditions.push({ kind: 'text', field, value });
+      }
+      return;
+    }
+
+    conditions.push({ kind: 'text', field: 'any', value: token.replace(/^"|"$/g, '') });
+  });
+
+  return { conditions, errors };
+}
+
+function compare(value: number, operator: ComparisonOperator, target: number): boolean {
+  switch (operator) {
+    case '>': return value > target;
+    case '>=': return value >= target;
+    case '<': return value < target;
+    case '<=': return value <= target;
+    case '=': return value === target;
+    case '!=': return value !== target;
+  }
+}
+
+function contains(text: string, value: string): boolean {
+  return text.toLowerCase().includes(value.toLowerCase());
+}
+
+export function matchesFilter(target: FilterTarget, conditions: FilterCondition[]): boolean {
+  const { data, rackName } = target;
+  return conditions.every(condition => {
+    if (condition.kind === 'metric') {
+      const value = data[condition.metric];
+      return value !== undefined && compare(value, condition.operator, condition.value);
+    }
+    switch (condition.field) {
+      case 'id': return contains(data.id, condition.value);
+      case 'brand': return contains(data.brand, condition.value);
+      case 'model': return contains(data.model, condition.value);
+      case 'rack': return contains(data.rackId, condition.value) || contains(rackName, condition.value);
+      case 'status': return data.status === condition.value;
+      case 'any':
+        return [data.id, data.brand, data.model, data.rackId, rackName].some(text => contains(text, condition.value));
+    }
+  });
+}
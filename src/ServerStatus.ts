@@ -1,59 +1,252 @@
-export interface ServerData {
+import { DataCenterLayout, LayoutDevice, getLayoutDevices } from './Layout';
+import { TelemetrySample } from './TelemetrySource';
+import { EventEmitter } from './EventEmitter';
+import { AlertEngine } from './AlertEngine';
+import { METRIC_KEYS, MetricKey, MetricValues } from './Metrics';
+import { HistoryOptions, HistoryPoint, HistoryStats, MetricHistory } from './MetricHistory';
+
+export type StatusLevel = 'normal' | 'warning' | 'error';
+
+// 温度、CPU 和内存为基础指标，始终有值；其余指标在首次上报前为 undefined
+export interface ServerData extends MetricValues {
   id: string;
+  rackId: string;
+  brand: string;
+  model: string;
   temperature: number;
   cpuUsage: number;
   memoryUsage: number;
-  status: 'normal' | 'warning' | 'error';
+  status: StatusLevel;
+  lastUpdate: number; // 最近一次收到遥测数据的时间，0 表示尚无数据
+  stale: boolean;
+}
+
+// 回放录制时保存的单台服务器数据
+export type ServerSnapshot = MetricValues & Pick<ServerData, 'id' | 'temperature' | 'cpuUsage' | 'memoryUsage' | 'status' | 'stale'>;
+
+export interface ServerStatusOptions {
+  staleAfterMs?: number; // 超过该时长未收到数据即标记为过期
+  history?: HistoryOptions;
+}
+
+export interface ServerStatusEvents {
+  serverUpdated: [data: ServerData];
+  statusChanged: [data: ServerData, previous: StatusLevel];
+  tick: [time: number];
 }
 
-export class ServerStatus {
+/**
+ * 服务器状态存储。遥测采样先进入缓冲区，在固定频率的数据节拍中统一应用，
+ * 只有数据真正变化时才发出 serverUpdated / statusChanged 事件
+ */
+export class ServerStatus extends EventEmitter<ServerStatusEvents> {
   private servers: Map<string, ServerData> = new Map();
+  private pendingSamples: Map<string, TelemetrySample> = new Map();
+  private staleAfterMs: number;
+  private tickTimer: number | null = null;
+  private tickMs = 1000;
+  private playback = false;
+  private alertEngine: AlertEngine;
+  private history: MetricHistory;
 
-  constructor() {
-    // 初始化模拟数据
-    this.initializeServers();
-  }
-
-  private initializeServers(): void {
-    // 为9个机柜中的每个服务器创建状态数据
-    for (let rack = 0; rack < 9; rack++) {
-      for (let server = 0; server < 5; server++) { // 修改为5台服务器
-        const id = `rack${rack}-server${server}`;
-        this.servers.set(id, {
-          id,
-          temperature: Math.random() * 20 + 25, // 25-45度
-          cpuUsage: Math.random() * 60 + 20, // 20-80%
-          memoryUsage: Math.random() * 50 + 30, // 30-80%
-          status: 'normal'
-        });
+  constructor(layout: DataCenterLayout, alertEngine: AlertEngine, options: ServerStatusOptions = {}) {
+    super();
+    this.alertEngine = alertEngine;
+    this.staleAfterMs = options.staleAfterMs ?? 10000;
+    this.history = new MetricHistory(options.history);
+    this.initializeServers(layout);
+  }
+
+  private initializeServers(layout: DataCenterLayout): void {
+    // 为布局中的每台设备创建状态数据，收到遥测数据前标记为过期
+    getLayoutDevices(layout).forEach(device => this.servers.set(device.id, this.createServer(device)));
+  }
+
+  private createServer(device: LayoutDevice): ServerData {
+    return {
+      id: device.id,
+      rackId: device.rackId,
+      brand: device.brand,
+      model: device.model,
+      temperature: 0,
+      cpuUsage: 0,
+      memoryUsage: 0,
+      status: 'normal',
+      lastUpdate: 0,
+      stale: true
+    };
+  }
+
+  /**
+   * 布局编辑后同步设备列表：新增设备按过期状态加入，已删除设备的数据、历史和告警一并移除，
+   * 保留的设备按布局更新所在机柜和型号；返回设备是否有增删
+   */
+  public setLayout(layout: DataCenterLayout): boolean {
+    const devices = new Map(getLayoutDevices(layout).map(device => [device.id, device]));
+    let changed = false;
+    [...this.servers.keys()].forEach(id => {
+      if (devices.has(id)) return;
+      this.servers.delete(id);
+      this.pendingSamples.delete(id);
+      this.history.remove(id);
+      this.alertEngine.removeServer(id);
+      changed = true;
+    });
+    devices.forEach(device => {
+      const server = this.servers.get(device.id);
+      if (!server) {
+        this.servers.set(device.id, this.createServer(device));
+        changed = true;
+        return;
       }
+      server.rackId = device.rackId;
+      server.brand = device.brand;
+      server.model = device.model;
+    });
+    return changed;
+  }
+
+  public start(tickMs: number = this.tickMs): void {
+    this.stop();
+    this.tickMs = tickMs;
+    this.tick();
+    this.tickTimer = window.setInterval(() => this.tick(), tickMs);
+  }
+
+  public stop(): void {
+    if (this.tickTimer !== null) {
+      window.clearInterval(this.tickTimer);
+      this.tickTimer = null;
     }
   }
 
-  public updateServerStatus(): void {
-    // 模拟服务器状态变化
-    this.servers.forEach((server) => {
-      // 更新温度（随机波动±1度）
-      server.temperature += (Math.random() - 0.5) * 2;
-      server.temperature = Math.max(25, Math.min(45, server.temperature));
-
-      // 更新CPU使用率
-      server.cpuUsage += (Math.random() - 0.5) * 10;
-      server.cpuUsage = Math.max(20, Math.min(95, server.cpuUsage));
-
-      // 更新内存使用率
-      server.memoryUsage += (Math.random() - 0.5) * 5;
-      server.memoryUsage = Math.max(30, Math.min(95, server.memoryUsage));
-
-      // 更新状态
-      if (server.temperature > 42 || server.cpuUsage > 90 || server.memoryUsage > 90) {
-        server.status = 'error';
-      } else if (server.temperature > 38 || server.cpuUsage > 75 || server.memoryUsage > 75) {
-        server.status = 'warning';
-      } else {
-        server.status = 'normal';
+  // 缓存采样，同一服务器在一个节拍内的多次采样会合并
+  public applySamples(samples: TelemetrySample[]): void {
+    const receivedAt = Date.now();
+    samples.forEach(sample => {
+      if (!this.servers.has(sample.id)) return;
+      const pending = this.pendingSamples.get(sample.id);
+      this.pendingSamples.set(sample.id, {
+        ...pending,
+        ...this.definedFields(sample),
+        id: sample.id,
+        timestamp: receivedAt,
+      });
+    });
+  }
+
+  public tick(now: number = Date.now()): void {
+    const changed = new Set<ServerData>();
+
+    this.pendingSamples.forEach((sample, id) => {
+      const server = this.servers.get(id);
+      if (!server) return;
+      METRIC_KEYS.forEach(metric => {
+        const value = sample[metric];
+        if (value !== undefined && value !== server[metric]) {
+          server[metric] = value;
+          changed.add(server);
+        }
+      });
+      server.lastUpdate = sample.timestamp ?? now;
+    });
+    this.pendingSamples.clear();
+
+    this.servers.forEach(server => {
+      const stale = now - server.lastUpdate > this.staleAfterMs;
+      if (stale !== server.stale) {
+        server.stale = stale;
+        changed.add(server);
+      }
+
+      // 每个节拍都评估告警规则，以便持续时间条件能够按时触发；过期数据保持原状态
+      const previous = server.status;
+      if (!server.stale) {
+        server.status = this.alertEngine.evaluate(server, now);
+        this.history.record(server, now);
+      }
+      if (changed.has(server) || server.status !== previous) {
+        this.emit('serverUpdated', server);
+      }
+      if (server.status !== previous) {
+        this.emit('statusChanged', server, previous);
       }
     });
+    this.emit('tick', now);
+  }
+
+  public isPlayback(): boolean {
+    return this.playback;
+  }
+
+  // 进入回放模式：暂停实时数据节拍，实时采样继续缓存，退出时合并应用
+  public enterPlayback(): void {
+    if (this.playback) return;
+    this.playback = true;
+    this.stop();
+  }
+
+  public exitPlayback(): void {
+    if (!this.playback) return;
+    this.playback = false;
+    this.start();
+  }
+
+  /**
+   * 用录制的历史数据覆盖当前状态（仅在回放模式下使用）
+   */
+  public applySnapshot(time: number, snapshots: ServerSnapshot[]): void {
+    snapshots.forEach(snapshot => {
+      const server = this.servers.get(snapshot.id);
+      if (!server) return;
+      const previous = server.status;
+      METRIC_KEYS.forEach(metric => {
+        const value = snapshot[metric];
+        if (value !== undefined) server[metric] = value;
+      });
+      server.status = snapshot.status;
+      server.stale = snapshot.stale;
+      server.lastUpdate = time;
+      this.emit('serverUpdated', server);
+      if (server.status !== previous) {
+        this.emit('statusChanged', server, previous);
+      }
+    });
+  }
+
+  public getSnapshot(): ServerSnapshot[] {
+    return [...this.servers.values()]
+      .filter(server => server.lastUpdate > 0)
+      .map(server => {
+        const snapshot: ServerSnapshot = {
+          id: server.id,
+          temperature: server.temperature,
+          cpuUsage: server.cpuUsage,
+          memoryUsage: server.memoryUsage,
+          status: server.status,
+          stale: server.stale,
+        };
+        METRIC_KEYS.forEach(metric => {
+          if (server[metric] !== undefined) snapshot[metric] = server[metric];
+        });
+        return snapshot;
+      });
+  }
+
+  private definedFields(sample: TelemetrySample): Partial<TelemetrySample> {
+    const fields: Partial<TelemetrySample> = {};
+    METRIC_KEYS.forEach(metric => {
+      if (sample[metric] !== undefined) fields[metric] = sample[metric];
+    });
+    return fields;
+  }
+
+  public getHistory(id: string, metric: MetricKey, windowMs: number): HistoryPoint[] {
+    return this.history.getSeries(id, metric, windowMs);
+  }
+
+  public getHistoryStats(id: string, metric: MetricKey, windowMs: number): HistoryStats | null {
+    return this.history.getStats(id, metric, windowMs);
   }
 
   public getServerData(id: string): ServerData | undefined {
@@ -63,4 +256,4 @@ export class ServerStatus {
   public getAllServers(): Map<string, ServerData> {
     return this.servers;
   }
-} 
\ No newline at end of file
+}
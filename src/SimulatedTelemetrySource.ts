@@ -0,0 +1,94 @@
+import { BaseTelemetrySource, TelemetryListener, TelemetrySample } from './TelemetrySource';
+import { t } from './I18n';
+
+interface SimulatedServer {
+  temperature: number;
+  cpuUsage: number;
+  memoryUsage: number;
+  inletTemperature: number;
+  diskUsage: number;
+  diskIops: number;
+  networkIn: number;
+  networkOut: number;
+}
+
+const randomWalk = (value: number, step: number, min: number, max: number) =>
+  Math.max(min, Math.min(max, value + (Math.random() - 0.5) * step));
+
+/**
+ * 本地模拟数据源，对每台服务器的指标做随机游走；
+ * 功耗、风扇转速和出风温度由 CPU 负载与温度推算
+ */
+export class SimulatedTelemetrySource extends BaseTelemetrySource {
+  public readonly name = t('telemetry.simulated');
+  private servers: Map<string, SimulatedServer> = new Map();
+  private timer: number | null = null;
+
+  constructor(serverIds: string[], private readonly intervalMs: number = 1000) {
+    super();
+    serverIds.forEach(id => {
+      this.servers.set(id, {
+        temperature: Math.random() * 20 + 25, // 25-45度
+        cpuUsage: Math.random() * 60 + 20, // 20-80%
+        memoryUsage: Math.random() * 50 + 30, // 30-80%
+        inletTemperature: Math.random() * 6 + 19, // 19-25度
+        diskUsage: Math.random() * 60 + 20,
+        diskIops: Math.random() * 4000 + 500,
+        networkIn: Math.random() * 800 + 100, // Mbps
+        networkOut: Math.random() * 500 + 50,
+      });
+    });
+  }
+
+  public start(onSamples: TelemetryListener): void {
+    this.stop();
+    this.setState('connected');
+    onSamples(this.createSamples());
+    this.timer = window.setInterval(() => {
+      this.step();
+      onSamples(this.createSamples());
+    }, this.intervalMs);
+  }
+
+  public stop(): void {
+    if (this.timer !== null) {
+      window.clearInterval(this.timer);
+      this.timer = null;
+    }
+    if (this.state !== 'idle') this.setState('disconnected');
+  }
+
+  private step(): void {
+    this.servers.forEach((server) => {
+      // 更新温度（随机波动±1度）
+      server.temperature += (Math.random() - 0.5) * 2;
+      server.temperature = Math.max(25, Math.min(45, server.temperature));
+
+      // 更新CPU使用率
+      server.cpuUsage += (Math.random() - 0.5) * 10;
+      server.cpuUsage = Math.max(20, Math.min(95, server.cpuUsage));
+
+      // 更新内存使用率
+      server.memoryUsage += (Math.random() - 0.5) * 5;
+      server.memoryUsage = Math.max(30, Math.min(95, server.memoryUsage));
+
+      server.inletTemperature = randomWalk(server.inletTemperature, 0.4, 17, 30);
+      server.diskUsage = randomWalk(server.diskUsage, 0.2, 5, 99);
+      server.diskIops = randomWalk(server.diskIops, 800, 0, 15000);
+      server.networkIn = randomWalk(server.networkIn, 100, 0, 9000);
+      server.networkOut = randomWalk(server.networkOut, 80, 0, 9000);
+    });
+  }
+
+  private createSamples(): TelemetrySample[] {
+    const timestamp = Date.now();
+    return [...this.servers].map(([id, server]) => ({
+      id,
+      timestamp,
+      ...server,
+      powerW: 150 + server.cpuUsage * 3.5,
+      fanRpm: 3000 + Math.max(0, server.temperature - 25) * 400,
+      outletTemperature: server.inletTemperature + 5 + server.cpuUsage * 0.12,
+    }));
+  }
+}
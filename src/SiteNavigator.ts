@@ -0,0 +1,174 @@
+import { BuildingLayout, DataCenterLayout, FloorLayout, SiteLayout, getLayoutDevices, getSites } from './Layout';
+import { ServerStatus } from './ServerStatus';
+import { t } from './I18n';
+import { palette } from './Palette';
+import { escapeHtml } from './Html';
+
+interface Health {
+  warning: number;
+  error: number;
+}
+
+interface RoomPath {
+  site: SiteLayout;
+  building: BuildingLayout;
+  floor: FloorLayout;
+}
+
+// 健康统计的刷新间隔（毫秒），避免状态频繁变化时反复重绘
+const HEALTH_REFRESH_MS = 500;
+
+/**
+ * 站点导航：站点 → 楼栋 → 楼层 → 机房的树形列表和当前位置的面包屑，
+ * 每个节点显示其下告警/故障服务器数量，点击机房切换场景
+ */
+export class SiteNavigator {
+  private element: HTMLElement;
+  private breadcrumb: HTMLElement;
+  private sites: SiteLayout[];
+  private roomNames: Map<string, string> = new Map();
+  private roomPaths: Map<string, RoomPath> = new Map();
+  private roomDevices: Map<string, string[]> = new Map();
+  private currentRoomId: string | null = null;
+  private refreshTimer: number | null = null;
+  private unsubscribe: () => void;
+
+  constructor(
+    container: HTMLElement,
+    layout: DataCenterLayout,
+    private readonly serverStatus: ServerStatus,
+    private readonly onSelectRoom: (roomId: string) => void
+  ) {
+    this.sites = getSites(layout);
+    layout.rooms.forEach(room => this.roomNames.set(room.id, room.name));
+    this.indexDevices(layout);
+    this.sites.forEach(site => site.buildings.forEach(building => building.floors.forEach(floor => {
+      floor.rooms.forEach(roomId => this.roomPaths.set(roomId, { site, building, floor }));
+    })));
+
+    this.element = document.createElement('div');
+    this.element.id = 'navigator';
+    this.element.innerHTML = `
+      <div data-role="breadcrumb" style="margin-bottom: 6px; color: #cccccc;"></div>
+      <div data-role="tree" style="max-height: 30vh; overflow-y: auto;">
+        ${this.sites.map(site => this.renderSite(site)).join('')}
+      </div>
+    `;
+    container.appendChild(this.element);
+    this.breadcrumb = this.element.querySelector('[data-role="breadcrumb"]') as HTMLElement;
+
+    this.element.addEventListener('click', this.handleClick.bind(this));
+    const unsubscribeStatus = this.serverStatus.on('statusChanged', () => this.scheduleRefresh());
+    const unsubscribePalette = palette.on('changed', () => this.scheduleRefresh());
+    this.unsubscribe = () => {
+      unsubscribeStatus();
+      unsubscribePalette();
+    };
+    this.refreshHealth();
+  }
+
+  // 布局编辑增删设备后重新统计各机房的健康状态
+  public setLayout(layout: DataCenterLayout): void {
+    this.indexDevices(layout);
+    this.refreshHealth();
+  }
+
+  public setCurrentRoom(roomId: string): void {
+    this.currentRoomId = roomId;
+    this.element.querySelectorAll<HTMLElement>('[data-room-id]').forEach(item => {
+      const current = item.dataset.roomId === roomId;
+      item.style.background = current ? '#2a6fdb' : 'transparent';
+      item.setAttribute('aria-current', String(current));
+    });
+
+    const path = this.roomPaths.get(roomId);
+    this.breadcrumb.textContent = path
+      ? [path.site.name ?? path.site.id, path.building.name ?? path.building.id, path.floor.name ?? path.floor.id,
+        this.roomNames.get(roomId) ?? roomId].join(' › ')
+      : this.roomNames.get(roomId) ?? roomId;
+  }
+
+  public dispose(): void {
+    this.unsubscribe();
+    if (this.refreshTimer !== null) window.clearTimeout(this.refreshTimer);
+    this.element.remove();
+  }
+
+  private renderSite(site: SiteLayout): string {
+    return `
+      <details open>
+        <summary>${escapeHtml(site.name ?? site.id)} <span data-health="site:${escapeHtml(site.id)}"></span></summary>
+        ${site.buildings.map(building => `
+          <details open style="margin-left: 12px;">
+            <summary>${escapeHtml(building.name ?? building.id)} <span data-health="building:${escapeHtml(building.id)}"></span></summary>
+            ${building.floors.map(floor => `
+              <details open style="margin-left: 12px;">
+                <summary>${escapeHtml(floor.name ?? floor.id)} <span data-health="floor:${escapeHtml(floor.id)}"></span></summary>
+                ${floor.rooms.map(roomId => `
+                  <div data-room-id="${escapeHtml(roomId)}" style="margin-left: 16px; padding: 1px 4px; border-radius: 3px; cursor: pointer;">
+                    ${escapeHtml(this.roomNames.get(roomId) ?? roomId)} <span data-health="room:${escapeHtml(roomId)}"></span>
+                  </div>
+                `).join('')}
+              </details>
+            `).join('')}
+          </details>
+        `).join('')}
+      </details>
+    `;
+  }
+
+  private handleClick(event: MouseEvent): void {
+    const item = (event.target as HTMLElement).closest<HTMLElement>('[data-room-id]');
+    const roomId = item?.dataset.roomId;
+    if (roomId && roomId !== this.currentRoomId) {
+      this.onSelectRoom(roomId);
+    }
+  }
+
+  private indexDevices(layout: DataCenterLayout): void {
+    this.roomDevices.clear();
+    getLayoutDevices(layout).forEach(device => {
+      this.roomDevices.set(device.roomId, [...(this.roomDevices.get(device.roomId) ?? []), device.id]);
+    });
+  }
+
+  private scheduleRefresh(): void {
+    if (this.refreshTimer !== null) return;
+    this.refreshTimer = window.setTimeout(() => {
+      this.refreshTimer = null;
+      this.refreshHealth();
+    }, HEALTH_REFRESH_MS);
+  }
+
+  // 按机房统计告警/故障服务器数量，再逐级汇总到楼层、楼栋和站点
+  private refreshHealth(): void {
+    const totals = new Map<string, Health>();
+    const add = (key: string, health: Health) => {
+      const total = totals.get(key) ?? { warning: 0, error: 0 };
+      total.warning += health.warning;
+      total.error += health.error;
+      totals.set(key, total);
+    };
+
+    this.roomPaths.forEach((path, roomId) => {
+      const health: Health = { warning: 0, error: 0 };
+      (this.roomDevices.get(roomId) ?? []).forEach(serverId => {
+        const status = this.serverStatus.getServerData(serverId)?.status;
+        if (status === 'warning') health.warning++;
+        if (status === 'error') health.error++;
+      });
+      add(`room:${roomId}`, health);
+      add(`floor:${path.floor.id}`, health);
+      add(`building:${path.building.id}`, health);
+      add(`site:${path.site.id}`, health);
+    });
+
+    this.element.querySelectorAll<HTMLElement>('[data-health]').forEach(badge => {
+      const health = totals.get(badge.dataset.health ?? '') ?? { warning: 0, error: 0 };
+      badge.innerHTML = [
+        health.error > 0 ? `<span style="color: ${palette.statusColor('error')};" title="${t('status.error')}">● ${health.error}</span>` : '',
+        health.warning > 0 ? `<span style="color: ${palette.statusColor('warning')};" title="${t('status.warning')}">● ${health.warning}</span>` : '',
+      ].join(' ');
+    });
+  }
+}
@@ -0,0 +1,40 @@
+import { HistoryPoint } from './MetricHistory';
+
+export interface SparklineOptions {
+  width?: number;
+  height?: number;
+  color?: string;
+  min?: number; // 纵轴范围，默认取数据的最小/最大值
+  max?: number;
+}
+
+/**
+ * 生成迷你折线图的 SVG 字符串
+ */
+export function renderSparkline(points: HistoryPoint[], options: SparklineOptions = {}): string {
+  const { width = 160, height = 30, color = '#44aaff' } = options;
+  if (points.length < 2) {
+    return `<svg width="${width}" height="${height}"></svg>`;
+  }
+
+  const values = points.map(point => point.value);
+  const min = options.min ?? Math.min(...values);
+  const max = options.max ?? Math.max(...values);
+  const range = max - min || 1;
+  const startTime = points[0].time;
+  const duration = points[points.length - 1].time - startTime || 1;
+
+  const coordinates = points.map(point => {
+    const x = ((point.time - startTime) / duration) * width;
+    const y = height - 2 - ((point.value - min) / range) * (height - 4);
+    return `${x.toFixed(1)},${y.toFixed(1)}`;
+  });
+  const last = coordinates[coordinates.length - 1].split(',');
+
+  return `
+    <svg width="${width}" height="${height}" style="display: block;">
+      <polyline points="${coordinates.join(' ')}" fill="none" stroke="${color}" stroke-width="1.5" />
+      <circle cx="${last[0]}" cy="${last[1]}" r="2" fill="${color}" />
+    </svg>
+  `;
+}
@@ -0,0 +1,82 @@
+import * as THREE from 'three';
+import { DataCenter } from './DataCenter';
+import { i18n, t } from './I18n';
+
+// 统计数据刷新间隔（毫秒）
+const REFRESH_MS = 500;
+
+/**
+ * 性能统计面板：帧率、帧时间、绘制调用次数与细节层级情况
+ */
+export class StatsOverlay {
+  private element: HTMLElement;
+  private visible = false;
+  private frames = 0;
+  private frameTimeSum = 0;
+  private maxFrameTime = 0;
+  private lastFrame = 0;
+  private lastRefresh = 0;
+
+  constructor(
+    container: HTMLElement,
+    private readonly renderer: THREE.WebGLRenderer,
+    private dataCenter: DataCenter
+  ) {
+    this.element = document.createElement('div');
+    this.element.id = 'stats';
+    this.element.style.display = 'none';
+    container.appendChild(this.element);
+  }
+
+  public setDataCenter(dataCenter: DataCenter): void {
+    this.dataCenter = dataCenter;
+  }
+
+  public setVisible(visible: boolean): void {
+    this.visible = visible;
+    this.element.style.display = visible ? 'block' : 'none';
+    this.frames = 0;
+    this.frameTimeSum = 0;
+    this.maxFrameTime = 0;
+    this.lastFrame = 0;
+    this.lastRefresh = performance.now();
+  }
+
+  // 每帧渲染后调用；renderer.info 保存的是最近一次渲染的数据
+  public update(time: number): void {
+    if (!this.visible) return;
+    if (this.lastFrame > 0) {
+      const frameTime = time - this.lastFrame;
+      this.frames++;
+      this.frameTimeSum += frameTime;
+      this.maxFrameTime = Math.max(this.maxFrameTime, frameTime);
+    }
+    this.lastFrame = time;
+
+    if (time - this.lastRefresh < REFRESH_MS || this.frames === 0) return;
+    this.render(time);
+    this.frames = 0;
+    this.frameTimeSum = 0;
+    this.maxFrameTime = 0;
+    this.lastRefresh = time;
+  }
+
+  public dispose(): void {
+    this.element.remove();
+  }
+
+  private render(time: number): void {
+    const fps = this.frames * 1000 / (time - this.lastRefresh);
+    const averageFrameTime = this.frameTimeSum / this.frames;
+    const info = this.renderer.info;
+    const stats = this.dataCenter.getRenderStats();
+    this.element.innerHTML = `
+      <p>${t('stats.fps', { fps: i18n.formatNumber(fps) })}</p>
+      <p>${t('stats.frameTime', { avg: i18n.formatNumber(averageFrameTime, 1), max: i18n.formatNumber(this.maxFrameTime, 1) })}</p>
+      <p>${t('stats.drawCalls', { calls: i18n.formatNumber(info.render.calls) })}</p>
+      <p>${t('stats.triangles', { triangles: i18n.formatNumber(info.render.triangles) })}</p>
+      <p>${t('stats.racks', { racks: stats.racks, detailed: stats.detailedRacks })}</p>
+      <p>${t('stats.servers', { servers: stats.servers })}</p>
+    `;
+  }
+}
@@ -0,0 +1,57 @@
+import { FieldMapping, TelemetryAuth, TelemetrySource } from './TelemetrySource';
+import { SimulatedTelemetrySource } from './SimulatedTelemetrySource';
+import { RestTelemetrySource } from './RestTelemetrySource';
+import { WebSocketTelemetrySource } from './WebSocketTelemetrySource';
+import { t } from './I18n';
+
+interface CommonTelemetryConfig {
+  staleAfterMs?: number;
+  tickMs?: number; // 数据节拍间隔，与渲染帧率无关
+}
+
+export type TelemetryConfig = CommonTelemetryConfig & (
+  | { type: 'simulator'; intervalMs?: number }
+  | {
+      type: 'rest';
+      url: string;
+      intervalMs?: number;
+      timeoutMs?: number;
+      auth?: TelemetryAuth;
+      mapping?: FieldMapping;
+    }
+  | {
+      type: 'websocket';
+      url: string;
+      protocols?: string | string[];
+      auth?: TelemetryAuth;
+      mapping?: FieldMapping;
+    }
+);
+
+export const DEFAULT_TELEMETRY_CONFIG: TelemetryConfig = { type: 'simulator' };
+
+export function createTelemetrySource(config: TelemetryConfig, serverIds: string[]): TelemetrySource {
+  switch (config.type) {
+    case 'simulator':
+      return new SimulatedTelemetrySource(serverIds, config.intervalMs);
+    case 'rest':
+      return new RestTelemetrySource(config);
+    case 'websocket':
+      return new WebSocketTelemetrySource(config);
+  }
+}
+
+export async function loadTelemetryConfig(url: string): Promise<TelemetryConfig> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(t('telemetry.configLoadFailed', { url, status: `${response.status} ${response.statusText}` }));
+  }
+  const config = await response.json();
+  if (!config || !['simulator', 'rest', 'websocket'].includes(config.type)) {
+    throw new Error(t('telemetry.configTypeInvalid', { url }));
+  }
+  if (config.type !== 'simulator' && typeof config.url !== 'string') {
+    throw new Error(t('telemetry.configUrlMissing', { url }));
+  }
+  return config as TelemetryConfig;
+}
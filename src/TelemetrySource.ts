@@ -0,0 +1,154 @@
+import { METRIC_KEYS, MetricKey, MetricValues } from './Metrics';
+
+export type ConnectionState = 'idle' | 'connecting' | 'connected' | 'reconnecting' | 'disconnected';
+
+export const CONNECTION_STATE_COLORS: Record<ConnectionState, string> = {
+  idle: '#999999',
+  connecting: '#ffaa00',
+  connected: '#44ff44',
+  reconnecting: '#ffaa00',
+  disconnected: '#ff4444',
+};
+
+// 单台服务器的一次遥测采样，未上报的指标保持原值
+export interface TelemetrySample extends MetricValues {
+  id: string;
+  timestamp?: number;
+}
+
+export type TelemetryListener = (samples: TelemetrySample[]) => void;
+export type ConnectionStateListener = (state: ConnectionState, error?: unknown) => void;
+
+export interface TelemetrySource {
+  readonly name: string;
+  readonly state: ConnectionState;
+  start(onSamples: TelemetryListener): void;
+  stop(): void;
+  onStateChange(listener: ConnectionStateListener): () => void;
+}
+
+/**
+ * 原始数据字段到 TelemetrySample 的映射，值为点分路径（如 "metrics.cpu"）；
+ * 每个已注册指标都可以映射
+ */
+export interface FieldMapping extends Partial<Record<MetricKey, string>> {
+  records?: string; // 记录数组所在路径，留空表示数据本身即为数组
+  id: string;
+  timestamp?: string;
+}
+
+// 默认按指标名读取同名字段
+export const DEFAULT_FIELD_MAPPING: FieldMapping = {
+  id: 'id',
+  timestamp: 'timestamp',
+  ...Object.fromEntries(METRIC_KEYS.map(metric => [metric, metric])),
+};
+
+export interface TelemetryAuth {
+  value: string;
+  header?: string; // REST 请求头名称，默认 Authorization
+  queryParam?: string; // 通过查询参数传递（WebSocket 只能使用此方式）
+}
+
+function readPath(source: unknown, path: string): unknown {
+  return path.split('.').reduce<unknown>((value, key) => {
+    if (typeof value === 'object' && value !== null) {
+      return (value as Record<string, unknown>)[key];
+    }
+    return undefined;
+  }, source);
+}
+
+function readNumber(record: unknown, path?: string): number | undefined {
+  if (!path) return undefined;
+  // 未上报的字段（null、空字符串等）不能当作 0，只接受数字和数字字符串
+  const raw = readPath(record, path);
+  if (typeof raw !== 'number' && (typeof raw !== 'string' || raw.trim() === '')) return undefined;
+  const value = Number(raw);
+  return Number.isFinite(value) ? value : undefined;
+}
+
+function readTimestamp(record: unknown, path?: string): number | undefined {
+  if (!path) return undefined;
+  const value = readPath(record, path);
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string') {
+    const time = Date.parse(value);
+    return Number.isNaN(time) ? undefined : time;
+  }
+  return undefined;
+}
+
+/**
+ * 按字段映射将接口返回的数据转换为遥测采样，无法识别ID的记录会被忽略
+ */
+export function mapPayload(payload: unknown, mapping: FieldMapping = DEFAULT_FIELD_MAPPING): TelemetrySample[] {
+  const records = mapping.records ? readPath(payload, mapping.records) : payload;
+  const list = Array.isArray(records) ? records : [records];
+  const samples: TelemetrySample[] = [];
+  list.forEach(record => {
+    const id = readPath(record, mapping.id);
+    if (typeof id !== 'string' && typeof id !== 'number') return;
+    const sample: TelemetrySample = { id: String(id), timestamp: readTimestamp(record, mapping.timestamp) };
+    METRIC_KEYS.forEach(metric => {
+      sample[metric] = readNumber(record, mapping[metric]);
+    });
+    samples.push(sample);
+  });
+  return samples;
+}
+
+export function appendAuthQuery(url: string, auth?: TelemetryAuth, defaultParam?: string): string {
+  const param = auth?.queryParam ?? defaultParam;
+  if (!auth || !param) return url;
+  const parsed = new URL(url, window.location.href);
+  parsed.searchParams.set(param, auth.value);
+  return parsed.toString();
+}
+
+/**
+ * 指数退避计时，带随机抖动避免多个客户端同时重连
+ */
+export class Backoff {
+  private attempt = 0;
+
+  constructor(
+    private readonly initialMs: number = 1000,
+    private readonly maxMs: number = 30000,
+    private readonly factor: number = 2
+  ) {}
+
+  public next(): number {
+    const delay = Math.min(this.maxMs, this.initialMs * Math.pow(this.factor, this.attempt));
+    this.attempt++;
+    return delay * (0.8 + Math.random() * 0.4);
+  }
+
+  public reset(): void {
+    this.attempt = 0;
+  }
+}
+
+export abstract class BaseTelemetrySource implements TelemetrySource {
+  public abstract readonly name: string;
+  private currentState: ConnectionState = 'idle';
+  private stateListeners: Set<ConnectionStateListener> = new Set();
+
+  public get state(): ConnectionState {
+    return this.currentState;
+  }
+
+  public abstract start(onSamples: TelemetryListener): void;
+  public abstract stop(): void;
+
+  public onStateChange(listener: ConnectionStateListener): () => void {
+    this.stateListeners.add(listener);
+    return () => this.stateListeners.delete(listener);
+  }
+
+  protected setState(state: ConnectionState, error?: unknown): void {
+    if (state === this.currentState && error === undefined) return;
+    this.currentState = state;
+    this.stateListeners.forEach(listener => listener(state, error));
+  }
+}
@@ -0,0 +1,37 @@
+/**
+ * 顶部工具栏：各功能模块在此注册按钮、开关和自定义控件
+ */
+export class Toolbar {
+  private element: HTMLElement;
+
+  constructor(container: HTMLElement) {
+    this.element = document.createElement('div');
+    this.element.id = 'toolbar';
+    container.appendChild(this.element);
+  }
+
+  public addButton(label: string, onClick: () => void): HTMLButtonElement {
+    const button = document.createElement('button');
+    button.textContent = label;
+    button.addEventListener('click', onClick);
+    this.element.appendChild(button);
+    return button;
+  }
+
+  public addToggle(label: string, onChange: (active: boolean) => void, initial: boolean = false): HTMLButtonElement {
+    const button = document.createElement('button');
+    button.textContent = label;
+    button.setAttribute('aria-pressed', String(initial));
+    button.addEventListener('click', () => {
+      const active = button.getAttribute('aria-pressed') !== 'true';
+      button.setAttribute('aria-pressed', String(active));
+      onChange(active);
+    });
+    this.element.appendChild(button);
+    return button;
+  }
+
+  public addElement(element: HTMLElement): void {
+    this.element.appendChild(element);
+  }
+}
@@ -0,0 +1,264 @@
+import { EventEmitter } from './EventEmitter';
+import { InfrastructureType, RoomLayout, TopologyLayout, TopologyLinkLayout, TopologyNodeLayout, getRoomRacks } from './Layout';
+import { ServerData, ServerStatus } from './ServerStatus';
+import { t } from './I18n';
+
+export type TopologyStatus = 'normal' | 'degraded' | 'failed';
+
+export interface TopologyState {
+  status: TopologyStatus;
+  utilization: number; // 0-1
+  failed: boolean; // 人工标记或外部上报的故障
+}
+
+export interface TopologyImpact {
+  nodes: string[];
+  links: string[];
+  racks: string[];
+  servers: string[];
+}
+
+export interface TopologyEvents {
+  changed: [];
+}
+
+// 利用率达到该值视为高负载
+const DEGRADED_UTILIZATION = 0.9;
+
+/**
+ * 布局未定义拓扑时按机柜排生成：每排一台接入交换机和一个 PDU，
+ * 汇聚到一台核心交换机，机房两侧各一台精密空调
+ */
+export function createDefaultTopology(room: RoomLayout): TopologyLayout {
+  const racks = getRoomRacks(room);
+  const nodes: TopologyNodeLayout[] = [];
+  const links: TopologyLinkLayout[] = [];
+  if (racks.length === 0) return { nodes, links };
+
+  const minZ = Math.min(...racks.map(rack => rack.position.z));
+  nodes.push(
+    { id: 'fp-main', kind: 'fiberPanel', name: t('topology.defaultFiberPanel'), position: { x: -1.5, z: minZ - 4.5 } },
+    { id: 'sw-core', kind: 'switch', name: t('topology.defaultCoreSwitch'), position: { x: 0, z: minZ - 4.5 } },
+    { id: 'crac-1', kind: 'crac', name: t('topology.defaultCrac', { index: 1 }), position: { x: -room.width / 2 + 1.5, z: 0 } },
+    { id: 'crac-2', kind: 'crac', name: t('topology.defaultCrac', { index: 2 }), position: { x: room.width / 2 - 1.5, z: 0 } }
+  );
+  links.push({ id: 'fiber-main-core', type: 'fiber', from: 'fp-main', to: 'sw-core' });
+
+  room.rows.forEach(row => {
+    if (row.racks.length === 0) return;
+    const first = row.racks[0];
+    const rowName = row.name ?? row.id;
+    const switchId = `sw-${row.id}`;
+    const pduId = `pdu-${row.id}`;
+    nodes.push(
+      { id: switchId, kind: 'switch', name: t('topology.defaultAccessSwitch', { row: rowName }), position: { x: first.position.x - 0.35, z: minZ - 2 } },
+      { id: pduId, kind: 'pdu', name: t('topology.defaultPdu', { row: rowName }), position: { x: first.position.x + 0.35, z: minZ - 2 } }
+    );
+    links.push({ id: `fiber-core-${row.id}`, type: 'fiber', from: 'sw-core', to: switchId });
+    row.racks.forEach(rack => {
+      links.push(
+        { id: `net-${rack.id}`, type: 'network', from: switchId, to: rack.id },
+        { id: `power-${rack.id}`, type: 'power', from: pduId, to: rack.id },
+        { id: `cooling-${rack.id}`, type: 'cooling', from: rack.position.x < 0 ? 'crac-1' : 'crac-2', to: rack.id }
+      );
+    });
+  });
+
+  return { nodes, links };
+}
+
+/**
+ * 基础设施拓扑：节点（交换机、PDU、空调、配线架）通过有向连接供给机柜。
+ * 利用率由下游服务器指标估算，故障沿连接向下游传播
+ */
+export class TopologyModel extends EventEmitter<TopologyEvents> {
+  private nodes: Map<string, TopologyNodeLayout> = new Map();
+  private links: Map<string, TopologyLinkLayout> = new Map();
+  private outgoing: Map<string, TopologyLinkLayout[]> = new Map();
+  private incoming: Map<string, TopologyLinkLayout[]> = new Map();
+  private rackDevices: Map<string, string[]> = new Map();
+  private states: Map<string, TopologyState> = new Map();
+  private failed: Set<string> = new Set();
+
+  constructor(room: RoomLayout, private readonly serverStatus: ServerStatus) {
+    super();
+    const topology = room.topology ?? createDefaultTopology(room);
+    topology.nodes.forEach(node => this.nodes.set(node.id, node));
+    topology.links.forEach(link => {
+      this.links.set(link.id, link);
+      this.outgoing.set(link.from, [...(this.outgoing.get(link.from) ?? []), link]);
+      this.incoming.set(link.to, [...(this.incoming.get(link.to) ?? []), link]);
+    });
+    getRoomRacks(room).forEach(rack => {
+      this.rackDevices.set(rack.id, rack.devices.map(device => device.id));
+    });
+    this.refresh();
+  }
+
+  public getNodes(): TopologyNodeLayout[] {
+    return [...this.nodes.values()];
+  }
+
+  public getLinks(): TopologyLinkLayout[] {
+    return [...this.links.values()];
+  }
+
+  public getNode(id: string): TopologyNodeLayout | undefined {
+    return this.nodes.get(id);
+  }
+
+  public getLink(id: string): TopologyLinkLayout | undefined {
+    return this.links.get(id);
+  }
+
+  public getState(id: string): TopologyState | undefined {
+    return this.states.get(id);
+  }
+
+  // 机柜的供给连接，用于显示“该机柜由哪些设备供电/制冷/联网”
+  public getRackFeeds(rackId: string): TopologyLinkLayout[] {
+    return this.incoming.get(rackId) ?? [];
+  }
+
+  /**
+   * 标记节点或连接故障（或恢复），下游状态随之更新
+   */
+  public setFailed(id: string, failed: boolean): void {
+    if (!this.nodes.has(id) && !this.links.has(id)) return;
+    if (failed) {
+      this.failed.add(id);
+    } else {
+      this.failed.delete(id);
+    }
+    this.refresh();
+  }
+
+  public isFailed(id: string): boolean {
+    return this.failed.has(id);
+  }
+
+  /**
+   * 返回节点或连接下游受影响的全部节点、连接、机柜和服务器（故障影响范围）
+   */
+  public getDownstream(id: string): TopologyImpact {
+    const impact: TopologyImpact = { nodes: [], links: [], racks: [], servers: [] };
+    const visited = new Set<string>();
+    const visitLink = (link: TopologyLinkLayout) => {
+      if (visited.has(link.id)) return;
+      visited.add(link.id);
+      impact.links.push(link.id);
+      visitEndpoint(link.to);
+    };
+    const visitEndpoint = (endpoint: string) => {
+      if (visited.has(endpoint)) return;
+      visited.add(endpoint);
+      const devices = this.rackDevices.get(endpoint);
+      if (devices) {
+        impact.racks.push(endpoint);
+        impact.servers.push(...devices);
+        return;
+      }
+      impact.nodes.push(endpoint);
+      this.outgoing.get(endpoint)?.forEach(visitLink);
+    };
+
+    const link = this.links.get(id);
+    if (link) {
+      visitLink(link);
+    } else if (this.nodes.has(id)) {
+      visited.add(id);
+      this.outgoing.get(id)?.forEach(visitLink);
+    }
+    return impact;
+  }
+
+  /**
+   * 根据当前服务器数据重新计算所有节点和连接的利用率与状态，有变化时发出 changed
+   */
+  public refresh(): void {
+    const utilization = new Map<string, number>();
+    const effectiveFailure = new Map<string, boolean>();
+
+    // 节点的全部上游连接都故障时，节点视为失效
+    const isEndpointFailed = (id: string, visiting: Set<string>): boolean => {
+      if (effectiveFailure.has(id)) return effectiveFailure.get(id)!;
+      if (visiting.has(id)) return false;
+      visiting.add(id);
+      const feeds = this.incoming.get(id) ?? [];
+      const failed = this.failed.has(id) ||
+        (this.nodes.has(id) && feeds.length > 0 && feeds.every(link => isLinkFailed(link, visiting)));
+      effectiveFailure.set(id, failed);
+      return failed;
+    };
+    const isLinkFailed = (link: TopologyLinkLayout, visiting: Set<string>): boolean =>
+      this.failed.has(link.id) || isEndpointFailed(link.from, visiting);
+
+    const getLinkUtilization = (link: TopologyLinkLayout, visiting: Set<string>): number => {
+      const cached = utilization.get(link.id);
+      if (cached !== undefined) return cached;
+      const value = this.rackDevices.has(link.to)
+        ? this.getRackUtilization(link.to, link.type)
+        : getNodeUtilization(link.to, visiting);
+      utilization.set(link.id, value);
+      return value;
+    };
+    const getNodeUtilization = (id: string, visiting: Set<string>): number => {
+      const cached = utilization.get(id);
+      if (cached !== undefined) return cached;
+      if (visiting.has(id)) return 0;
+      visiting.add(id);
+      const links = this.outgoing.get(id) ?? [];
+      const value = links.length > 0
+        ? links.reduce((sum, link) => sum + getLinkUtilization(link, visiting), 0) / links.length
+        : 0;
+      utilization.set(id, value);
+      return value;
+    };
+
+    let changed = false;
+    const update = (id: string, failed: boolean, value: number) => {
+      const status: TopologyStatus = failed ? 'failed' : value >= DEGRADED_UTILIZATION ? 'degraded' : 'normal';
+      const previous = this.states.get(id);
+      const next: TopologyState = { status, utilization: value, failed: this.failed.has(id) };
+      if (!previous || previous.status !== status || previous.failed !== next.failed ||
+        Math.abs(previous.utilization - value) > 0.005) {
+        changed = true;
+      }
+      this.states.set(id, next);
+    };
+
+    this.nodes.forEach((_node, id) => {
+      update(id, isEndpointFailed(id, new Set()), getNodeUtilization(id, new Set()));
+    });
+    this.links.forEach((link, id) => {
+      update(id, isLinkFailed(link, new Set()), getLinkUtilization(link, new Set()));
+    });
+
+    if (changed) this.emit('changed');
+  }
+
+  // 按连接类型从机柜内服务器指标估算利用率
+  private getRackUtilization(rackId: string, type: InfrastructureType): number {
+    const servers = (this.rackDevices.get(rackId) ?? [])
+      .map(id => this.serverStatus.getServerData(id))
+      .filter((data): data is ServerData => !!data && data.lastUpdate > 0 && !data.stale);
+    if (servers.length === 0) return 0;
+    const average = (value: (data: ServerData) => number) =>
+      servers.reduce((sum, data) => sum + value(data), 0) / servers.length;
+
+    switch (type) {
+      case 'power':
+        // 服务器空载约占满载功耗的30%
+        return average(data => 0.3 + 0.7 * data.cpuUsage / 100);
+      case 'cooling':
+        return Math.min(1, Math.max(0, average(data => (data.temperature - 20) / 25)));
+      case 'network':
+      case 'fiber':
+        return average(data => data.cpuUsage / 100);
+    }
+  }
+
+  public dispose(): void {
+    this.removeAllListeners();
+  }
+}
@@ -0,0 +1,199 @@
+import * as THREE from 'three';
+import { INFRASTRUCTURE_TYPES, InfrastructureType, RoomLayout, TOPOLOGY_NODE_KINDS, TopologyNodeLayout, getRoomRacks } from './Layout';
+import { TopologyModel, TopologyStatus } from './Topology';
+import { createInstanceAttribute, enableInstanceOpacity } from './InstancedMaterials';
+
+interface InfrastructureStyle {
+  color: number;
+  width: number;
+}
+
+const INFRASTRUCTURE_STYLES: Record<InfrastructureType, InfrastructureStyle> = {
+  network: { color: 0x4287f5, width: 0.03 }, // 蓝色网线
+  power: { color: 0xff4444, width: 0.05 }, // 红色电源线
+  cooling: { color: 0x42f5aa, width: 0.08 }, // 青色冷却管道
+  fiber: { color: 0xf542f5, width: 0.02 }, // 紫色光纤
+};
+
+// 节点外形尺寸（宽、高、深）及其对应的线路类型颜色
+const NODE_SHAPES: Record<TopologyNodeLayout['kind'], { size: [number, number, number]; type: InfrastructureType }> = {
+  switch: { size: [0.5, 0.8, 0.5], type: 'network' },
+  pdu: { size: [0.4, 1.2, 0.3], type: 'power' },
+  crac: { size: [1.2, 1.8, 0.8], type: 'cooling' },
+  fiberPanel: { size: [0.6, 0.6, 0.3], type: 'fiber' },
+};
+
+// 状态颜色与原色的混合比例
+const STATUS_TINT: Record<TopologyStatus, { color: number; amount: number }> = {
+  normal: { color: 0x000000, amount: 0 },
+  degraded: { color: 0xffaa00, amount: 0.5 },
+  failed: { color: 0xff0000, amount: 1 },
+};
+const HIGHLIGHT_TINT = { color: 0xffff00, amount: 0.6 };
+
+const UNDERFLOOR_Y = -0.15;
+const UP = new THREE.Vector3(0, 1, 0);
+
+interface InstanceRef {
+  mesh: THREE.InstancedMesh;
+  index: number;
+  color: number;
+}
+
+interface Segment {
+  id: string;
+  start: THREE.Vector3;
+  end: THREE.Vector3;
+}
+
+const _color = new THREE.Color();
+const _tint = new THREE.Color();
+const _matrix = new THREE.Matrix4();
+const _quaternion = new THREE.Quaternion();
+
+/**
+ * 拓扑的三维表示：节点为设备箱体，连接为地板下按直角走线的管线，
+ * 颜色表示线路类型，叠加的色调表示状态。每种节点和线路类型各用一个 InstancedMesh
+ */
+export class TopologyView extends THREE.Group {
+  private instances: Map<string, InstanceRef[]> = new Map();
+  private meshIds: Map<THREE.InstancedMesh, string[]> = new Map();
+  private opacity: Map<THREE.InstancedMesh, THREE.InstancedBufferAttribute> = new Map();
+  private pickables: THREE.InstancedMesh[] = [];
+  private highlighted: Set<string> | null = null;
+  private unsubscribe: () => void;
+
+  constructor(private readonly model: TopologyModel, room: RoomLayout) {
+    super();
+    const endpoints = new Map<string, THREE.Vector3>();
+    getRoomRacks(room).forEach(rack => endpoints.set(rack.id, new THREE.Vector3(rack.position.x, 0, rack.position.z)));
+    const nodes = model.getNodes();
+    nodes.forEach(node => endpoints.set(node.id, new THREE.Vector3(node.position.x, 0, node.position.z)));
+
+    TOPOLOGY_NODE_KINDS.forEach(kind => {
+      this.createNodes(nodes.filter(node => node.kind === kind), kind);
+    });
+
+    const segments = new Map<InfrastructureType, Segment[]>(INFRASTRUCTURE_TYPES.map(type => [type, []]));
+    model.getLinks().forEach(link => {
+      const from = endpoints.get(link.from);
+      const to = endpoints.get(link.to);
+      if (from && to) segments.get(link.type)!.push(...this.routeLink(link.id, link.type, from, to));
+    });
+    segments.forEach((list, type) => this.createPipes(list, type));
+
+    this.unsubscribe = model.on('changed', () => this.refresh());
+    this.refresh();
+  }
+
+  public dispose(): void {
+    this.unsubscribe();
+    this.pickables.forEach(mesh => {
+      mesh.geometry.dispose();
+      (mesh.material as THREE.Material).dispose();
+      mesh.dispose();
+    });
+  }
+
+  // 返回命中的节点或连接 ID 及距离
+  public pick(raycaster: THREE.Raycaster): { id: string; distance: number } | null {
+    const hit = raycaster.intersectObjects(this.pickables, false)[0];
+    if (!hit || hit.instanceId === undefined) return null;
+    const id = this.meshIds.get(hit.object as THREE.InstancedMesh)?.[hit.instanceId];
+    return id ? { id, distance: hit.distance } : null;
+  }
+
+  /**
+   * 突出显示一组节点和连接，其余元素半透明；传入 null 取消
+   */
+  public setHighlight(ids: Set<string> | null): void {
+    this.highlighted = ids;
+    this.refresh();
+  }
+
+  private createNodes(nodes: TopologyNodeLayout[], kind: TopologyNodeLayout['kind']): void {
+    if (nodes.length === 0) return;
+    const shape = NODE_SHAPES[kind];
+    const [width, height, depth] = shape.size;
+    const mesh = this.createInstancedMesh(new THREE.BoxGeometry(width, height, depth), nodes.length);
+    nodes.forEach((node, index) => {
+      _matrix.makeTranslation(node.position.x, height / 2, node.position.z);
+      mesh.setMatrixAt(index, _matrix);
+      this.register(node.id, mesh, index, INFRASTRUCTURE_STYLES[shape.type].color);
+    });
+  }
+
+  private createPipes(segments: Segment[], type: InfrastructureType): void {
+    if (segments.length === 0) return;
+    const style = INFRASTRUCTURE_STYLES[type];
+    // 单位圆柱沿 y 轴，按线段长度缩放后旋转到线段方向
+    const mesh = this.createInstancedMesh(new THREE.CylinderGeometry(1, 1, 1, 8, 1), segments.length);
+    const direction = new THREE.Vector3();
+    const middle = new THREE.Vector3();
+    const scale = new THREE.Vector3();
+    segments.forEach((segment, index) => {
+      direction.subVectors(segment.end, segment.start);
+      const length = direction.length();
+      _quaternion.setFromUnitVectors(UP, direction.normalize());
+      middle.addVectors(segment.start, segment.end).multiplyScalar(0.5);
+      _matrix.compose(middle, _quaternion, scale.set(style.width, length, style.width));
+      mesh.setMatrixAt(index, _matrix);
+      this.register(segment.id, mesh, index, style.color);
+    });
+  }
+
+  // 从起点下到地板下，先沿 x 再沿 z 走线，最后升到终点；不同类型的线路错开位置和高度
+  private routeLink(id: string, type: InfrastructureType, from: THREE.Vector3, to: THREE.Vector3): Segment[] {
+    const index = INFRASTRUCTURE_TYPES.indexOf(type);
+    const offset = -0.15 + index * 0.1;
+    const y = UNDERFLOOR_Y - index * 0.02;
+    const points = [
+      new THREE.Vector3(from.x + offset, 0, from.z + offset),
+      new THREE.Vector3(from.x + offset, y, from.z + offset),
+      new THREE.Vector3(to.x + offset, y, from.z + offset),
+      new THREE.Vector3(to.x + offset, y, to.z + offset),
+      new THREE.Vector3(to.x + offset, 0, to.z + offset),
+    ];
+    const segments: Segment[] = [];
+    for (let i = 0; i + 1 < points.length; i++) {
+      if (points[i].distanceTo(points[i + 1]) < 1e-6) continue;
+      segments.push({ id, start: points[i], end: points[i + 1] });
+    }
+    return segments;
+  }
+
+  private createInstancedMesh(geometry: THREE.BufferGeometry, count: number): THREE.InstancedMesh {
+    const opacity = createInstanceAttribute(count, 0.9);
+    geometry.setAttribute('instanceOpacity', opacity);
+    const material = enableInstanceOpacity(new THREE.MeshStandardMaterial({ metalness: 0.5, roughness: 0.5 }));
+    const mesh = new THREE.InstancedMesh(geometry, material, count);
+    this.opacity.set(mesh, opacity);
+    this.meshIds.set(mesh, []);
+    this.pickables.push(mesh);
+    this.add(mesh);
+    return mesh;
+  }
+
+  private register(id: string, mesh: THREE.InstancedMesh, index: number, color: number): void {
+    this.instances.set(id, [...(this.instances.get(id) ?? []), { mesh, index, color }]);
+    this.meshIds.get(mesh)![index] = id;
+  }
+
+  private refresh(): void {
+    this.instances.forEach((refs, id) => {
+      const status = this.model.getState(id)?.status ?? 'normal';
+      const dimmed = this.highlighted !== null && !this.highlighted.has(id);
+      const emphasized = this.highlighted?.has(id) && status !== 'failed';
+      const tint = emphasized ? HIGHLIGHT_TINT : STATUS_TINT[status];
+      refs.forEach(({ mesh, index, color }) => {
+        _color.setHex(color).lerp(_tint.setHex(tint.color), tint.amount);
+        mesh.setColorAt(index, _color);
+        this.opacity.get(mesh)!.setX(index, dimmed ? 0.15 : 0.9);
+      });
+    });
+    this.pickables.forEach(mesh => {
+      if (mesh.instanceColor) mesh.instanceColor.needsUpdate = true;
+      this.opacity.get(mesh)!.needsUpdate = true;
+    });
+  }
+}
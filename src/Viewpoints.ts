@@ -0,0 +1,150 @@
+import * as THREE from 'three';
+import { RackLayout, RoomLayout } from './Layout';
+import { t } from './I18n';
+
+export interface Viewpoint {
+  id: string;
+  name: string;
+  position: [number, number, number];
+  target: [number, number, number];
+  builtin?: boolean;
+}
+
+const STORAGE_PREFIX = 'datacenter:viewpoints:';
+
+function toTuple(vector: THREE.Vector3): [number, number, number] {
+  return [
+    Number(vector.x.toFixed(3)),
+    Number(vector.y.toFixed(3)),
+    Number(vector.z.toFixed(3)),
+  ];
+}
+
+function rackPosition(rack: RackLayout): THREE.Vector3 {
+  return new THREE.Vector3(rack.position.x, 0, rack.position.z);
+}
+
+// 机柜排的中心、走向（首个机柜指向最后一个机柜）和长度
+function describeRow(racks: RackLayout[]): { center: THREE.Vector3; direction: THREE.Vector3; length: number } {
+  const center = new THREE.Vector3();
+  racks.forEach(rack => center.add(rackPosition(rack)));
+  center.divideScalar(racks.length);
+  const span = rackPosition(racks[racks.length - 1]).sub(rackPosition(racks[0]));
+  const length = span.length();
+  const direction = length > 0 ? span.normalize() : new THREE.Vector3(1, 0, 0);
+  return { center, direction, length };
+}
+
+/**
+ * 根据机房布局生成内置视角：全局概览、每排机柜的侧视以及相邻两排之间的通道
+ */
+export function createDefaultViewpoints(room: RoomLayout): Viewpoint[] {
+  const size = Math.max(room.width, room.depth);
+  const viewpoints: Viewpoint[] = [{
+    id: 'overview',
+    name: t('viewpoint.overview'),
+    position: toTuple(new THREE.Vector3(size * 0.35, size * 0.45, size * 0.35)),
+    target: [0, 0, 0],
+    builtin: true,
+  }];
+
+  const rows = room.rows.filter(row => row.racks.length > 0).map(row => ({ row, ...describeRow(row.racks) }));
+
+  rows.forEach(({ row, center, direction, length }) => {
+    // 从垂直于排走向、远离机房中心的一侧观察整排机柜
+    const side = new THREE.Vector3(-direction.z, 0, direction.x);
+    if (side.dot(center) < 0) side.negate();
+    const distance = Math.max(3, length * 0.8);
+    viewpoints.push({
+      id: `row:${row.id}`,
+      name: row.name ?? row.id,
+      position: toTuple(center.clone().addScaledVector(side, distance).setY(3)),
+      target: toTuple(center.clone().setY(1)),
+      builtin: true,
+    });
+  });
+
+  for (let i = 0; i + 1 < rows.length; i++) {
+    const current = rows[i];
+    const next = rows[i + 1];
+    // 站在通道一端，沿排走向看向另一端
+    const middle = current.center.clone().add(next.center).multiplyScalar(0.5);
+    const halfLength = Math.max(current.length, next.length) / 2;
+    viewpoints.push({
+      id: `aisle:${current.row.id}:${next.row.id}`,
+      name: t('viewpoint.aisle', { from: current.row.name ?? current.row.id, to: next.row.name ?? next.row.id }),
+      position: toTuple(middle.clone().addScaledVector(current.direction, -(halfLength + 2.5)).setY(1.6)),
+      target: toTuple(middle.clone().addScaledVector(current.direction, halfLength).setY(1)),
+      builtin: true,
+    });
+  }
+
+  return viewpoints;
+}
+
+/**
+ * 视角列表：内置视角加上用户保存的视角，后者按机房保存在 localStorage 中
+ */
+export class ViewpointStore {
+  private saved: Viewpoint[] = [];
+
+  constructor(private readonly roomId: string, private readonly defaults: Viewpoint[]) {
+    this.saved = this.read();
+  }
+
+  public getAll(): Viewpoint[] {
+    return [...this.defaults, ...this.saved];
+  }
+
+  public get(id: string): Viewpoint | undefined {
+    return this.getAll().find(viewpoint => viewpoint.id === id);
+  }
+
+  public save(name: string, position: THREE.Vector3, target: THREE.Vector3): Viewpoint {
+    const existing = this.saved.find(viewpoint => viewpoint.name === name);
+    const viewpoint: Viewpoint = {
+      id: existing?.id ?? `user:${Date.now().toString(36)}`,
+      name,
+      position: toTuple(position),
+      target: toTuple(target),
+    };
+    this.saved = existing
+      ? this.saved.map(item => (item === existing ? viewpoint : item))
+      : [...this.saved, viewpoint];
+    this.write();
+    return viewpoint;
+  }
+
+  public remove(id: string): void {
+    this.saved = this.saved.filter(viewpoint => viewpoint.id !== id);
+    this.write();
+  }
+
+  private get storageKey(): string {
+    return STORAGE_PREFIX + this.roomId;
+  }
+
+  private read(): Viewpoint[] {
+    try {
+      const stored = JSON.parse(localStorage.getItem(this.storageKey) ?? '[]');
+      return Array.isArray(stored)
+        ? stored.filter((item: Viewpoint) =>
+          typeof item?.id === 'string' &&
+          typeof item.name === 'string' &&
+          Array.isArray(item.position) && item.position.length === 3 &&
+          Array.isArray(item.target) && item.target.length === 3)
+        : [];
+    } catch (error) {
+      console.warn('读取已保存视角失败', error);
+      return [];
+    }
+  }
+
+  private write(): void {
+    try {
+      localStorage.setItem(this.storageKey, JSON.stringify(this.saved));
+    } catch (error) {
+      console.warn('保存视角失败', error);
+    }
+  }
+}
@@ -0,0 +1,85 @@
+import {
+  Backoff,
+  BaseTelemetrySource,
+  DEFAULT_FIELD_MAPPING,
+  FieldMapping,
+  TelemetryAuth,
+  TelemetryListener,
+  appendAuthQuery,
+  mapPayload,
+} from './TelemetrySource';
+
+export interface WebSocketTelemetryOptions {
+  url: string;
+  protocols?: string | string[];
+  auth?: TelemetryAuth; // 浏览器 WebSocket 不支持自定义请求头，令牌通过查询参数传递
+  mapping?: FieldMapping;
+}
+
+/**
+ * 通过 WebSocket 接收推送的遥测数据，连接断开后按指数退避自动重连
+ */
+export class WebSocketTelemetrySource extends BaseTelemetrySource {
+  public readonly name = 'WebSocket';
+  private socket: WebSocket | null = null;
+  private reconnectTimer: number | null = null;
+  private backoff = new Backoff();
+  private onSamples: TelemetryListener | null = null;
+
+  constructor(private readonly options: WebSocketTelemetryOptions) {
+    super();
+  }
+
+  public start(onSamples: TelemetryListener): void {
+    this.stop();
+    this.onSamples = onSamples;
+    this.connect();
+  }
+
+  public stop(): void {
+    this.onSamples = null;
+    if (this.reconnectTimer !== null) {
+      window.clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    if (this.socket) {
+      this.socket.onclose = null;
+      this.socket.close();
+      this.socket = null;
+    }
+    this.backoff.reset();
+    if (this.state !== 'idle') this.setState('disconnected');
+  }
+
+  private connect(): void {
+    const { url, protocols, auth, mapping = DEFAULT_FIELD_MAPPING } = this.options;
+    this.setState(this.state === 'reconnecting' ? 'reconnecting' : 'connecting');
+
+    const socket = new WebSocket(appendAuthQuery(url, auth, 'access_token'), protocols);
+    this.socket = socket;
+
+    socket.onopen = () => {
+      this.backoff.reset();
+      this.setState('connected');
+    };
+
+    socket.onmessage = (event: MessageEvent) => {
+      try {
+        const samples = mapPayload(JSON.parse(event.data), mapping);
+        this.onSamples?.(samples);
+      } catch (error) {
+        console.warn('无法解析遥测消息', error);
+      }
+    };
+
+    socket.onclose = (event: CloseEvent) => {
+      this.socket = null;
+      if (!this.onSamples) return;
+      this.setState('reconnecting', event.reason || undefined);
+      this.reconnectTimer = window.setTimeout(() => {
+        this.reconnectTimer = null;
+        this.connect();
+      }, this.backoff.next());
+    };
+  }
+}
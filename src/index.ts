@@ -0,0 +1,14 @@
+// 库入口：供其他页面嵌入三维机房视图，three 作为外部依赖由宿主提供
+export { DataCenterViewer, createDataCenterViewer } from './DataCenterViewer';
+export type { DataCenterViewerOptions, DataCenterViewerEvents } from './DataCenterViewer';
+export type { HoverTarget, InfoContent } from './DataCenter';
+export { LayoutValidationError, loadLayout, parseLayout } from './Layout';
+export type { DataCenterLayout, RoomLayout, RackLayout, DeviceLayout } from './Layout';
+export type { ServerData, StatusLevel } from './ServerStatus';
+export { DEFAULT_ALERT_RULES } from './AlertEngine';
+export type { Alert, AlertRule, AlertSeverity, AlertState } from './AlertEngine';
+export type { ConnectionState, TelemetrySample } from './TelemetrySource';
+export type { TelemetryConfig } from './TelemetryConfig';
+export type { MetricKey } from './Metrics';
+export { i18n } from './I18n';
+export type { Locale, TemperatureUnit } from './I18n';
@@ -0,0 +1,424 @@
+import type { MessageKey } from '../I18n';
+
+// 英文消息目录，必须覆盖中文目录中的全部键
+const messages: Record<MessageKey, string> = {
+  // 应用
+  'app.layoutLoadFailed': 'Failed to load layout',
+  'app.title': '3D Data Center',
+  'app.infoPlaceholder': 'Click a server to see its details',
+
+  // 通用
+  'common.brand': 'Brand',
+  'common.model': 'Model',
+  'common.status': 'Status',
+  'common.listSeparator': ', ',
+  'common.noData': 'No data',
+  'common.rack': 'Rack',
+  'common.id': 'ID',
+  'common.clear': 'Clear',
+  'common.export': 'Export',
+  'common.import': 'Import',
+  'common.cancel': 'Cancel',
+
+  // 服务器状态
+  'status.normal': 'Normal',
+  'status.warning': 'Warning',
+  'status.error': 'Error',
+  'status.stale': 'No data',
+
+  // 指标名称
+  'metric.temperature': 'Temperature',
+  'metric.inletTemperature': 'Inlet temperature',
+  'metric.outletTemperature': 'Outlet temperature',
+  'metric.cpuUsage': 'CPU usage',
+  'metric.memoryUsage': 'Memory usage',
+  'metric.powerW': 'Power',
+  'metric.fanRpm': 'Fan speed',
+  'metric.diskUsage': 'Disk usage',
+  'metric.diskIops': 'Disk IOPS',
+  'metric.networkIn': 'Network in',
+  'metric.networkOut': 'Network out',
+
+  // 机柜汇总方式
+  'rollup.sum': 'total',
+  'rollup.avg': 'avg',
+  'rollup.max': 'max',
+
+  // 遥测连接状态
+  'connection.idle': 'Not connected',
+  'connection.connecting': 'Connecting',
+  'connection.connected': 'Connected',
+  'connection.reconnecting': 'Reconnecting',
+  'connection.disconnected': 'Disconnected',
+
+  // 工具栏
+  'toolbar.faultMode': 'Fault simulation',
+  'toolbar.stats': 'Performance',
+  'toolbar.capacity': 'Capacity planning',
+  'toolbar.dashboard': 'Dashboard',
+  'toolbar.floorPlan': 'Floor plan',
+  'toolbar.importAssets': 'Import assets',
+  'toolbar.warranty': 'Warranty',
+  'toolbar.editLayout': 'Edit layout',
+  'toolbar.kiosk': 'Kiosk mode',
+  'toolbar.heatmapMetric': 'Heatmap metric',
+  'toolbar.floorHeatmap': 'Floor heatmap',
+  'toolbar.slicePosition': 'Slice position',
+  'toolbar.slice': 'Vertical slice',
+  'toolbar.viewpoint': 'Viewpoint',
+  'toolbar.viewpointPlaceholder': 'Viewpoint…',
+  'toolbar.saveViewpoint': 'Save view',
+  'toolbar.removeViewpoint': 'Delete view',
+  'toolbar.viewpointName': 'View name',
+  'toolbar.language': 'Language',
+  'toolbar.accessiblePalette': 'Color-blind palette',
+  'toolbar.announcements': 'Announce status',
+  'toolbar.export': 'Export…',
+  'toolbar.airflow': 'Airflow',
+
+  // 机房概览
+  'room.overviewTitle': '{room} overview',
+  'room.overviewSummary': '{reporting}/{servers} servers online | Warning {warning} | Error {error} | Power {power} kW',
+  'room.hoverHint': 'Hover over a rack or server to see details',
+  'room.legend': 'Infrastructure legend:',
+
+  // 机柜信息
+  'rack.rollup': '{metric} ({rollup})',
+  'rack.serverListTitle': 'Servers in rack {rack}',
+  'rack.capacitySummary': 'Free {freeU}U (largest block {largestFreeU}U) | Power {drawn}/{rated} kW | Cooling headroom {cooling} kW',
+  'rack.label': 'Rack {rack}',
+
+  // 服务器信息
+  'server.unknownBrand': 'Unknown brand',
+  'server.infoTitle': 'Server details',
+  'server.staleData': 'Data is stale (last update: {time})',
+  'server.never': 'never',
+
+  // 指标历史
+  'history.stats': 'min {min} / max {max} / avg {avg}',
+  'history.window5m': '5 min',
+  'history.window1h': '1 hour',
+
+  // 基础设施图例
+  'legend.network': 'Network cabling',
+  'legend.power': 'Power lines',
+  'legend.cooling': 'Cooling pipes',
+  'legend.fiber': 'Fiber lines',
+
+  // 基础设施拓扑
+  'topology.clickForImpact': 'Click to see the downstream impact',
+  'topology.kind': 'Type',
+  'topology.link': 'Link',
+  'topology.markedFailed': ' (marked as failed)',
+  'topology.utilization': 'Utilization',
+  'topology.impact': 'Downstream impact: {racks} racks, {servers} servers',
+  'topology.defaultFiberPanel': 'Main fiber panel',
+  'topology.defaultCoreSwitch': 'Core switch',
+  'topology.defaultCrac': 'CRAC {index}',
+  'topology.defaultAccessSwitch': '{row} access switch',
+  'topology.defaultPdu': '{row} PDU',
+
+  // 拓扑节点类型
+  'topologyNode.switch': 'Switch',
+  'topologyNode.pdu': 'PDU',
+  'topologyNode.crac': 'CRAC unit',
+  'topologyNode.fiberPanel': 'Fiber panel',
+
+  // 拓扑状态
+  'topologyStatus.normal': 'Normal',
+  'topologyStatus.degraded': 'High load',
+  'topologyStatus.failed': 'Failed',
+
+  // 连接类型
+  'infrastructure.network': 'Network cabling',
+  'infrastructure.power': 'Power line',
+  'infrastructure.cooling': 'Cooling pipe',
+  'infrastructure.fiber': 'Fiber line',
+
+  // 资产台账
+  'asset.none': 'No asset record',
+  'asset.warrantyValue': '{date} ({status})',
+  'asset.field.serverId': 'Server ID',
+  'asset.field.serialNumber': 'Serial number',
+  'asset.field.model': 'Model',
+  'asset.field.purchaseDate': 'Purchase date',
+  'asset.field.warrantyEnd': 'Warranty end',
+  'asset.field.owner': 'Owner team',
+  'asset.field.ip': 'IP',
+  'asset.field.hostname': 'Hostname',
+  'asset.field.os': 'Operating system',
+  'asset.field.tags': 'Tags',
+  'asset.error.noRecords': 'No array of asset records found in the JSON file',
+  'asset.error.serverIdColumnRequired': 'A column must be mapped to the server ID',
+  'asset.error.serverIdMissing': 'Missing server ID',
+  'asset.error.serverNotInLayout': 'Server {server} is not in the layout',
+  'asset.error.serverDuplicate': 'Server {server} appears more than once',
+  'asset.error.invalidDate': '{field} "{value}" is not a valid date',
+  'asset.error.warrantyBeforePurchase': 'Warranty ends before the purchase date',
+  'asset.error.invalidIp': 'IP "{ip}" is not valid',
+
+  // 保修状态
+  'warranty.ok': 'In warranty',
+  'warranty.expiring': 'Expiring soon',
+  'warranty.expired': 'Expired',
+  'warranty.unknown': 'Unknown',
+
+  // 资产导入
+  'assetImport.title': 'Import asset inventory',
+  'assetImport.parsePasted': 'Parse pasted content',
+  'assetImport.pastePlaceholder': 'Or paste CSV or JSON content here',
+  'assetImport.replace': 'Replace existing records',
+  'assetImport.parseFailed': 'Failed to parse file: {error}',
+  'assetImport.skipField': '(skip)',
+  'assetImport.summary': '{rows} rows: {valid} valid, {errors} with errors',
+  'assetImport.previewTruncated': 'Previewing the first {count} rows only',
+  'assetImport.rowPrefix': 'Row {row}: ',
+  'assetImport.moreErrors': '{count} more errors not listed',
+
+  // 容量规划
+  'capacity.space': 'Space',
+  'capacity.power': 'Power',
+  'capacity.cooling': 'Cooling',
+  'capacity.column.freeU': 'Free U',
+  'capacity.column.largestFreeU': 'Largest block',
+  'capacity.column.power': 'Drawn/rated kW',
+  'capacity.column.cooling': 'Cooling headroom kW',
+  'capacity.size': 'Size',
+  'capacity.findPlacement': 'Find placement',
+  'capacity.placementSummary': '{fit} / {total} racks can hold this device',
+  'capacity.freeSummary': '{total} racks, {free}U free in total',
+  'capacity.devicePower': 'Power',
+
+  // 汇总看板
+  'dashboard.rackMetric': 'Rack metric',
+  'dashboard.title': '{room} summary',
+  'dashboard.hottest': 'Hottest servers',
+  'dashboard.busiest': 'Busiest servers',
+  'dashboard.kpi.online': 'Servers online',
+  'dashboard.kpi.alertRatio': 'Alert ratio',
+  'dashboard.kpi.avgInlet': 'Avg inlet temp',
+  'dashboard.kpi.maxTemperature': 'Max temperature',
+  'dashboard.kpi.totalPower': 'Total power',
+  'dashboard.kpi.avgCpu': 'Avg CPU usage',
+  'dashboard.warningError': 'Warn/Error',
+  'dashboard.powerKw': 'Power kW',
+  'dashboard.avg': 'Avg',
+  'dashboard.max': 'Max',
+
+  // 平面图
+  'floorPlan.colorBy': 'Color by',
+  'floorPlan.worstStatus': 'Worst status',
+  'floorPlan.title': '{room} floor plan',
+  'floorPlan.elevationHint': 'Click a rack to see its elevation',
+  'floorPlan.elevationTitle': 'Rack {rack} ({height}U)',
+  'floorPlan.deviceSlot': '(U{slot}, {size}U)',
+
+  // 搜索
+  'search.placeholder': 'Search, e.g. brand:DELL cpuUsage > 80',
+  'search.addCondition': 'Add condition',
+  'search.errorSeparator': '; ',
+  'search.contains': 'contains',
+  'search.matches': '{position}{count} matches',
+  'search.previous': 'Previous',
+  'search.truncated': 'Showing the first {count} only',
+  'search.next': 'Next',
+
+  // 过滤表达式错误
+  'filter.unknownMetric': 'Unknown metric: {metric}',
+  'filter.invalidNumber': 'Invalid number: {value}',
+  'filter.unknownField': 'Unknown field: {field}',
+  'filter.invalidStatus': 'Status must be one of {values}',
+
+  // 告警
+  'alert.rulesLoadFailed': 'Failed to load alert rules {url}: {status}',
+  'alert.rulesNotArray': 'Alert rules {url} must be an array',
+  'alert.ruleInvalid': 'Alert rule #{index} in {url} is missing an id or has an invalid metric',
+  'alert.threshold': 'threshold {value}',
+  'alert.acknowledge': 'Acknowledge',
+  'alert.title': 'Alerts ({count})',
+  'alert.none': 'No alerts',
+  'alert.hideCleared': 'Hide cleared',
+  'alert.showCleared': 'Show cleared',
+
+  // 告警处理状态
+  'alertState.raised': 'Unacknowledged',
+  'alertState.acknowledged': 'Acknowledged',
+  'alertState.cleared': 'Cleared',
+
+  // 录制与回放
+  'playback.error.invalidJson': 'Line {line} is not valid JSON',
+  'playback.error.missingFields': 'Line {line} is missing time or servers',
+  'playback.error.empty': 'The recording contains no snapshots',
+  'playback.replayRecent': 'Replay recent',
+  'playback.importRecording': 'Import recording',
+  'playback.exportRecording': 'Export recording',
+  'playback.playingBack': 'Playback',
+  'playback.backToLive': 'Back to live',
+  'playback.importFailed': 'Failed to import recording: {error}',
+  'playback.recorded': '{count} snapshots recorded ({duration})',
+  'playback.pause': 'Pause',
+  'playback.play': 'Play',
+
+  // 展台模式
+  'kiosk.alertTime': '({time})',
+  'kiosk.noAlerts': 'No active alerts',
+  'kiosk.touring': 'Tour {index}/{total} · {stop}',
+  'kiosk.pinned': 'Server {server} has failed; holding this view until it recovers',
+  'kiosk.contextLost': 'Graphics context lost, recovering…',
+
+  // 内置视角
+  'viewpoint.overview': 'Overview',
+  'viewpoint.aisle': '{from}/{to} aisle',
+
+  // 性能统计
+  'stats.fps': 'Frame rate: {fps} FPS',
+  'stats.frameTime': 'Frame time: {avg} ms (max {max} ms)',
+  'stats.drawCalls': 'Draw calls: {calls}',
+  'stats.triangles': 'Triangles: {triangles}',
+  'stats.racks': 'Racks: {racks} ({detailed} detailed)',
+  'stats.servers': 'Servers: {servers}',
+
+  // 布局编辑
+  'layoutEditor.rackNotFound': 'Rack {rack} does not exist',
+  'layoutEditor.deviceNotFound': 'Device {device} does not exist',
+  'layoutEditor.roomNotFound': 'Room {room} does not exist',
+  'layoutEditor.translate': 'Move',
+  'layoutEditor.rotate': 'Rotate',
+  'layoutEditor.addRack': 'Add rack',
+  'layoutEditor.removeRack': 'Remove rack',
+  'layoutEditor.undo': 'Undo',
+  'layoutEditor.redo': 'Redo',
+  'layoutEditor.export': 'Export layout',
+  'layoutEditor.hint': 'Click a rack to select it and drag the handle to move it (R toggles rotate); drag servers up or down inside the selected rack to change their slot',
+  'layoutEditor.noSpace': 'There is no free space in the room for a new rack',
+  'layoutEditor.confirmRemove': 'The {count} devices in rack {rack} will also be removed. Continue?',
+  'layoutEditor.slotOccupied': 'The slots from U{slot} are occupied by another device',
+  'layoutEditor.selected': 'Selected {rack} ({x}, {z}, {rotation}°, {height}U)',
+  'layoutEditor.noSelection': 'No rack selected',
+
+  // 布局校验
+  'layout.validationFailed': 'Layout validation failed:',
+  'layout.rackOutsideRoom': 'Rack {rack} is outside the room',
+  'layout.rackOverlap': 'Rack {rack} overlaps rack {other}',
+  'layout.deviceNotObject': 'device must be an object',
+  'layout.deviceIdInvalid': 'device ID must be a non-empty string',
+  'layout.slotInvalid': 'slot must be a positive integer',
+  'layout.sizeUInvalid': 'device height must be a positive number of U',
+  'layout.brandInvalid': 'brand must be a string',
+  'layout.modelInvalid': 'model must be a string',
+  'layout.powerInvalid': 'rated power must be a non-negative number',
+  'layout.rackNotObject': 'rack must be an object',
+  'layout.rackIdInvalid': 'rack ID must be a non-empty string',
+  'layout.rackNameInvalid': 'rack name must be a string',
+  'layout.rotationInvalid': 'rotation must be a number',
+  'layout.heightUInvalid': 'rack height must be a positive number of U',
+  'layout.capacityInvalid': 'capacity must be a positive number',
+  'layout.devicesInvalid': 'devices must be an array',
+  'layout.slotOutOfRange': 'slots {from}-{to} exceed the rack height of {height}U',
+  'layout.slotOverlap': 'slot {slot} of device {device} overlaps device {other}',
+  'layout.topologyInvalid': 'topology must contain nodes and links arrays',
+  'layout.nodeIdInvalid': 'node ID must be a non-empty string',
+  'layout.nodeIdDuplicate': 'duplicate node ID {id}',
+  'layout.nodeKindInvalid': 'node kind must be one of {kinds}',
+  'layout.linkIdInvalid': 'link ID must be a non-empty string',
+  'layout.linkIdDuplicate': 'duplicate link ID {id}',
+  'layout.linkTypeInvalid': 'link type must be one of {types}',
+  'layout.linkEndpointInvalid': 'endpoint {endpoint} is not a node or rack in this room',
+  'layout.linkSelfLoop': 'both ends of a link must differ',
+  'layout.roomNotObject': 'room must be an object',
+  'layout.roomIdInvalid': 'room ID must be a non-empty string',
+  'layout.roomNameInvalid': 'room name must be a string',
+  'layout.roomSizeInvalid': 'room width/depth must be positive numbers',
+  'layout.rowsInvalid': 'rows must be an array',
+  'layout.rowInvalid': 'row must contain an id and a racks array',
+  'layout.rackIdDuplicate': 'duplicate rack ID {id}',
+  'layout.deviceIdDuplicate': 'duplicate device ID {id}',
+  'layout.notObject': 'Layout file must be a JSON object',
+  'layout.versionUnsupported': 'only version 1 is supported',
+  'layout.roomsEmpty': 'at least one room is required',
+  'layout.roomIdDuplicate': 'duplicate room ID {id}',
+  'layout.sitesInvalid': 'sites must be an array',
+  'layout.siteNodeIdInvalid': '{level} ID must be a non-empty string',
+  'layout.siteNodeIdDuplicate': 'duplicate ID {id}',
+  'layout.siteNodeNameInvalid': '{level} name must be a string',
+  'layout.arrayRequired': 'must be an array',
+  'layout.roomNotFound': 'room {room} does not exist',
+  'layout.roomAssignedTwice': 'room {room} already belongs to another floor',
+  'layout.roomUnassigned': 'room {room} does not belong to any floor',
+  'layout.loadFailed': 'Failed to load layout file {url}: {status}',
+  'layout.positionInvalid': 'position must contain numeric x and z',
+
+  // 站点层级
+  'site.site': 'Site',
+  'site.building': 'Building',
+  'site.floor': 'Floor',
+  'site.defaultSite': 'Data Center',
+  'site.defaultBuilding': 'Main Building',
+  'site.defaultFloor': 'Floor 1',
+
+  // 遥测配置
+  'telemetry.configLoadFailed': 'Failed to load telemetry config {url}: {status}',
+  'telemetry.configTypeInvalid': 'Telemetry config {url}: type must be simulator, rest or websocket',
+  'telemetry.configUrlMissing': 'Telemetry config {url} is missing url',
+  'telemetry.simulated': 'Simulated data',
+
+  // 导出与报告
+  'export.screenshot': 'Screenshot (PNG)',
+  'export.serversCsv': 'Server data (CSV)',
+  'export.serversJson': 'Server data (JSON)',
+  'export.report': 'Room status report (print/PDF)',
+  'export.gltf': '3D model (glTF)',
+  'export.failed': 'Export failed: {error}',
+  'report.title': '{room} status report',
+  'report.generatedAt': 'Generated {time}',
+  'report.print': 'Print',
+  'report.summary': 'Summary',
+  'report.metrics': 'Metrics',
+  'report.metric': 'Metric',
+  'report.reportingCount': 'Reporting',
+  'report.racks': 'Racks',
+  'report.servers': 'Servers',
+  'report.alerts': 'Active alerts',
+  'report.server': 'Server',
+  'report.value': 'Value',
+  'report.threshold': 'Threshold',
+  'report.raisedAt': 'Raised',
+  'report.alertState': 'State',
+  'report.abnormalServers': 'Servers needing attention',
+  'report.noAbnormalServers': 'All servers are normal',
+  'report.slot': 'Slot',
+
+  // 气流模拟
+  'airflow.hint': 'CRAC units supply cold air under the floor to rack fronts; racks exhaust from the back. Simulate a CRAC failure to estimate how rack inlet temperatures change.',
+  'airflow.crac': 'CRAC',
+  'airflow.load': 'Load',
+  'airflow.supply': 'Supply',
+  'airflow.inlet': 'Inlet',
+  'airflow.change': 'Change',
+  'airflow.exhaust': 'Exhaust',
+  'airflow.failed': ' (failed)',
+  'airflow.simulateFailure': 'Simulate failure',
+  'airflow.restore': 'Restore',
+  'airflow.noCracs': 'This room has no CRAC units',
+  'airflow.noCrac': 'none',
+  'airflow.noRisk': 'All server inlet temperatures are within alert thresholds',
+  'airflow.riskSummary': 'Inlet over threshold: {warning} warning, {error} error ({newly} new)',
+  'airflow.riskTitle': 'Servers with inlet over threshold',
+  'airflow.newlyCrossed': 'new',
+  'airflow.fallback': 'Assigned CRAC unavailable, cooled by another CRAC across the room',
+  'airflow.rackSummary': 'Inlet {inlet} ({delta}) | Exhaust {exhaust} | Cooled by: {cracs}',
+
+  // 无障碍
+  'a11y.canvas': '3D room view. Arrow keys move between racks, Enter opens a rack or selects a server, Esc goes back',
+  'a11y.infoPanel': 'Details',
+  'a11y.rack': '{rack}, {count} servers, {warning} warning, {error} error',
+  'a11y.server': '{server}, U{slot}, {status}, temperature {temperature}',
+  'a11y.serverNoData': '{server}, U{slot}, no data',
+  'a11y.serverSelected': 'Selected {server}',
+  'a11y.selectionCleared': 'Selection cleared',
+  'a11y.navigationCleared': 'Keyboard navigation ended',
+  'a11y.statusChanged': '{server} is now {status}',
+  'a11y.statusSummary': '{count} servers changed status: {error} error, {warning} warning, {normal} back to normal',
+};
+
+export default messages;
@@ -0,0 +1,425 @@
+/**
+ * 简体中文消息目录，也是消息键的基准：新增界面文字时先在此登记，再补充其他语言。
+ * 参数以 {name} 形式书写，由 I18n.t() 替换
+ */
+const messages = {
+  // 应用
+  'app.layoutLoadFailed': '布局加载失败',
+  'app.title': '3D数据中心',
+  'app.infoPlaceholder': '点击服务器查看详细信息',
+
+  // 通用
+  'common.brand': '品牌',
+  'common.model': '型号',
+  'common.status': '状态',
+  'common.listSeparator': '、',
+  'common.noData': '暂无数据',
+  'common.rack': '机柜',
+  'common.id': 'ID',
+  'common.clear': '清除',
+  'common.export': '导出',
+  'common.import': '导入',
+  'common.cancel': '取消',
+
+  // 服务器状态
+  'status.normal': '正常',
+  'status.warning': '告警',
+  'status.error': '故障',
+  'status.stale': '无数据',
+
+  // 指标名称
+  'metric.temperature': '温度',
+  'metric.inletTemperature': '进风温度',
+  'metric.outletTemperature': '出风温度',
+  'metric.cpuUsage': 'CPU使用率',
+  'metric.memoryUsage': '内存使用率',
+  'metric.powerW': '功耗',
+  'metric.fanRpm': '风扇转速',
+  'metric.diskUsage': '磁盘使用率',
+  'metric.diskIops': '磁盘IOPS',
+  'metric.networkIn': '网络入流量',
+  'metric.networkOut': '网络出流量',
+
+  // 机柜汇总方式
+  'rollup.sum': '合计',
+  'rollup.avg': '平均',
+  'rollup.max': '最高',
+
+  // 遥测连接状态
+  'connection.idle': '未连接',
+  'connection.connecting': '连接中',
+  'connection.connected': '已连接',
+  'connection.reconnecting': '重连中',
+  'connection.disconnected': '已断开',
+
+  // 工具栏
+  'toolbar.faultMode': '故障模拟',
+  'toolbar.stats': '性能统计',
+  'toolbar.capacity': '容量规划',
+  'toolbar.dashboard': '汇总看板',
+  'toolbar.floorPlan': '平面图',
+  'toolbar.importAssets': '导入资产',
+  'toolbar.warranty': '保修到期',
+  'toolbar.editLayout': '编辑布局',
+  'toolbar.kiosk': '展台模式',
+  'toolbar.heatmapMetric': '热力图指标',
+  'toolbar.floorHeatmap': '地面热力图',
+  'toolbar.slicePosition': '切面位置',
+  'toolbar.slice': '垂直切面',
+  'toolbar.viewpoint': '视角',
+  'toolbar.viewpointPlaceholder': '视角…',
+  'toolbar.saveViewpoint': '保存视角',
+  'toolbar.removeViewpoint': '删除视角',
+  'toolbar.viewpointName': '视角名称',
+  'toolbar.language': '界面语言',
+  'toolbar.accessiblePalette': '色盲友好配色',
+  'toolbar.announcements': '读屏播报',
+  'toolbar.export': '导出…',
+  'toolbar.airflow': '气流模拟',
+
+  // 机房概览
+  'room.overviewTitle': '{room}概览',
+  'room.overviewSummary': '{reporting}/{servers} 台服务器在线 | 告警 {warning} | 故障 {error} | 功耗 {power} kW',
+  'room.hoverHint': '请将鼠标移到机柜或服务器上查看详细信息',
+  'room.legend': '基础设施图例：',
+
+  // 机柜信息
+  'rack.rollup': '{metric}{rollup}',
+  'rack.serverListTitle': '机柜 {rack} 服务器列表',
+  'rack.capacitySummary': '空闲 {freeU}U（最大连续 {largestFreeU}U） | 功耗 {drawn}/{rated} kW | 制冷余量 {cooling} kW',
+  'rack.label': '机柜 {rack}',
+
+  // 服务器信息
+  'server.unknownBrand': '未知品牌',
+  'server.infoTitle': '服务器信息',
+  'server.staleData': '数据已过期（最后更新: {time}）',
+  'server.never': '无',
+
+  // 指标历史
+  'history.stats': '最小 {min} / 最大 {max} / 平均 {avg}',
+  'history.window5m': '5分钟',
+  'history.window1h': '1小时',
+
+  // 基础设施图例
+  'legend.network': '网络线缆',
+  'legend.power': '电源线路',
+  'legend.cooling': '冷却管道',
+  'legend.fiber': '光纤线路',
+
+  // 基础设施拓扑
+  'topology.clickForImpact': '单击查看下游影响范围',
+  'topology.kind': '类型',
+  'topology.link': '连接',
+  'topology.markedFailed': '（已标记故障）',
+  'topology.utilization': '利用率',
+  'topology.impact': '下游影响: {racks} 个机柜，{servers} 台服务器',
+  'topology.defaultFiberPanel': '主配线架',
+  'topology.defaultCoreSwitch': '核心交换机',
+  'topology.defaultCrac': '精密空调{index}',
+  'topology.defaultAccessSwitch': '{row}接入交换机',
+  'topology.defaultPdu': '{row}PDU',
+
+  // 拓扑节点类型
+  'topologyNode.switch': '交换机',
+  'topologyNode.pdu': 'PDU',
+  'topologyNode.crac': '精密空调',
+  'topologyNode.fiberPanel': '光纤配线架',
+
+  // 拓扑状态
+  'topologyStatus.normal': '正常',
+  'topologyStatus.degraded': '高负载',
+  'topologyStatus.failed': '故障',
+
+  // 连接类型
+  'infrastructure.network': '网络线缆',
+  'infrastructure.power': '电源线路',
+  'infrastructure.cooling': '冷却管道',
+  'infrastructure.fiber': '光纤线路',
+
+  // 资产台账
+  'asset.none': '无资产记录',
+  'asset.warrantyValue': '{date}（{status}）',
+  'asset.field.serverId': '服务器ID',
+  'asset.field.serialNumber': '序列号',
+  'asset.field.model': '型号',
+  'asset.field.purchaseDate': '采购日期',
+  'asset.field.warrantyEnd': '保修到期',
+  'asset.field.owner': '负责团队',
+  'asset.field.ip': 'IP',
+  'asset.field.hostname': '主机名',
+  'asset.field.os': '操作系统',
+  'asset.field.tags': '标签',
+  'asset.error.noRecords': 'JSON 文件中没有找到资产记录数组',
+  'asset.error.serverIdColumnRequired': '必须指定服务器ID对应的列',
+  'asset.error.serverIdMissing': '缺少服务器ID',
+  'asset.error.serverNotInLayout': '服务器 {server} 不在布局中',
+  'asset.error.serverDuplicate': '服务器 {server} 重复出现',
+  'asset.error.invalidDate': '{field} “{value}” 不是有效日期',
+  'asset.error.warrantyBeforePurchase': '保修到期早于采购日期',
+  'asset.error.invalidIp': 'IP “{ip}” 格式不正确',
+
+  // 保修状态
+  'warranty.ok': '保修期内',
+  'warranty.expiring': '即将到期',
+  'warranty.expired': '已过保',
+  'warranty.unknown': '未知',
+
+  // 资产导入
+  'assetImport.title': '导入资产台账',
+  'assetImport.parsePasted': '解析粘贴内容',
+  'assetImport.pastePlaceholder': '也可以直接粘贴 CSV 或 JSON 内容',
+  'assetImport.replace': '替换现有记录',
+  'assetImport.parseFailed': '文件解析失败：{error}',
+  'assetImport.skipField': '（不导入）',
+  'assetImport.summary': '共 {rows} 行：有效 {valid} 行，错误 {errors} 行',
+  'assetImport.previewTruncated': '仅预览前 {count} 行',
+  'assetImport.rowPrefix': '第 {row} 行：',
+  'assetImport.moreErrors': '另有 {count} 个错误未列出',
+
+  // 容量规划
+  'capacity.space': '空间',
+  'capacity.power': '电力',
+  'capacity.cooling': '制冷',
+  'capacity.column.freeU': '空闲U',
+  'capacity.column.largestFreeU': '最大连续',
+  'capacity.column.power': '功耗/额定 kW',
+  'capacity.column.cooling': '制冷余量 kW',
+  'capacity.size': '尺寸',
+  'capacity.findPlacement': '查找位置',
+  'capacity.placementSummary': '{fit} / {total} 个机柜可容纳该设备',
+  'capacity.freeSummary': '{total} 个机柜，共空闲 {free}U',
+  'capacity.devicePower': '功率',
+
+  // 汇总看板
+  'dashboard.rackMetric': '机柜汇总指标',
+  'dashboard.title': '{room}汇总',
+  'dashboard.hottest': '最热服务器',
+  'dashboard.busiest': '最忙服务器',
+  'dashboard.kpi.online': '在线服务器',
+  'dashboard.kpi.alertRatio': '告警占比',
+  'dashboard.kpi.avgInlet': '平均进风温度',
+  'dashboard.kpi.maxTemperature': '最高温度',
+  'dashboard.kpi.totalPower': '总功耗',
+  'dashboard.kpi.avgCpu': '平均CPU使用率',
+  'dashboard.warningError': '告警/故障',
+  'dashboard.powerKw': '功耗 kW',
+  'dashboard.avg': '平均',
+  'dashboard.max': '最高',
+
+  // 平面图
+  'floorPlan.colorBy': '着色',
+  'floorPlan.worstStatus': '最差状态',
+  'floorPlan.title': '{room}平面图',
+  'floorPlan.elevationHint': '点击机柜查看立面图',
+  'floorPlan.elevationTitle': '机柜 {rack}（{height}U）',
+  'floorPlan.deviceSlot': '（U{slot}，{size}U）',
+
+  // 搜索
+  'search.placeholder': '搜索，如 brand:DELL cpuUsage > 80',
+  'search.addCondition': '添加条件',
+  'search.errorSeparator': '；',
+  'search.contains': '包含',
+  'search.matches': '匹配 {position}{count} 台',
+  'search.previous': '上一个',
+  'search.truncated': '仅显示前 {count} 条',
+  'search.next': '下一个',
+
+  // 过滤表达式错误
+  'filter.unknownMetric': '未知指标: {metric}',
+  'filter.invalidNumber': '无效数值: {value}',
+  'filter.unknownField': '未知字段: {field}',
+  'filter.invalidStatus': '状态只能是 {values}',
+
+  // 告警
+  'alert.rulesLoadFailed': '无法加载告警规则 {url}: {status}',
+  'alert.rulesNotArray': '告警规则 {url} 必须是数组',
+  'alert.ruleInvalid': '告警规则 {url} 第 {index} 条缺少 id 或指标无效',
+  'alert.threshold': '阈值 {value}',
+  'alert.acknowledge': '确认',
+  'alert.title': '告警 ({count})',
+  'alert.none': '暂无告警',
+  'alert.hideCleared': '隐藏已恢复',
+  'alert.showCleared': '显示已恢复',
+
+  // 告警处理状态
+  'alertState.raised': '未确认',
+  'alertState.acknowledged': '已确认',
+  'alertState.cleared': '已恢复',
+
+  // 录制与回放
+  'playback.error.invalidJson': '第 {line} 行不是有效的 JSON',
+  'playback.error.missingFields': '第 {line} 行缺少 time 或 servers',
+  'playback.error.empty': '录制文件中没有快照',
+  'playback.replayRecent': '回放最近录制',
+  'playback.importRecording': '导入录制',
+  'playback.exportRecording': '导出录制',
+  'playback.playingBack': '回放中',
+  'playback.backToLive': '返回实时',
+  'playback.importFailed': '导入录制失败: {error}',
+  'playback.recorded': '已录制 {count} 个快照 ({duration})',
+  'playback.pause': '暂停',
+  'playback.play': '播放',
+
+  // 展台模式
+  'kiosk.alertTime': '（{time}）',
+  'kiosk.noAlerts': '当前无告警',
+  'kiosk.touring': '巡视 {index}/{total} · {stop}',
+  'kiosk.pinned': '故障服务器 {server}，恢复前保持该视角',
+  'kiosk.contextLost': '图形上下文丢失，正在恢复…',
+
+  // 内置视角
+  'viewpoint.overview': '全局概览',
+  'viewpoint.aisle': '{from}/{to} 通道',
+
+  // 性能统计
+  'stats.fps': '帧率: {fps} FPS',
+  'stats.frameTime': '帧时间: {avg} ms（最大 {max} ms）',
+  'stats.drawCalls': '绘制调用: {calls}',
+  'stats.triangles': '三角形: {triangles}',
+  'stats.racks': '机柜: {racks}（细节 {detailed}）',
+  'stats.servers': '服务器: {servers}',
+
+  // 布局编辑
+  'layoutEditor.rackNotFound': '机柜 {rack} 不存在',
+  'layoutEditor.deviceNotFound': '设备 {device} 不存在',
+  'layoutEditor.roomNotFound': '机房 {room} 不存在',
+  'layoutEditor.translate': '移动',
+  'layoutEditor.rotate': '旋转',
+  'layoutEditor.addRack': '添加机柜',
+  'layoutEditor.removeRack': '删除机柜',
+  'layoutEditor.undo': '撤销',
+  'layoutEditor.redo': '重做',
+  'layoutEditor.export': '导出布局',
+  'layoutEditor.hint': '单击选择机柜，拖动手柄移动（R 切换旋转）；在选中机柜内上下拖动服务器调整U位',
+  'layoutEditor.noSpace': '机房内没有可放置新机柜的空位',
+  'layoutEditor.confirmRemove': '机柜 {rack} 中的 {count} 台设备将一并删除，确定吗？',
+  'layoutEditor.slotOccupied': 'U{slot} 起的位置已被其他设备占用',
+  'layoutEditor.selected': '已选择 {rack}（{x}, {z}，{rotation}°，{height}U）',
+  'layoutEditor.noSelection': '未选择机柜',
+
+  // 布局校验
+  'layout.validationFailed': '布局文件校验失败：',
+  'layout.rackOutsideRoom': '机柜 {rack} 超出机房范围',
+  'layout.rackOverlap': '机柜 {rack} 与机柜 {other} 位置重叠',
+  'layout.deviceNotObject': '设备必须是对象',
+  'layout.deviceIdInvalid': '设备ID必须是非空字符串',
+  'layout.slotInvalid': 'U位必须是正整数',
+  'layout.sizeUInvalid': '设备高度必须是正整数U',
+  'layout.brandInvalid': '品牌必须是字符串',
+  'layout.modelInvalid': '型号必须是字符串',
+  'layout.powerInvalid': '额定功率必须是非负数',
+  'layout.rackNotObject': '机柜必须是对象',
+  'layout.rackIdInvalid': '机柜ID必须是非空字符串',
+  'layout.rackNameInvalid': '机柜名称必须是字符串',
+  'layout.rotationInvalid': '旋转角度必须是数值',
+  'layout.heightUInvalid': '机柜高度必须是正整数U',
+  'layout.capacityInvalid': '容量必须是正数',
+  'layout.devicesInvalid': '设备列表必须是数组',
+  'layout.slotOutOfRange': 'U位 {from}-{to} 超出机柜高度 {height}U',
+  'layout.slotOverlap': '设备 {device} 的U位 {slot} 与设备 {other} 重叠',
+  'layout.topologyInvalid': '拓扑必须包含 nodes 和 links 数组',
+  'layout.nodeIdInvalid': '节点ID必须是非空字符串',
+  'layout.nodeIdDuplicate': '节点ID {id} 重复',
+  'layout.nodeKindInvalid': '节点类型必须是 {kinds}',
+  'layout.linkIdInvalid': '连接ID必须是非空字符串',
+  'layout.linkIdDuplicate': '连接ID {id} 重复',
+  'layout.linkTypeInvalid': '连接类型必须是 {types}',
+  'layout.linkEndpointInvalid': '端点 {endpoint} 不是本机房的节点或机柜',
+  'layout.linkSelfLoop': '连接的两端不能相同',
+  'layout.roomNotObject': '机房必须是对象',
+  'layout.roomIdInvalid': '机房ID必须是非空字符串',
+  'layout.roomNameInvalid': '机房名称必须是字符串',
+  'layout.roomSizeInvalid': '机房尺寸 width/depth 必须是正数',
+  'layout.rowsInvalid': '机柜排列表必须是数组',
+  'layout.rowInvalid': '机柜排必须包含 id 和 racks 数组',
+  'layout.rackIdDuplicate': '机柜ID {id} 重复',
+  'layout.deviceIdDuplicate': '设备ID {id} 重复',
+  'layout.notObject': '布局文件必须是JSON对象',
+  'layout.versionUnsupported': '仅支持版本 1',
+  'layout.roomsEmpty': '至少需要一个机房',
+  'layout.roomIdDuplicate': '机房ID {id} 重复',
+  'layout.sitesInvalid': '站点列表必须是数组',
+  'layout.siteNodeIdInvalid': '{level}ID必须是非空字符串',
+  'layout.siteNodeIdDuplicate': 'ID {id} 重复',
+  'layout.siteNodeNameInvalid': '{level}名称必须是字符串',
+  'layout.arrayRequired': '必须是数组',
+  'layout.roomNotFound': '机房 {room} 不存在',
+  'layout.roomAssignedTwice': '机房 {room} 已归属其他楼层',
+  'layout.roomUnassigned': '机房 {room} 未归属任何楼层',
+  'layout.loadFailed': '无法加载布局文件 {url}: {status}',
+  'layout.positionInvalid': '位置必须包含数值 x 和 z',
+
+  // 站点层级
+  'site.site': '站点',
+  'site.building': '楼栋',
+  'site.floor': '楼层',
+  'site.defaultSite': '数据中心',
+  'site.defaultBuilding': '主楼',
+  'site.defaultFloor': '1层',
+
+  // 遥测配置
+  'telemetry.configLoadFailed': '无法加载遥测配置 {url}: {status}',
+  'telemetry.configTypeInvalid': '遥测配置 {url} 的 type 必须是 simulator、rest 或 websocket',
+  'telemetry.configUrlMissing': '遥测配置 {url} 缺少 url',
+  'telemetry.simulated': '模拟数据',
+
+  // 导出与报告
+  'export.screenshot': '截图（PNG）',
+  'export.serversCsv': '服务器数据（CSV）',
+  'export.serversJson': '服务器数据（JSON）',
+  'export.report': '机房状态报告（打印/PDF）',
+  'export.gltf': '三维模型（glTF）',
+  'export.failed': '导出失败：{error}',
+  'report.title': '{room}状态报告',
+  'report.generatedAt': '生成时间：{time}',
+  'report.print': '打印',
+  'report.summary': '概况',
+  'report.metrics': '指标汇总',
+  'report.metric': '指标',
+  'report.reportingCount': '上报台数',
+  'report.racks': '机柜',
+  'report.servers': '服务器',
+  'report.alerts': '当前告警',
+  'report.server': '服务器',
+  'report.value': '取值',
+  'report.threshold': '阈值',
+  'report.raisedAt': '开始时间',
+  'report.alertState': '处理状态',
+  'report.abnormalServers': '需关注的服务器',
+  'report.noAbnormalServers': '所有服务器正常',
+  'report.slot': 'U位',
+
+  // 气流模拟
+  'airflow.hint': '精密空调经地板下向机柜正面送风，机柜背面排风。模拟空调故障可估算各机柜进风温度的变化。',
+  'airflow.crac': '空调',
+  'airflow.load': '负载',
+  'airflow.supply': '送风温度',
+  'airflow.inlet': '进风',
+  'airflow.change': '变化',
+  'airflow.exhaust': '排风',
+  'airflow.failed': '（故障）',
+  'airflow.simulateFailure': '模拟故障',
+  'airflow.restore': '恢复',
+  'airflow.noCracs': '该机房没有精密空调',
+  'airflow.noCrac': '无',
+  'airflow.noRisk': '所有服务器的进风温度都在告警阈值以内',
+  'airflow.riskSummary': '进风温度超过阈值：告警 {warning} 台，故障 {error} 台（新增 {newly} 台）',
+  'airflow.riskTitle': '进风温度超限的服务器',
+  'airflow.newlyCrossed': '新增',
+  'airflow.fallback': '指定空调失效，由其他空调跨区送风',
+  'airflow.rackSummary': '进风 {inlet}（{delta}）| 排风 {exhaust} | 送风：{cracs}',
+
+  // 无障碍
+  'a11y.canvas': '机房三维视图。方向键浏览机柜，Enter 进入机柜或选中服务器，Esc 返回',
+  'a11y.infoPanel': '详细信息',
+  'a11y.rack': '{rack}，{count} 台服务器，告警 {warning}，故障 {error}',
+  'a11y.server': '{server}，{slot}U，{status}，温度 {temperature}',
+  'a11y.serverNoData': '{server}，{slot}U，无数据',
+  'a11y.serverSelected': '已选中 {server}',
+  'a11y.selectionCleared': '已取消选中',
+  'a11y.navigationCleared': '已退出键盘导航',
+  'a11y.statusChanged': '{server} 状态变为{status}',
+  'a11y.statusSummary': '{count} 台服务器状态变化：故障 {error}，告警 {warning}，恢复正常 {normal}',
+};
+
+export default messages;
@@ -1,17 +1,110 @@
 import * as THREE from 'three';
 import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls';
 import { DataCenter } from './DataCenter';
+import { ServerStatus } from './ServerStatus';
+import { DataCenterLayout, LayoutValidationError, RoomLayout, getLayoutDevices, loadLayout, parseLayout } from './Layout';
+import { CONNECTION_STATE_COLORS, ConnectionState, TelemetrySource } from './TelemetrySource';
+import { AlertEngine, AlertRule, DEFAULT_ALERT_RULES, loadAlertRules } from './AlertEngine';
+import { AlertPanel } from './AlertPanel';
+import { CameraController } from './CameraController';
+import { PlaybackController, SnapshotRecorder } from './Playback';
+import { PlaybackPanel } from './PlaybackPanel';
+import { SearchPanel } from './SearchPanel';
+import { StatsOverlay } from './StatsOverlay';
+import { SiteNavigator } from './SiteNavigator';
+import { CapacityPanel } from './CapacityPanel';
+import { AirflowPanel } from './AirflowPanel';
+import { DashboardPanel } from './DashboardPanel';
+import { FloorPlanView } from './FloorPlanView';
+import { AssetStore } from './Asset';
+import { AssetImportDialog } from './AssetImportDialog';
+import { LayoutEditor } from './LayoutEditor';
+import { LayoutEditController } from './LayoutEditController';
+import { Toolbar } from './Toolbar';
+import { ViewpointStore, createDefaultViewpoints } from './Viewpoints';
+import { DeepLink, formatDeepLink, parseDeepLink } from './DeepLink';
+import { DEFAULT_KIOSK_CONFIG, KioskConfig, KioskTour, createKioskStops, parseKioskConfig } from './Kiosk';
+import { KioskOverlay } from './KioskOverlay';
+import { METRIC_KEYS, MetricKey, formatMetric, getMetricScaleStops } from './Metrics';
+import { DEFAULT_TELEMETRY_CONFIG, TelemetryConfig, createTelemetrySource, loadTelemetryConfig } from './TelemetryConfig';
+import { LOCALES, Locale, i18n, t } from './I18n';
+import { KeyboardNavigator, NavigationCursor } from './KeyboardNavigator';
+import { Announcer, StatusAnnouncer } from './Announcer';
+import { palette } from './Palette';
+import { PointerInput, PointerKind } from './PointerInput';
+import { RenderQuality } from './RenderQuality';
+import { collectServerRows, downloadBlob, exportServersCsv, exportServersJson, getExportStamp, renderRoomReport } from './Export';
+import { captureScreenshot, exportGltf } from './SceneExport';
+import { summarizeRoom } from './Dashboard';
+import { escapeHtml } from './Html';
+import defaultLayout from './layouts/default.json';
+
+// 图形上下文丢失后等待浏览器恢复的时长，展台模式下超时则自动重新加载页面
+const CONTEXT_RESTORE_TIMEOUT_MS = 10000;
+
+const EXPORT_FORMATS = ['screenshot', 'serversCsv', 'serversJson', 'report', 'gltf'] as const;
+type ExportFormat = typeof EXPORT_FORMATS[number];
 
 class App {
   private scene: THREE.Scene;
   private camera: THREE.PerspectiveCamera;
   private renderer: THREE.WebGLRenderer;
+  private renderQuality: RenderQuality;
   private controls: OrbitControls;
+  private cameraController: CameraController;
+  private alertEngine: AlertEngine;
+  private serverStatus: ServerStatus;
   private dataCenter: DataCenter;
+  private telemetrySource: TelemetrySource;
+  private telemetryConfig: TelemetryConfig;
+  private recorder: SnapshotRecorder;
+  private playback: PlaybackController;
+  private searchPanel: SearchPanel;
+  private statsOverlay: StatsOverlay;
+  private capacityPanel: CapacityPanel;
+  private airflowPanel: AirflowPanel;
+  private dashboardPanel: DashboardPanel;
+  private floorPlan: FloorPlanView;
+  private assets: AssetStore;
+  private assetImportDialog: AssetImportDialog;
+  private layoutEditor: LayoutEditor;
+  private layoutEditController: LayoutEditController;
+  private toolbar: Toolbar;
+  private viewpoints: ViewpointStore;
+  private renderViewpoints: (selectedId?: string) => void = () => {};
+  private navigator: SiteNavigator;
+  private layout: DataCenterLayout;
+  private roomId: string;
+  private serverRooms: Map<string, string> = new Map();
+  private interpolationMs: number;
+  private kioskConfig: KioskConfig;
+  private kioskOverlay: KioskOverlay;
+  private kioskTour: KioskTour | null = null;
+  private contextRestoreTimer: number | null = null;
+  private keyboardNavigator: KeyboardNavigator;
+  private navigationRackId: string | null = null;
+  private announcer: Announcer;
+  private statusAnnouncer: StatusAnnouncer;
+  // 工具栏开关状态，切换机房后应用到新场景
+  private viewState = {
+    heatmapMetric: 'temperature' as MetricKey,
+    floorHeatmap: false,
+    slice: false,
+    slicePosition: 0.5,
+    faultMode: false,
+    warranty: false,
+  };
   private raycaster: THREE.Raycaster;
   private mouse: THREE.Vector2;
 
-  constructor() {
+  constructor(
+    layout: DataCenterLayout,
+    telemetryConfig: TelemetryConfig,
+    alertRules: AlertRule[],
+    kioskConfig: KioskConfig | null = null
+  ) {
+    this.layout = layout;
+    this.telemetryConfig = telemetryConfig;
     // 创建场景
     this.scene = new THREE.Scene();
     this.scene.background = new THREE.Color(0x1a1a1a);
@@ -28,12 +121,17 @@ class App {
     // 创建渲染器
     this.renderer = new THREE.WebGLRenderer({ antialias: true });
     this.renderer.setSize(window.innerWidth, window.innerHeight);
-    this.renderer.setPixelRatio(window.devicePixelRatio);
+    this.renderQuality = new RenderQuality(this.renderer);
+    // 画布可获得焦点，读屏软件将方向键交给页面处理
+    this.renderer.domElement.tabIndex = 0;
+    this.renderer.domElement.setAttribute('role', 'application');
+    this.renderer.domElement.setAttribute('aria-label', t('a11y.canvas'));
     document.body.appendChild(this.renderer.domElement);
 
     // 添加轨道控制器
     this.controls = new OrbitControls(this.camera, this.renderer.domElement);
     this.controls.enableDamping = true;
+    this.cameraController = new CameraController(this.camera, this.controls);
 
     // 添加环境光和方向光
     const ambientLight = new THREE.AmbientLight(0xffffff, 0.5);
@@ -43,9 +141,124 @@ class App {
     directionalLight.position.set(5, 5, 5);
     this.scene.add(directionalLight);
 
-    // 创建数据中心
-    this.dataCenter = new DataCenter();
-    this.scene.add(this.dataCenter);
+    // 服务器状态覆盖全部机房，场景一次只加载一个机房（初始为第一个）
+    this.alertEngine = new AlertEngine(alertRules);
+    const tickMs = telemetryConfig.tickMs ?? 1000;
+    this.interpolationMs = tickMs;
+    this.serverStatus = new ServerStatus(layout, this.alertEngine, {
+      staleAfterMs: telemetryConfig.staleAfterMs,
+      history: { rawIntervalMs: tickMs },
+    });
+    const devices = getLayoutDevices(layout);
+    devices.forEach(device => this.serverRooms.set(device.id, device.roomId));
+    this.assets = new AssetStore();
+    this.roomId = layout.rooms[0].id;
+    // 二维平面图与三维场景同步悬停、选中和过滤状态
+    this.floorPlan = new FloorPlanView(
+      document.body,
+      layout.rooms[0],
+      this.serverStatus,
+      this.alertEngine,
+      rackId => this.dataCenter.hoverRack(rackId),
+      this.focusRack.bind(this),
+      this.focusServer.bind(this)
+    );
+    this.dataCenter = this.createDataCenter(layout.rooms[0]);
+
+    // 连接遥测数据源
+    const serverIds = devices.map(device => device.id);
+    this.kioskOverlay = new KioskOverlay(document.body, this.alertEngine);
+    this.telemetrySource = this.connectTelemetry(serverIds);
+    this.serverStatus.start(tickMs);
+
+    // 录制实时数据，供事后回放
+    this.recorder = new SnapshotRecorder(this.serverStatus);
+    this.playback = new PlaybackController(this.serverStatus);
+    new PlaybackPanel(document.body, this.playback, this.recorder, this.serverStatus);
+
+    // 告警面板，点击告警飞到对应服务器
+    new AlertPanel(document.body, this.alertEngine, alert => this.focusServer(alert.serverId));
+
+    // 搜索与过滤面板，过滤条件从 URL 的 filter 参数恢复
+    this.searchPanel = new SearchPanel(document.body, this.dataCenter, this.serverStatus, this.focusServer.bind(this));
+
+    // 工具栏
+    this.toolbar = new Toolbar(document.body);
+    this.createHeatmapControls();
+    this.toolbar.addToggle(t('toolbar.faultMode'), active => {
+      this.viewState.faultMode = active;
+      this.dataCenter.setFaultMode(active);
+    });
+    this.viewpoints = new ViewpointStore(layout.rooms[0].id, createDefaultViewpoints(layout.rooms[0]));
+    this.createViewpointControls();
+    this.statsOverlay = new StatsOverlay(document.body, this.renderer, this.dataCenter);
+    this.toolbar.addToggle(t('toolbar.stats'), active => this.statsOverlay.setVisible(active));
+    this.capacityPanel = new CapacityPanel(document.body, this.dataCenter, this.serverStatus, this.focusRack.bind(this));
+    this.toolbar.addToggle(t('toolbar.capacity'), active => this.capacityPanel.setVisible(active));
+    this.airflowPanel = new AirflowPanel(
+      document.body,
+      this.dataCenter,
+      this.serverStatus,
+      this.focusRack.bind(this),
+      this.focusServer.bind(this)
+    );
+    this.toolbar.addToggle(t('toolbar.airflow'), active => this.airflowPanel.setVisible(active));
+    this.dashboardPanel = new DashboardPanel(
+      document.body,
+      layout.rooms[0],
+      this.serverStatus,
+      this.focusRack.bind(this),
+      this.focusServer.bind(this)
+    );
+    this.toolbar.addToggle(t('toolbar.dashboard'), active => this.dashboardPanel.setVisible(active));
+    this.toolbar.addToggle(t('toolbar.floorPlan'), active => this.floorPlan.setVisible(active));
+    this.assetImportDialog = new AssetImportDialog(document.body, this.assets, serverIds);
+    this.toolbar.addButton(t('toolbar.importAssets'), () => this.assetImportDialog.open());
+    this.toolbar.addToggle(t('toolbar.warranty'), active => {
+      this.viewState.warranty = active;
+      this.dataCenter.setWarrantyHighlight(active);
+    });
+    this.createExportControls();
+
+    // 布局编辑：每次修改后同步设备列表，并用新布局重建对应机房的场景
+    this.layoutEditor = new LayoutEditor(layout);
+    this.layoutEditor.on('changed', (editedLayout, roomId) => {
+      this.layout = editedLayout;
+      this.syncDevices();
+      this.loadRoom(roomId, true);
+    });
+    this.layoutEditController = new LayoutEditController(
+      document.body,
+      this.layoutEditor,
+      this.scene,
+      this.camera,
+      this.renderer.domElement,
+      this.controls,
+      this.dataCenter,
+      this.roomId
+    );
+    this.toolbar.addToggle(t('toolbar.editLayout'), active => this.layoutEditController.setActive(active));
+
+    // 展台模式：隐藏操作界面并自动巡视，按 Esc 退出
+    this.kioskConfig = kioskConfig ?? DEFAULT_KIOSK_CONFIG;
+    this.toolbar.addButton(t('toolbar.kiosk'), () => this.setKioskMode(true));
+    this.createLocaleControls();
+
+    // 无障碍：键盘浏览机柜和服务器，状态变化通过实时区域播报
+    this.announcer = new Announcer(document.body);
+    this.statusAnnouncer = new StatusAnnouncer(this.announcer, this.serverStatus);
+    this.keyboardNavigator = new KeyboardNavigator(
+      layout.rooms[0],
+      this.onNavigationMove.bind(this),
+      this.onNavigationSelect.bind(this)
+    );
+    this.createAccessibilityControls();
+
+    // 站点导航，点击机房切换场景
+    this.navigator = new SiteNavigator(document.body, layout, this.serverStatus, roomId => {
+      if (this.loadRoom(roomId)) this.updateHash({ kind: 'room', room: roomId });
+    });
+    this.navigator.setCurrentRoom(this.roomId);
 
     // 添加坐标轴辅助
     const axesHelper = new THREE.AxesHelper(5);
@@ -57,50 +270,578 @@ class App {
 
     // 添加事件监听
     window.addEventListener('resize', this.onWindowResize.bind(this));
-    window.addEventListener('mousemove', this.onMouseMove.bind(this));
-    window.addEventListener('click', this.onClick.bind(this));
+    // 鼠标、触屏和触控笔统一处理：鼠标悬停显示信息，点按选中，触屏长按展开详情，双击定位
+    new PointerInput(this.renderer.domElement, {
+      onHover: this.onPointerHover.bind(this),
+      onTap: this.onTap.bind(this),
+      onLongPress: this.onLongPress.bind(this),
+      onDoubleTap: this.onDoubleTap.bind(this),
+    });
+    // 窄屏上信息面板显示为底部抽屉，点按展开或收起
+    document.getElementById('info')?.addEventListener('click', () => this.setInfoExpanded(!this.isInfoExpanded()));
+    window.addEventListener('hashchange', () => this.navigateTo(parseDeepLink(window.location.hash)));
+    window.addEventListener('keydown', this.onKeyDown.bind(this));
+    this.renderer.domElement.addEventListener('webglcontextlost', this.onContextLost.bind(this));
+    this.renderer.domElement.addEventListener('webglcontextrestored', this.onContextRestored.bind(this));
+
+    // 按地址栏深链接定位初始视角；展台模式从第一个巡视点开始
+    this.navigateTo(parseDeepLink(window.location.hash));
+    if (kioskConfig) this.setKioskMode(true);
 
     // 开始动画循环
     this.animate();
   }
 
+  private createDataCenter(room: RoomLayout): DataCenter {
+    const dataCenter = new DataCenter(room, this.serverStatus, this.alertEngine, {
+      interpolationMs: this.interpolationMs,
+      onServerSelected: this.onServerSelected.bind(this),
+      onRackHovered: rackId => this.floorPlan.setHoveredRack(rackId),
+      onFilterChanged: matchingIds => this.floorPlan.setFilter(matchingIds),
+      assets: this.assets,
+      infoElement: document.getElementById('info'),
+    });
+    dataCenter.setHeatmapMetric(this.viewState.heatmapMetric);
+    dataCenter.setWarrantyHighlight(this.viewState.warranty);
+    dataCenter.setFloorHeatmapVisible(this.viewState.floorHeatmap);
+    dataCenter.setHeatmapSlicePosition(this.viewState.slicePosition);
+    dataCenter.setHeatmapSliceVisible(this.viewState.slice);
+    dataCenter.setFaultMode(this.viewState.faultMode);
+    this.scene.add(dataCenter);
+    return dataCenter;
+  }
+
+  /**
+   * 切换到另一个机房：释放当前场景后创建新机房的场景，面板和开关状态保留；
+   * reload 为 true 时即使是当前机房也重建（布局编辑后），视角保持不变
+   */
+  private loadRoom(roomId: string, reload: boolean = false): boolean {
+    if (roomId === this.roomId && !reload) return true;
+    const room = this.layout.rooms.find(item => item.id === roomId);
+    if (!room) return false;
+
+    const switched = room.id !== this.roomId;
+    this.scene.remove(this.dataCenter);
+    this.dataCenter.dispose();
+    this.roomId = room.id;
+    this.dataCenter = this.createDataCenter(room);
+    this.searchPanel.setDataCenter(this.dataCenter);
+    this.statsOverlay.setDataCenter(this.dataCenter);
+    this.capacityPanel.setDataCenter(this.dataCenter);
+    this.airflowPanel.setDataCenter(this.dataCenter);
+    this.dashboardPanel.setRoom(room);
+    this.floorPlan.setRoom(room);
+    this.layoutEditController.setDataCenter(this.dataCenter, room.id);
+    this.navigator.setCurrentRoom(room.id);
+    this.keyboardNavigator.setRoom(room);
+    if (!switched) return true;
+
+    this.viewpoints = new ViewpointStore(room.id, createDefaultViewpoints(room));
+    this.renderViewpoints();
+    const overview = this.viewpoints.get('overview');
+    if (overview) {
+      this.cameraController.flyTo(new THREE.Vector3(...overview.position), new THREE.Vector3(...overview.target));
+    }
+    return true;
+  }
+
+  private connectTelemetry(serverIds: string[]): TelemetrySource {
+    const source = createTelemetrySource(this.telemetryConfig, serverIds);
+    source.onStateChange(this.showConnectionState.bind(this));
+    source.start(samples => this.serverStatus.applySamples(samples));
+    return source;
+  }
+
+  // 布局编辑后，服务器状态、告警、机房索引和数据源订阅与新布局中的设备保持一致
+  private syncDevices(): void {
+    const devices = getLayoutDevices(this.layout);
+    const serverIds = devices.map(device => device.id);
+    this.serverRooms = new Map(devices.map(device => [device.id, device.roomId]));
+    const changed = this.serverStatus.setLayout(this.layout);
+    this.navigator.setLayout(this.layout);
+    this.assetImportDialog.setServerIds(serverIds);
+    if (!changed) return;
+    // 设备有增删时按新的设备列表重新连接数据源
+    this.telemetrySource.stop();
+    this.telemetrySource = this.connectTelemetry(serverIds);
+  }
+
+  // 按 ID 或名称查找机房
+  private resolveRoom(ref: string): string | undefined {
+    return (this.layout.rooms.find(room => room.id === ref) ?? this.layout.rooms.find(room => room.name === ref))?.id;
+  }
+
+  private createHeatmapControls(): void {
+    // 服务器机身、机房热力图和远景机柜按所选指标着色
+    const metricSelect = document.createElement('select');
+    metricSelect.title = t('toolbar.heatmapMetric');
+    metricSelect.innerHTML = METRIC_KEYS
+      .map(metric => `<option value="${metric}">${t(`metric.${metric}`)}</option>`)
+      .join('');
+    metricSelect.addEventListener('change', () => {
+      this.viewState.heatmapMetric = metricSelect.value as MetricKey;
+      this.dataCenter.setHeatmapMetric(this.viewState.heatmapMetric);
+    });
+    this.toolbar.addElement(metricSelect);
+
+    this.toolbar.addToggle(t('toolbar.floorHeatmap'), active => {
+      this.viewState.floorHeatmap = active;
+      this.dataCenter.setFloorHeatmapVisible(active);
+    });
+
+    const slicePosition = document.createElement('input');
+    slicePosition.type = 'range';
+    slicePosition.min = '0';
+    slicePosition.max = '1';
+    slicePosition.step = '0.01';
+    slicePosition.value = '0.5';
+    slicePosition.title = t('toolbar.slicePosition');
+    slicePosition.style.display = 'none';
+    slicePosition.addEventListener('input', () => {
+      this.viewState.slicePosition = Number(slicePosition.value);
+      this.dataCenter.setHeatmapSlicePosition(this.viewState.slicePosition);
+    });
+
+    this.toolbar.addToggle(t('toolbar.slice'), active => {
+      slicePosition.style.display = active ? 'inline-block' : 'none';
+      this.viewState.slice = active;
+      this.dataCenter.setHeatmapSlicePosition(this.viewState.slicePosition);
+      this.dataCenter.setHeatmapSliceVisible(active);
+    });
+    this.toolbar.addElement(slicePosition);
+  }
+
+  private createViewpointControls(): void {
+    const select = document.createElement('select');
+    select.title = t('toolbar.viewpoint');
+    const render = (selectedId: string = '') => {
+      select.innerHTML = `<option value="">${t('toolbar.viewpointPlaceholder')}</option>` + this.viewpoints.getAll()
+        .map(viewpoint => `<option value="${escapeHtml(viewpoint.id)}">${viewpoint.builtin ? '' : '★ '}${escapeHtml(viewpoint.name)}</option>`)
+        .join('');
+      select.value = selectedId;
+      removeButton.disabled = !selectedId || !!this.viewpoints.get(selectedId)?.builtin;
+    };
+    select.addEventListener('change', () => {
+      render(select.value);
+      if (select.value) this.navigateTo({ kind: 'view', view: select.value });
+    });
+    this.toolbar.addElement(select);
+
+    this.toolbar.addButton(t('toolbar.saveViewpoint'), () => {
+      const name = window.prompt(t('toolbar.viewpointName'))?.trim();
+      if (!name) return;
+      const { position, target } = this.cameraController.getView();
+      render(this.viewpoints.save(name, position, target).id);
+    });
+    const removeButton = this.toolbar.addButton(t('toolbar.removeViewpoint'), () => {
+      if (!select.value) return;
+      this.viewpoints.remove(select.value);
+      render();
+    });
+    this.renderViewpoints = render;
+    render();
+  }
+
+  // 导出当前视图截图、全部服务器数据、当前机房报告或三维模型
+  private createExportControls(): void {
+    const select = document.createElement('select');
+    select.title = t('toolbar.export');
+    select.innerHTML = `<option value="">${t('toolbar.export')}</option>` + EXPORT_FORMATS
+      .map(format => `<option value="${format}">${t(`export.${format}`)}</option>`)
+      .join('');
+    select.addEventListener('change', () => {
+      const format = select.value as ExportFormat | '';
+      select.value = '';
+      if (!format) return;
+      this.exportAs(format).catch(error => {
+        console.error(error);
+        window.alert(t('export.failed', { error: error instanceof Error ? error.message : String(error) }));
+      });
+    });
+    this.toolbar.addElement(select);
+  }
+
+  private async exportAs(format: ExportFormat): Promise<void> {
+    const room = this.layout.rooms.find(item => item.id === this.roomId);
+    if (!room) return;
+    const stamp = getExportStamp();
+    switch (format) {
+      case 'screenshot': {
+        const metric = this.viewState.heatmapMetric;
+        const blob = await captureScreenshot(this.renderer, this.scene, this.camera, {
+          title: room.name,
+          time: Date.now(),
+          metric,
+          colorScale: palette.colorScale(metric),
+          stops: getMetricScaleStops(metric, this.alertEngine.getRule(metric, { id: '', rackId: '', brand: '' })),
+        });
+        downloadBlob(blob, `${room.id}-${stamp}.png`);
+        break;
+      }
+      case 'serversCsv': {
+        // 带 BOM，Excel 打开时能正确识别 UTF-8 中文
+        const csv = exportServersCsv(collectServerRows(this.layout, this.serverStatus));
+        downloadBlob(new Blob(['\ufeff', csv], { type: 'text/csv' }), `servers-${stamp}.csv`);
+        break;
+      }
+      case 'serversJson': {
+        const json = exportServersJson(collectServerRows(this.layout, this.serverStatus));
+        downloadBlob(new Blob([json], { type: 'application/json' }), `servers-${stamp}.json`);
+        break;
+      }
+      case 'report': {
+        const html = renderRoomReport(
+          room,
+          summarizeRoom(room, this.serverStatus),
+          collectServerRows(this.layout, this.serverStatus),
+          this.alertEngine.getAlerts()
+        );
+        const blob = new Blob([html], { type: 'text/html' });
+        // 在新窗口打开以便打印或另存为 PDF，被浏览器拦截时改为下载
+        const url = URL.createObjectURL(blob);
+        if (!window.open(url, '_blank')) downloadBlob(blob, `${room.id}-report-${stamp}.html`);
+        window.setTimeout(() => URL.revokeObjectURL(url), 60000);
+        break;
+      }
+      case 'gltf':
+        downloadBlob(await exportGltf(this.dataCenter), `${room.id}.glb`);
+        break;
+    }
+  }
+
+  // 界面语言切换（重新加载页面）和温度单位切换（即时生效）
+  private createLocaleControls(): void {
+    const select = document.createElement('select');
+    select.title = t('toolbar.language');
+    select.innerHTML = LOCALES
+      .map(({ locale, label }) => `<option value="${locale}" ${locale === i18n.locale ? 'selected' : ''}>${label}</option>`)
+      .join('');
+    select.addEventListener('change', () => i18n.setLocale(select.value as Locale));
+    this.toolbar.addElement(select);
+
+    this.toolbar.addToggle(
+      '°F',
+      active => i18n.setTemperatureUnit(active ? 'fahrenheit' : 'celsius'),
+      i18n.temperatureUnit === 'fahrenheit'
+    );
+  }
+
+  private createAccessibilityControls(): void {
+    this.toolbar.addToggle(
+      t('toolbar.accessiblePalette'),
+      active => palette.setName(active ? 'accessible' : 'default'),
+      palette.name === 'accessible'
+    );
+    this.toolbar.addToggle(t('toolbar.announcements'), active => this.statusAnnouncer.setEnabled(active), true);
+  }
+
+  /**
+   * 全局快捷键：Esc 退出展台模式或取消选中的服务器，其余按键交给键盘导航；
+   * 焦点在输入框、按钮等控件上，或处于展台、布局编辑模式时不处理导航
+   */
+  private onKeyDown(event: KeyboardEvent): void {
+    if (event.key === 'Escape' && this.kioskTour) {
+      this.setKioskMode(false);
+      return;
+    }
+    if (this.kioskTour || this.layoutEditController.isActive) return;
+    if (event.altKey || event.ctrlKey || event.metaKey) return;
+    const target = event.target;
+    if (target instanceof HTMLElement && target.closest('input, select, textarea, button, summary, a, [contenteditable="true"]')) return;
+
+    // 键盘光标停在服务器上时 Esc 先退回机柜，否则先取消选中
+    if (event.key === 'Escape' && !this.keyboardNavigator.getCursor()?.serverId && this.dataCenter.clearSelection()) {
+      this.floorPlan.setSelectedServer(null);
+      this.updateHash({ kind: 'room', room: this.roomId });
+      this.announcer.announce(t('a11y.selectionCleared'));
+      event.preventDefault();
+      return;
+    }
+    if (this.keyboardNavigator.handleKey(event.key)) event.preventDefault();
+  }
+
+  // 键盘光标移动：同步三维场景和平面图的悬停状态，切换机柜时镜头跟随，并播报光标位置
+  private onNavigationMove(cursor: NavigationCursor | null): void {
+    this.floorPlan.setHoveredRack(cursor?.rackId ?? null);
+    if (!cursor) {
+      this.dataCenter.hoverRack(null);
+      this.announcer.announce(t('a11y.navigationCleared'));
+      return;
+    }
+    const rackLayout = this.dataCenter.getRackLayout(cursor.rackId);
+    if (!rackLayout) return;
+    if (cursor.rackId !== this.navigationRackId) this.focusRack(cursor.rackId);
+    this.navigationRackId = cursor.rackId;
+    const rack = t('rack.label', { rack: rackLayout.name ?? rackLayout.id });
+
+    const device = rackLayout.devices.find(item => item.id === cursor.serverId);
+    if (!device) {
+      this.dataCenter.hoverRack(cursor.rackId);
+      const statuses = rackLayout.devices.map(item => this.serverStatus.getServerData(item.id)?.status);
+      this.announcer.announce(t('a11y.rack', {
+        rack,
+        count: rackLayout.devices.length,
+        warning: statuses.filter(status => status === 'warning').length,
+        error: statuses.filter(status => status === 'error').length,
+      }));
+      return;
+    }
+    this.dataCenter.hoverServer(device.id);
+    const data = this.serverStatus.getServerData(device.id);
+    this.announcer.announce(data && !data.stale
+      ? t('a11y.server', {
+        server: device.id,
+        slot: device.slot,
+        status: t(`status.${data.status}`),
+        temperature: formatMetric('temperature', data.temperature),
+      })
+      : t('a11y.serverNoData', { server: device.id, slot: device.slot }));
+  }
+
+  private onNavigationSelect(serverId: string): void {
+    this.focusServer(serverId);
+    this.announcer.announce(t('a11y.serverSelected', { server: serverId }));
+  }
+
+  /**
+   * 进入或退出展台模式：隐藏工具栏和各面板，显示时钟、连接状态和告警字幕，
+   * 按配置轮流巡视视角或机柜，出现故障服务器时锁定到该服务器直到恢复
+   */
+  private setKioskMode(active: boolean): void {
+    if (active === !!this.kioskTour) return;
+    document.body.classList.toggle('kiosk', active);
+    this.kioskOverlay.setVisible(active);
+    if (!active) {
+      this.kioskTour?.stop();
+      this.kioskTour = null;
+      return;
+    }
+
+    this.kioskOverlay.setConnectionState(this.telemetrySource.state, this.telemetrySource.name);
+    this.kioskOverlay.setStatus('');
+    const tour = new KioskTour(
+      createKioskStops(this.layout, this.kioskConfig),
+      this.kioskConfig.intervalMs,
+      this.serverStatus,
+      link => {
+        this.navigateTo(link);
+        const { index, total } = tour.position;
+        this.kioskOverlay.setStatus(t('kiosk.touring', { index: index + 1, total, stop: this.describeKioskStop(link) }));
+      },
+      serverId => {
+        if (!serverId) return;
+        this.focusServer(serverId);
+        this.kioskOverlay.setStatus(t('kiosk.pinned', { server: serverId }), true);
+      }
+    );
+    this.kioskTour = tour;
+    tour.start();
+  }
+
+  private describeKioskStop(link: DeepLink): string {
+    const roomName = this.layout.rooms.find(room => room.id === this.roomId)?.name ?? this.roomId;
+    switch (link.kind) {
+      case 'view':
+        return `${roomName} ${this.viewpoints.get(link.view)?.name ?? link.view}`;
+      case 'rack':
+        return `${roomName} ${t('rack.label', { rack: this.dataCenter.getRackLayout(link.rack)?.name ?? link.rack })}`;
+      default:
+        return roomName;
+    }
+  }
+
+  // three.js 已阻止默认行为，浏览器恢复上下文后会重新上传全部几何体和纹理
+  private onContextLost(): void {
+    console.warn('WebGL 上下文丢失，等待恢复');
+    this.kioskOverlay.setNotice(t('kiosk.contextLost'));
+    if (this.contextRestoreTimer !== null) window.clearTimeout(this.contextRestoreTimer);
+    this.contextRestoreTimer = window.setTimeout(() => {
+      // 无人值守时无法手动刷新；地址栏保留了展台参数和当前位置
+      if (this.kioskTour) window.location.reload();
+    }, CONTEXT_RESTORE_TIMEOUT_MS);
+  }
+
+  private onContextRestored(): void {
+    if (this.contextRestoreTimer !== null) {
+      window.clearTimeout(this.contextRestoreTimer);
+      this.contextRestoreTimer = null;
+    }
+    this.kioskOverlay.setNotice(null);
+  }
+
   private onWindowResize(): void {
     this.camera.aspect = window.innerWidth / window.innerHeight;
     this.camera.updateProjectionMatrix();
     this.renderer.setSize(window.innerWidth, window.innerHeight);
+    this.renderQuality.handleResize();
   }
 
-  private onMouseMove(event: MouseEvent): void {
-    // 计算鼠标在归一化设备坐标中的位置
-    this.mouse.x = (event.clientX / window.innerWidth) * 2 - 1;
-    this.mouse.y = -(event.clientY / window.innerHeight) * 2 + 1;
+  private updateRaycaster(x: number, y: number): void {
+    // 计算指针在归一化设备坐标中的位置
+    this.mouse.x = (x / window.innerWidth) * 2 - 1;
+    this.mouse.y = -(y / window.innerHeight) * 2 + 1;
 
     // 更新射线投射器
     this.raycaster.setFromCamera(this.mouse, this.camera);
+  }
 
-    // 处理鼠标移动事件
-    this.dataCenter.handleMouseMove(this.raycaster, this.camera);
+  private onPointerHover(x: number, y: number): void {
+    this.updateRaycaster(x, y);
+    this.dataCenter.handleMouseMove(this.raycaster);
   }
 
-  private onClick(event: MouseEvent): void {
-    // 计算鼠标在归一化设备坐标中的位置
-    this.mouse.x = (event.clientX / window.innerWidth) * 2 - 1;
-    this.mouse.y = -(event.clientY / window.innerHeight) * 2 + 1;
+  private onTap(x: number, y: number, kind: PointerKind): void {
+    // 编辑布局时点击用于选择机柜，由编辑控制器处理
+    if (this.layoutEditController.isActive) return;
+    this.updateRaycaster(x, y);
+    // 触屏没有悬停，点按时同时显示所点机柜或服务器的信息
+    if (kind !== 'mouse') this.dataCenter.handleMouseMove(this.raycaster);
+    this.dataCenter.handleClick(this.raycaster);
+  }
 
-    // 更新射线投射器
-    this.raycaster.setFromCamera(this.mouse, this.camera);
+  // 长按只查看详情：显示信息并展开底部抽屉，不改变选中的服务器和视角
+  private onLongPress(x: number, y: number): void {
+    if (this.layoutEditController.isActive) return;
+    this.updateRaycaster(x, y);
+    if (!this.dataCenter.pickObject(this.raycaster)) return;
+    this.dataCenter.handleMouseMove(this.raycaster);
+    this.setInfoExpanded(true);
+    navigator.vibrate?.(20);
+  }
+
+  private onDoubleTap(x: number, y: number): void {
+    this.updateRaycaster(x, y);
+
+    // 双击服务器或机柜，相机飞到其正面
+    const picked = this.dataCenter.pickObject(this.raycaster);
+    if (picked?.serverId) {
+      this.focusServer(picked.serverId);
+    } else if (picked) {
+      this.focusRack(picked.rackId);
+    }
+  }
+
+  private isInfoExpanded(): boolean {
+    return document.getElementById('info')?.classList.contains('expanded') ?? false;
+  }
+
+  private setInfoExpanded(expanded: boolean): void {
+    document.getElementById('info')?.classList.toggle('expanded', expanded);
+  }
+
+  private navigateTo(link: DeepLink | null): void {
+    if (!link) return;
+    if (link.room) {
+      const roomId = this.resolveRoom(link.room);
+      if (!roomId) return;
+      this.loadRoom(roomId);
+    }
+    if (link.kind === 'room') {
+      this.updateHash(link);
+      return;
+    }
+    if (link.kind === 'view') {
+      const viewpoint = this.viewpoints.get(link.view);
+      if (!viewpoint) return;
+      this.cameraController.flyTo(new THREE.Vector3(...viewpoint.position), new THREE.Vector3(...viewpoint.target));
+      this.updateHash(link);
+      return;
+    }
+    const rackId = this.dataCenter.resolveRack(link.rack);
+    if (!rackId) return;
+    const serverId = link.kind === 'server' ? this.dataCenter.resolveServer(rackId, link.server) : undefined;
+    if (serverId) {
+      this.focusServer(serverId);
+    } else {
+      this.focusRack(rackId);
+    }
+  }
+
+  // 用 replaceState 更新 hash，不产生历史记录，也不会触发 hashchange；链接总是带上当前机房
+  private updateHash(link: DeepLink): void {
+    window.history.replaceState(window.history.state, '', formatDeepLink({ ...link, room: this.roomId }));
+  }
 
-    // 处理点击事件
-    this.dataCenter.handleClick(this.raycaster, this.camera);
+  private onServerSelected(serverId: string): void {
+    this.floorPlan.setSelectedServer(serverId);
+    const data = this.serverStatus.getServerData(serverId);
+    if (data) this.updateHash({ kind: 'server', rack: data.rackId, server: serverId });
+  }
+
+  private focusRack(rackId: string): void {
+    const focus = this.dataCenter.getRackFocus(rackId);
+    if (!focus) return;
+    this.cameraController.focusOn(focus.target, focus.normal, 3);
+    this.updateHash({ kind: 'rack', rack: rackId });
+  }
+
+  // 服务器可能位于其他机房（例如从告警面板定位），先切换机房
+  private focusServer(serverId: string): void {
+    const roomId = this.serverRooms.get(serverId);
+    if (roomId) this.loadRoom(roomId);
+    const focus = this.dataCenter.getServerFocus(serverId);
+    if (!focus) return;
+    this.cameraController.focusOn(focus.target, focus.normal);
+    this.dataCenter.selectServer(serverId);
+  }
+
+  private showConnectionState(state: ConnectionState): void {
+    this.kioskOverlay.setConnectionState(state, this.telemetrySource.name);
+    const element = document.getElementById('connection');
+    if (!element) return;
+    element.innerHTML = `
+      <span style="color: ${CONNECTION_STATE_COLORS[state]};">●</span> ${this.telemetrySource.name}: ${t(`connection.${state}`)}
+    `;
   }
 
   private animate(): void {
     requestAnimationFrame(this.animate.bind(this));
+    const time = performance.now();
+    this.playback.update(time);
+    this.cameraController.update(time);
     this.controls.update();
-    this.dataCenter.update();
+    this.dataCenter.update(time, this.camera);
     this.renderer.render(this.scene, this.camera);
+    this.renderQuality.update(time);
+    this.statsOverlay.update(time);
+  }
+}
+
+function showStartupError(error: unknown): void {
+  const infoElement = document.getElementById('info');
+  if (!infoElement) return;
+  const messages = error instanceof LayoutValidationError
+    ? error.errors
+    : [error instanceof Error ? error.message : String(error)];
+  infoElement.innerHTML = `
+    <div style="background: rgba(0, 0, 0, 0.7); padding: 10px; border-radius: 5px;">
+      <h3 style="margin: 0 0 10px 0; color: #ff4444;">${t('app.layoutLoadFailed')}</h3>
+      ${messages.map(message => `<p>${escapeHtml(message)}</p>`).join('')}
+    </div>
+  `;
+}
+
+// 加载布局文件（?layout=<url>）、遥测配置（?telemetry=<url>）和告警规则（?rules=<url>），然后启动应用；
+// 界面语言（?lang=zh-CN|en-US）见 I18n；展台模式（?kiosk）见 parseKioskConfig；过滤条件（?filter=<表达式>）由搜索面板读取，#/room/<机房>/rack/<机柜>/server/<服务器> 等深链接由 App 处理
+async function bootstrap(): Promise<void> {
+  document.documentElement.lang = i18n.locale;
+  document.title = t('app.title');
+  const infoElement = document.getElementById('info');
+  if (infoElement) {
+    infoElement.textContent = t('app.infoPlaceholder');
+    infoElement.setAttribute('aria-label', t('a11y.infoPanel'));
   }
+  const params = new URLSearchParams(window.location.search);
+  const layoutUrl = params.get('layout');
+  const telemetryUrl = params.get('telemetry');
+  const layout = layoutUrl ? await loadLayout(layoutUrl) : parseLayout(defaultLayout);
+  const rulesUrl = params.get('rules');
+  const telemetryConfig = telemetryUrl ? await loadTelemetryConfig(telemetryUrl) : DEFAULT_TELEMETRY_CONFIG;
+  const alertRules = rulesUrl ? await loadAlertRules(rulesUrl) : DEFAULT_ALERT_RULES;
+  new App(layout, telemetryConfig, alertRules, parseKioskConfig(params));
 }
 
-// 启动应用
-new App(); 
\ No newline at end of file
+bootstrap().catch(error => {
+  console.error(error);
+  showStartupError(error);
+});
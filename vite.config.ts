@@ -1,12 +1,32 @@
 import { defineConfig } from 'vite';
 
-export default defineConfig({
-  server: {
-    port: 3000,
-    open: true,
-  },
-  build: {
-    outDir: 'dist',
-    assetsDir: 'assets',
-  },
-}); 
\ No newline at end of file
+export default defineConfig(({ mode }) => {
+  // 库模式：npm run build:lib，输出可嵌入的 ES 模块，three 不打包；类型声明由 tsconfig.lib.json 生成
+  if (mode === 'lib') {
+    return {
+      publicDir: false,
+      build: {
+        outDir: 'dist/lib',
+        lib: {
+          entry: 'src/index.ts',
+          formats: ['es'],
+          fileName: 'datacenter-viewer',
+        },
+        rollupOptions: {
+          external: [/^three(\/.*)?$/],
+        },
+      },
+    };
+  }
+
+  return {
+    server: {
+      port: 3000,
+      open: true,
+    },
+    build: {
+      outDir: 'dist',
+      assetsDir: 'assets',
+    },
+  };
+});